@@ -0,0 +1,5 @@
+import { RequestListener } from 'http';
+
+// The gateway's express app, loaded by tests without listening
+declare const app: RequestListener;
+export = app;
@@ -1,12 +1,151 @@
 const express = require('express');
 const cors = require('cors');
 const fetch = require('node-fetch');
+const fs = require('fs');
+const path = require('path');
+
+// Loads KEY=value lines of the project's .env without overriding variables already set
+const loadEnvFile = (filePath) => {
+  if (!fs.existsSync(filePath)) return;
+  fs.readFileSync(filePath, 'utf8').split(/\r?\n/).forEach(line => {
+    const match = line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/);
+    if (!match || process.env[match[1]] !== undefined) return;
+    process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+  });
+};
+
+loadEnvFile(path.resolve(__dirname, '..', '.env'));
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+// Listening on localhost only: anyone reaching the gateway spends the keys it holds
+const HOST = process.env.GATEWAY_HOST || '127.0.0.1';
+
+// Browser origins allowed to call the gateway; any localhost port by default
+const allowedOrigins = (process.env.GATEWAY_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+const isAllowedOrigin = (origin) => !origin
+  || (allowedOrigins.length > 0 ? allowedOrigins.includes(origin) : /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/.test(origin));
+
+// Retry-After is not a CORS-safelisted header: without exposing it the browser hides it from the client's backoff
+app.use(cors({ origin: (origin, callback) => callback(null, isAllowedOrigin(origin)), exposedHeaders: ['Retry-After'] }));
+// Prompts with many nodes and long histories exceed the default 100kb
+app.use(express.json({ limit: '20mb' }));
+
+const bearer = (key) => ({ 'Authorization': `Bearer ${key}` });
+
+// Hosted APIs reachable through /api/gateway/<upstream><path>. Keys never leave the server.
+const UPSTREAMS = {
+  'openai': {
+    baseUrl: () => 'https://api.openai.com',
+    key: () => process.env.OPENAI_API_KEY,
+    authHeaders: bearer,
+    paths: ['/v1/chat/completions', '/v1/images/generations', '/v1/models']
+  },
+  'openrouter': {
+    baseUrl: () => 'https://openrouter.ai/api',
+    key: () => process.env.OPENROUTER_API_KEY,
+    authHeaders: bearer,
+    paths: ['/v1/chat/completions', '/v1/images/generations', '/v1/models']
+  },
+  'deepseek': {
+    baseUrl: () => 'https://api.deepseek.com',
+    key: () => process.env.DEEPSEEK_API_KEY,
+    authHeaders: bearer,
+    paths: ['/chat/completions', '/models']
+  },
+  'anthropic': {
+    baseUrl: () => process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+    key: () => process.env.ANTHROPIC_API_KEY,
+    authHeaders: (key) => ({ 'x-api-key': key }),
+    paths: ['/v1/messages']
+  },
+  'openai-compatible': {
+    baseUrl: () => process.env.OPENAI_COMPATIBLE_BASE_URL,
+    // Optional: many self-hosted servers take no key
+    key: () => process.env.OPENAI_COMPATIBLE_KEY || '',
+    authHeaders: (key) => {
+      if (!key) return {};
+      const header = process.env.OPENAI_COMPATIBLE_AUTH_HEADER || 'Authorization';
+      return { [header]: header.toLowerCase() === 'authorization' ? `Bearer ${key}` : key };
+    },
+    paths: ['/chat/completions', '/models']
+  },
+  'novelai': {
+    baseUrl: () => 'https://image.novelai.net',
+    key: () => process.env.NOVELAI_API_KEY,
+    authHeaders: bearer,
+    paths: ['/ai/generate-image']
+  }
+};
+
+// Request headers passed on to the API; anything else (cookies, the browser's auth) is dropped
+const FORWARDED_REQUEST_HEADERS = ['content-type', 'accept', 'anthropic-version', 'anthropic-beta', 'http-referer', 'x-title', 'x-correlation-id', 'x-initiated-at'];
+// Response headers passed back; Retry-After drives the client's backoff
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'retry-after', 'cache-control'];
+
+app.all('/api/gateway/:upstream/*', async (req, res) => {
+  const upstream = UPSTREAMS[req.params.upstream];
+  const upstreamPath = `/${req.params[0]}`;
+
+  if (!isAllowedOrigin(req.headers.origin)) {
+    return res.status(403).json({ error: `Origin ${req.headers.origin} is not allowed; add it to GATEWAY_ALLOWED_ORIGINS` });
+  }
+  if (!upstream || !upstream.paths.includes(upstreamPath)) {
+    return res.status(404).json({ error: `Unknown gateway route: ${req.params.upstream}${upstreamPath}` });
+  }
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+  const baseUrl = upstream.baseUrl();
+  const key = upstream.key();
+  if (!baseUrl || key === undefined) {
+    return res.status(500).json({ error: `The gateway has no ${req.params.upstream} configuration: set its key (and base URL) in the gateway environment` });
+  }
 
-app.use(cors());
-app.use(express.json());
+  const headers = { ...upstream.authHeaders(key) };
+  FORWARDED_REQUEST_HEADERS.forEach(header => {
+    if (req.headers[header]) headers[header] = req.headers[header];
+  });
+
+  // Stop the upstream call, and its billing, when the browser cancels
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  console.log(`[GATEWAY] ${req.method} ${req.params.upstream}${upstreamPath}`);
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${upstreamPath}`, {
+      method: req.method,
+      headers,
+      body: req.method === 'POST' ? JSON.stringify(req.body) : undefined,
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      console.error(`[GATEWAY] ${req.params.upstream}${upstreamPath} answered ${response.status} ${response.statusText}`);
+    }
+    res.status(response.status);
+    FORWARDED_RESPONSE_HEADERS.forEach(header => {
+      const value = response.headers.get(header);
+      if (value) res.setHeader(header, value);
+    });
+    // Streamed answers (SSE, JSON lines) and binary ones (NovelAI zips) are piped as they arrive
+    res.flushHeaders();
+    response.body.pipe(res);
+    response.body.on('error', (error) => {
+      if (error.name !== 'AbortError') console.error('[GATEWAY] Upstream stream error:', error.message);
+      res.end();
+    });
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      console.log(`[GATEWAY] ${req.params.upstream}${upstreamPath} cancelled by the client`);
+      return;
+    }
+    console.error('[GATEWAY] Error:', error);
+    res.status(502).json({ error: `Gateway could not reach ${req.params.upstream}: ${error.message}` });
+  }
+});
 
 app.get('/api/brave-search', async (req, res) => {
   try {
@@ -61,7 +200,14 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-app.listen(PORT, () => {
-  console.log(`[BRAVE-PROXY] Server running on port ${PORT}`);
-  console.log(`[BRAVE-PROXY] API Key configured: ${!!process.env.VITE_BRAVE_API_KEY || !!process.env.BRAVE_API_KEY}`);
-}); 
\ No newline at end of file
+// Started by `npm run proxy`; tests load the app without listening
+if (require.main === module) {
+  app.listen(PORT, HOST, () => {
+    console.log(`[BRAVE-PROXY] Server running on ${HOST}:${PORT}`);
+    console.log(`[BRAVE-PROXY] API Key configured: ${!!process.env.VITE_BRAVE_API_KEY || !!process.env.BRAVE_API_KEY}`);
+    const configured = Object.keys(UPSTREAMS).filter(name => UPSTREAMS[name].baseUrl() && UPSTREAMS[name].key() !== undefined);
+    console.log(`[GATEWAY] Keys configured for: ${configured.length > 0 ? configured.join(', ') : 'none'}`);
+  });
+}
+
+module.exports = app;
@@ -6,7 +6,17 @@ import { useChat, Message, ChatProvider } from './context/ChatContext';
 import NodeEditorOverlay from './components/NodeEditorOverlay';
 import AssistantOverlay from './components/AssistantOverlay';
 import TwineImportOverlay from './components/TwineImportOverlay';
+import HistoryPanel from './components/HistoryPanel';
+import SaveSlotManager from './components/SaveSlotManager';
+import PlaythroughComparisonOverlay from './components/PlaythroughComparisonOverlay';
+import NodeTypeSettingsOverlay from './components/NodeTypeSettingsOverlay';
+import ModelSettingsOverlay from './components/ModelSettingsOverlay';
+import PromptLibraryOverlay from './components/PromptLibraryOverlay';
+import { saveSlotService, SaveSlotData, SaveSlotMeta } from './services/saveSlotService';
+import { findSnapshotAtChatLength, MAX_HISTORY_ENTRIES } from './utils/historyUtils';
 import { moxusService } from './services/MoxusService';
+import { nodeTypeRegistry } from './services/nodeTypeRegistry';
+import { promptLibraryService } from './services/promptLibraryService';
 import './services/llm';
 import { LLMLoggerBubble } from './components/LLMLoggerBubble';
 import { LLMLoggerPanel } from './components/LLMLoggerPanel';
@@ -377,7 +387,10 @@ const StorageManagerModal: React.FC<{ onClose: () => void }> = ({ onClose }) =>
 };
 
 const AppContent: React.FC = () => {
-  const { getNodes, addNode, updateNode, deleteNode, updateGraph, setNodes } = useNodeGraph();
+  const {
+    getNodes, addNode, updateNode, deleteNode, updateGraph, setNodes, lastNodeEdition,
+    undo, redo, canUndo, canRedo, historyPast, historyFuture
+  } = useNodeGraph();
   const { addMessage, getChatHistory, setChatHistory, clearChatHistory } = useChat();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [showNodeEditor, setShowNodeEditor] = useState(false);
@@ -388,6 +401,12 @@ const AppContent: React.FC = () => {
   const [showTwineImport, setShowTwineImport] = useState(false);
   const [pendingMoxusTasks, setPendingMoxusTasks] = useState(0);
   const [showLLMLogger, setShowLLMLogger] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSaveSlots, setShowSaveSlots] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
+  const [showNodeTypes, setShowNodeTypes] = useState(false);
+  const [showModelSettings, setShowModelSettings] = useState(false);
+  const [showPromptLibrary, setShowPromptLibrary] = useState(false);
   const moxusInitLoggedRef = useRef(false);
 
   // Simple storage cleanup on page load
@@ -436,12 +455,32 @@ const AppContent: React.FC = () => {
     return () => clearInterval(intervalId);
   }, []);
 
+  // Undo/redo keyboard shortcuts (ignored while typing)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   const handleRegenerateAllImages = () => {
     if (getNodes && getNodes().length > 0) {
       const nodesToUpdate = getNodes();
       const u_nodes: { [nodeId: string]: NodeSpecificUpdates } = {};
       nodesToUpdate.forEach(node => {
-        if (node.type !== 'Game Rule' && node.type !== 'Game Rules' && node.type !== 'system') {
+        if (nodeTypeRegistry.generatesImages(node.type)) {
           u_nodes[node.id] = { img_upd: true };
         }
       });
@@ -468,10 +507,69 @@ const AppContent: React.FC = () => {
     setInitialSelectedNodeId(undefined);
   };
 
+  const getCurrentSaveData = (): SaveSlotData => ({
+    nodes: getNodes(),
+    chatHistory: getChatHistory(),
+    moxusMemory: moxusService.getMoxusMemory(),
+    promptOverrides: promptLibraryService.getSaveOverrides()
+  });
+
+  const handleLoadSlot = (slot: SaveSlotMeta, data: SaveSlotData) => {
+    setNodes(data.nodes, `Load slot ${slot.name}`);
+    setChatHistory(data.chatHistory);
+    if (data.moxusMemory) {
+      moxusService.setMoxusMemory(data.moxusMemory);
+    } else {
+      moxusService.resetMemory();
+    }
+    promptLibraryService.setSaveOverrides(data.promptOverrides);
+  };
+
+  const handleForkAtMessage = (messageIndex: number) => {
+    const currentData = getCurrentSaveData();
+
+    // The graph and Moxus memory at an earlier message only exist in the undo history of this session
+    const stateAtMessage = messageIndex === currentData.chatHistory.length - 1
+      ? { nodes: currentData.nodes, moxusMemory: currentData.moxusMemory }
+      : findSnapshotAtChatLength(historyPast, currentData.chatHistory, messageIndex + 1);
+    if (!stateAtMessage) {
+      alert(`Cannot fork at message ${messageIndex + 1}: the graph and Moxus memory of that point are no longer in the undo history (it is kept for this session only, up to ${MAX_HISTORY_ENTRIES} steps). Fork at a more recent message instead.`);
+      return;
+    }
+
+    // Keep the current playthrough as its own branch before switching to the fork
+    const activeSlotId = saveSlotService.getActiveSlotId();
+    const activeSlot = saveSlotService.listSlots().find(slot => slot.id === activeSlotId);
+    const parentSlot = activeSlot
+      ? saveSlotService.saveSlot(activeSlot.id, activeSlot.name, currentData)
+      : saveSlotService.createSlot('Main playthrough', currentData);
+
+    const forkData = saveSlotService.buildForkData(currentData.chatHistory, messageIndex, stateAtMessage, currentData.promptOverrides);
+    const branch = saveSlotService.createSlot(
+      `${parentSlot?.name || 'Playthrough'} (fork @${messageIndex + 1})`,
+      forkData,
+      { parentId: parentSlot?.id, forkedAtMessage: messageIndex }
+    );
+    if (!branch) {
+      console.error('[App] Could not store the forked playthrough.');
+      return;
+    }
+    saveSlotService.setActiveSlotId(branch.id);
+    setNodes(forkData.nodes, `Fork at message ${messageIndex + 1}`);
+    setChatHistory(forkData.chatHistory);
+    if (forkData.moxusMemory) {
+      moxusService.setMoxusMemory(forkData.moxusMemory);
+    } else {
+      moxusService.resetMemory();
+    }
+  };
+
   const clearLocalStorage = () => {
     localStorage.removeItem('nodeGraph');
     localStorage.removeItem('chatHistory');
+    saveSlotService.setActiveSlotId(null);
     moxusService.resetMemory();
+    promptLibraryService.setSaveOverrides(null);
     window.location.reload();
   };
 
@@ -479,7 +577,8 @@ const AppContent: React.FC = () => {
     const dataStr = JSON.stringify({
       nodes: getNodes(),
       chatHistory: getChatHistory(),
-      moxusMemory: moxusService.getMoxusMemory()
+      moxusMemory: moxusService.getMoxusMemory(),
+      promptOverrides: promptLibraryService.getSaveOverrides()
     }, null, 2);
     const blob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -497,12 +596,14 @@ const AppContent: React.FC = () => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const { nodes: importedNodes, chatHistory: importedChatHistory, moxusMemory } = JSON.parse(e.target?.result as string);
-        setNodes(importedNodes);
+        const { nodes: importedNodes, chatHistory: importedChatHistory, moxusMemory, promptOverrides } = JSON.parse(e.target?.result as string);
+        setNodes(importedNodes, 'Import save');
+        saveSlotService.setActiveSlotId(null);
         setChatHistory(importedChatHistory);
         if (moxusMemory) {
           moxusService.setMoxusMemory(moxusMemory);
         }
+        promptLibraryService.setSaveOverrides(promptOverrides);
       } catch (error) {
         console.error('Failed to import JSON', error);
       }
@@ -521,6 +622,29 @@ const AppContent: React.FC = () => {
           >
             Assistant
           </button>
+          <button
+            onClick={undo}
+            disabled={!canUndo}
+            className="px-1 bg-slate-800 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo}
+            className="px-1 bg-slate-800 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            title="Redo (Ctrl+Shift+Z / Ctrl+Y)"
+          >
+            Redo
+          </button>
+          <button
+            onClick={() => setShowHistory(true)}
+            className="px-1 bg-slate-800 text-white rounded hover:bg-blue-700"
+            title="Show history of graph changes"
+          >
+            History{historyPast.length > 0 && ` (${historyPast.length})`}
+          </button>
           <button 
             onClick={clearLocalStorage} 
             className="px-1 bg-slate-800 text-white rounded hover:bg-red-700"
@@ -545,6 +669,20 @@ const AppContent: React.FC = () => {
           >
             Import save
           </button>
+          <button
+            onClick={() => setShowSaveSlots(true)}
+            className="px-1 bg-slate-800 text-white rounded hover:bg-green-700"
+            title="Named save slots and forked playthroughs"
+          >
+            Slots
+          </button>
+          <button
+            onClick={() => setShowComparison(true)}
+            className="px-1 bg-slate-800 text-white rounded hover:bg-green-700"
+            title="Compare two playthroughs side by side"
+          >
+            Compare
+          </button>
           <button 
             onClick={() => setShowTwineImport(true)} 
             className="px-1 bg-slate-800 text-white rounded hover:bg-indigo-700"
@@ -557,6 +695,27 @@ const AppContent: React.FC = () => {
           >
             Edit Nodes
           </button>
+          <button
+            onClick={() => setShowNodeTypes(true)}
+            className="px-1 bg-slate-800 text-white rounded hover:bg-yellow-700"
+            title="Colors, required fields and rules of each node type"
+          >
+            Node Types
+          </button>
+          <button
+            onClick={() => setShowModelSettings(true)}
+            className="px-1 bg-slate-800 text-white rounded hover:bg-yellow-700"
+            title="Provider, model and sampling settings of each LLM task"
+          >
+            Models
+          </button>
+          <button
+            onClick={() => setShowPromptLibrary(true)}
+            className="px-1 bg-slate-800 text-white rounded hover:bg-yellow-700"
+            title="Edit, version and compare the prompts sent to the LLM"
+          >
+            Prompts
+          </button>
           <button 
             onClick={() => setShowMoxusMemory(true)} 
             className="px-1 relative bg-slate-800 text-white rounded hover:bg-cyan-700"
@@ -587,8 +746,8 @@ const AppContent: React.FC = () => {
         </div>
       </header>
       <div className="flex flex-grow overflow-y-auto">
-        <ChatInterface nodes={getNodes()} updateGraph={updateGraph} addMessage={addMessage} />
-        <NodeGraphInterface nodes={getNodes()} updateGraph={updateGraph} onNodesSorted={setNodes} onEditNode={openNodeEditor} />
+        <ChatInterface nodes={getNodes()} updateGraph={updateGraph} addMessage={addMessage} onForkAtMessage={handleForkAtMessage} />
+        <NodeGraphInterface nodes={getNodes()} updateGraph={updateGraph} onNodesSorted={setNodes} onEditNode={openNodeEditor} lastNodeEdition={lastNodeEdition} />
       </div>
       
       {showNodeEditor && (
@@ -603,6 +762,18 @@ const AppContent: React.FC = () => {
         />
       )}
 
+      {showNodeTypes && (
+        <NodeTypeSettingsOverlay closeOverlay={() => setShowNodeTypes(false)} />
+      )}
+
+      {showModelSettings && (
+        <ModelSettingsOverlay closeOverlay={() => setShowModelSettings(false)} />
+      )}
+
+      {showPromptLibrary && (
+        <PromptLibraryOverlay closeOverlay={() => setShowPromptLibrary(false)} />
+      )}
+
       {showAssistant && (
         <AssistantOverlay
           nodes={getNodes()}
@@ -625,6 +796,33 @@ const AppContent: React.FC = () => {
         />
       )}
 
+      {showSaveSlots && (
+        <SaveSlotManager
+          getCurrentData={getCurrentSaveData}
+          onLoadSlot={handleLoadSlot}
+          onClose={() => setShowSaveSlots(false)}
+        />
+      )}
+
+      {showComparison && (
+        <PlaythroughComparisonOverlay
+          getCurrentSave={getCurrentSaveData}
+          closeOverlay={() => setShowComparison(false)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          historyPast={historyPast}
+          historyFuture={historyFuture}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          onUndo={undo}
+          onRedo={redo}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {showStorageManager && (
         <StorageManagerModal
           onClose={() => setShowStorageManager(false)}
@@ -220,6 +220,27 @@ const AdvancedNodeGenerationPanel: React.FC<AdvancedNodeGenerationPanelProps> =
         </div>
       )}
 
+      {/* Text Diff Results */}
+      {pipelineState.diffResults && Object.values(pipelineState.diffResults).some(results => results.some(result => result.status !== 'exact')) && (
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-gray-300 mb-2">Text Diffs</h4>
+          <div className="bg-gray-900 rounded p-3 text-sm">
+            <ul className="space-y-1">
+              {Object.entries(pipelineState.diffResults).flatMap(([nodeId, results]) =>
+                results.filter(result => result.status !== 'exact').map((result, index) => (
+                  <li key={`${nodeId}-${index}`} className={`text-xs ${result.status === 'failed' ? 'text-red-300' : 'text-yellow-300'}`}>
+                    <span className="font-medium">{nodeId}:</span>{' '}
+                    {result.status === 'failed'
+                      ? `not applied, "${result.edit.prev_txt}" not found`
+                      : `matched "${result.matchedText}" (similarity ${result.similarity?.toFixed(2)})`}
+                  </li>
+                ))
+              )}
+            </ul>
+          </div>
+        </div>
+      )}
+
       {/* Errors */}
       {pipelineState.errors.length > 0 && (
         <div className="mb-4">
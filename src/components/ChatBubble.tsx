@@ -21,6 +21,7 @@ interface ChatBubbleProps {
   onToggleDebug?: () => void;
   isWaiting?: boolean;
   onMessageEdit?: (index: number, newContent: string) => void;
+  onFork?: (index: number) => void;
   messageIndex: number;
 }
 
@@ -31,6 +32,7 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({
   onToggleDebug,
   isWaiting = false,
   onMessageEdit,
+  onFork,
   messageIndex
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(expandableMessagesTypes.includes(message.role));
@@ -96,6 +98,15 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({
         }`}
         onDoubleClick={handleDoubleClick}
       >
+        {onFork && (message.role === "user" || message.role === "assistant") && !message.isStreaming && !isEditing && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onFork(messageIndex); }}
+            className="absolute top-1 right-2 text-xs text-gray-400 hover:text-white"
+            title="Fork the playthrough at this message into a new save slot"
+          >
+            Fork
+          </button>
+        )}
         {expandableMessagesTypes.includes(message.role) && message.role !== "moxus" && (
           <div className="flex justify-between items-center">
             <div className="flex items-center space-x-2">
@@ -9,6 +9,7 @@ interface ChatHistoryProps {
   onActionClick: (action: string) => void;
   onRetry: () => void;
   showDebug: boolean;
+  onForkAtMessage?: (messageIndex: number) => void;
 }
 
 const ChatHistory: React.FC<ChatHistoryProps> = ({ 
@@ -17,7 +18,8 @@ const ChatHistory: React.FC<ChatHistoryProps> = ({
   errorMessage, 
   onActionClick, 
   onRetry,
-  showDebug 
+  showDebug,
+  onForkAtMessage
 }) => {
   const { chatHistory, editMessage } = useChat();
 
@@ -31,6 +33,7 @@ const ChatHistory: React.FC<ChatHistoryProps> = ({
           showDebug={showDebug}
           messageIndex={index}
           onMessageEdit={editMessage}
+          onFork={onForkAtMessage}
         />
       ))}
       {waitingForAnswer && (
@@ -6,12 +6,13 @@ interface ChatInputProps {
   handleSend: () => void;
   handleSendAsNote: () => void;
   waitingForAnswer: boolean;
+  onStop: () => void;
   onRegenerate: () => void;
   showRegenerate: boolean;
   handleRefocus: () => void;
 }
 
-const ChatInput: React.FC<ChatInputProps> = ({ input, setInput, handleSend, handleSendAsNote, waitingForAnswer, onRegenerate, showRegenerate, handleRefocus }) => {
+const ChatInput: React.FC<ChatInputProps> = ({ input, setInput, handleSend, handleSendAsNote, waitingForAnswer, onStop, onRegenerate, showRegenerate, handleRefocus }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
@@ -63,13 +64,22 @@ const ChatInput: React.FC<ChatInputProps> = ({ input, setInput, handleSend, hand
       >
         Refocus
       </button>
-      <button
-        className="ml-2 px-4 py-2 bg-blue-500 text-white rounded disabled:bg-gray-600"
-        onClick={handleSend}
-        disabled={waitingForAnswer}
-      >
-        Send
-      </button>
+      {waitingForAnswer ? (
+        <button
+          className="ml-2 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600"
+          onClick={onStop}
+          title="Stop the generation in progress"
+        >
+          Stop
+        </button>
+      ) : (
+        <button
+          className="ml-2 px-4 py-2 bg-blue-500 text-white rounded"
+          onClick={handleSend}
+        >
+          Send
+        </button>
+      )}
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { generateUserInputResponse, getRelevantNodes, generateChatText, generateActions, generateNodeEdition, refocusStory } from '../services/llm';
 import { Node } from '../models/Node';
 import { useChat, Message } from '../context/ChatContext';
@@ -6,7 +6,15 @@ import ChatHistory from './ChatHistory';
 import ChatInput from './ChatInput';
 import DetailsOverlay from './DetailsOverlay';
 import { moxusService } from '../services/MoxusService';
+import { nodeTypeRegistry } from '../services/nodeTypeRegistry';
+import { readLLMStreamText } from '../services/llmStreamParser';
+import { llmUsageService } from '../services/llmUsageService';
+import { isUsageLimitError } from '../services/usageLimitService';
+import type { LLMUsage } from '../services/llmProviderRegistry';
+import { isAbortError, createAbortError } from '../services/llmCore';
 import { LLMNodeEditionResponse } from '../models/nodeOperations';
+import NodeEditionReviewOverlay from './NodeEditionReviewOverlay';
+import { formatSkippedOperationsMessage } from '../utils/nodeEditionValidator';
 
 interface ChatInterfaceProps {
   nodes: Node[];
@@ -17,9 +25,10 @@ interface ChatInterfaceProps {
     isFromUserInteraction?: boolean
   ) => Promise<void>;
   addMessage: (message: Message) => void;
+  onForkAtMessage?: (messageIndex: number) => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMessage }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMessage, onForkAtMessage }) => {
   const { chatHistory, setChatHistory, updateStreamingMessage, endStreaming, clearChatHistory } = useChat();
   const [input, setInput] = useState('');
   const [waitingForAnswer, setWaitingForAnswer] = useState(false);
@@ -28,6 +37,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
   const [showDebug, setShowDebug] = useState(true);
   const [inspectMode, setInspectMode] = useState(false);
   const [disableImageGeneration, setDisableImageGeneration] = useState(false);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [pendingReview, setPendingReview] = useState<{ nodeEdition: LLMNodeEditionResponse; contextHistory: Message[] } | null>(null);
   const [responseLength, setResponseLength] = useState<'short' | '1 paragraph' | '3 paragraphs' | 'lengthy' | 'full page'>('3 paragraphs');
   const [lastNodeEdition, setLastNodeEdition] = useState<LLMNodeEditionResponse | null>(null);
   const [errorMessage, setErrorMessage] = useState('');
@@ -39,18 +50,36 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
     detailedNodeIds: string[];
   } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Controller of the generation in flight, aborted by the Stop button
+  const abortControllerRef = useRef<AbortController | null>(null);
   let chatTextCallId_to_finalize: string | null = null;
 
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const handleStop = useCallback(() => {
+    if (abortControllerRef.current) {
+      console.log('Stopping the generation in progress.');
+      setLoadingMessage('Stopping...');
+      abortControllerRef.current.abort();
+    }
+  }, []);
+
   const handleSend = useCallback(async (retry = false) => {
     chatTextCallId_to_finalize = null;
     if (!input.trim() || isLoading) return;
 
     const currentInput = input;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
     setIsLoading(true);
     setErrorMessage('');
     setLoadingMessage('Processing your request...');
     const timestamp = new Date().toLocaleTimeString();
     const storyStartTime = Date.now();
+    llmUsageService.startTurn(currentInput);
 
     try {
       console.log('Starting new interaction at:', timestamp);
@@ -78,51 +107,40 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
 
       if (nodes.length < maxIncludedNodes) {
         detailedNodeIds = nodes
-          .filter(node => node.type !== "image_generation")
+          .filter(node => !nodeTypeRegistry.isHiddenFromPrompts(node.type))
           .map(node => node.id);
       } else {
         console.log('Starting relevant nodes determination');
         const relevantNodesStartTime = Date.now();
-        detailedNodeIds = await getRelevantNodes(currentInput, contextHistory.slice(-4), nodes);
+        detailedNodeIds = await getRelevantNodes(currentInput, contextHistory.slice(-4), nodes, signal);
         console.log('Relevant nodes determination completed in:', Date.now() - relevantNodesStartTime, 'ms');
       }
 
       console.log('Starting chat text generation');
-      const chatTextResult = await generateChatText(currentInput, contextHistory.slice(-20), nodes, detailedNodeIds, responseLength);
+      const chatTextResult = await generateChatText(currentInput, contextHistory.slice(-20), nodes, detailedNodeIds, responseLength, signal);
       const chatTextResponse = chatTextResult.streamResponse;
       chatTextCallId_to_finalize = chatTextResult.callId;
       
       let accumulatedContent = '';
+      let streamUsage: LLMUsage | undefined;
       if (chatTextResponse instanceof Response) {
-        const reader = chatTextResponse.body?.getReader();
-        if (!reader) throw new Error('No reader available for chat text stream');
         try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            const chunk = new TextDecoder().decode(value);
-            const lines = chunk.split('\n');
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6);
-                if (data === '[DONE]') break;
-                try {
-                  const parsed = JSON.parse(data);
-                  const content = parsed.choices[0].delta.content || '';
-                  if (content) {
-                    accumulatedContent += content;
-                    updateStreamingMessage(content);
-                  }
-                } catch (e) { console.error('Error parsing stream chunk:', e); }
-              }
-            }
-            if (lines.some(line => line.startsWith('data: [DONE]'))) break;
-          }
+          streamUsage = (await readLLMStreamText(chatTextResponse, token => {
+            accumulatedContent += token;
+            updateStreamingMessage(token);
+          })).usage;
         } finally {
-            endStreaming();
+            // A stopped stream keeps its partial text, or disappears if nothing arrived yet
+            endStreaming(signal.aborted);
             if (chatTextCallId_to_finalize) {
-                if (accumulatedContent) {
-                    moxusService.finalizeLLMCallRecord(chatTextCallId_to_finalize, accumulatedContent);
+                // Tokens streamed before a stop are billed too
+                const callUsage = signal.aborted || accumulatedContent
+                  ? llmUsageService.completeCall(chatTextCallId_to_finalize, accumulatedContent, streamUsage) ?? undefined
+                  : undefined;
+                if (signal.aborted) {
+                    moxusService.cancelLLMCallRecord(chatTextCallId_to_finalize, 'Stopped by the player.', callUsage);
+                } else if (accumulatedContent) {
+                    moxusService.finalizeLLMCallRecord(chatTextCallId_to_finalize, accumulatedContent, callUsage);
                 } else if (!moxusService.getLLMLogEntries().find(log => log.id === chatTextCallId_to_finalize && log.status === 'failed')){
                     moxusService.failLLMCallRecord(chatTextCallId_to_finalize, "Stream ended with no content accumulated and not previously marked as failed.");
                 }
@@ -135,13 +153,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
         setLoadingMessage('Generating actions and updating game state...');
 
         const [actions, nodeEditionResponse] = await Promise.all([
-          generateActions(accumulatedContent, nodes, currentInput),
-          generateNodeEdition(accumulatedContent, [], nodes, currentInput, true)
+          generateActions(accumulatedContent, nodes, currentInput, detailedNodeIds, signal),
+          generateNodeEdition(accumulatedContent, [], nodes, currentInput, true, detailedNodeIds, signal)
         ]);
         
         console.log('Parallel operations completed in:', Date.now() - storyStartTime, 'ms');
 
-        const finalNodeEdition: LLMNodeEditionResponse = JSON.parse(JSON.stringify(nodeEditionResponse));
+        // Stopped while the last response was being parsed: the node edition is not applied
+        if (signal.aborted) {
+          throw createAbortError();
+        }
+
+        const { validationIssues, ...nodeEditionToApply } = nodeEditionResponse;
+        const finalNodeEdition: LLMNodeEditionResponse = JSON.parse(JSON.stringify(nodeEditionToApply));
 
         if (disableImageGeneration) {
           if (finalNodeEdition.n_nodes) {
@@ -176,6 +200,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
             role: "nodeEdition",
             content: JSON.stringify(finalNodeEdition, null, 2),
             timestamp: timestamp.toString()
+          }, {
+            role: "nodeEdition",
+            content: formatSkippedOperationsMessage(validationIssues || []),
+            timestamp: timestamp.toString()
           }
         ];
 
@@ -191,8 +219,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
         setLoadingMessage(disableImageGeneration ? '' : 'Generating images in the background...');
         setIsLoading(false);
 
-        console.log('Applying node edition to graph...');
-        await updateGraph(finalNodeEdition, [], contextHistory, true);
+        if (reviewMode) {
+          console.log('Review mode: waiting for the player to approve the node edition.');
+          setPendingReview({ nodeEdition: finalNodeEdition, contextHistory });
+        } else {
+          console.log('Applying node edition to graph...');
+          await updateGraph(finalNodeEdition, [], contextHistory, true);
+        }
       } else {
         console.warn('generateChatText did not return a Response object for streaming as expected.');
         if (chatTextCallId_to_finalize) {
@@ -201,8 +234,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
         throw new Error('Chat text generation failed to produce a stream.');
       }
     } catch (error) {
+      if (signal.aborted || isAbortError(error)) {
+        console.log('Generation stopped by the player.');
+        endStreaming(true);
+        if (chatTextCallId_to_finalize && moxusService.getLLMLogEntries().find(log => log.id === chatTextCallId_to_finalize && log.status === 'running')) {
+          moxusService.cancelLLMCallRecord(chatTextCallId_to_finalize, 'Stopped by the player.');
+        }
+        setActionTriggered(false);
+        setLoadingMessage('');
+        setIsLoading(false);
+        return;
+      }
       console.error('Error during chat handling:', error);
-      setErrorMessage('An error occurred. Please try again.');
+      setErrorMessage(isUsageLimitError(error) ? (error as Error).message : 'An error occurred. Please try again.');
       if (chatTextCallId_to_finalize && !moxusService.getLLMLogEntries().find(log => log.id === chatTextCallId_to_finalize && (log.status === 'completed' || log.status === 'failed'))) {
         moxusService.failLLMCallRecord(chatTextCallId_to_finalize, error instanceof Error ? error.message : String(error));
       }
@@ -211,13 +255,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
         chatHistory: [...chatHistory],
         nodes,
         detailedNodeIds: nodes
-          .filter(node => node.type !== "image_generation")
+          .filter(node => !nodeTypeRegistry.isHiddenFromPrompts(node.type))
           .map(node => node.id)
       });
       setLoadingMessage('');
       setIsLoading(false);
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
-  }, [input, isLoading, chatHistory, nodes, disableImageGeneration, addMessage, updateStreamingMessage, endStreaming, updateGraph]);
+  }, [input, isLoading, chatHistory, nodes, disableImageGeneration, reviewMode, addMessage, updateStreamingMessage, endStreaming, updateGraph]);
 
   useEffect(() => {
     if (actionTriggered && input.trim() && !isLoading) {
@@ -241,6 +289,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
   const handleRefocusClick = async () => {
     if (isLoading) return;
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     setIsLoading(true);
     setActionTriggered(false);
     setErrorMessage('');
@@ -249,7 +299,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
 
     try {
       console.log('Starting story refocus at:', timestamp);
-      const refocusResult = await refocusStory(chatHistory, nodes);
+      const refocusResult = await refocusStory(chatHistory, nodes, abortController.signal);
 
       clearChatHistory();
 
@@ -273,10 +323,18 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
       console.log('Story refocus completed.');
 
     } catch (error) {
-      console.error('Error during story refocus:', error);
-      setErrorMessage('An error occurred during refocus. Please try again.');
+      if (isAbortError(error)) {
+        console.log('Story refocus stopped by the player, chat history kept.');
+      } else {
+        console.error('Error during story refocus:', error);
+        setErrorMessage(isUsageLimitError(error) ? (error as Error).message : 'An error occurred during refocus. Please try again.');
+      }
       setLoadingMessage('');
       setIsLoading(false);
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
@@ -351,7 +409,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
         generateNodeEdition("", [], nodes, currentInputForSuggestions || "suggest node changes", true)
       ]);
       
-      const finalNodeEdition: LLMNodeEditionResponse = JSON.parse(JSON.stringify(nodeEditionResponse));
+      const { validationIssues, ...nodeEditionToApply } = nodeEditionResponse;
+      const finalNodeEdition: LLMNodeEditionResponse = JSON.parse(JSON.stringify(nodeEditionToApply));
 
       if (disableImageGeneration) {
         if (finalNodeEdition.n_nodes) {
@@ -377,22 +436,62 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
           timestamp: timestamp.toString()
         }
       ];
+      const skippedOperationsMessage = formatSkippedOperationsMessage(validationIssues || []);
+      if (skippedOperationsMessage) {
+        messagesToAdd.push({ role: "nodeEdition", content: skippedOperationsMessage, timestamp: timestamp.toString() });
+      }
 
       messagesToAdd.forEach(addMessage);
       setLastNodeEdition(finalNodeEdition);
 
+      if (reviewMode) {
+        setPendingReview({ nodeEdition: finalNodeEdition, contextHistory });
+        setLoadingMessage('');
+        setIsLoading(false);
+        return;
+      }
+
       updateGraph(finalNodeEdition, [], contextHistory, true).finally(() => {
         setLoadingMessage('');
         setIsLoading(false);
       });
     } catch (error) {
       console.error('Error generating suggestions:', error);
-      setErrorMessage('An error occurred. Please try again.');
+      setErrorMessage(isUsageLimitError(error) ? (error as Error).message : 'An error occurred. Please try again.');
       setLoadingMessage('');
       setIsLoading(false);
     }
   };
 
+  const handleApplyReviewedEdition = (approvedEdition: LLMNodeEditionResponse, summary: string) => {
+    if (!pendingReview) return;
+    const { nodeEdition, contextHistory } = pendingReview;
+    setPendingReview(null);
+    console.log(`Review mode: ${summary}`);
+    setLastNodeEdition(approvedEdition);
+
+    if (JSON.stringify(approvedEdition) !== JSON.stringify(nodeEdition)) {
+      moxusService.recordInternalSystemEvent(
+        `nodeEditionReview-${Date.now()}`,
+        `System Event: Player reviewed node edition ${nodeEdition.callId}.`,
+        summary,
+        "node_edition_review_event"
+      );
+    }
+    updateGraph(approvedEdition, [], contextHistory, true);
+  };
+
+  const handleRejectReviewedEdition = () => {
+    if (!pendingReview) return;
+    moxusService.recordInternalSystemEvent(
+      `nodeEditionReview-${Date.now()}`,
+      `System Event: Player reviewed node edition ${pendingReview.nodeEdition.callId}.`,
+      'Rejected all operations.',
+      "node_edition_review_event"
+    );
+    setPendingReview(null);
+  };
+
   const handleSendAsNote = () => {
     if (!input.trim() || isLoading) return;
 
@@ -415,6 +514,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
         onRetry={handleRetry}
         onActionClick={handleActionClick}
         showDebug={showDebug}
+        onForkAtMessage={isLoading ? undefined : onForkAtMessage}
       />
       {inspectMode ? (
         <div className="flex items-center mb-2">
@@ -433,6 +533,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
           handleSend={() => setActionTriggered(true)}
           handleSendAsNote={handleSendAsNote}
           waitingForAnswer={isLoading}
+          onStop={handleStop}
           onRegenerate={handleRegenerate}
           showRegenerate={chatHistory.length > 0 && !isLoading}
           handleRefocus={handleRefocusClick}
@@ -460,6 +561,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
         >
           {disableImageGeneration ? 'Enable Image Generation' : 'Disable Image Generation'}
         </button>
+        <button 
+          className="py-2 text-sm text-left text-blue-500 underline" 
+          onClick={() => setReviewMode(!reviewMode)}
+          title="Review node changes before they are applied to the graph"
+        >
+          {reviewMode ? 'Disable Review Mode' : 'Enable Review Mode'}
+        </button>
         <div className="py-2 text-sm">
           <label className="text-blue-500 mr-2">Response length:</label>
           <select 
@@ -476,6 +584,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ nodes, updateGraph, addMe
         </div>
       </div>
       <DetailsOverlay isCollapsed={isCollapsed} toggleCollapse={toggleCollapse} lastNodeEdition={[]} nodes={nodes} />
+      {pendingReview && (
+        <NodeEditionReviewOverlay
+          nodeEdition={pendingReview.nodeEdition}
+          nodes={nodes}
+          onApply={handleApplyReviewedEdition}
+          onRejectAll={handleRejectReviewedEdition}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import React from 'react';
+import { HistoryEntry } from '../utils/historyUtils';
+
+interface HistoryPanelProps {
+  historyPast: HistoryEntry[];
+  historyFuture: HistoryEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+const HistoryRow: React.FC<{ entry: HistoryEntry; isFuture: boolean }> = ({ entry, isFuture }) => (
+  <li className={`p-2 rounded border ${isFuture ? 'border-gray-700 text-gray-500' : 'border-gray-600 text-gray-200'} bg-gray-800`}>
+    <div className="flex justify-between items-center">
+      <span className="font-semibold">{entry.label}</span>
+      <span className="text-xs text-gray-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+    </div>
+    <div className="flex justify-between items-center text-xs mt-1">
+      <span className="font-mono text-cyan-400 truncate" title={entry.callId}>
+        {entry.callId ? `callId: ${entry.callId}` : 'manual change'}
+      </span>
+      <span className="text-gray-400">{entry.nodeCount} nodes</span>
+    </div>
+  </li>
+);
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ historyPast, historyFuture, canUndo, canRedo, onUndo, onRedo, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-lg shadow-xl w-full max-w-xl max-h-[80vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold">History</h2>
+          <div className="flex space-x-2">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              title="Undo (Ctrl+Z)"
+            >
+              Undo
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              title="Redo (Ctrl+Shift+Z / Ctrl+Y)"
+            >
+              Redo
+            </button>
+            <button onClick={onClose} className="px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700">
+              Close
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {historyFuture.length > 0 && (
+            <div>
+              <h3 className="text-sm text-gray-400 mb-2">Undone steps (redo applies the bottom one first)</h3>
+              <ul className="space-y-2">
+                {historyFuture.map(entry => (
+                  <HistoryRow key={entry.id} entry={entry} isFuture />
+                ))}
+              </ul>
+            </div>
+          )}
+          <div>
+            <h3 className="text-sm text-gray-400 mb-2">Steps (most recent first)</h3>
+            {historyPast.length === 0 ? (
+              <p className="text-gray-500">No changes recorded yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {[...historyPast].reverse().map(entry => (
+                  <HistoryRow key={entry.id} entry={entry} isFuture={false} />
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
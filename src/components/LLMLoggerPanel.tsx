@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { moxusService, LLMCall } from '../services/MoxusService'; // Adjust path as needed
-import { X, AlertTriangle, CheckCircle2, Loader2, Info, Trash2, Zap, Brain, Puzzle } from 'lucide-react';
+import { X, AlertTriangle, CheckCircle2, Loader2, Info, Trash2, Zap, Brain, Puzzle, Ban } from 'lucide-react';
+import { LLMUsageDashboard, formatTokens, formatCost } from './LLMUsageDashboard';
 
 interface LLMLoggerPanelProps {
   isOpen: boolean;
@@ -16,6 +17,8 @@ const StatusIcon = ({ status }: { status: LLMCall['status'] }) => {
       return <CheckCircle2 size={18} className="text-green-400" />;
     case 'failed':
       return <AlertTriangle size={18} className="text-red-400" />;
+    case 'cancelled':
+      return <Ban size={18} className="text-gray-400" />;
     default:
       return <Info size={18} className="text-gray-400" />;
   }
@@ -30,6 +33,8 @@ const getStatusColor = (status: LLMCall['status']) => {
       return 'border-green-500';
     case 'failed':
       return 'border-red-500';
+    case 'cancelled':
+      return 'border-gray-400';
     default:
       return 'border-gray-500';
   }
@@ -64,6 +69,14 @@ const LogCard: React.FC<LogCardProps> = ({ call, onSelect, isSelected }) => {
           )}
       </div>
       <p className="text-sm text-gray-300 break-all">Type: <span className="font-medium text-purple-300 text-sm">{call.callType}</span></p>
+      {call.attempts && call.attempts.length > 0 && (
+        <p className="text-xs text-orange-300 mt-1">{call.attempts.length} failed attempt(s){call.status === 'completed' ? ' before success' : call.status === 'running' ? ', retrying' : ''}</p>
+      )}
+      {call.usage && (
+        <p className="text-xs text-gray-400 mt-1">
+          {formatTokens(call.usage.promptTokens)} in / {formatTokens(call.usage.completionTokens)} out{call.usage.estimated ? ' (est.)' : ''} · {formatCost(call.usage.cost)}
+        </p>
+      )}
       {call.error && (
         <p className="text-xs text-red-400 mt-1 bg-red-900 bg-opacity-30 p-2 rounded break-words">Error: {call.error}</p>
       )}
@@ -83,6 +96,7 @@ export const LLMLoggerPanel: React.FC<LLMLoggerPanelProps> = ({ isOpen, togglePa
   const [logEntries, setLogEntries] = useState<LLMCall[]>([]);
   const [initialLogCount, setInitialLogCount] = useState<number | null>(null);
   const [selectedCall, setSelectedCall] = useState<LLMCall | null>(null);
+  const [activeTab, setActiveTab] = useState<'calls' | 'usage'>('calls');
 
   useEffect(() => {
     if (isOpen) {
@@ -172,14 +186,30 @@ export const LLMLoggerPanel: React.FC<LLMLoggerPanelProps> = ({ isOpen, togglePa
             <Zap size={20} className="mr-2 text-yellow-400" /> LLM Call Log
           </h2>
           <div className="flex items-center space-x-2">
-            <button
-              onClick={handleClearLogs}
-              className="p-2 text-gray-400 hover:text-red-500 transition-colors"
-              title="Clear all log entries"
-              aria-label="Clear LLM Logs"
-            >
-              <Trash2 size={20} />
-            </button>
+            <div className="flex space-x-1 text-sm mr-2">
+              {(['calls', 'usage'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => {
+                    setActiveTab(tab);
+                    setSelectedCall(null);
+                  }}
+                  className={`px-3 py-1 rounded ${activeTab === tab ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                >
+                  {tab === 'calls' ? 'Calls' : 'Usage'}
+                </button>
+              ))}
+            </div>
+            {activeTab === 'calls' && (
+              <button
+                onClick={handleClearLogs}
+                className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                title="Clear all log entries"
+                aria-label="Clear LLM Logs"
+              >
+                <Trash2 size={20} />
+              </button>
+            )}
             <button
               onClick={() => {
                   togglePanel();
@@ -192,6 +222,9 @@ export const LLMLoggerPanel: React.FC<LLMLoggerPanelProps> = ({ isOpen, togglePa
             </button>
           </div>
         </div>
+        {activeTab === 'usage' ? (
+          <LLMUsageDashboard />
+        ) : (
         <div className="flex flex-grow space-x-4 overflow-x-auto">
           {selectedCall && (
             <div className="w-2/3 flex-shrink-0 flex flex-col border-r border-gray-700 pr-4">
@@ -241,6 +274,26 @@ export const LLMLoggerPanel: React.FC<LLMLoggerPanelProps> = ({ isOpen, togglePa
                         <p className="text-xs text-gray-300">{selectedCall.modelUsed}</p>
                     </div>
                   )}
+                  {selectedCall.attempts && selectedCall.attempts.length > 0 && (
+                    <div>
+                      <span className="text-xs text-gray-400">Failed attempts:</span>
+                      <ul className="text-xs text-orange-300 space-y-0.5">
+                        {selectedCall.attempts.map((attempt, index) => (
+                          <li key={index} className="break-words" title={attempt.error}>
+                            {attempt.model || 'default model'}: {attempt.errorKind}{attempt.status ? ` (${attempt.status})` : ''}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {selectedCall.usage && (
+                    <div>
+                      <span className="text-xs text-gray-400">Usage{selectedCall.usage.estimated ? ' (estimated from the text length)' : ''}:</span>
+                      <p className="text-xs text-gray-300">
+                        {selectedCall.usage.promptTokens} prompt + {selectedCall.usage.completionTokens} completion tokens · {formatCost(selectedCall.usage.cost)}
+                      </p>
+                    </div>
+                  )}
 
                   {/* Container for two-column Prompt and Response */}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 pt-2 border-t border-gray-700 mt-2">
@@ -277,6 +330,8 @@ export const LLMLoggerPanel: React.FC<LLMLoggerPanelProps> = ({ isOpen, togglePa
                         <p className="text-xs text-gray-500 italic">Response pending...</p>
                       ) : selectedCall.status === 'failed' ? (
                         <p className="text-xs text-red-500 italic">No response due to error.</p>
+                      ) : selectedCall.status === 'cancelled' ? (
+                        <p className="text-xs text-gray-500 italic">Call cancelled before completion.</p>
                       ) : (
                         <p className="text-xs text-gray-500 italic">No response available.</p>
                       )}
@@ -304,6 +359,7 @@ export const LLMLoggerPanel: React.FC<LLMLoggerPanelProps> = ({ isOpen, togglePa
             {renderLogColumn(moxusCalls, "Moxus Internal", <Brain size={18} className="mr-2 text-emerald-400" />, initialMoxusLogCount)}
           </div>
         </div>
+        )}
       </div>
     </div>
   );
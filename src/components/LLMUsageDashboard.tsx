@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { llmUsageService, LLMUsageRecord, LLMUsageTotals, LLMUsageGroup } from '../services/llmUsageService';
+import { usageLimitService, UsageLimitStatus } from '../services/usageLimitService';
+import { Trash2 } from 'lucide-react';
+
+const MAX_CHARTED_TURNS = 30;
+
+export const formatTokens = (tokens: number): string => {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(2)}M`;
+  if (tokens >= 10000) return `${(tokens / 1000).toFixed(1)}k`;
+  return tokens.toLocaleString();
+};
+
+export const formatCost = (cost: number | null): string => {
+  if (cost === null) return 'n/a';
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
+
+const TotalsCard = ({ title, totals }: { title: string; totals: LLMUsageTotals }) => (
+  <div className="bg-gray-700 rounded-md p-3 flex-1 min-w-[220px]">
+    <h4 className="text-sm font-semibold text-sky-300 mb-2">{title}</h4>
+    <p className="text-2xl font-semibold text-green-300">{formatCost(totals.cost)}</p>
+    <div className="text-xs text-gray-300 mt-1 space-y-0.5">
+      <p>{totals.calls} calls</p>
+      <p>{formatTokens(totals.promptTokens)} prompt / {formatTokens(totals.completionTokens)} completion tokens</p>
+      {totals.estimatedCalls > 0 && <p className="text-gray-400">{totals.estimatedCalls} calls with estimated tokens</p>}
+      {totals.unpricedCalls > 0 && <p className="text-gray-400">{totals.unpricedCalls} calls without a model price</p>}
+    </div>
+  </div>
+);
+
+// Horizontal bars: prompt tokens in blue, completion tokens in purple, scaled to the largest group
+const UsageBars = ({ groups, emptyText }: { groups: LLMUsageGroup[]; emptyText: string }) => {
+  if (groups.length === 0) {
+    return <p className="text-xs text-gray-400 py-2">{emptyText}</p>;
+  }
+  const maxTokens = Math.max(1, ...groups.map(group => group.totals.promptTokens + group.totals.completionTokens));
+  return (
+    <div className="space-y-1">
+      {groups.map(group => (
+        <div key={group.key} className="flex items-center text-xs">
+          <span className="w-48 truncate text-gray-300 pr-2" title={group.label}>{group.label}</span>
+          <div className="flex-grow flex h-3 bg-gray-900 rounded overflow-hidden" title={`${group.totals.promptTokens} prompt / ${group.totals.completionTokens} completion tokens`}>
+            <div className="bg-blue-500" style={{ width: `${(group.totals.promptTokens / maxTokens) * 100}%` }} />
+            <div className="bg-purple-500" style={{ width: `${(group.totals.completionTokens / maxTokens) * 100}%` }} />
+          </div>
+          <span className="w-16 text-right text-gray-300">{formatTokens(group.totals.promptTokens + group.totals.completionTokens)}</span>
+          <span className="w-16 text-right text-green-300">{group.totals.calls > group.totals.unpricedCalls ? formatCost(group.totals.cost) : 'n/a'}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const LimitBars = ({ statuses }: { statuses: UsageLimitStatus[] }) => {
+  const softRatio = usageLimitService.getLimits().softLimitRatio ?? 0.8;
+  return (
+    <div className="space-y-1">
+      {statuses.map(status => (
+        <div key={`${status.scope}-${status.metric}`} className="flex items-center text-xs">
+          <span className="w-48 truncate text-gray-300 pr-2" title={status.scope}>{status.scope} {status.metric}</span>
+          <div className="flex-grow h-3 bg-gray-900 rounded overflow-hidden">
+            <div
+              className={status.ratio >= 1 ? 'h-full bg-red-500' : status.ratio >= softRatio ? 'h-full bg-yellow-500' : 'h-full bg-green-500'}
+              style={{ width: `${Math.min(1, status.ratio) * 100}%` }}
+            />
+          </div>
+          <span className="w-32 text-right text-gray-300">
+            {status.metric === 'cost' ? `${formatCost(status.used)} / ${formatCost(status.limit)}` : `${formatTokens(status.used)} / ${formatTokens(status.limit)}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const LLMUsageDashboard: React.FC = () => {
+  const [records, setRecords] = useState<LLMUsageRecord[]>(() => llmUsageService.getRecords());
+  const [scope, setScope] = useState<'session' | 'all'>('session');
+
+  useEffect(() => {
+    setRecords(llmUsageService.getRecords());
+    return llmUsageService.subscribe(setRecords);
+  }, []);
+
+  const sessionId = llmUsageService.getSessionId();
+  const sessionRecords = records.filter(record => record.sessionId === sessionId);
+  const scopedRecords = scope === 'session' ? sessionRecords : records;
+  const turns = llmUsageService.groupBy(scopedRecords.filter(record => record.turnId), 'turn').slice(-MAX_CHARTED_TURNS);
+  const limitStatuses = usageLimitService.getLimitStatuses();
+
+  const handleClear = () => {
+    if (window.confirm('Clear all recorded LLM usage?')) {
+      llmUsageService.clear();
+    }
+  };
+
+  return (
+    <div className="flex-grow overflow-y-auto pr-2 space-y-4 scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
+      <div className="flex flex-wrap gap-3">
+        <TotalsCard title="This session" totals={llmUsageService.summarize(sessionRecords)} />
+        <TotalsCard title="All time" totals={llmUsageService.summarize(records)} />
+      </div>
+
+      {limitStatuses.length > 0 && (
+        <section>
+          <h4 className="text-sm font-semibold text-gray-200 mb-2">Limits</h4>
+          {usageLimitService.isOptionalWorkPaused() && (
+            <p className="text-xs text-yellow-300 mb-2">Close to a spending limit: Moxus feedback and node sorting are paused.</p>
+          )}
+          <LimitBars statuses={limitStatuses} />
+        </section>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-1 text-xs">
+          {(['session', 'all'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setScope(value)}
+              className={`px-2 py-1 rounded ${scope === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {value === 'session' ? 'This session' : 'All time'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-3 text-xs text-gray-400">
+          <span className="flex items-center"><span className="inline-block w-3 h-3 bg-blue-500 mr-1 rounded-sm" />Prompt</span>
+          <span className="flex items-center"><span className="inline-block w-3 h-3 bg-purple-500 mr-1 rounded-sm" />Completion</span>
+          <button onClick={handleClear} className="p-1 hover:text-red-500 transition-colors" title="Clear recorded usage" aria-label="Clear recorded usage">
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      <section>
+        <h4 className="text-sm font-semibold text-gray-200 mb-2">Per turn {turns.length === MAX_CHARTED_TURNS && <span className="text-xs text-gray-400">(last {MAX_CHARTED_TURNS})</span>}</h4>
+        <UsageBars groups={turns} emptyText="No game turn recorded yet." />
+      </section>
+      <section>
+        <h4 className="text-sm font-semibold text-gray-200 mb-2">Per call type</h4>
+        <UsageBars groups={llmUsageService.groupBy(scopedRecords, 'callType')} emptyText="No LLM call recorded yet." />
+      </section>
+      <section>
+        <h4 className="text-sm font-semibold text-gray-200 mb-2">Per model</h4>
+        <UsageBars groups={llmUsageService.groupBy(scopedRecords, 'model')} emptyText="No LLM call recorded yet." />
+      </section>
+    </div>
+  );
+};
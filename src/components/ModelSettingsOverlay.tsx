@@ -0,0 +1,259 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ModelTaskConfig,
+  ModelTasksConfigData,
+  KNOWN_PROMPT_NAMES,
+  getModelTasksConfig,
+  getDefaultModelTasksConfig,
+  hasRuntimeConfig,
+  saveRuntimeConfig,
+  resetRuntimeConfig,
+  modelTasksConfigToYaml,
+  parseModelTasksConfigYaml
+} from '../services/modelTasksConfigService';
+import { llmProviderRegistry } from '../services/llmProviderRegistry';
+import { chatTemplateService } from '../services/chatTemplateService';
+
+interface ModelSettingsOverlayProps {
+  closeOverlay: () => void;
+}
+
+type NumericField = 'temperature' | 'max_tokens' | 'top_p' | 'frequency_penalty' | 'presence_penalty' | 'context_budget';
+
+const NUMERIC_FIELDS: { field: NumericField; label: string; step: number; title: string }[] = [
+  { field: 'temperature', label: 'temp', step: 0.1, title: 'Temperature' },
+  { field: 'max_tokens', label: 'max tokens', step: 1, title: 'Maximum completion tokens' },
+  { field: 'top_p', label: 'top p', step: 0.05, title: 'Nucleus sampling' },
+  { field: 'frequency_penalty', label: 'freq pen', step: 0.1, title: 'Frequency penalty' },
+  { field: 'presence_penalty', label: 'pres pen', step: 0.1, title: 'Presence penalty' },
+  { field: 'context_budget', label: 'context', step: 1000, title: 'Estimated prompt tokens allowed before nodes and history are trimmed' }
+];
+
+// One stop sequence per line, with newlines inside a sequence written as \n. Empty lines are dropped on save.
+const formatStopSequences = (stop: string[] = []): string => stop.map(sequence => sequence.replace(/\n/g, '\\n')).join('\n');
+const parseStopSequences = (value: string): string[] => value.split('\n').map(sequence => sequence.replace(/\\n/g, '\n'));
+
+const ModelSettingsOverlay: React.FC<ModelSettingsOverlayProps> = ({ closeOverlay }) => {
+  const [config, setConfig] = useState<ModelTasksConfigData | null>(null);
+  const [isCustom, setIsCustom] = useState(() => hasRuntimeConfig());
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const providers = llmProviderRegistry.list();
+  const chatTemplateNames = chatTemplateService.getTemplateNames();
+
+  useEffect(() => {
+    getModelTasksConfig().then(loaded => setConfig({ ...loaded, modelsTasks: loaded.modelsTasks || [] }));
+  }, []);
+
+  if (!config) return null;
+
+  const updateTask = (index: number, changes: Partial<ModelTaskConfig>) => {
+    setConfig(prev => prev && { ...prev, modelsTasks: prev.modelsTasks.map((task, i) => i === index ? { ...task, ...changes } : task) });
+  };
+
+  const handleAdd = () => {
+    const used = new Set(config.modelsTasks.map(task => task.promptName));
+    const promptName = KNOWN_PROMPT_NAMES.find(name => !used.has(name)) || 'new_task';
+    setConfig({ ...config, modelsTasks: [...config.modelsTasks, { promptName }] });
+  };
+
+  const handleRemove = (index: number) => {
+    setConfig({ ...config, modelsTasks: config.modelsTasks.filter((_, i) => i !== index) });
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Discard your model settings and go back to src/config/modelsTasks.yaml?')) return;
+    resetRuntimeConfig();
+    const defaults = await getDefaultModelTasksConfig();
+    setConfig({ ...defaults, modelsTasks: defaults.modelsTasks || [] });
+    setIsCustom(false);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    try {
+      if (!saveRuntimeConfig(config)) {
+        setError('Could not save the model settings: browser storage is full.');
+        return;
+      }
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+      return;
+    }
+    closeOverlay();
+  };
+
+  const handleExport = () => {
+    let yamlText: string;
+    try {
+      yamlText = modelTasksConfigToYaml(config);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+      return;
+    }
+    const blob = new Blob([yamlText], { type: 'text/yaml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'modelsTasks.yaml';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported settings are only applied once saved
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setConfig(parseModelTasksConfigYaml(e.target?.result as string));
+        setError(null);
+      } catch (importError) {
+        setError(`Could not import ${file.name}: ${importError instanceof Error ? importError.message : String(importError)}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const parseNumber = (value: string): number | undefined => value === '' ? undefined : Number(value);
+
+  return (
+    <div className="fixed inset-0 bg-gray-800 bg-opacity-75 flex justify-center items-center z-50">
+      <div className="bg-slate-900 p-6 rounded shadow-md w-11/12 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl">Models</h2>
+          <button onClick={closeOverlay} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+            Close
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Provider, model and sampling settings of each LLM task, applied from the next call.
+          {isCustom ? ' These settings are stored in this browser and replace src/config/modelsTasks.yaml.' : ' Showing src/config/modelsTasks.yaml; saving stores a copy in this browser.'}
+          {' '}Empty fields use the caller's value or the provider default.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+          <label htmlFor="default-provider">Default provider</label>
+          <select
+            id="default-provider"
+            value={config.provider || ''}
+            onChange={(e) => setConfig({ ...config, provider: e.target.value || undefined })}
+            className="p-1 border border-gray-700 rounded bg-gray-900"
+          >
+            <option value="">VITE_LLM_API ({import.meta.env.VITE_LLM_API || 'unset'})</option>
+            {providers.map(provider => <option key={provider.id} value={provider.id}>{provider.name}</option>)}
+          </select>
+        </div>
+
+        <datalist id="model-settings-prompt-names">
+          {KNOWN_PROMPT_NAMES.map(name => <option key={name} value={name} />)}
+        </datalist>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {config.modelsTasks.map((task, index) => (
+            <div key={index} className="bg-gray-800 p-3 rounded">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <input
+                  type="text"
+                  list="model-settings-prompt-names"
+                  value={task.promptName}
+                  onChange={(e) => updateTask(index, { promptName: e.target.value })}
+                  className="w-72 p-1 border border-gray-700 rounded bg-gray-900"
+                  placeholder="promptName"
+                />
+                <select
+                  value={task.provider || ''}
+                  onChange={(e) => updateTask(index, { provider: e.target.value || undefined })}
+                  className="p-1 border border-gray-700 rounded bg-gray-900"
+                  title="Provider"
+                >
+                  <option value="">default provider</option>
+                  {providers.map(provider => <option key={provider.id} value={provider.id}>{provider.name}</option>)}
+                </select>
+                <input
+                  type="text"
+                  value={task.model || ''}
+                  onChange={(e) => updateTask(index, { model: e.target.value || undefined })}
+                  className="w-56 p-1 border border-gray-700 rounded bg-gray-900"
+                  placeholder="model"
+                />
+                <select
+                  value={task.chat_template || ''}
+                  onChange={(e) => updateTask(index, { chat_template: e.target.value || undefined })}
+                  className="p-1 border border-gray-700 rounded bg-gray-900"
+                  title="Chat template of completion backends (KoboldCPP)"
+                >
+                  <option value="">template from model</option>
+                  {chatTemplateNames.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+                <button
+                  onClick={() => handleRemove(index)}
+                  className="ml-auto px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700"
+                  title="Remove task"
+                >
+                  ✗
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+                {NUMERIC_FIELDS.map(({ field, label, step, title }) => (
+                  <label key={field} className="flex items-center gap-1" title={title}>
+                    {label}
+                    <input
+                      type="number"
+                      step={step}
+                      value={task[field] ?? ''}
+                      onChange={(e) => updateTask(index, { [field]: parseNumber(e.target.value) })}
+                      className="w-24 p-1 border border-gray-700 rounded bg-gray-900"
+                    />
+                  </label>
+                ))}
+              </div>
+              <input
+                type="text"
+                value={(task.fallback_models || []).join(', ')}
+                onChange={(e) => updateTask(index, { fallback_models: e.target.value.split(',').map(model => model.trim()).filter(Boolean) })}
+                className="w-full p-1 border border-gray-700 rounded bg-gray-900 text-sm"
+                placeholder="fallback models, tried in order (e.g. gpt-4o-mini, gpt-4.1-mini)"
+              />
+              <textarea
+                value={formatStopSequences(task.stop)}
+                onChange={(e) => updateTask(index, { stop: e.target.value ? parseStopSequences(e.target.value) : undefined })}
+                className="w-full p-1 mt-2 border border-gray-700 rounded bg-gray-900 text-sm font-mono"
+                rows={2}
+                placeholder="extra stop sequences of completion backends, one per line (\n for a newline)"
+              />
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-red-400 mt-2">{error}</p>}
+
+        <div className="flex justify-between gap-4 mt-4 pt-4 border-t border-gray-700">
+          <div className="flex gap-2">
+            <button onClick={handleAdd} className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700">
+              Add Task
+            </button>
+            <button onClick={handleExport} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+              Export YAML
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+              Import YAML
+            </button>
+            <button onClick={handleReset} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+              Reset to modelsTasks.yaml
+            </button>
+            <input type="file" accept=".yaml,.yml,text/yaml" ref={fileInputRef} onChange={handleImport} className="hidden" />
+          </div>
+          <button onClick={handleSave} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsOverlay;
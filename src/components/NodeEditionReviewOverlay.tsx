@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { Node } from '../models/Node';
+import { LLMNodeEditionResponse } from '../models/nodeOperations';
+import DiffViewer from './DiffViewer';
+import { formatAttributesForPrompt } from '../utils/attributeUtils';
+import {
+  buildReviewItems,
+  buildApprovedNodeEdition,
+  summarizeReview,
+  ReviewDecision,
+  ReviewItem,
+  EditableNodeFields
+} from '../utils/nodeEditionReview';
+
+interface NodeEditionReviewOverlayProps {
+  nodeEdition: LLMNodeEditionResponse;
+  nodes: Node[];
+  onApply: (approvedEdition: LLMNodeEditionResponse, summary: string) => void;
+  onRejectAll: () => void;
+}
+
+const KIND_STYLES: { [kind in ReviewItem['kind']]: { label: string; className: string } } = {
+  new: { label: 'New', className: 'bg-green-700' },
+  update: { label: 'Update', className: 'bg-blue-700' },
+  delete: { label: 'Delete', className: 'bg-red-700' }
+};
+
+const NodeEditionReviewOverlay: React.FC<NodeEditionReviewOverlayProps> = ({ nodeEdition, nodes, onApply, onRejectAll }) => {
+  const items = useMemo(() => buildReviewItems(nodeEdition, nodes), [nodeEdition, nodes]);
+  const [decisions, setDecisions] = useState<{ [key: string]: ReviewDecision }>({});
+  const [edits, setEdits] = useState<{ [key: string]: Partial<EditableNodeFields> }>({});
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+
+  const setDecision = (key: string, decision: ReviewDecision) => {
+    setDecisions(prev => ({ ...prev, [key]: decision }));
+  };
+
+  const setEditField = (key: string, field: keyof EditableNodeFields, value: string) => {
+    setEdits(prev => ({ ...prev, [key]: { ...prev[key], [field]: value } }));
+  };
+
+  const handleApply = () => {
+    onApply(buildApprovedNodeEdition(nodeEdition, decisions, edits), summarizeReview(items, decisions, edits));
+  };
+
+  const acceptedCount = items.filter(item => decisions[item.key] !== 'reject').length;
+
+  const renderAfter = (item: ReviewItem) => {
+    if (!item.after) return null;
+    const displayed: Node = { ...item.after, ...edits[item.key] };
+
+    if (editingKey === item.key) {
+      return (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <label className="flex-1 text-sm">Name:
+              <input
+                type="text"
+                value={displayed.name}
+                onChange={(e) => setEditField(item.key, 'name', e.target.value)}
+                className="w-full p-1 bg-gray-900 border border-gray-700 rounded"
+              />
+            </label>
+            <label className="flex-1 text-sm">Type:
+              <input
+                type="text"
+                value={displayed.type}
+                onChange={(e) => setEditField(item.key, 'type', e.target.value)}
+                className="w-full p-1 bg-gray-900 border border-gray-700 rounded"
+              />
+            </label>
+          </div>
+          <textarea
+            value={displayed.longDescription}
+            onChange={(e) => setEditField(item.key, 'longDescription', e.target.value)}
+            className="w-full p-2 bg-gray-900 border border-gray-700 rounded"
+            rows={8}
+          />
+        </div>
+      );
+    }
+
+    const before = item.before;
+    return (
+      <div className="space-y-2">
+        {before && before.name !== displayed.name && (
+          <p className="text-sm">Name: <span className="line-through text-red-300">{before.name}</span> → <span className="text-green-300">{displayed.name}</span></p>
+        )}
+        {before && before.type !== displayed.type && (
+          <p className="text-sm">Type: <span className="line-through text-red-300">{before.type}</span> → <span className="text-green-300">{displayed.type}</span></p>
+        )}
+        {!before && <p className="text-sm">Type: {displayed.type}</p>}
+        {before ? (
+          before.longDescription !== displayed.longDescription ? (
+            <div className="flex gap-2">
+              <DiffViewer original={before.longDescription} updated={displayed.longDescription} isCurrent={true} className="flex-1" />
+              <DiffViewer original={before.longDescription} updated={displayed.longDescription} isCurrent={false} className="flex-1" />
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400">Description unchanged</p>
+          )
+        ) : (
+          <DiffViewer original="" updated={displayed.longDescription} isCurrent={false} />
+        )}
+        {formatAttributesForPrompt(before?.attributes) !== formatAttributesForPrompt(displayed.attributes) && (
+          <DiffViewer
+            original={formatAttributesForPrompt(before?.attributes)}
+            updated={formatAttributesForPrompt(displayed.attributes)}
+            isCurrent={false}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-800 bg-opacity-75 flex justify-center items-center z-50">
+      <div className="bg-slate-900 p-6 rounded shadow-md w-3/4 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl">Review node changes</h2>
+          <span className="text-sm text-gray-400">{acceptedCount}/{items.length} accepted</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {items.length === 0 && <p className="text-gray-400">The LLM proposed no node changes.</p>}
+          {items.map(item => {
+            const isRejected = decisions[item.key] === 'reject';
+            const nodeName = item.after?.name || item.before?.name || item.nodeId;
+            return (
+              <div key={item.key} className={`p-3 rounded border border-gray-700 ${isRejected ? 'opacity-50' : 'bg-gray-800'}`}>
+                <div className="flex justify-between items-center mb-2">
+                  <div className="flex items-center space-x-2">
+                    <span className={`text-xs px-2 py-0.5 rounded ${KIND_STYLES[item.kind].className}`}>{KIND_STYLES[item.kind].label}</span>
+                    <span className="font-semibold">{nodeName}</span>
+                    <span className="text-xs text-gray-400">{item.nodeId}</span>
+                  </div>
+                  <div className="flex space-x-2">
+                    {item.after && !isRejected && (
+                      <button
+                        onClick={() => setEditingKey(editingKey === item.key ? null : item.key)}
+                        className="px-2 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700 text-sm"
+                      >
+                        {editingKey === item.key ? 'Done' : 'Edit'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setDecision(item.key, isRejected ? 'accept' : 'reject')}
+                      className={`px-2 py-1 text-white rounded text-sm ${isRejected ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}
+                    >
+                      {isRejected ? 'Accept' : 'Reject'}
+                    </button>
+                  </div>
+                </div>
+                {item.warnings.map((warning, index) => (
+                  <p key={index} className="text-xs text-yellow-400 mb-1">{warning}</p>
+                ))}
+                {item.kind === 'delete' ? (
+                  item.before && <DiffViewer original={item.before.longDescription} updated="" isCurrent={true} />
+                ) : (
+                  renderAfter(item)
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end gap-4 mt-4 pt-4 border-t border-gray-700">
+          <button onClick={onRejectAll} className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700">
+            Reject all
+          </button>
+          <button onClick={handleApply} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
+            Apply {acceptedCount} change{acceptedCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NodeEditionReviewOverlay;
@@ -1,8 +1,14 @@
 import React, { useState } from 'react';
-import { Node } from '../models/Node';
+import { Node, NodeAttribute, NodeAttributeType } from '../models/Node';
 import { Message } from '../context/ChatContext';
 import { moxusService } from '../services/MoxusService';
 import { LLMNodeEditionResponse } from '../models/nodeOperations';
+import { sanitizeAttribute } from '../utils/attributeUtils';
+import { nodeTypeRegistry } from '../services/nodeTypeRegistry';
+import useNodeTypes from '../models/useNodeTypes';
+
+const parseListItems = (text: string): string[] =>
+  text.split(',').map(item => item.trim()).filter(item => item.length > 0);
 
 interface NodeEditorOverlayProps {
   nodes: Node[];
@@ -27,20 +33,40 @@ const NodeEditorOverlay: React.FC<NodeEditorOverlayProps> = ({ nodes, addNode, u
     return null;
   });
   const [isCreatingNewNode, setIsCreatingNewNode] = useState<boolean>(false);
+  const [newAttributeKey, setNewAttributeKey] = useState<string>('');
+  // Text of list attributes being typed, by key; parsed into items on blur or save so "a, " can be typed
+  const [listDrafts, setListDrafts] = useState<Record<string, string>>({});
+  const nodeTypes = useNodeTypes();
 
   const generateRandomId = () => {
     return Math.random().toString(36).substring(2, 6);
   };
 
+  const withListDrafts = (node: Node): Node => {
+    const draftKeys = Object.keys(listDrafts).filter(key => node.attributes?.[key]?.type === 'list');
+    if (draftKeys.length === 0) return node;
+    const attributes = { ...node.attributes };
+    draftKeys.forEach(key => {
+      attributes[key] = { ...attributes[key], value: parseListItems(listDrafts[key]) };
+    });
+    return { ...node, attributes };
+  };
+
+  const selectNode = (node: Node | null) => {
+    setSelectedNode(node);
+    setListDrafts({});
+  };
+
   const handleSave = () => {
     if (!selectedNode) return;
 
     const originalNode = nodes.find(n => n.id === selectedNode.id);
+    const savedNode = withListDrafts(selectedNode);
     
-    updateNode(selectedNode);
+    updateNode(savedNode);
     
     if (originalNode) {
-      moxusService.recordManualNodeEdit(originalNode, selectedNode, 'Manual edit via node editor');
+      moxusService.recordManualNodeEdit(originalNode, savedNode, 'Manual edit via node editor');
     } else {
       console.warn(`[NodeEditorOverlay] Could not find original node state for ID: ${selectedNode.id} to send to Moxus.`);
     }
@@ -48,6 +74,82 @@ const NodeEditorOverlay: React.FC<NodeEditorOverlayProps> = ({ nodes, addNode, u
     closeOverlay();
   };
 
+  const setAttribute = (key: string, attribute: NodeAttribute | null) => {
+    if (!selectedNode) return;
+    setListDrafts(drafts => {
+      const remaining = { ...drafts };
+      delete remaining[key];
+      return remaining;
+    });
+    const attributes = { ...(selectedNode.attributes || {}) };
+    if (attribute) {
+      attributes[key] = attribute;
+    } else {
+      delete attributes[key];
+    }
+    setSelectedNode({ ...selectedNode, attributes });
+  };
+
+  const handleAttributeTypeChange = (key: string, type: NodeAttributeType) => {
+    const current = selectedNode ? withListDrafts(selectedNode).attributes?.[key] : undefined;
+    const fallback: NodeAttribute['value'] = type === 'number' ? 0 : type === 'boolean' ? false : type === 'list' ? [] : '';
+    const converted = current ? sanitizeAttribute({ type, value: type === 'list' && !Array.isArray(current.value) ? [String(current.value)] : current.value }) : null;
+    setAttribute(key, converted || { type, value: fallback });
+  };
+
+  const handleAttributeValueChange = (key: string, rawValue: string) => {
+    const current = selectedNode?.attributes?.[key];
+    if (!current) return;
+    let value: NodeAttribute['value'] = rawValue;
+    if (current.type === 'number') {
+      const num = parseFloat(rawValue);
+      value = Number.isFinite(num) ? num : 0;
+    } else if (current.type === 'boolean') {
+      value = rawValue === 'true';
+    } else if (current.type === 'list') {
+      setListDrafts({ ...listDrafts, [key]: rawValue });
+      return;
+    }
+    setAttribute(key, { ...current, value });
+  };
+
+  const commitListDraft = (key: string) => {
+    const current = selectedNode?.attributes?.[key];
+    if (!current || !(key in listDrafts)) return;
+    setAttribute(key, { ...current, value: parseListItems(listDrafts[key]) });
+  };
+
+  const handleAttributeBoundChange = (key: string, bound: 'min' | 'max', rawValue: string) => {
+    const current = selectedNode?.attributes?.[key];
+    if (!current) return;
+    const num = parseFloat(rawValue);
+    const updated = { ...current };
+    if (Number.isFinite(num)) {
+      updated[bound] = num;
+    } else {
+      delete updated[bound];
+    }
+    setAttribute(key, updated);
+  };
+
+  const handleAddAttribute = () => {
+    const key = newAttributeKey.trim();
+    if (!key || !selectedNode || selectedNode.attributes?.[key]) return;
+    setAttribute(key, { type: 'number', value: 0 });
+    setNewAttributeKey('');
+  };
+
+  // Switching type pre-fills an empty description with the new type's template
+  const handleTypeChange = (type: string) => {
+    if (!selectedNode) return;
+    const template = nodeTypeRegistry.getDefinition(type).descriptionTemplate;
+    const longDescription = !selectedNode.longDescription.trim() && template ? template : selectedNode.longDescription;
+    setSelectedNode({ ...selectedNode, type, longDescription });
+  };
+
+  const missingRequiredFields = selectedNode ? nodeTypeRegistry.getMissingRequiredFields(selectedNode) : [];
+  const canDelete = selectedNode ? nodeTypeRegistry.isDeletable(selectedNode.type) : false;
+
   const handleDelete = () => {
     if (selectedNode) {
       const nodeEdition: LLMNodeEditionResponse = {
@@ -55,7 +157,7 @@ const NodeEditorOverlay: React.FC<NodeEditorOverlayProps> = ({ nodes, addNode, u
         d_nodes: [selectedNode.id]
       };
       updateGraph(nodeEdition, [], []);
-      setSelectedNode(null);
+      selectNode(null);
       closeOverlay();
     }
   };
@@ -71,7 +173,7 @@ const NodeEditorOverlay: React.FC<NodeEditorOverlayProps> = ({ nodes, addNode, u
     };
     
     addNode(newNode);
-    setSelectedNode(newNode);
+    selectNode(newNode);
     setIsCreatingNewNode(true);
   };
 
@@ -92,7 +194,7 @@ const NodeEditorOverlay: React.FC<NodeEditorOverlayProps> = ({ nodes, addNode, u
               value={selectedNode?.id || ''}
               onChange={(e) => {
                 const node = nodes.find(n => n.id === e.target.value) || null;
-                setSelectedNode(node);
+                selectNode(node);
                 setIsCreatingNewNode(false);
               }}
               className="w-full p-2 border border-gray-700 rounded bg-gray-900"
@@ -133,10 +235,99 @@ const NodeEditorOverlay: React.FC<NodeEditorOverlayProps> = ({ nodes, addNode, u
               <label className="block text-gray-100 bg-grey-900 mb-2">Node Type:</label>
               <input
                 type="text"
+                list="node-type-options"
                 value={selectedNode.type}
-                onChange={(e) => setSelectedNode({ ...selectedNode, type: e.target.value })}
+                onChange={(e) => handleTypeChange(e.target.value)}
                 className="w-full p-2 border border-gray-700 rounded bg-gray-900"
               />
+              <datalist id="node-type-options">
+                {nodeTypes.map(definition => (
+                  <option key={definition.type} value={definition.type} />
+                ))}
+              </datalist>
+              {missingRequiredFields.length > 0 && (
+                <p className="text-yellow-400 text-sm mt-1">
+                  Missing fields required by type "{selectedNode.type}": {missingRequiredFields.join(', ')}
+                </p>
+              )}
+            </div>
+            <div className="mb-4">
+              <label className="block text-gray-100 bg-grey-900 mb-2">Attributes:</label>
+              {Object.entries(selectedNode.attributes || {}).map(([key, attribute]) => (
+                <div key={key} className="flex items-center gap-2 mb-2">
+                  <span className="w-32 truncate text-gray-300" title={key}>{key}</span>
+                  <select
+                    value={attribute.type}
+                    onChange={(e) => handleAttributeTypeChange(key, e.target.value as NodeAttributeType)}
+                    className="p-2 border border-gray-700 rounded bg-gray-900"
+                  >
+                    <option value="number">number</option>
+                    <option value="string">string</option>
+                    <option value="boolean">boolean</option>
+                    <option value="list">list</option>
+                  </select>
+                  {attribute.type === 'boolean' ? (
+                    <select
+                      value={String(attribute.value)}
+                      onChange={(e) => handleAttributeValueChange(key, e.target.value)}
+                      className="flex-1 p-2 border border-gray-700 rounded bg-gray-900"
+                    >
+                      <option value="true">true</option>
+                      <option value="false">false</option>
+                    </select>
+                  ) : (
+                    <input
+                      type={attribute.type === 'number' ? 'number' : 'text'}
+                      value={listDrafts[key] ?? (Array.isArray(attribute.value) ? attribute.value.join(', ') : String(attribute.value))}
+                      onChange={(e) => handleAttributeValueChange(key, e.target.value)}
+                      onBlur={() => commitListDraft(key)}
+                      placeholder={attribute.type === 'list' ? 'comma, separated, items' : ''}
+                      className="flex-1 p-2 border border-gray-700 rounded bg-gray-900"
+                    />
+                  )}
+                  {attribute.type === 'number' && (
+                    <>
+                      <input
+                        type="number"
+                        value={attribute.min ?? ''}
+                        onChange={(e) => handleAttributeBoundChange(key, 'min', e.target.value)}
+                        placeholder="min"
+                        className="w-20 p-2 border border-gray-700 rounded bg-gray-900"
+                      />
+                      <input
+                        type="number"
+                        value={attribute.max ?? ''}
+                        onChange={(e) => handleAttributeBoundChange(key, 'max', e.target.value)}
+                        placeholder="max"
+                        className="w-20 p-2 border border-gray-700 rounded bg-gray-900"
+                      />
+                    </>
+                  )}
+                  <button
+                    onClick={() => setAttribute(key, null)}
+                    className="px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700"
+                    title="Remove attribute"
+                  >
+                    ✗
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={newAttributeKey}
+                  onChange={(e) => setNewAttributeKey(e.target.value)}
+                  placeholder="new attribute name (e.g. hp)"
+                  className="flex-1 p-2 border border-gray-700 rounded bg-gray-900"
+                />
+                <button
+                  onClick={handleAddAttribute}
+                  className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+                  disabled={!newAttributeKey.trim()}
+                >
+                  Add Attribute
+                </button>
+              </div>
             </div>
           </div>
         )}
@@ -149,11 +340,15 @@ const NodeEditorOverlay: React.FC<NodeEditorOverlayProps> = ({ nodes, addNode, u
           >
             Save
           </button>
-          {selectedNode && (
+          {selectedNode && (canDelete ? (
             <button onClick={handleDelete} className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700">
               Delete
             </button>
-          )}
+          ) : (
+            <span className="px-4 py-2 text-gray-400" title="This node type is protected in the node type settings">
+              Protected
+            </span>
+          ))}
         </div>
       </div>
     </div>
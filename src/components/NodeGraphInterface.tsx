@@ -4,7 +4,12 @@ import ReactMarkdown from 'react-markdown';
 import { Message } from '../context/ChatContext';
 // import { compressImage } from '../services/ImageService'; // No longer needed here directly
 import NodeGridItem from './NodeGridItem'; // Import the new component
+import NodeGraphView from './NodeGraphView';
+import DetailsOverlay from './DetailsOverlay';
 import { LLMNodeEditionResponse } from '../models/nodeOperations';
+import { getTouchedNodeIds } from '../utils/graphLayout';
+import { nodeTypeRegistry } from '../services/nodeTypeRegistry';
+import useNodeTypes from '../models/useNodeTypes';
 
 interface NodeGraphInterfaceProps {
   nodes: Node[];
@@ -16,15 +21,19 @@ interface NodeGraphInterfaceProps {
     isFromUserInteraction?: boolean
   ) => Promise<void>;
   onEditNode?: (nodeId: string) => void;
+  lastNodeEdition?: LLMNodeEditionResponse | null;
 }
 
-const NodeGraphInterface: React.FC<NodeGraphInterfaceProps> = React.memo(({ nodes, updateGraph, onNodesSorted, onEditNode }) => {
+const NodeGraphInterface: React.FC<NodeGraphInterfaceProps> = React.memo(({ nodes, updateGraph, onNodesSorted, onEditNode, lastNodeEdition }) => {
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
+  const [viewMode, setViewMode] = useState<'grid' | 'graph'>('grid');
+  const [graphSelectedNodeId, setGraphSelectedNodeId] = useState<string | null>(null);
   const [updatedNodes, setUpdatedNodes] = useState<Set<string>>(new Set());
   // const [compressedImages, setCompressedImages] = useState<Map<string, { originalUrl: string; compressedUrl: string }>>(new Map()); // Removed
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
   const [nodeToDelete, setNodeToDelete] = useState<string | null>(null);
   const [deletingNode, setDeletingNode] = useState<string | null>(null);
+  const nodeTypes = useNodeTypes();
 
   const newUpdatedNodes = useMemo(() => {
     const updates = new Set<string>();
@@ -126,6 +135,23 @@ const NodeGraphInterface: React.FC<NodeGraphInterfaceProps> = React.memo(({ node
 
   // getCompressedImageUrl is removed.
 
+  const touchedNodeIds = useMemo(() => getTouchedNodeIds(lastNodeEdition), [lastNodeEdition]);
+
+  const handleGraphNodeSelect = useCallback((node: Node) => {
+    setGraphSelectedNodeId(node.id);
+  }, []);
+
+  // The selected node followed by every node it is linked to, for the details table
+  const graphSelectedNodes = useMemo(() => {
+    const selected = nodes.find(n => n.id === graphSelectedNodeId);
+    if (!selected) return [];
+    const linkedIds = new Set((selected.links || []).map(link => link.targetId));
+    nodes.forEach(n => {
+      if ((n.links || []).some(link => link.targetId === selected.id)) linkedIds.add(n.id);
+    });
+    return [selected, ...nodes.filter(n => n.id !== selected.id && linkedIds.has(n.id))];
+  }, [nodes, graphSelectedNodeId]);
+
   const nodesGrid = useMemo(() => (
     <div className="columns-3 gap-4">
       {nodes.map((node) => (
@@ -142,12 +168,13 @@ const NodeGraphInterface: React.FC<NodeGraphInterfaceProps> = React.memo(({ node
           onRegenerateImage={handleRegenerateImage}
           onDeleteNode={handleDeleteNode}
           onEditNode={handleEditNode}
-          variant={['character', 'location'].includes((node.type || '').toLowerCase()) ? 'grid' : 'list'}
+          variant={nodeTypeRegistry.getDefinition(node.type).layout}
         />
       ))}
     </div>
   ), [
     nodes,
+    nodeTypes,
     updatedNodes,
     hoveredNodeId,
     nodeToDelete,
@@ -162,9 +189,42 @@ const NodeGraphInterface: React.FC<NodeGraphInterfaceProps> = React.memo(({ node
 
   return (
     <div className="w-1/2 p-4 flex flex-col space-y-4 relative overflow-y-auto">
-      <div className="flex-grow overflow-y-auto">
-        {nodesGrid}
+      <div className="flex justify-end space-x-2 text-sm flex-shrink-0">
+        <button
+          className={`px-2 py-1 rounded ${viewMode === 'grid' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          onClick={() => setViewMode('grid')}
+        >
+          Grid
+        </button>
+        <button
+          className={`px-2 py-1 rounded ${viewMode === 'graph' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          onClick={() => setViewMode('graph')}
+        >
+          Graph
+        </button>
       </div>
+      {viewMode === 'grid' ? (
+        <div className="flex-grow overflow-y-auto">
+          {nodesGrid}
+        </div>
+      ) : (
+        <div className="flex-grow min-h-0">
+          <NodeGraphView
+            nodes={nodes}
+            highlightedNodeIds={touchedNodeIds}
+            selectedNodeId={graphSelectedNodeId}
+            onNodeSelect={handleGraphNodeSelect}
+          />
+        </div>
+      )}
+      {viewMode === 'graph' && graphSelectedNodes.length > 0 && (
+        <DetailsOverlay
+          isCollapsed={false}
+          toggleCollapse={() => setGraphSelectedNodeId(null)}
+          lastNodeEdition={[]}
+          nodes={graphSelectedNodes}
+        />
+      )}
       {selectedNode && (
         <div className="absolute inset-0 bg-gray-900 bg-opacity-95 p-4 flex flex-col items-start text-white z-10 overflow-y-auto">
           <div className="flex justify-between w-full mb-4">
@@ -0,0 +1,218 @@
+import React, { useState, useMemo, useCallback, useRef } from 'react';
+import { Node } from '../models/Node';
+import { nodeTypeRegistry } from '../services/nodeTypeRegistry';
+import useNodeTypes from '../models/useNodeTypes';
+import { deriveGraphEdges, computeForceLayout, computeTypeCenters, GraphEdge } from '../utils/graphLayout';
+
+interface NodeGraphViewProps {
+  nodes: Node[];
+  highlightedNodeIds: Set<string>;
+  selectedNodeId?: string | null;
+  onNodeSelect: (node: Node) => void;
+}
+
+const CANVAS_WIDTH = 1000;
+const CANVAS_HEIGHT = 800;
+const NODE_RADIUS = 14;
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 4;
+
+const NodeGraphView: React.FC<NodeGraphViewProps> = ({ nodes, highlightedNodeIds, selectedNodeId, onNodeSelect }) => {
+  const [transform, setTransform] = useState({ x: 0, y: 0, k: 1 });
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+  useNodeTypes(); // Re-render when type colors are edited
+  const dragRef = useRef<{ startX: number; startY: number; originX: number; originY: number; moved: boolean } | null>(null);
+  // Set when a pan ends, read by the click that follows the mouseup
+  const wasDraggedRef = useRef(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const edges = useMemo(() => deriveGraphEdges(nodes), [nodes]);
+
+  // Layout only depends on the graph shape, not on descriptions being edited
+  const layoutKey = useMemo(() => JSON.stringify({
+    nodes: nodes.map(n => [n.id, n.type]),
+    edges: edges.map(e => [e.sourceId, e.targetId, e.kind])
+  }), [nodes, edges]);
+
+  const positions = useMemo(
+    () => computeForceLayout(nodes, edges, { width: CANVAS_WIDTH, height: CANVAS_HEIGHT }),
+    [layoutKey]
+  );
+
+  const typeLabels = useMemo(() => {
+    const typeNames = new Map<string, string>();
+    nodes.forEach(n => {
+      const key = (n.type || 'unknown').toLowerCase();
+      if (!typeNames.has(key)) typeNames.set(key, n.type || 'unknown');
+    });
+    const centers = computeTypeCenters(Array.from(typeNames.keys()), { width: CANVAS_WIDTH, height: CANVAS_HEIGHT });
+    return Array.from(typeNames.entries()).map(([key, name]) => ({ name, center: centers.get(key)! }));
+  }, [nodes]);
+
+  const neighborIds = useMemo(() => {
+    const focusId = hoveredNodeId || selectedNodeId;
+    const ids = new Set<string>();
+    if (!focusId) return ids;
+    edges.forEach(edge => {
+      if (edge.sourceId === focusId) ids.add(edge.targetId);
+      if (edge.targetId === focusId) ids.add(edge.sourceId);
+    });
+    return ids;
+  }, [edges, hoveredNodeId, selectedNodeId]);
+
+  const handleWheel = useCallback((e: React.WheelEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const rect = svg.getBoundingClientRect();
+    // Convert the cursor position to viewBox units so zoom stays anchored under the pointer
+    const pointerX = ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH;
+    const pointerY = ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT;
+    setTransform(prev => {
+      const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.k * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+      return {
+        k,
+        x: pointerX - ((pointerX - prev.x) / prev.k) * k,
+        y: pointerY - ((pointerY - prev.y) / prev.k) * k
+      };
+    });
+  }, []);
+
+  const handleMouseDown = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
+    dragRef.current = { startX: e.clientX, startY: e.clientY, originX: transform.x, originY: transform.y, moved: false };
+    wasDraggedRef.current = false;
+  }, [transform.x, transform.y]);
+
+  const handleMouseMove = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const svg = svgRef.current;
+    if (!drag || !svg) return;
+    const rect = svg.getBoundingClientRect();
+    const dx = ((e.clientX - drag.startX) / rect.width) * CANVAS_WIDTH;
+    const dy = ((e.clientY - drag.startY) / rect.height) * CANVAS_HEIGHT;
+    if (Math.abs(dx) + Math.abs(dy) > 2) drag.moved = true;
+    setTransform(prev => ({ ...prev, x: drag.originX + dx, y: drag.originY + dy }));
+  }, []);
+
+  const handleMouseUp = useCallback(() => {
+    if (dragRef.current?.moved) wasDraggedRef.current = true;
+    dragRef.current = null;
+  }, []);
+
+  const handleNodeClick = useCallback((e: React.MouseEvent, node: Node) => {
+    e.stopPropagation();
+    // A pan that started on a node should not select it
+    if (wasDraggedRef.current) {
+      wasDraggedRef.current = false;
+      return;
+    }
+    onNodeSelect(node);
+  }, [onNodeSelect]);
+
+  const renderEdge = (edge: GraphEdge, index: number) => {
+    const source = positions.get(edge.sourceId);
+    const target = positions.get(edge.targetId);
+    if (!source || !target) return null;
+    const focusId = hoveredNodeId || selectedNodeId;
+    const isFocused = !!focusId && (edge.sourceId === focusId || edge.targetId === focusId);
+    return (
+      <g key={`${edge.sourceId}-${edge.targetId}-${index}`}>
+        <line
+          x1={source.x}
+          y1={source.y}
+          x2={target.x}
+          y2={target.y}
+          stroke={isFocused ? '#facc15' : edge.kind === 'link' ? '#9ca3af' : '#4b5563'}
+          strokeWidth={edge.kind === 'link' ? 1.5 : 1}
+          strokeDasharray={edge.kind === 'mention' ? '4 4' : undefined}
+          markerEnd={edge.kind === 'link' ? 'url(#node-graph-arrow)' : undefined}
+        >
+          <title>{edge.kind === 'link' ? `${edge.type}${edge.label ? ` (${edge.label})` : ''}` : 'mentioned in description'}</title>
+        </line>
+        {edge.kind === 'link' && isFocused && (
+          <text
+            x={(source.x + target.x) / 2}
+            y={(source.y + target.y) / 2 - 4}
+            textAnchor="middle"
+            className="fill-yellow-300"
+            fontSize={10}
+          >
+            {edge.type}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  return (
+    <div className="relative w-full h-full bg-gray-900 rounded overflow-hidden">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+        className="w-full h-full cursor-move select-none"
+        onWheel={handleWheel}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+      >
+        <defs>
+          <marker id="node-graph-arrow" viewBox="0 0 10 10" refX={10 + NODE_RADIUS} refY={5} markerWidth={6} markerHeight={6} orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+          </marker>
+        </defs>
+        <g transform={`translate(${transform.x} ${transform.y}) scale(${transform.k})`}>
+          {typeLabels.map(({ name, center }) => (
+            <text key={name} x={center.x} y={center.y} textAnchor="middle" fontSize={28} className="fill-gray-700 pointer-events-none">
+              {name}
+            </text>
+          ))}
+          {edges.map(renderEdge)}
+          {nodes.map(node => {
+            const position = positions.get(node.id);
+            if (!position) return null;
+            const isHighlighted = highlightedNodeIds.has(node.id);
+            const isSelected = node.id === selectedNodeId;
+            const isDimmed = !!(hoveredNodeId || selectedNodeId) && !isSelected && node.id !== hoveredNodeId && !neighborIds.has(node.id);
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${position.x} ${position.y})`}
+                className="cursor-pointer"
+                opacity={isDimmed ? 0.35 : 1}
+                onClick={(e) => handleNodeClick(e, node)}
+                onMouseEnter={() => setHoveredNodeId(node.id)}
+                onMouseLeave={() => setHoveredNodeId(null)}
+              >
+                {isHighlighted && (
+                  <circle r={NODE_RADIUS + 6} fill="none" stroke="#facc15" strokeWidth={2} className="animate-pulse" />
+                )}
+                <circle
+                  r={NODE_RADIUS}
+                  fill={nodeTypeRegistry.getColor(node.type)}
+                  stroke={isSelected ? '#ffffff' : '#111827'}
+                  strokeWidth={isSelected ? 3 : 1.5}
+                />
+                <text y={NODE_RADIUS + 14} textAnchor="middle" fontSize={12} className="fill-gray-200 pointer-events-none">
+                  {node.name}
+                </text>
+                <title>{`${node.name} (${node.type})`}</title>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+      <div className="absolute bottom-2 left-2 flex space-x-1 text-xs">
+        <button className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600" onClick={() => setTransform(prev => ({ ...prev, k: Math.min(MAX_ZOOM, prev.k * 1.2) }))}>+</button>
+        <button className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600" onClick={() => setTransform(prev => ({ ...prev, k: Math.max(MIN_ZOOM, prev.k / 1.2) }))}>−</button>
+        <button className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600" onClick={() => setTransform({ x: 0, y: 0, k: 1 })}>Reset view</button>
+      </div>
+      <div className="absolute top-2 right-2 text-xs text-gray-400 bg-gray-800 bg-opacity-80 rounded px-2 py-1 space-y-0.5">
+        <div><span className="inline-block w-6 border-t-2 border-gray-400 align-middle mr-1"></span>link</div>
+        <div><span className="inline-block w-6 border-t-2 border-dashed border-gray-600 align-middle mr-1"></span>mention</div>
+        <div><span className="inline-block w-3 h-3 rounded-full border-2 border-yellow-400 align-middle mr-1"></span>last edition</div>
+      </div>
+    </div>
+  );
+};
+
+export default NodeGraphView;
@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Node } from '../models/Node';
 import { compressImage } from '../services/ImageService';
+import { formatAttributeValue } from '../utils/attributeUtils';
+import { nodeTypeRegistry, NodeTypeDefinition } from '../services/nodeTypeRegistry';
+import useNodeTypes from '../models/useNodeTypes';
 
 // Helper hook to get the previous value of a prop or state
 function usePrevious<T>(value: T): T | undefined {
@@ -27,57 +30,15 @@ interface NodeGridItemProps {
   variant?: 'grid' | 'list';
 }
 
-const getNodeBorderColor = (nodeType: string): string => {
-  // Ensure nodeType is a string and handle null/undefined cases
-  const safeNodeType = nodeType && typeof nodeType === 'string' ? nodeType : 'unknown';
-  switch (safeNodeType.toLowerCase()) {
-    case 'assistant':
-    case 'image-generation':
-    case 'system':
-      return 'border-black';
-    case 'character':
-      return 'border-green-500';
-    case 'location':
-      return 'border-emerald-500';
-    case 'event':
-      return 'border-teal-500';
-    case 'item':
-    case 'object':
-      return 'border-cyan-500';
-    case 'mechanic':
-    case 'concept':
-      return 'border-sky-500';
-    case 'library':
-      return 'border-blue-500';
+// Badge style of a node type: filled square, outlined ring or filled circle
+const getBadgeStyle = (definition: NodeTypeDefinition): { className: string; style: React.CSSProperties } => {
+  switch (definition.badgeShape) {
+    case 'ring':
+      return { className: 'border-2 rounded-full', style: { borderColor: definition.color } };
+    case 'square':
+      return { className: '', style: { backgroundColor: definition.color } };
     default:
-      return 'border-gray-700';
-  }
-};
-
-const getNodeBadgeColorClass = (nodeType: string): string => {
-  // Ensure nodeType is a string and handle null/undefined cases
-  const safeNodeType = nodeType && typeof nodeType === 'string' ? nodeType : 'unknown';
-  switch (safeNodeType.toLowerCase()) {
-    case 'assistant':
-    case 'image-generation':
-    case 'system':
-      return 'bg-gray-300'; // Light gray for good contrast on dark background
-    case 'character':
-      return 'bg-green-500';
-    case 'location':
-      return 'bg-emerald-500';
-    case 'event':
-      return 'bg-teal-500';
-    case 'item':
-    case 'object':
-      return 'bg-cyan-500';
-    case 'mechanic':
-    case 'concept':
-      return 'bg-sky-500';
-    case 'library':
-      return 'bg-blue-500';
-    default:
-      return 'bg-gray-500'; // A visible gray for default cases
+      return { className: 'rounded-full', style: { backgroundColor: definition.color } };
   }
 };
 
@@ -179,20 +140,12 @@ const NodeGridItem: React.FC<NodeGridItemProps> = React.memo((
     onMouseLeave(node.id);
   }, [node.id, onMouseLeave]);
 
-  const borderColorClass = getNodeBorderColor(node.type);
-  const badgeColorClass = getNodeBadgeColorClass(node.type);
-  const safeNodeType = node.type && typeof node.type === 'string' ? node.type : 'unknown';
-  const nodeTypeLower = safeNodeType.toLowerCase();
+  const attributeEntries = Object.entries(node.attributes || {});
 
-  let dynamicBadgeClasses = '';
-  if (nodeTypeLower === 'event') {
-    const badgeBorderColor = badgeColorClass.replace('bg-', 'border-');
-    dynamicBadgeClasses = `border-2 ${badgeBorderColor} rounded-full`;
-  } else if (nodeTypeLower === 'character') {
-    dynamicBadgeClasses = `${badgeColorClass}`; // Square, filled, no rounded-full
-  } else {
-    dynamicBadgeClasses = `${badgeColorClass} rounded-full`; // Default: filled circle
-  }
+  useNodeTypes(); // Re-render when the type registry is edited
+  const typeDefinition = nodeTypeRegistry.getDefinition(node.type);
+  const badge = getBadgeStyle(typeDefinition);
+  const canDelete = typeDefinition.deletable;
 
   if (variant === 'list') {
     return (
@@ -202,9 +155,10 @@ const NodeGridItem: React.FC<NodeGridItemProps> = React.memo((
         onMouseLeave={handleMouseLeaveItem}
       >
         <div
-          className={`relative flex items-center bg-gray-800 cursor-pointer rounded transition-all duration-200 border-l-4 ${borderColorClass} ${
+          className={`relative flex items-center bg-gray-800 cursor-pointer rounded transition-all duration-200 border-l-4 ${
             isUpdated ? 'animate-pulse' : ''
           } ${deletingNode === node.id ? 'opacity-50' : ''}`}
+          style={{ borderColor: typeDefinition.color }}
           onClick={handleSelect}
         >
           <div className="flex-shrink-0 w-14 h-14 overflow-hidden">
@@ -221,10 +175,19 @@ const NodeGridItem: React.FC<NodeGridItemProps> = React.memo((
               </div>
             )}
           </div>
-          <div className="flex-grow px-2">
-            <span className="truncate">{node.name}</span>
+          <div className="flex-grow px-2 min-w-0">
+            <span className="truncate block">{node.name}</span>
+            {attributeEntries.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-0.5">
+                {attributeEntries.slice(0, 4).map(([key, attribute]) => (
+                  <span key={key} className="text-[10px] bg-gray-700 text-gray-200 px-1 rounded">
+                    {key}: {formatAttributeValue(attribute)}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
-          <span className={`mx-2 w-3 h-3 ${dynamicBadgeClasses} flex-shrink-0`}></span>
+          <span className={`mx-2 w-3 h-3 ${badge.className} flex-shrink-0`} style={badge.style}></span>
           {hoveredNodeId === node.id && deletingNode !== node.id && (
             <div className="flex space-x-1 mr-2">
               <button
@@ -239,13 +202,15 @@ const NodeGridItem: React.FC<NodeGridItemProps> = React.memo((
               >
                 E
               </button>
-              <button
-                onClick={handleDelete}
-                className={`${nodeToDelete === node.id ? 'bg-red-700 hover:bg-red-800' : 'bg-red-600 hover:bg-red-700'} text-white px-1 py-0.5 rounded text-xs transition-colors`}
-                title={nodeToDelete === node.id ? 'Click again to confirm deletion' : 'Delete node'}
-              >
-                {nodeToDelete === node.id ? '✗' : '✗'}
-              </button>
+              {canDelete && (
+                <button
+                  onClick={handleDelete}
+                  className={`${nodeToDelete === node.id ? 'bg-red-700 hover:bg-red-800' : 'bg-red-600 hover:bg-red-700'} text-white px-1 py-0.5 rounded text-xs transition-colors`}
+                  title={nodeToDelete === node.id ? 'Click again to confirm deletion' : 'Delete node'}
+                >
+                  {nodeToDelete === node.id ? '✗' : '✗'}
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -260,10 +225,11 @@ const NodeGridItem: React.FC<NodeGridItemProps> = React.memo((
       onMouseLeave={handleMouseLeaveItem}
     >
       <div 
-        className={`relative cursor-pointer rounded overflow-hidden aspect-square transition-all duration-200 border-b-2 ${borderColorClass} ${
+        className={`relative cursor-pointer rounded overflow-hidden aspect-square transition-all duration-200 border-b-2 ${
           isUpdated ? 'animate-pulse' : ''
         } ${deletingNode === node.id ? 'opacity-50' : ''} 
         ${!thumbnailUrl ? 'bg-gradient-to-br from-black to-gray-800' : ''}`}
+        style={{ borderColor: typeDefinition.color }}
       >
         {thumbnailUrl && deletingNode !== node.id ? (
           <div className="w-full h-full" onClick={handleSelect}>
@@ -289,10 +255,20 @@ const NodeGridItem: React.FC<NodeGridItemProps> = React.memo((
             )}
           </div>
         )}
+        {attributeEntries.length > 0 && deletingNode !== node.id && (
+          <div className="absolute top-2 left-10 right-2 flex flex-wrap gap-1 pointer-events-none">
+            {attributeEntries.slice(0, 3).map(([key, attribute]) => (
+              <span key={key} className="text-[10px] bg-black bg-opacity-70 text-gray-100 px-1 rounded">
+                {key}: {formatAttributeValue(attribute)}
+              </span>
+            ))}
+          </div>
+        )}
         <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-70 text-white p-2 flex items-center justify-between">
           <span className="truncate max-w-[calc(100%-2.5rem)]">{node.name}</span>
           <span 
-            className={`w-3 h-3 ${dynamicBadgeClasses} flex-shrink-0`}
+            className={`w-3 h-3 ${badge.className} flex-shrink-0`}
+            style={badge.style}
           ></span>
         </div>
         {hoveredNodeId === node.id && deletingNode !== node.id && (
@@ -309,13 +285,15 @@ const NodeGridItem: React.FC<NodeGridItemProps> = React.memo((
             >
               Edit
             </button>
-            <button
-              onClick={handleDelete}
-              className={`absolute top-2 left-2 ${nodeToDelete === node.id ? 'bg-red-700 hover:bg-red-800' : 'bg-red-600 hover:bg-red-700'} text-white p-1 rounded text-sm transition-colors`}
-              title={nodeToDelete === node.id ? 'Click again to confirm deletion' : 'Delete node'}
-            >
-              {nodeToDelete === node.id ? 'Confirm ✗' : '✗'}
-            </button>
+            {canDelete && (
+              <button
+                onClick={handleDelete}
+                className={`absolute top-2 left-2 ${nodeToDelete === node.id ? 'bg-red-700 hover:bg-red-800' : 'bg-red-600 hover:bg-red-700'} text-white p-1 rounded text-sm transition-colors`}
+                title={nodeToDelete === node.id ? 'Click again to confirm deletion' : 'Delete node'}
+              >
+                {nodeToDelete === node.id ? 'Confirm ✗' : '✗'}
+              </button>
+            )}
           </>
         )}
       </div>
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import {
+  nodeTypeRegistry,
+  NodeTypeDefinition,
+  NodeTypeBadgeShape,
+  DEFAULT_NODE_TYPE_DEFINITION
+} from '../services/nodeTypeRegistry';
+
+interface NodeTypeSettingsOverlayProps {
+  closeOverlay: () => void;
+}
+
+type NodeTypeFlag = 'deletable' | 'generatesImages' | 'hiddenFromPrompts' | 'editableByLLM' | 'alwaysInPrompts';
+
+const FLAG_LABELS: { flag: NodeTypeFlag; label: string; title: string }[] = [
+  { flag: 'deletable', label: 'Deletable', title: 'Unchecked: node editions cannot delete it and the delete button is hidden' },
+  { flag: 'generatesImages', label: 'Images', title: 'Generate images for nodes of this type' },
+  { flag: 'hiddenFromPrompts', label: 'Hidden', title: 'Never describe nodes of this type to the LLM' },
+  { flag: 'editableByLLM', label: 'LLM edits', title: 'Offer nodes of this type to the node edition prompt' },
+  { flag: 'alwaysInPrompts', label: 'Always in prompts', title: 'Describe nodes of this type in full even when the relevance check did not pick them' }
+];
+
+const NodeTypeSettingsOverlay: React.FC<NodeTypeSettingsOverlayProps> = ({ closeOverlay }) => {
+  const [definitions, setDefinitions] = useState<NodeTypeDefinition[]>(() => nodeTypeRegistry.getNodeTypes());
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDefinition = (index: number, changes: Partial<NodeTypeDefinition>) => {
+    setDefinitions(prev => prev.map((definition, i) => i === index ? { ...definition, ...changes } : definition));
+  };
+
+  const handleAdd = () => {
+    setDefinitions(prev => [...prev, { ...DEFAULT_NODE_TYPE_DEFINITION, type: 'new type' }]);
+  };
+
+  const handleRemove = (index: number) => {
+    setDefinitions(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Reset all node types to their defaults?')) return;
+    nodeTypeRegistry.resetNodeTypes();
+    setDefinitions(nodeTypeRegistry.getNodeTypes());
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const types = definitions.map(definition => definition.type.trim().toLowerCase());
+    if (types.some(type => !type)) {
+      setError('Every node type needs a name.');
+      return;
+    }
+    if (new Set(types).size !== types.length) {
+      setError('Node type names must be unique (case-insensitive).');
+      return;
+    }
+    if (!nodeTypeRegistry.saveNodeTypes(definitions)) {
+      setError('Could not save the node types: browser storage is full.');
+      return;
+    }
+    closeOverlay();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-800 bg-opacity-75 flex justify-center items-center z-50">
+      <div className="bg-slate-900 p-6 rounded shadow-md w-11/12 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl">Node Types</h2>
+          <button onClick={closeOverlay} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+            Close
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Types are matched case-insensitively. Nodes whose type is not listed here use the default settings.
+          Required fields are node fields (longDescription, image) or attributes written as attributes.&lt;key&gt;.
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {definitions.map((definition, index) => (
+            <div key={index} className="bg-gray-800 p-3 rounded">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <input
+                  type="color"
+                  value={definition.color}
+                  onChange={(e) => updateDefinition(index, { color: e.target.value })}
+                  className="w-8 h-8 bg-transparent"
+                  title="Color"
+                />
+                <input
+                  type="text"
+                  value={definition.type}
+                  onChange={(e) => updateDefinition(index, { type: e.target.value })}
+                  className="w-48 p-1 border border-gray-700 rounded bg-gray-900"
+                  placeholder="type"
+                />
+                <select
+                  value={definition.badgeShape}
+                  onChange={(e) => updateDefinition(index, { badgeShape: e.target.value as NodeTypeBadgeShape })}
+                  className="p-1 border border-gray-700 rounded bg-gray-900"
+                  title="Badge shape"
+                >
+                  <option value="circle">circle</option>
+                  <option value="square">square</option>
+                  <option value="ring">ring</option>
+                </select>
+                <select
+                  value={definition.layout}
+                  onChange={(e) => updateDefinition(index, { layout: e.target.value as NodeTypeDefinition['layout'] })}
+                  className="p-1 border border-gray-700 rounded bg-gray-900"
+                  title="Card layout in the node grid"
+                >
+                  <option value="grid">image card</option>
+                  <option value="list">list row</option>
+                </select>
+                {FLAG_LABELS.map(({ flag, label, title }) => (
+                  <label key={flag} className="flex items-center gap-1 text-sm" title={title}>
+                    <input
+                      type="checkbox"
+                      checked={definition[flag]}
+                      onChange={(e) => updateDefinition(index, { [flag]: e.target.checked })}
+                    />
+                    {label}
+                  </label>
+                ))}
+                <button
+                  onClick={() => handleRemove(index)}
+                  className="ml-auto px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700"
+                  title="Remove type"
+                >
+                  ✗
+                </button>
+              </div>
+              <input
+                type="text"
+                value={definition.requiredFields.join(', ')}
+                onChange={(e) => updateDefinition(index, { requiredFields: e.target.value.split(',').map(field => field.trim()).filter(Boolean) })}
+                className="w-full p-1 mb-2 border border-gray-700 rounded bg-gray-900 text-sm"
+                placeholder="required fields (e.g. longDescription, attributes.hp)"
+              />
+              <textarea
+                value={definition.descriptionTemplate}
+                onChange={(e) => updateDefinition(index, { descriptionTemplate: e.target.value })}
+                className="w-full p-1 border border-gray-700 rounded bg-gray-900 text-sm"
+                rows={2}
+                placeholder="description template for new nodes"
+              />
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-red-400 mt-2">{error}</p>}
+
+        <div className="flex justify-between gap-4 mt-4 pt-4 border-t border-gray-700">
+          <div className="flex gap-2">
+            <button onClick={handleAdd} className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700">
+              Add Type
+            </button>
+            <button onClick={handleReset} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+              Reset to Defaults
+            </button>
+          </div>
+          <button onClick={handleSave} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NodeTypeSettingsOverlay;
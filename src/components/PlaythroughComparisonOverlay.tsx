@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import DiffViewer from './DiffViewer';
+import { saveSlotService } from '../services/saveSlotService';
+import {
+  PlaythroughSave,
+  parsePlaythroughSave,
+  compareNodes,
+  alignChatTurns,
+  ChatTurn
+} from '../utils/playthroughComparison';
+
+interface PlaythroughComparisonOverlayProps {
+  getCurrentSave: () => PlaythroughSave;
+  closeOverlay: () => void;
+}
+
+interface LoadedSide {
+  label: string;
+  save: PlaythroughSave;
+}
+
+type ComparisonTab = 'nodes' | 'unique' | 'chat';
+
+const SidePicker: React.FC<{
+  title: string;
+  side: LoadedSide | null;
+  onLoad: (side: LoadedSide) => void;
+  onError: (message: string) => void;
+  getCurrentSave: () => PlaythroughSave;
+}> = ({ title, side, onLoad, onError, getCurrentSave }) => {
+  const slots = saveSlotService.listSlots();
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        onLoad({ label: file.name, save: parsePlaythroughSave(e.target?.result as string) });
+      } catch (error) {
+        onError(error instanceof Error ? error.message : String(error));
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleSlot = (slotId: string) => {
+    const slot = slots.find(s => s.id === slotId);
+    const data = slot ? saveSlotService.loadSlot(slot.id) : null;
+    if (!slot || !data) {
+      onError('Could not load the selected save slot.');
+      return;
+    }
+    onLoad({ label: `Slot: ${slot.name}`, save: data });
+  };
+
+  return (
+    <div className="flex-1 bg-gray-800 p-3 rounded">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-semibold">{title}</h3>
+        <span className="text-sm text-gray-400 truncate">
+          {side ? `${side.label} · ${side.save.nodes.length} nodes · ${side.save.chatHistory.length} messages` : 'Nothing loaded'}
+        </span>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onLoad({ label: 'Current game', save: getCurrentSave() })}
+          className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+        >
+          Current game
+        </button>
+        {slots.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleSlot(e.target.value)}
+            className="p-1 border border-gray-700 rounded bg-gray-900 text-sm"
+          >
+            <option value="">Save slot...</option>
+            {slots.map(slot => (
+              <option key={slot.id} value={slot.id}>{slot.name}</option>
+            ))}
+          </select>
+        )}
+        <input type="file" accept="application/json" onChange={handleFile} className="text-sm" />
+      </div>
+    </div>
+  );
+};
+
+const TurnColumn: React.FC<{ turn?: ChatTurn }> = ({ turn }) => {
+  if (!turn) {
+    return <div className="flex-1 p-2 text-gray-500 italic">No turn</div>;
+  }
+  return (
+    <div className="flex-1 p-2 space-y-2">
+      {turn.userInput !== undefined && (
+        <div className="bg-slate-600 p-2 rounded text-sm">{turn.userInput}</div>
+      )}
+      {turn.responses.map((response, index) => (
+        <div key={index} className="bg-slate-700 p-2 rounded text-sm whitespace-pre-wrap">{response}</div>
+      ))}
+    </div>
+  );
+};
+
+const PlaythroughComparisonOverlay: React.FC<PlaythroughComparisonOverlayProps> = ({ getCurrentSave, closeOverlay }) => {
+  const [left, setLeft] = useState<LoadedSide | null>(null);
+  const [right, setRight] = useState<LoadedSide | null>(null);
+  const [activeTab, setActiveTab] = useState<ComparisonTab>('nodes');
+  const [showIdentical, setShowIdentical] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const nodeComparison = useMemo(() => (
+    left && right ? compareNodes(left.save.nodes, right.save.nodes) : null
+  ), [left, right]);
+
+  const chatTurns = useMemo(() => (
+    left && right ? alignChatTurns(left.save.chatHistory, right.save.chatHistory) : []
+  ), [left, right]);
+
+  const changedMatches = nodeComparison ? nodeComparison.matched.filter(match => match.fieldDiffs.length > 0) : [];
+  const identicalCount = nodeComparison ? nodeComparison.matched.length - changedMatches.length : 0;
+
+  const loadSide = (setter: (side: LoadedSide) => void) => (side: LoadedSide) => {
+    setter(side);
+    setErrorMessage('');
+  };
+
+  const tabs: { id: ComparisonTab; label: string }[] = [
+    { id: 'nodes', label: `Changed nodes (${changedMatches.length})` },
+    { id: 'unique', label: `Unique nodes (${nodeComparison ? nodeComparison.onlyLeft.length + nodeComparison.onlyRight.length : 0})` },
+    { id: 'chat', label: `Chat (${chatTurns.length} turns)` }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-gray-800 bg-opacity-75 flex justify-center items-center z-50">
+      <div className="bg-slate-900 p-6 rounded shadow-md w-11/12 h-5/6 flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl">Compare Playthroughs</h2>
+          <button onClick={closeOverlay} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+            Close
+          </button>
+        </div>
+
+        <div className="flex gap-4 mb-4">
+          <SidePicker title="Left" side={left} onLoad={loadSide(setLeft)} onError={setErrorMessage} getCurrentSave={getCurrentSave} />
+          <SidePicker title="Right" side={right} onLoad={loadSide(setRight)} onError={setErrorMessage} getCurrentSave={getCurrentSave} />
+        </div>
+
+        {errorMessage && <div className="text-red-400 mb-2">{errorMessage}</div>}
+
+        {!nodeComparison ? (
+          <div className="flex-1 flex items-center justify-center text-gray-400">
+            Load a save on each side to compare them.
+          </div>
+        ) : (
+          <>
+            <div className="flex space-x-2 mb-2 border-b border-gray-700">
+              {tabs.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`px-3 py-1 rounded-t ${activeTab === tab.id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {activeTab === 'nodes' && (
+                <div className="space-y-4">
+                  <label className="text-sm text-gray-400">
+                    <input type="checkbox" checked={showIdentical} onChange={(e) => setShowIdentical(e.target.checked)} className="mr-1" />
+                    Show {identicalCount} identical nodes
+                  </label>
+                  {(showIdentical ? nodeComparison.matched : changedMatches).map(match => (
+                    <div key={`${match.left.id}-${match.right.id}`} className="bg-gray-800 p-3 rounded">
+                      <div className="flex justify-between items-center mb-2">
+                        <span className="font-semibold">{match.left.name}</span>
+                        <span className="text-xs text-gray-400">
+                          matched by {match.matchedBy}{match.matchedBy === 'name' && ` (${match.left.id} / ${match.right.id})`}
+                        </span>
+                      </div>
+                      {match.fieldDiffs.length === 0 && <p className="text-sm text-gray-500">Identical</p>}
+                      {match.fieldDiffs.map(diff => (
+                        <div key={diff.field} className="mb-2">
+                          <p className="text-xs text-gray-400 mb-1">{diff.field}</p>
+                          <div className="flex gap-2">
+                            <DiffViewer original={diff.left} updated={diff.right} isCurrent={true} className="flex-1" />
+                            <DiffViewer original={diff.left} updated={diff.right} isCurrent={false} className="flex-1" />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {activeTab === 'unique' && (
+                <div className="flex gap-4">
+                  {[{ title: `Only in ${left!.label}`, nodes: nodeComparison.onlyLeft }, { title: `Only in ${right!.label}`, nodes: nodeComparison.onlyRight }].map(column => (
+                    <div key={column.title} className="flex-1 space-y-2">
+                      <h3 className="font-semibold">{column.title}</h3>
+                      {column.nodes.length === 0 && <p className="text-sm text-gray-500">None</p>}
+                      {column.nodes.map(node => (
+                        <div key={node.id} className="bg-gray-800 p-2 rounded">
+                          <div className="flex justify-between">
+                            <span className="font-semibold">{node.name}</span>
+                            <span className="text-xs text-gray-400">{node.type}</span>
+                          </div>
+                          <p className="text-sm text-gray-300 whitespace-pre-wrap">{node.longDescription}</p>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {activeTab === 'chat' && (
+                <div className="space-y-2">
+                  {chatTurns.map(pair => (
+                    <div key={pair.index} className="border border-gray-700 rounded">
+                      <div className="text-xs text-gray-400 px-2 pt-1">
+                        {pair.index === 0 && !pair.left?.userInput && !pair.right?.userInput ? 'Introduction' : `Turn ${pair.index + 1}`}
+                      </div>
+                      <div className="flex divide-x divide-gray-700">
+                        <TurnColumn turn={pair.left} />
+                        <TurnColumn turn={pair.right} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlaythroughComparisonOverlay;
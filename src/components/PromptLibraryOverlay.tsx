@@ -0,0 +1,304 @@
+import React, { useMemo, useState } from 'react';
+import { promptLibraryService, PromptEntry, PromptOverrideScope } from '../services/promptLibraryService';
+import { diffLines } from '../utils/lineDiff';
+import { isPromptTemplateError } from '../utils/promptTemplate';
+
+interface PromptLibraryOverlayProps {
+  closeOverlay: () => void;
+}
+
+// Texts the diff view can compare: the default, the saved text, the editor, or a version id
+type DiffSide = 'default' | 'current' | 'draft' | string;
+
+const SOURCE_LABELS: Record<PromptEntry['source'], { label: string; className: string }> = {
+  default: { label: 'default', className: 'bg-gray-700' },
+  library: { label: 'all games', className: 'bg-blue-700' },
+  save: { label: 'this game', className: 'bg-green-700' }
+};
+
+const PromptLibraryOverlay: React.FC<PromptLibraryOverlayProps> = ({ closeOverlay }) => {
+  const [prompts, setPrompts] = useState<PromptEntry[]>(() => promptLibraryService.listPrompts());
+  const [selectedPath, setSelectedPath] = useState<string>(() => prompts[0]?.path || '');
+  const [draft, setDraft] = useState<string>(() => prompts[0]?.text || '');
+  const [versions, setVersions] = useState(() => promptLibraryService.listVersions(prompts[0]?.path || ''));
+  const [versionName, setVersionName] = useState('');
+  const [diffFrom, setDiffFrom] = useState<DiffSide>('current');
+  const [diffTo, setDiffTo] = useState<DiffSide>('draft');
+  const [filter, setFilter] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [previewBlank, setPreviewBlank] = useState(false);
+
+  const selected = prompts.find(prompt => prompt.path === selectedPath);
+  const validation = useMemo(() => promptLibraryService.validatePrompt(selectedPath, draft), [selectedPath, draft]);
+  const replacements = promptLibraryService.getReplacements(selectedPath);
+  // Syntax errors are already listed by the validation
+  const preview = useMemo(() => {
+    try {
+      return promptLibraryService.renderPreview(selectedPath, draft, previewBlank).text;
+    } catch (previewError) {
+      if (isPromptTemplateError(previewError)) return null;
+      throw previewError;
+    }
+  }, [selectedPath, draft, previewBlank]);
+  const hasChanges = !!selected && draft !== selected.text;
+
+  const groups = useMemo(() => {
+    const byGroup: Record<string, PromptEntry[]> = {};
+    prompts
+      .filter(prompt => prompt.path.toLowerCase().includes(filter.trim().toLowerCase()))
+      .forEach(prompt => {
+        (byGroup[prompt.group] = byGroup[prompt.group] || []).push(prompt);
+      });
+    return byGroup;
+  }, [prompts, filter]);
+
+  const getSideText = (side: DiffSide): string => {
+    if (side === 'default') return selected?.defaultText || '';
+    if (side === 'current') return selected?.text || '';
+    if (side === 'draft') return draft;
+    return versions.find(version => version.id === side)?.text || '';
+  };
+  const diff = diffLines(getSideText(diffFrom), getSideText(diffTo));
+
+  const refresh = (path: string) => {
+    const updated = promptLibraryService.listPrompts();
+    setPrompts(updated);
+    setVersions(promptLibraryService.listVersions(path));
+    return updated;
+  };
+
+  const selectPrompt = (path: string) => {
+    if (hasChanges && !window.confirm('Discard the unsaved changes to this prompt?')) return;
+    setSelectedPath(path);
+    setDraft(prompts.find(prompt => prompt.path === path)?.text || '');
+    setVersions(promptLibraryService.listVersions(path));
+    setDiffFrom('current');
+    setDiffTo('draft');
+    setError(null);
+  };
+
+  const handleSave = (scope: PromptOverrideScope) => {
+    try {
+      if (!promptLibraryService.savePrompt(selectedPath, draft, scope)) {
+        setError('The prompt is applied but could not be stored: browser storage is full.');
+      } else {
+        setError(null);
+      }
+      refresh(selectedPath);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(`Reset ${selectedPath} to its default text for every game?`)) return;
+    promptLibraryService.resetPrompt(selectedPath);
+    const updated = refresh(selectedPath);
+    setDraft(updated.find(prompt => prompt.path === selectedPath)?.text || '');
+    setError(null);
+  };
+
+  const handleSaveVersion = () => {
+    if (!promptLibraryService.saveVersion(selectedPath, versionName, draft)) {
+      setError('Could not store the version: browser storage is full.');
+      return;
+    }
+    setVersionName('');
+    refresh(selectedPath);
+  };
+
+  const handleDeleteVersion = (versionId: string) => {
+    promptLibraryService.deleteVersion(selectedPath, versionId);
+    if (diffFrom === versionId) setDiffFrom('current');
+    if (diffTo === versionId) setDiffTo('draft');
+    refresh(selectedPath);
+  };
+
+  const renderSideSelect = (value: DiffSide, onChange: (side: DiffSide) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className="p-1 border border-gray-700 rounded bg-gray-900 text-sm">
+      <option value="default">default</option>
+      <option value="current">saved</option>
+      <option value="draft">editor</option>
+      {versions.map(version => (
+        <option key={version.id} value={version.id}>version: {version.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-gray-800 bg-opacity-75 flex justify-center items-center z-50">
+      <div className="bg-slate-900 p-6 rounded shadow-md w-11/12 h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl">Prompts</h2>
+          <button onClick={closeOverlay} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+            Close
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Saved prompts are used from the next LLM call. &quot;This game&quot; overrides are stored with the save slots and exports
+          of the current game and take precedence over &quot;all games&quot; overrides.
+        </p>
+
+        <div className="flex-1 flex gap-4 min-h-0">
+          <div className="w-72 flex flex-col min-h-0">
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="w-full p-1 mb-2 border border-gray-700 rounded bg-gray-900 text-sm"
+              placeholder="filter prompts"
+            />
+            <div className="flex-1 overflow-y-auto space-y-3">
+              {Object.entries(groups).map(([group, entries]) => (
+                <div key={group}>
+                  <h3 className="text-sm font-bold text-gray-300 mb-1">{group}</h3>
+                  {entries.map(prompt => (
+                    <button
+                      key={prompt.path}
+                      onClick={() => selectPrompt(prompt.path)}
+                      className={`w-full flex justify-between items-center text-left text-sm px-2 py-1 rounded ${prompt.path === selectedPath ? 'bg-slate-700' : 'hover:bg-gray-800'}`}
+                    >
+                      <span className="truncate">{prompt.path.substring(group.length + 1)}</span>
+                      {prompt.source !== 'default' && (
+                        <span className={`ml-2 px-1 rounded text-xs ${SOURCE_LABELS[prompt.source].className}`}>
+                          {SOURCE_LABELS[prompt.source].label}
+                        </span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {selected && (
+            <div className="flex-1 flex flex-col min-h-0 overflow-y-auto">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="font-mono text-sm">{selected.path}</span>
+                <span className={`px-1 rounded text-xs ${SOURCE_LABELS[selected.source].className}`}>
+                  {SOURCE_LABELS[selected.source].label}
+                </span>
+              </div>
+              <p className="text-xs text-gray-400 mb-2">
+                {replacements
+                  ? `Passed by the caller: ${replacements.map(name => `{${name}}`).join(' ')}`
+                  : 'Inserted as-is: only {utils.*} placeholders are replaced.'}
+              </p>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="w-full p-2 border border-gray-700 rounded bg-gray-900 font-mono text-sm"
+                rows={14}
+                spellCheck={false}
+              />
+              {validation.errors.map(message => (
+                <p key={message} className="text-red-400 text-sm">{message}</p>
+              ))}
+              {validation.warnings.map(message => (
+                <p key={message} className="text-yellow-400 text-sm">{message}</p>
+              ))}
+
+              <div className="flex flex-wrap gap-2 mt-2">
+                <button
+                  onClick={() => handleSave('library')}
+                  disabled={validation.errors.length > 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save for all games
+                </button>
+                <button
+                  onClick={() => handleSave('save')}
+                  disabled={validation.errors.length > 0}
+                  className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                >
+                  Save for this game
+                </button>
+                <button
+                  onClick={() => setDraft(selected.text)}
+                  disabled={!hasChanges}
+                  className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Discard changes
+                </button>
+                <button
+                  onClick={handleReset}
+                  disabled={selected.source === 'default'}
+                  className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                >
+                  Reset to default
+                </button>
+              </div>
+              {error && <p className="text-red-400 mt-2">{error}</p>}
+
+              <h3 className="text-sm font-bold text-gray-300 mt-4 mb-1">Versions</h3>
+              <div className="flex gap-2 mb-2">
+                <input
+                  type="text"
+                  value={versionName}
+                  onChange={(e) => setVersionName(e.target.value)}
+                  className="flex-1 p-1 border border-gray-700 rounded bg-gray-900 text-sm"
+                  placeholder="version name (defaults to the date)"
+                />
+                <button onClick={handleSaveVersion} className="px-2 py-1 bg-slate-700 text-white rounded hover:bg-slate-600 text-sm">
+                  Save editor as version
+                </button>
+              </div>
+              {versions.length === 0 && <p className="text-xs text-gray-500">No versions of this prompt yet.</p>}
+              {versions.slice().reverse().map(version => (
+                <div key={version.id} className="flex items-center gap-2 text-sm py-1">
+                  <span className="flex-1 truncate">{version.name}</span>
+                  <span className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+                  <button onClick={() => setDraft(version.text)} className="px-2 bg-slate-700 rounded hover:bg-slate-600" title="Load into the editor">
+                    Load
+                  </button>
+                  <button
+                    onClick={() => { setDiffFrom(version.id); setDiffTo('draft'); }}
+                    className="px-2 bg-slate-700 rounded hover:bg-slate-600"
+                    title="Compare with the editor"
+                  >
+                    Diff
+                  </button>
+                  <button onClick={() => handleDeleteVersion(version.id)} className="px-2 bg-red-600 rounded hover:bg-red-700" title="Delete version">
+                    ✗
+                  </button>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-2 mt-4 mb-1 text-sm">
+                <h3 className="font-bold text-gray-300">Diff</h3>
+                {renderSideSelect(diffFrom, setDiffFrom)}
+                <span>→</span>
+                {renderSideSelect(diffTo, setDiffTo)}
+              </div>
+              <pre className="p-2 bg-black rounded text-xs whitespace-pre-wrap">
+                {diff.every(part => part.type === 'same')
+                  ? <span className="text-gray-500">No differences.</span>
+                  : diff.map((part, index) => (
+                    <div
+                      key={index}
+                      className={part.type === 'added' ? 'bg-green-900 text-green-200' : part.type === 'removed' ? 'bg-red-900 text-red-200' : 'text-gray-400'}
+                    >
+                      {part.type === 'added' ? '+ ' : part.type === 'removed' ? '- ' : '  '}{part.line}
+                    </div>
+                  ))}
+              </pre>
+
+              <div className="flex items-center gap-2 mt-4 mb-1 text-sm">
+                <h3 className="font-bold text-gray-300">Preview</h3>
+                <label className="flex items-center gap-1 text-xs text-gray-400">
+                  <input type="checkbox" checked={previewBlank} onChange={(e) => setPreviewBlank(e.target.checked)} />
+                  empty inputs
+                </label>
+              </div>
+              <pre className="p-2 bg-black rounded text-xs whitespace-pre-wrap text-gray-300">
+                {preview ?? <span className="text-gray-500">Fix the template errors to preview it.</span>}
+              </pre>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibraryOverlay;
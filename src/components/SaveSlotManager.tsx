@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { saveSlotService, SaveSlotData, SaveSlotMeta } from '../services/saveSlotService';
+
+interface SaveSlotManagerProps {
+  getCurrentData: () => SaveSlotData;
+  onLoadSlot: (slot: SaveSlotMeta, data: SaveSlotData) => void;
+  onClose: () => void;
+}
+
+const SaveSlotManager: React.FC<SaveSlotManagerProps> = ({ getCurrentData, onLoadSlot, onClose }) => {
+  const [slots, setSlots] = useState<SaveSlotMeta[]>(() => saveSlotService.listSlots());
+  const [activeSlotId, setActiveSlotId] = useState<string | null>(() => saveSlotService.getActiveSlotId());
+  const [newSlotName, setNewSlotName] = useState('');
+  const [renamingSlotId, setRenamingSlotId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [slotToDelete, setSlotToDelete] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const refresh = () => {
+    setSlots(saveSlotService.listSlots());
+    setActiveSlotId(saveSlotService.getActiveSlotId());
+  };
+
+  const handleCreate = () => {
+    const name = newSlotName.trim() || `Save ${slots.length + 1}`;
+    const slot = saveSlotService.createSlot(name, getCurrentData());
+    if (!slot) {
+      setErrorMessage('Could not store the save slot (storage full?).');
+      return;
+    }
+    saveSlotService.setActiveSlotId(slot.id);
+    setNewSlotName('');
+    setErrorMessage('');
+    refresh();
+  };
+
+  const handleOverwrite = (slot: SaveSlotMeta) => {
+    if (!saveSlotService.saveSlot(slot.id, slot.name, getCurrentData())) {
+      setErrorMessage(`Could not save "${slot.name}" (storage full?).`);
+      return;
+    }
+    saveSlotService.setActiveSlotId(slot.id);
+    setErrorMessage('');
+    refresh();
+  };
+
+  const handleLoad = (slot: SaveSlotMeta) => {
+    // Keep the branch being left up to date before switching
+    const activeSlot = slots.find(s => s.id === activeSlotId);
+    if (activeSlot && activeSlot.id !== slot.id) {
+      saveSlotService.saveSlot(activeSlot.id, activeSlot.name, getCurrentData());
+    }
+    const data = saveSlotService.loadSlot(slot.id);
+    if (!data) {
+      setErrorMessage(`Could not load "${slot.name}".`);
+      return;
+    }
+    saveSlotService.setActiveSlotId(slot.id);
+    onLoadSlot(slot, data);
+    setErrorMessage('');
+    refresh();
+  };
+
+  const handleRename = (slotId: string) => {
+    if (renameValue.trim()) {
+      saveSlotService.renameSlot(slotId, renameValue.trim());
+    }
+    setRenamingSlotId(null);
+    refresh();
+  };
+
+  const handleDelete = (slotId: string) => {
+    if (slotToDelete !== slotId) {
+      setSlotToDelete(slotId);
+      return;
+    }
+    saveSlotService.deleteSlot(slotId);
+    setSlotToDelete(null);
+    refresh();
+  };
+
+  const getSlotName = (slotId?: string) => slots.find(slot => slot.id === slotId)?.name;
+
+  return (
+    <div className="fixed inset-0 bg-gray-800 bg-opacity-75 flex justify-center items-center z-50">
+      <div className="bg-slate-900 p-6 rounded shadow-md w-3/4 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl">Save Slots</h2>
+          <button onClick={onClose} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+            Close
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-4">
+          <input
+            type="text"
+            value={newSlotName}
+            onChange={(e) => setNewSlotName(e.target.value)}
+            placeholder="Name for a new save slot"
+            className="flex-1 p-2 border border-gray-700 rounded bg-gray-900"
+          />
+          <button onClick={handleCreate} className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700">
+            Save current as new slot
+          </button>
+        </div>
+
+        {errorMessage && <div className="text-red-400 mb-2">{errorMessage}</div>}
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {slots.length === 0 && (
+            <p className="text-gray-400">No save slots yet. Save the current game or fork it from a chat message.</p>
+          )}
+          {slots.map(slot => (
+            <div
+              key={slot.id}
+              className={`p-3 rounded border ${slot.id === activeSlotId ? 'border-green-500 bg-gray-800' : 'border-gray-700 bg-gray-900'}`}
+            >
+              <div className="flex justify-between items-center">
+                {renamingSlotId === slot.id ? (
+                  <input
+                    type="text"
+                    value={renameValue}
+                    autoFocus
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={() => handleRename(slot.id)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRename(slot.id)}
+                    className="p-1 border border-gray-700 rounded bg-gray-900"
+                  />
+                ) : (
+                  <span className="font-semibold">
+                    {slot.name}
+                    {slot.id === activeSlotId && <span className="ml-2 text-xs text-green-400">(active)</span>}
+                  </span>
+                )}
+                <div className="flex space-x-2">
+                  <button onClick={() => handleLoad(slot)} className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm">
+                    Load
+                  </button>
+                  <button onClick={() => handleOverwrite(slot)} className="px-2 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700 text-sm">
+                    Overwrite
+                  </button>
+                  <button
+                    onClick={() => { setRenamingSlotId(slot.id); setRenameValue(slot.name); }}
+                    className="px-2 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 text-sm"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => handleDelete(slot.id)}
+                    className={`px-2 py-1 ${slotToDelete === slot.id ? 'bg-red-700 hover:bg-red-800' : 'bg-red-600 hover:bg-red-700'} text-white rounded text-sm`}
+                    title={slotToDelete === slot.id ? 'Click again to confirm deletion' : 'Delete slot'}
+                  >
+                    {slotToDelete === slot.id ? 'Confirm ✗' : '✗'}
+                  </button>
+                </div>
+              </div>
+              <div className="text-xs text-gray-400 mt-1">
+                {slot.nodeCount} nodes · {slot.messageCount} messages · updated {new Date(slot.updatedAt).toLocaleString()}
+                {slot.forkedAtMessage !== undefined && (
+                  <span> · forked {getSlotName(slot.parentId) ? `from "${getSlotName(slot.parentId)}" ` : ''}at message {slot.forkedAtMessage + 1}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveSlotManager;
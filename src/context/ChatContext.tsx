@@ -15,7 +15,7 @@ interface ChatContextType {
   setChatHistory: (messages: Message[]) => void;
   clearChatHistory: () => void;
   updateStreamingMessage: (content: string) => void;
-  endStreaming: () => void;
+  endStreaming: (discardIfEmpty?: boolean) => void;
   editMessage: (index: number, newContent: string) => void;
   getChatHistory: () => Message[];
 }
@@ -72,7 +72,8 @@ export const ChatProvider: FC<{ children: ReactNode }> = ({ children }) => {
     });
   }, []);
 
-  const endStreaming = useCallback(() => {
+  // discardIfEmpty drops a streaming message that never received any text (e.g. a generation stopped before its first token)
+  const endStreaming = useCallback((discardIfEmpty: boolean = false) => {
     setChatHistoryState((prevChatHistory) => {
       // Find the streaming message by iterating backwards
       let streamingMessageIndex = -1;
@@ -85,9 +86,12 @@ export const ChatProvider: FC<{ children: ReactNode }> = ({ children }) => {
 
       if (streamingMessageIndex !== -1) {
         const streamingMessage = prevChatHistory[streamingMessageIndex];
-        const updatedMessage = { ...streamingMessage, isStreaming: false };
         const updatedChatHistory = [...prevChatHistory];
-        updatedChatHistory[streamingMessageIndex] = updatedMessage;
+        if (discardIfEmpty && !streamingMessage.content) {
+          updatedChatHistory.splice(streamingMessageIndex, 1);
+        } else {
+          updatedChatHistory[streamingMessageIndex] = { ...streamingMessage, isStreaming: false };
+        }
 
         safeLocalStorageSetItem('chatHistory', JSON.stringify(updatedChatHistory));
         return updatedChatHistory;
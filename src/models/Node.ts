@@ -1,3 +1,20 @@
+// Directional, typed edge from the node holding it to another node (e.g. 'owns', 'located_in', 'knows')
+export interface NodeLink {
+  targetId: string;
+  type: string;
+  label?: string;
+}
+
+export type NodeAttributeType = 'number' | 'string' | 'boolean' | 'list';
+
+// Structured game state value (HP, gold, inventory...) kept out of the prose description
+export interface NodeAttribute {
+  type: NodeAttributeType;
+  value: number | string | boolean | string[];
+  min?: number; // Only for 'number' attributes, values are clamped
+  max?: number;
+}
+
 export interface Node {
   id: string;
   name: string;
@@ -7,4 +24,6 @@ export interface Node {
   // Define specific types like 'Character' | 'Location' | 'Item' | 'Rule' | 'Game Rule' | 'assistant' etc.
   type: string;
   imageSeed?: number;
-}
\ No newline at end of file
+  links?: NodeLink[];
+  attributes?: { [key: string]: NodeAttribute };
+}
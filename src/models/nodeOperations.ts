@@ -1,4 +1,5 @@
 import { Node } from './Node';
+import { NodeEditionIssue } from '../utils/nodeEditionValidator';
 
 // Instruction for a specific text change within a string field
 export interface TextDiffInstruction {
@@ -11,11 +12,14 @@ export interface TextDiffInstruction {
 export interface FieldUpdateOperation {
   rpl?: any;                // For replacing the entire field content.
   df?: TextDiffInstruction[]; // For targeted changes within a string field (like longDescription).
+  add?: any[];              // For list fields (links, list attributes): entries to append.
+  rmv?: any[];              // For list fields (links, list attributes): entries to remove. Links match on targetId (and type when given).
+  inc?: number;             // For number attributes ("attributes.<key>"): amount to add (negative to subtract), clamped to min/max.
 }
 
 // Defines all updates for a specific node, including an optional image update flag
 export interface NodeSpecificUpdates {
-  // Key is the field name (e.g., "name", "longDescription", "type")
+  // Key is the field name (e.g., "name", "longDescription", "type", or "attributes.<key>" for a single attribute)
   // Value is how that field should be updated.
   [fieldName: string]: FieldUpdateOperation | boolean | undefined;
   img_upd?: boolean; // Optional: Explicitly signal if the node's image needs regeneration due to these updates.
@@ -29,6 +33,7 @@ export interface LLMNodeEditionResponse {
     [nodeId: string]: NodeSpecificUpdates;
   };
   d_nodes?: string[];                 // Array of node IDs to be deleted.
+  validationIssues?: NodeEditionIssue[]; // Internal: problems found by validateNodeEdition, not from the LLM
 }
 
 // --- Old types from previous approaches are commented out below --- 
@@ -6,9 +6,15 @@ import { imageQueueService } from '../services/ImageQueueService';
 import { sortNodesByRelevance } from '../services/llm';
 import { useChat, Message } from '../context/ChatContext';
 import { moxusService } from '../services/MoxusService';
-import { LLMNodeEditionResponse, FieldUpdateOperation } from './nodeOperations';
-import { applyTextDiffInstructions } from '../utils/textUtils';
+import { LLMNodeEditionResponse } from './nodeOperations';
+import { sanitizeLinks, removeLinksToNodes } from '../utils/linkUtils';
+import { sanitizeAttributes } from '../utils/attributeUtils';
+import { applyNodeUpdates } from '../utils/nodeUpdateUtils';
+import { isProtectedNodeType } from '../utils/nodeEditionValidator';
+import { nodeTypeRegistry } from '../services/nodeTypeRegistry';
+import { usageLimitService } from '../services/usageLimitService';
 import { safeLocalStorageSetItem } from '../utils/localStorageUtils';
+import { HistoryEntry, createHistoryEntry, restoreHistoryEntry, pushBounded } from '../utils/historyUtils';
 
 const initNodes: Node[] = [
   {
@@ -37,7 +43,6 @@ const initNodes: Node[] = [
 ];
 
 function useNodeGraph() {
-  const nonDeletableNodeTypes = ["system", "assistant", "image_generation", "image_generation_prompt", "image_generation_prompt_negative"].map(type => type.toLowerCase());
   const [nodes, setNodes] = useState<Node[]>(() => {
     try {
       const savedNodes = localStorage.getItem('nodeGraph');
@@ -52,7 +57,13 @@ function useNodeGraph() {
     }
   });
 
-  const { chatHistory, addMessage } = useChat();
+  const [lastNodeEdition, setLastNodeEdition] = useState<LLMNodeEditionResponse | null>(null);
+
+  // Undo/redo stacks of compressed snapshots taken before each mutation
+  const [historyPast, setHistoryPast] = useState<HistoryEntry[]>([]);
+  const [historyFuture, setHistoryFuture] = useState<HistoryEntry[]>([]);
+
+  const { chatHistory, addMessage, setChatHistory } = useChat();
 
   // Memoize the nodes array to prevent unnecessary re-renders
   const memoizedNodes = useMemo(() => nodes, [nodes]);
@@ -88,15 +99,59 @@ function useNodeGraph() {
     };
   }, [nodes]);
 
+  const recordHistory = useCallback((label: string, callId?: string, chatSnapshot: Message[] = chatHistory): void => {
+    const entry = createHistoryEntry(nodes, chatSnapshot, label, callId, moxusService.getMoxusMemory());
+    setHistoryPast(prev => pushBounded(prev, entry));
+    setHistoryFuture([]);
+  }, [nodes, chatHistory]);
+
+  const applySnapshot = useCallback((entry: HistoryEntry): boolean => {
+    const snapshot = restoreHistoryEntry(entry);
+    if (!snapshot) {
+      console.error(`useNodeGraph: Could not restore history entry ${entry.id}.`);
+      return false;
+    }
+    setNodes(snapshot.nodes);
+    setChatHistory(snapshot.chatHistory);
+    setLastNodeEdition(null);
+    return true;
+  }, [setChatHistory]);
+
+  const undo = useCallback((): void => {
+    if (historyPast.length === 0) return;
+    const entry = historyPast[historyPast.length - 1];
+    const redoEntry = createHistoryEntry(nodes, chatHistory, entry.label, entry.callId, moxusService.getMoxusMemory());
+    if (!applySnapshot(entry)) return;
+    setHistoryPast(historyPast.slice(0, -1));
+    setHistoryFuture(prev => pushBounded(prev, redoEntry));
+  }, [historyPast, nodes, chatHistory, applySnapshot]);
+
+  const redo = useCallback((): void => {
+    if (historyFuture.length === 0) return;
+    const entry = historyFuture[historyFuture.length - 1];
+    const undoEntry = createHistoryEntry(nodes, chatHistory, entry.label, entry.callId, moxusService.getMoxusMemory());
+    if (!applySnapshot(entry)) return;
+    setHistoryFuture(historyFuture.slice(0, -1));
+    setHistoryPast(prev => pushBounded(prev, undoEntry));
+  }, [historyFuture, nodes, chatHistory, applySnapshot]);
+
+  const replaceNodes = useCallback((newNodes: Node[], label: string = 'Replace nodes'): void => {
+    recordHistory(label);
+    setNodes(newNodes);
+  }, [recordHistory]);
+
   const addNode = useCallback((node: Node): void => {
+    recordHistory(`Add node ${node.name}`);
     setNodes(prevNodes => [...prevNodes, node]);
-  }, []);
+  }, [recordHistory]);
 
   const updateNode = useCallback((updatedNode: Node): void => {
+    recordHistory(`Update node ${updatedNode.name}`);
     setNodes(prevNodes => prevNodes.map(node => (node.id === updatedNode.id ? updatedNode : node)));
-  }, []);
+  }, [recordHistory]);
 
   const deleteNode = useCallback((nodeId: string): void => {
+    recordHistory(`Delete node ${nodeId}`);
     setNodes(prevNodes => {
       // Find the node to delete
       const nodeToDelete = prevNodes.find(node => node.id === nodeId);
@@ -109,10 +164,11 @@ function useNodeGraph() {
         }
       }
       
-      // Remove the node from the array
-      return prevNodes.filter(node => node.id !== nodeId);
+      // Remove the node from the array and drop links that pointed to it
+      const remainingNodes = prevNodes.filter(node => node.id !== nodeId);
+      return removeLinksToNodes(remainingNodes, new Set([nodeId])).nodes;
     });
-  }, [nodes]);
+  }, [recordHistory]);
 
   const updateGraph = useCallback(async (
     nodeEdition: LLMNodeEditionResponse,
@@ -127,10 +183,12 @@ function useNodeGraph() {
 
     console.log('Starting graph update (YAML structure):', nodeEdition, 'Call ID:', nodeEdition.callId);
     const currentChatHistory = providedChatHistory || chatHistory;
+    recordHistory('LLM node edition', nodeEdition.callId, currentChatHistory);
     let workingNodes = [...nodes]; 
     let nodesToProcessForImageUpdate: Partial<Node>[] = []; 
     const processedNodeIdsForImage = new Set<string>();
     let hasContentChanges = false; 
+    const deletedNodeIds = new Set<string>(nodeEdition.d_nodes || []);
 
     imageQueueService.setUpdateNodeCallback((updatedNode: Node) => {
       setNodes(currentNodes => {
@@ -158,6 +216,11 @@ function useNodeGraph() {
       const originalWorkingNodesLength = workingNodes.length;
 
       workingNodes = workingNodes.filter(node => {
+        if (deleteIds.has(node.id) && isProtectedNodeType(node.type)) {
+          console.warn(`updateGraph: Node ${node.id} has protected type "${node.type}". Skipping deletion.`);
+          deletedNodeIds.delete(node.id);
+          return true;
+        }
         if (deleteIds.has(node.id)) {
           // Node is to be deleted, perform cleanup before removing
           if (node.image?.startsWith('blob:')) {
@@ -178,6 +241,7 @@ function useNodeGraph() {
     // 2. Process Updates (u_nodes)
     if (nodeEdition.u_nodes) {
       console.log('Processing updates:', nodeEdition.u_nodes);
+      const diffCounts = { exact: 0, fuzzy: 0, failed: 0 };
       for (const nodeId in nodeEdition.u_nodes) {
         const updatesForNode = nodeEdition.u_nodes[nodeId];
         const nodeIndex = workingNodes.findIndex(n => n.id === nodeId);
@@ -187,47 +251,20 @@ function useNodeGraph() {
           continue;
         }
 
-        const originalNode = workingNodes[nodeIndex];
-        let modifiedNode = { ...originalNode }; 
-        let nodeSpecificContentChanged = false;
-
-        for (const fieldName in updatesForNode) {
-          if (fieldName === 'img_upd') continue; 
-
-          const fieldUpdate = updatesForNode[fieldName] as FieldUpdateOperation;
-
-          if (fieldUpdate.rpl !== undefined) {
-            (modifiedNode as any)[fieldName] = fieldUpdate.rpl;
-            console.log(`updateGraph: Node ${nodeId}, field ${fieldName} replaced.`);
-            nodeSpecificContentChanged = true;
-          } else if (fieldUpdate.df && (fieldName === 'longDescription')) {
-            const currentText = (originalNode as any)[fieldName] as string;
-            if (typeof currentText === 'string') {
-              try {
-                const newText = applyTextDiffInstructions(currentText, fieldUpdate.df);
-                if (newText !== currentText) {
-                  (modifiedNode as any)[fieldName] = newText;
-                  nodeSpecificContentChanged = true;
-                }
-              } catch (e) {
-                const errorMsg = `Error applying text diff to node ${nodeId}, field ${fieldName}: ${e instanceof Error ? e.message : String(e)}`;
-                console.error(errorMsg, fieldUpdate.df);
-                if (nodeEdition.callId) {
-                  moxusService.failLLMCallRecord(nodeEdition.callId, errorMsg);
-                }
-              }
-            } else {
-              console.warn(`updateGraph: Field ${fieldName} on node ${nodeId} is not a string, cannot apply diff.`);
-            }
-          } else if (fieldUpdate.df) {
-            console.warn(`updateGraph: 'diff' operation attempted on non-string or unsupported field '${fieldName}' for node ${nodeId}.`);
+        const { node: modifiedNode, changed: nodeSpecificContentChanged, errors, warnings, diffResults } = applyNodeUpdates(workingNodes[nodeIndex], updatesForNode);
+        warnings.forEach(warning => console.warn(`updateGraph: ${warning}`));
+        diffResults.forEach(result => {
+          diffCounts[result.status]++;
+          if (result.status === 'fuzzy') {
+            console.warn(`updateGraph: Fuzzy diff match on node ${nodeId} (similarity ${result.similarity?.toFixed(2)}): "${result.edit.prev_txt}" matched "${result.matchedText}".`);
           }
-        }
-        
-        if (updatesForNode.img_upd === true) {
-            modifiedNode.updateImage = true;
-            nodeSpecificContentChanged = true; 
-        }
+        });
+        errors.forEach(errorMsg => {
+          console.error(errorMsg);
+          if (nodeEdition.callId) {
+            moxusService.failLLMCallRecord(nodeEdition.callId, errorMsg);
+          }
+        });
 
         if (nodeSpecificContentChanged) {
             hasContentChanges = true;
@@ -235,11 +272,14 @@ function useNodeGraph() {
         
         workingNodes[nodeIndex] = modifiedNode; 
 
-        if (modifiedNode.updateImage && !processedNodeIdsForImage.has(nodeId)) {
+        if (modifiedNode.updateImage && nodeTypeRegistry.generatesImages(modifiedNode.type) && !processedNodeIdsForImage.has(nodeId)) {
             nodesToProcessForImageUpdate.push(modifiedNode);
             processedNodeIdsForImage.add(nodeId);
         }
       }
+      if (diffCounts.exact + diffCounts.fuzzy + diffCounts.failed > 0) {
+        console.log(`updateGraph: Text diffs applied: ${diffCounts.exact} exact, ${diffCounts.fuzzy} fuzzy, ${diffCounts.failed} failed.`);
+      }
     }
 
     // 3. Process New Nodes (n_nodes)
@@ -247,8 +287,14 @@ function useNodeGraph() {
       console.log('Processing new nodes:', nodeEdition.n_nodes);
       nodeEdition.n_nodes.forEach(newNode => {
         if (!workingNodes.find(n => n.id === newNode.id)) {
+          if (newNode.links !== undefined) {
+            newNode = { ...newNode, links: sanitizeLinks(newNode.links, newNode.id) };
+          }
+          if (newNode.attributes !== undefined) {
+            newNode = { ...newNode, attributes: sanitizeAttributes(newNode.attributes) };
+          }
           workingNodes.push(newNode);
-          if (newNode.updateImage && !processedNodeIdsForImage.has(newNode.id)) {
+          if (newNode.updateImage && nodeTypeRegistry.generatesImages(newNode.type) && !processedNodeIdsForImage.has(newNode.id)) {
             nodesToProcessForImageUpdate.push(newNode);
             processedNodeIdsForImage.add(newNode.id);
           }
@@ -258,13 +304,24 @@ function useNodeGraph() {
       });
       hasContentChanges = true;
     }
+
+    // 4. Cascade-clean links pointing to deleted nodes (including links added in this same edition)
+    if (deletedNodeIds.size > 0) {
+      const linkCleanup = removeLinksToNodes(workingNodes, deletedNodeIds);
+      if (linkCleanup.changed) {
+        console.log('updateGraph: Removed links pointing to deleted nodes.');
+        workingNodes = linkCleanup.nodes;
+        hasContentChanges = true;
+      }
+    }
     
     let finalNodesState = workingNodes; 
     setNodes(finalNodesState);
+    setLastNodeEdition(nodeEdition);
 
     // Sorting and Moxus feedback logic (can remain largely the same, using hasContentChanges)
     if (isFromUserInteraction && currentChatHistory && currentChatHistory.length > 0) {
-      if (import.meta.env.VITE_FEATURE_SORT_NODES !== "false") {
+      if (import.meta.env.VITE_FEATURE_SORT_NODES !== "false" && !usageLimitService.isOptionalWorkPaused()) {
         try {
           console.log('Sorting nodes by relevance (YAML structure)');
           setTimeout(async () => {
@@ -312,7 +369,7 @@ function useNodeGraph() {
         }, i * 50); 
       }
     }
-  }, [nodes, chatHistory, addMessage]); 
+  }, [nodes, chatHistory, addMessage, recordHistory]); 
 
   return { 
     nodes: memoizedNodes, 
@@ -320,8 +377,15 @@ function useNodeGraph() {
     updateNode, 
     deleteNode, 
     updateGraph, 
-    setNodes, 
-    getNodes // Export getNodes
+    setNodes: replaceNodes, 
+    getNodes, // Export getNodes
+    lastNodeEdition,
+    undo,
+    redo,
+    canUndo: historyPast.length > 0,
+    canRedo: historyFuture.length > 0,
+    historyPast,
+    historyFuture
   };
 }
 
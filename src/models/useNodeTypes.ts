@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { nodeTypeRegistry, NodeTypeDefinition } from '../services/nodeTypeRegistry';
+
+// Current node type definitions, re-rendering the component when the registry is edited
+function useNodeTypes(): NodeTypeDefinition[] {
+  const [definitions, setDefinitions] = useState<NodeTypeDefinition[]>(() => nodeTypeRegistry.getNodeTypes());
+
+  useEffect(() => nodeTypeRegistry.subscribe(setDefinitions), []);
+
+  return definitions;
+}
+
+export default useNodeTypes;
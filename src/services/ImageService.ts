@@ -1,6 +1,7 @@
 import prompts from '../../prompts.json';
 import JSZip from 'jszip';
 import { moxusService } from '../services/MoxusService';
+import { resolveApiEndpoint } from './llmGateway';
 
 const apiType = import.meta.env.VITE_IMG_API;
 
@@ -28,11 +29,14 @@ const generateImageFromOpenAI = async (prompt: string, seed?: number, storagePro
   moxusService.initiateLLMCallRecord(callId, 'image_generation_openai', modelName, prompt);
 
   try {
-    const response = await fetch('https://api.openai.com/v1/images/generations', {
+    const endpoint = resolveApiEndpoint('openai', 'https://api.openai.com', '/v1/images/generations', () => ({
+      'Authorization': `Bearer ${import.meta.env.VITE_OAI_KEY}`
+    }));
+    const response = await fetch(endpoint.url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_OAI_KEY}`
+        ...endpoint.headers
       },
       body: JSON.stringify({
         model: modelName,
@@ -88,11 +92,14 @@ const generateImageFromOpenRouter = async (prompt: string, seed?: number, storag
     const quality = import.meta.env.VITE_OPENROUTER_IMAGE_QUALITY || 'standard';
 
     console.log('Generating image with OpenRouter model:', model);
-    const response = await fetch('https://openrouter.ai/api/v1/images/generations', {
+    const endpoint = resolveApiEndpoint('openrouter', 'https://openrouter.ai/api', '/v1/images/generations', () => ({
+      'Authorization': `Bearer ${import.meta.env.VITE_OPENROUTER_KEY}`
+    }));
+    const response = await fetch(endpoint.url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_OPENROUTER_KEY}`,
+        ...endpoint.headers,
         'HTTP-Referer': window.location.origin,
         'X-Title': 'Game Shaper AI'
       },
@@ -270,13 +277,16 @@ const generateImageFromNovelAIV4 = async (prompt: string, seed?: number, storage
 
   try {
     console.log('Sending request to NovelAI v4 API...');
-    const response = await fetch('https://image.novelai.net/ai/generate-image', {
+    const endpoint = resolveApiEndpoint('novelai', 'https://image.novelai.net', '/ai/generate-image', () => ({
+      'Authorization': `Bearer ${import.meta.env.VITE_NAI_KEY}`
+    }));
+    const response = await fetch(endpoint.url, {
       method: 'POST',
       headers: {
         'Accept': '*/*',
         'Accept-Language': 'en-US,en;q=0.5',
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_NAI_KEY}`,
+        ...endpoint.headers,
         'x-correlation-id': correlationId,
         'x-initiated-at': now,
         'Origin': 'https://novelai.net',
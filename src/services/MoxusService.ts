@@ -3,6 +3,8 @@ import { Message } from '../context/ChatContext';
 import { getChatHistoryForMoxus, loadedPrompts, formatPrompt } from './llmCore';
 import { safeJsonParse } from '../utils/jsonUtils';
 import { safeLocalStorageSetItem } from '../utils/localStorageUtils';
+import type { LLMCallUsage } from './llmUsageService';
+import { usageLimitService } from './usageLimitService';
 
 // Avoid circular dependency by forward declaring the function type
 type GetMoxusFeedbackFn = (promptContent: string, originalCallType?: string) => Promise<string>;
@@ -31,6 +33,14 @@ interface MoxusTask {
   timestamp: Date;
 }
 
+// A failed attempt of a call that may still succeed through a retry or a fallback model
+export interface LLMCallAttempt {
+  model: string;
+  errorKind: string;
+  status?: number;
+  error: string;
+}
+
 // LLM Call interface structure (Restored full version)
 export interface LLMCall {
   id: string; 
@@ -38,7 +48,7 @@ export interface LLMCall {
   response?: string; 
   timestamp: Date; 
   feedback?: string;
-  status: 'queued' | 'running' | 'completed' | 'failed';
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   startTime: Date;
   endTime?: Date;
   callType: string; 
@@ -46,6 +56,8 @@ export interface LLMCall {
   error?: string; 
   duration?: number; 
   chatHistory?: Message[];
+  usage?: LLMCallUsage;
+  attempts?: LLMCallAttempt[];
 }
 
 // LLM Calls memory structure
@@ -270,7 +282,7 @@ export const initiateLLMCallRecord = (id: string, callType: string, modelUsed: s
   console.log(`[MoxusService] Initiated LLM call: ${id} (${callType}, ${modelUsed}, status: ${newCall.status})`);
 };
 
-export const finalizeLLMCallRecord = (id: string, responseContent: string) => {
+export const finalizeLLMCallRecord = (id: string, responseContent: string, usage?: LLMCallUsage) => {
   const call = moxusStructuredMemory.featureSpecificMemory.llmCalls[id];
   if (!call || call.status !== 'running') {
     console.warn(`[MoxusService] finalizeLLMCallRecord: Call with ID ${id} not found or not in 'running' state.`);
@@ -280,6 +292,10 @@ export const finalizeLLMCallRecord = (id: string, responseContent: string) => {
   const truncatedResponse = responseContent.length > TRUNCATE_LENGTH ? responseContent.substring(0, TRUNCATE_LENGTH) + "... [truncated]" : responseContent;
   call.response = truncatedResponse;
   call.status = 'completed';
+  if (usage) {
+    call.usage = usage;
+    call.modelUsed = usage.model;   // The fallback model, if the call needed one
+  }
   call.endTime = endTime;
   call.timestamp = endTime; 
   call.duration = endTime.getTime() - call.startTime.getTime();
@@ -311,6 +327,7 @@ export const finalizeLLMCallRecord = (id: string, responseContent: string) => {
     trimmedCallType === 'chat_regenerate_event' ||
     trimmedCallType === 'chat_input_regenerate_event' ||
     trimmedCallType === 'refocus_story_generation' ||
+    trimmedCallType === 'node_edition_json_repair' ||
     trimmedCallType === 'node_creation_from_prompt' ||
     trimmedCallType === 'advanced_node_planning' ||
     trimmedCallType === 'advanced_node_content_generation' ||
@@ -348,6 +365,19 @@ const addFeedbackTasksForCall = (call: LLMCall) => {
   addTask(taskType, taskData);
 };
 
+// Keeps the call running: only the final outcome completes or fails it
+export const recordLLMCallAttempt = (id: string, attempt: LLMCallAttempt) => {
+  const call = moxusStructuredMemory.featureSpecificMemory.llmCalls[id];
+  if (!call || call.status !== 'running') {
+    console.warn(`[MoxusService] recordLLMCallAttempt: Call with ID ${id} not found or not in 'running' state.`);
+    return;
+  }
+  const error = attempt.error.length > 1000 ? attempt.error.substring(0, 1000) + "..." : attempt.error;
+  call.attempts = [...(call.attempts || []), { ...attempt, error }];
+  saveMemory();
+  emitLLMLogUpdate();
+};
+
 export const failLLMCallRecord = (id: string, errorMessage: string) => {
   const call = moxusStructuredMemory.featureSpecificMemory.llmCalls[id];
   if (!call || (call.status !== 'running' && call.status !== 'queued')) {
@@ -365,6 +395,25 @@ export const failLLMCallRecord = (id: string, errorMessage: string) => {
   console.log(`[MoxusService] Failed LLM call: ${id} (status: failed, error: ${call.error})`);
 };
 
+// A call stopped by the user: no feedback task is queued for it, whatever its call type
+export const cancelLLMCallRecord = (id: string, reason: string = 'Cancelled by user', usage?: LLMCallUsage) => {
+  const call = moxusStructuredMemory.featureSpecificMemory.llmCalls[id];
+  if (!call || (call.status !== 'running' && call.status !== 'queued')) {
+    console.warn(`[MoxusService] cancelLLMCallRecord: Call with ID ${id} not found or not in a cancellable state.`);
+    return;
+  }
+  const endTime = new Date();
+  call.status = 'cancelled';
+  if (usage) call.usage = usage;
+  call.endTime = endTime;
+  call.timestamp = endTime;
+  call.error = reason;
+  call.duration = call.startTime ? endTime.getTime() - call.startTime.getTime() : undefined;
+  saveMemory();
+  emitLLMLogUpdate();
+  console.log(`[MoxusService] Cancelled LLM call: ${id} (status: cancelled, reason: ${reason})`);
+};
+
 export const recordInternalSystemEvent = (eventId: string, eventPrompt: string, eventResponse: string, eventType: string = 'system_event', eventContextData?: { previousChatHistory?: Message[] }) => {
   const now = new Date();
   const truncatedPrompt = eventPrompt.length > TRUNCATE_LENGTH ? eventPrompt.substring(0, TRUNCATE_LENGTH) + "..." : eventPrompt;
@@ -382,7 +431,8 @@ export const recordInternalSystemEvent = (eventId: string, eventPrompt: string,
     eventType === 'chat_reset_event' ||
     eventType === 'assistant_message_edit_event' ||
     eventType === 'chat_regenerate_event' ||
-    eventType === 'chat_input_regenerate_event';
+    eventType === 'chat_input_regenerate_event' ||
+    eventType === 'node_edition_review_event';
 
   if (eventType === "chat_reset_event" && eventContextData?.previousChatHistory) {
     console.log(`[MoxusService] Chat reset event detected. Queueing updateGeneralMemory task with previous chat history.`);
@@ -512,6 +562,13 @@ const processQueue = async () => {
     return;
   }
 
+  // Moxus is optional work: close to a spending limit, pending tasks are dropped instead of run
+  if (usageLimitService.isOptionalWorkPaused()) {
+    console.warn(`[MoxusService] Usage close to a spending limit, dropping ${taskQueue.length} pending Moxus task(s).`);
+    taskQueue = [];
+    return;
+  }
+
   // 1. Attempt to launch finalReport (Highest priority)
   const finalReportTaskIndex = taskQueue.findIndex(t => t.type === 'finalReport');
   if (!activeFinalReport && finalReportTaskIndex !== -1) {
@@ -1407,6 +1464,8 @@ export const moxusService = {
   initiateLLMCallRecord,
   finalizeLLMCallRecord,
   failLLMCallRecord,
+  recordLLMCallAttempt,
+  cancelLLMCallRecord,
   recordInternalSystemEvent,
   getLLMLogEntries,
   subscribeToLLMLogUpdates,
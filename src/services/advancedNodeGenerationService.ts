@@ -10,7 +10,8 @@ import {
 import { braveSearchService } from './braveSearchService';
 import { getResponse, formatPrompt, loadedPrompts } from './llmCore';
 import { safeJsonParse } from '../utils/jsonUtils';
-import { applyTextDiffInstructions } from '../utils/textUtils';
+import { applyTextDiffInstructionsWithReport, TextDiffEditResult } from '../utils/textUtils';
+import { nodeTypeRegistry } from './nodeTypeRegistry';
 
 class AdvancedNodeGenerationService {
   private defaultConfig: AdvancedNodeGenerationConfig = {
@@ -70,7 +71,7 @@ class AdvancedNodeGenerationService {
       'advanced_node_planning'
     );
 
-    const content = response && 'llmResult' in response ? response.llmResult : '';
+    const content = response?.llmResult ?? '';
     const parsedResponse = safeJsonParse(content);
     if (!parsedResponse || !this.validatePlanningOutput(parsedResponse)) {
       throw new Error('Invalid planning stage output: ' + content);
@@ -148,7 +149,7 @@ class AdvancedNodeGenerationService {
       'advanced_node_content_generation'
     );
 
-    const content = response && 'llmResult' in response ? response.llmResult : '';
+    const content = response?.llmResult ?? '';
     const parsedResponse = safeJsonParse(content);
     if (!parsedResponse) {
       throw new Error('Invalid node generation output: ' + content);
@@ -185,7 +186,7 @@ class AdvancedNodeGenerationService {
       'advanced_node_validation'
     );
 
-    const content = response && 'llmResult' in response ? response.llmResult : '';
+    const content = response?.llmResult ?? '';
     const parsedResponse = safeJsonParse(content);
     if (!parsedResponse || !this.validateValidationOutput(parsedResponse)) {
       throw new Error('Invalid validation stage output: ' + content);
@@ -295,6 +296,8 @@ class AdvancedNodeGenerationService {
           onStageUpdate?.(state);
           
           const generatedDiffs: { [nodeId: string]: any } = {};
+          const previousDiffResults = state.diffResults || {};
+          const diffResults: { [nodeId: string]: TextDiffEditResult[] } = {};
           
           // Use updated nodes from previous loops if this isn't the first loop
           let currentNodes: Node[];
@@ -333,9 +336,16 @@ class AdvancedNodeGenerationService {
               continue;
             }
             
-            const previousFailures = state.validationResult?.failedRules
+            let previousFailures = state.validationResult?.failedRules
               .filter(fr => fr.nodeId === originalNodeId || fr.nodeId === actualNodeId)
               .map(fr => fr.reason);
+            // Diff instructions that failed last loop are reported like failed rules so the LLM fixes its prev_txt
+            const previousDiffFailures = (previousDiffResults[actualNodeId] || [])
+              .filter(result => result.status === 'failed')
+              .map(result => `Text diff could not be applied, "prev_txt" not found: "${result.edit.prev_txt}"`);
+            if (previousDiffFailures.length > 0) {
+              previousFailures = [...(previousFailures || []), ...previousDiffFailures];
+            }
               
             const diff = await this.generateNodeDiff(
               actualNodeId,
@@ -351,7 +361,7 @@ class AdvancedNodeGenerationService {
             
             // Apply this diff to the working nodes immediately so next generations can see it
             const tempDiffState = { [actualNodeId]: diff };
-            const updatedNodesMap = this.applyDiffsToNodes(workingNodesMap, tempDiffState);
+            const updatedNodesMap = this.applyDiffsToNodes(workingNodesMap, tempDiffState, diffResults);
             
             // Update working nodes array with new nodes if any were created
             // Handle direct node format for CREATE_NEW_NODE
@@ -382,6 +392,7 @@ class AdvancedNodeGenerationService {
           }
           
           state.generatedDiffs = generatedDiffs;
+          state.diffResults = diffResults;
         }
 
         // Apply diffs to current state for validation
@@ -523,9 +534,7 @@ class AdvancedNodeGenerationService {
   }
 
   private formatNodesForPrompt(nodes: Node[]): string {
-    const filteredNodes = nodes.filter(node => 
-      !['image_generation', 'image_generation_prompt', 'image_generation_prompt_negative', 'assistant'].includes(node.type)
-    );
+    const filteredNodes = nodes.filter(node => !nodeTypeRegistry.isHiddenFromPrompts(node.type));
     
     return filteredNodes.map(node => {
       const sanitizedNode = this.sanitizeNodeForPrompt(node);
@@ -568,7 +577,28 @@ class AdvancedNodeGenerationService {
     }));
   }
 
-  private applyDiffsToNodes(currentStates: { [nodeId: string]: any }, diffs: { [nodeId: string]: any }): { [nodeId: string]: any } {
+  // Applies df instructions and records their outcome (exact, fuzzy or failed) per node when a collector is given
+  private applyTextDiff(
+    nodeId: string,
+    originalText: string,
+    instructions: any[],
+    diffResults?: { [nodeId: string]: TextDiffEditResult[] }
+  ): string {
+    const result = applyTextDiffInstructionsWithReport(originalText, instructions);
+    if (result.failed > 0) {
+      console.warn(`Node ${nodeId}: ${result.failed} of ${result.edits.length} text diff instructions could not be applied.`);
+    }
+    if (diffResults) {
+      diffResults[nodeId] = [...(diffResults[nodeId] || []), ...result.edits];
+    }
+    return result.text;
+  }
+
+  private applyDiffsToNodes(
+    currentStates: { [nodeId: string]: any },
+    diffs: { [nodeId: string]: any },
+    diffResults?: { [nodeId: string]: TextDiffEditResult[] }
+  ): { [nodeId: string]: any } {
     const editedNodes = { ...currentStates };
     
     for (const [nodeId, diff] of Object.entries(diffs)) {
@@ -593,7 +623,7 @@ class AdvancedNodeGenerationService {
           const editedNode = { ...editedNodes[nodeId] };
           // Apply diff to longDescription by default for advanced node generation
           const originalText = editedNode.longDescription || '';
-          editedNode.longDescription = applyTextDiffInstructions(originalText, diff.df);
+          editedNode.longDescription = this.applyTextDiff(nodeId, originalText, diff.df, diffResults);
           editedNodes[nodeId] = editedNode;
         } else {
           console.warn(`Node ${nodeId} targeted for direct diff update but not found in current states. Skipping update.`);
@@ -625,7 +655,7 @@ class AdvancedNodeGenerationService {
                 hasChanges = true;
               } else if (fieldOp.df && Array.isArray(fieldOp.df)) {
                 const originalText = (editedNode as any)[fieldName] || '';
-                (editedNode as any)[fieldName] = applyTextDiffInstructions(originalText, fieldOp.df);
+                (editedNode as any)[fieldName] = this.applyTextDiff(nodeId, originalText, fieldOp.df, diffResults);
                 hasChanges = true;
               }
             }
@@ -652,7 +682,7 @@ class AdvancedNodeGenerationService {
                 (editedNode as any)[fieldName] = fieldOp.rpl;
               } else if (fieldOp.df && Array.isArray(fieldOp.df)) {
                 const originalText = (editedNode as any)[fieldName] || '';
-                (editedNode as any)[fieldName] = applyTextDiffInstructions(originalText, fieldOp.df);
+                (editedNode as any)[fieldName] = this.applyTextDiff(nodeId, originalText, fieldOp.df, diffResults);
               }
             }
           }
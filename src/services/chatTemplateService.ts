@@ -0,0 +1,92 @@
+import chatTemplatesConfig from '../config/chatTemplates.yaml';
+import { Message } from '../context/ChatContext';
+
+export interface ChatTemplateTurn {
+  prefix?: string;                    // {role} is replaced with the message role
+  suffix?: string;
+}
+
+export interface ChatTemplate {
+  system?: ChatTemplateTurn;
+  user?: ChatTemplateTurn;            // Also used for roles other than system and assistant
+  assistant?: ChatTemplateTurn;
+  separator?: string;                 // Between turns
+  generation_prefix?: string;         // Opens the answer after the last turn
+  stop?: string[];
+}
+
+export interface ChatTemplateModelMatch {
+  match: string;                      // Case-insensitive substring of the model name
+  template: string;
+}
+
+export interface ChatTemplatesConfig {
+  defaults?: { instruct?: string; base?: string };
+  models?: ChatTemplateModelMatch[];
+  templates: Record<string, ChatTemplate>;
+}
+
+export interface TemplatedPrompt {
+  prompt: string;
+  stop: string[];
+}
+
+const FALLBACK_TEMPLATE_NAME = 'plain';
+
+const config: ChatTemplatesConfig = {
+  ...chatTemplatesConfig,
+  templates: chatTemplatesConfig?.templates || {}
+};
+
+const getTemplateNames = (): string[] => Object.keys(config.templates);
+
+/**
+ * Name of the template to apply: the one configured for the task, else the first model match of
+ * chatTemplates.yaml, else the default of the prompt mode (VITE_LLM_MODE).
+ * @param templateName chat_template of the task, if any.
+ * @param model Model of the call, if any.
+ */
+const resolveTemplateName = (templateName?: string, model?: string): string => {
+  if (templateName) {
+    if (config.templates[templateName]) return templateName;
+    console.warn(`[chatTemplateService] Unknown chat template "${templateName}", using the model's template`);
+  }
+  const modelName = model?.toLowerCase();
+  const modelMatch = modelName
+    ? (config.models || []).find(entry => modelName.includes(entry.match.toLowerCase()) && config.templates[entry.template])
+    : undefined;
+  if (modelMatch) return modelMatch.template;
+
+  const isBaseMode = import.meta.env.VITE_LLM_MODE?.toUpperCase() === 'BASE';
+  const modeDefault = isBaseMode ? config.defaults?.base : config.defaults?.instruct;
+  return modeDefault && config.templates[modeDefault] ? modeDefault : FALLBACK_TEMPLATE_NAME;
+};
+
+const getTurn = (template: ChatTemplate, role: string): ChatTemplateTurn => {
+  if (role === 'system') return template.system || {};
+  if (role === 'assistant') return template.assistant || {};
+  return template.user || {};
+};
+
+/**
+ * Renders messages into one text prompt with a chat template, along with the template's stop
+ * sequences. Without a known template, messages are written as "role: content" lines.
+ * @param templateName Name resolved with resolveTemplateName.
+ */
+const applyTemplate = (messages: Message[], templateName: string): TemplatedPrompt => {
+  const template = config.templates[templateName] || { user: { prefix: '{role}: ' }, separator: '\n' };
+  const turns = messages.map(message => {
+    const turn = getTurn(template, message.role);
+    return `${(turn.prefix || '').replace(/\{role\}/g, message.role)}${message.content}${turn.suffix || ''}`;
+  });
+  return {
+    prompt: turns.join(template.separator || '') + (template.generation_prefix || ''),
+    stop: template.stop || []
+  };
+};
+
+export const chatTemplateService = {
+  getTemplateNames,
+  resolveTemplateName,
+  applyTemplate
+};
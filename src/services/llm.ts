@@ -29,7 +29,18 @@ export {
 export { advancedNodeGenerationService } from './advancedNodeGenerationService';
 
 // Export configuration utilities for external use
-export { getTaskConfig, invalidateConfigCache } from './modelTasksConfigService';
+export { getTaskConfig, invalidateConfigCache, getModelTasksConfig, saveRuntimeConfig, resetRuntimeConfig } from './modelTasksConfigService';
+
+// LLM provider registration, so new backends can be added without editing getResponse
+export { llmProviderRegistry } from './llmProviderRegistry';
+export type { LLMProvider, LLMProviderCapabilities, LLMProviderRequestContext, LLMStreamChunk } from './llmProviderRegistry';
+
+// Token usage, costs and the spending and rate limits enforced by getResponse
+export { llmUsageService } from './llmUsageService';
+export { usageLimitService, isUsageLimitError } from './usageLimitService';
+
+// Prompt overrides, versions and validation, applied to loadedPrompts in place
+export { promptLibraryService } from './promptLibraryService';
 
 // It's generally not recommended to export core functionalities like getResponse, formatPrompt, or loadedPrompts directly
 // from the barrel file if they are meant for internal use within the LLM services group.
@@ -1,8 +1,13 @@
 import { Message } from '../context/ChatContext';
 import { moxusService } from './MoxusService'; // MoxusService will use setMoxusFeedbackImpl with getMoxusFeedback from this file
 import { Node } from '../models/Node'; // Needed for types in helper functions if they remain here
-import { safeJsonParse } from '../utils/jsonUtils';
-import { getModelOverride, getLLMOptions } from './modelTasksConfigService';
+import { getModelOverride, getLLMOptions, getFallbackModels, getProviderOverride, getChatTemplateOverride } from './modelTasksConfigService';
+import { llmProviderRegistry, LLMProviderRequest, LLMProviderRequestContext, LLMUsage } from './llmProviderRegistry';
+import { llmUsageService } from './llmUsageService';
+import { bindStreamProvider, onStreamEnd } from './llmStreamParser';
+import { usageLimitService, isUsageLimitError } from './usageLimitService';
+import { classifyHttpError, classifyTransportError, createLLMRequestError, LLMErrorClassification } from './llmErrors';
+import { renderPromptTemplate, createPromptTemplateError } from '../utils/promptTemplate';
 
 // Load and parse prompts
 export interface PromptsConfig {
@@ -33,6 +38,7 @@ export interface PromptsConfig {
     generate_nodes_from_prompt: string;
     sort_nodes_by_relevance: string;
     refocus_story: string;
+    repair_node_edition: string;
   };
   advanced_nodes_generation: {
     planning: string;
@@ -42,6 +48,9 @@ export interface PromptsConfig {
   utils: {
     diffPrompt: string;
     moxus_feedback_system_message: string;
+    moxus_report_section: string;
+    moxus_storytelling_guidance_section: string;
+    moxus_world_building_guidance_section: string;
     wrappers: {
       [key: string]: string;
     };
@@ -53,77 +62,54 @@ export interface PromptsConfig {
 
 const llmMode = import.meta.env.VITE_LLM_MODE?.toUpperCase();
 
-let loadedPrompts: PromptsConfig;
+// Copies the instruct prompts with the prompts of the overlay replacing them, key by key
+const mergePromptSets = (prompts: any, overlay: any): any => {
+  const merged = { ...prompts };
+  Object.entries(overlay || {}).forEach(([key, value]) => {
+    merged[key] = value && typeof value === 'object' && prompts?.[key] && typeof prompts[key] === 'object'
+      ? mergePromptSets(prompts[key], value)
+      : value;
+  });
+  return merged;
+};
+
+let loadedPrompts: PromptsConfig = (await import('../prompts-instruct.yaml')).default as PromptsConfig;
 
-if (llmMode === 'BASE' && false) {
-  loadedPrompts = (await import('../prompts-base.yaml')).default as PromptsConfig;
-} else {
-  loadedPrompts = (await import('../prompts-instruct.yaml')).default as PromptsConfig;
+// prompts-base.yaml only rewrites the prompts base models need as documents to continue; the others stay instruct prompts
+if (llmMode === 'BASE') {
+  loadedPrompts = mergePromptSets(loadedPrompts, (await import('../prompts-base.yaml')).default) as PromptsConfig;
 }
 
 export { loadedPrompts };
 
-// Utility function to format prompts
-export function formatPrompt(promptTemplate: string, replacements: Record<string, string | undefined>): string {
-  let formattedPrompt = promptTemplate;
-  
-  // First, process utils.wrappers.* placeholders - inject wrapper structure
-  const wrapperRegex = /\{utils\.wrappers\.([^}]+)\}/g;
-  let match;
-  
-  while ((match = wrapperRegex.exec(formattedPrompt)) !== null) {
-    const wrapperName = match[1];
-    const fullPlaceholder = match[0];
-    
-    // Get wrapper definition from loaded prompts
-    const contentName = loadedPrompts?.utils?.wrappers?.[wrapperName];
-    
-    if (contentName) {
-      // In the new format, wrapperName is the contentPlaceholder and contentName is the display name
-      const contentPlaceholder = wrapperName;
-      
-      // Create the wrapper structure with the placeholder still intact
-      const wrappedContent = `## ${contentName}:\n---- Start of ${contentName.toLowerCase()}\n{${contentPlaceholder}}\n---- End of ${contentName.toLowerCase()}`;
-      
-      // Replace the wrapper placeholder with the formatted structure (still containing content placeholder)
-      formattedPrompt = formattedPrompt.replace(fullPlaceholder, wrappedContent);
-    } else {
-      // If wrapper not found, leave placeholder as-is or replace with empty string
-      console.warn(`[formatPrompt] Wrapper not found: ${wrapperName}`);
-      formattedPrompt = formattedPrompt.replace(fullPlaceholder, `[Wrapper not found: ${wrapperName}]`);
-    }
+/**
+ * Renders a prompt of loadedPrompts with its caller's replacements (syntax in utils/promptTemplate.ts).
+ * Unresolved placeholders render as nothing and unused replacement keys are logged; with strict,
+ * either throws a PromptTemplateError listing them.
+ */
+export function formatPrompt(
+  promptTemplate: string,
+  replacements: Record<string, string | undefined>,
+  options: { strict?: boolean } = {}
+): string {
+  const rendered = renderPromptTemplate(promptTemplate, replacements, {
+    wrappers: loadedPrompts?.utils?.wrappers,
+    utils: loadedPrompts?.utils as Record<string, unknown> | undefined
+  });
+
+  if (options.strict && (rendered.unresolved.length > 0 || rendered.unused.length > 0)) {
+    throw createPromptTemplateError(
+      `Prompt template mismatch. Unresolved: ${rendered.unresolved.join(', ') || 'none'}. Unused: ${rendered.unused.join(', ') || 'none'}.`,
+      { unresolved: rendered.unresolved, unused: rendered.unused }
+    );
   }
-  
-  // Second, process other utils.* placeholders (like utils.diffPrompt)
-  const utilsRegex = /\{utils\.([^}]+)\}/g;
-  while ((match = utilsRegex.exec(formattedPrompt)) !== null) {
-    const utilsProperty = match[1];
-    const fullPlaceholder = match[0];
-    
-    // Skip wrappers as they're already processed above
-    if (utilsProperty.startsWith('wrappers.')) {
-      continue;
-    }
-    
-    // Get the utils property value
-    const utilsValue = (loadedPrompts?.utils as any)?.[utilsProperty];
-    
-    if (utilsValue !== undefined) {
-      formattedPrompt = formattedPrompt.replace(fullPlaceholder, utilsValue);
-    } else {
-      console.warn(`[formatPrompt] Utils property not found: ${utilsProperty}`);
-      formattedPrompt = formattedPrompt.replace(fullPlaceholder, `[Utils property not found: ${utilsProperty}]`);
-    }
+  if (rendered.unresolved.length > 0) {
+    console.warn(`[formatPrompt] Unresolved placeholders: ${rendered.unresolved.join(', ')}`);
   }
-  
-  // Then, process regular placeholders (including the content placeholders from wrappers)
-  for (const key in replacements) {
-    const value = replacements[key];
-    const replacementValue = value === undefined ? '' : String(value);
-    formattedPrompt = formattedPrompt.replace(new RegExp(`\\{${key}\\}`, 'g'), replacementValue);
+  if (rendered.unused.length > 0) {
+    console.warn(`[formatPrompt] Unused replacements: ${rendered.unused.join(', ')}`);
   }
-  
-  return formattedPrompt;
+  return rendered.text;
 }
 
 // Helper function to get the last N interactions from chat history (generalized)
@@ -202,28 +188,53 @@ export const getChatHistoryForMoxus = (chatHistory: Message[], numAssistantTurns
   );
 };
 
+/**
+ * True for the error thrown when an LLM call or stream is stopped through its AbortSignal.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+
+export const createAbortError = (): Error => new DOMException('The LLM call was cancelled.', 'AbortError');
+
+const getErrorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+/**
+ * System message with the Moxus memory that getResponse adds to non-streamed calls,
+ * unless skipMoxusFeedback is set. Context budgets count it as part of the prompt.
+ */
+export const getMoxusFeedbackSystemMessage = (callType: string): string =>
+  formatPrompt(loadedPrompts.utils.moxus_feedback_system_message, {
+    call_type: callType,
+    moxus_specialized_guidance: moxusService.getLLMCallsMemoryJSON()
+  });
+
 export const getResponse = async (
   messages: Message[], 
   model?: string, 
   grammar: String | undefined = undefined, 
   stream = false, 
   responseFormat?: { type: string }, 
-  options?: { skipMoxusFeedback?: boolean; temperature?: number; frequency_penalty?: number },
+  options?: { skipMoxusFeedback?: boolean; temperature?: number; frequency_penalty?: number; signal?: AbortSignal },
   callType: string = 'unknown'
 ) => {
-  const apiType = import.meta.env.VITE_LLM_API;
+  // The models settings panel may route a task, or every task, to another provider than VITE_LLM_API
+  const apiType = await getProviderOverride(callType) || import.meta.env.VITE_LLM_API;
   const includeReasoning = import.meta.env.VITE_LLM_INCLUDE_REASONING !== 'false';
   const maxRetries = 3;
   const retryDelay = 1000;
 
   const taskConfigModel = await getModelOverride(callType);
   const taskConfigOptions = await getLLMOptions(callType);
+  const taskFallbackModels = await getFallbackModels(callType);
+  const taskChatTemplate = await getChatTemplateOverride(callType);
   
+  // The abort signal goes to fetch, not to the provider request body
+  const { signal, ...callOptions } = options ?? {};
   const finalModel = taskConfigModel || model;
   const finalOptions = {
-    ...options,
+    ...callOptions,
     ...taskConfigOptions,
-    ...options
+    ...callOptions
   };
 
   const callId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
@@ -232,12 +243,9 @@ export const getResponse = async (
   moxusService.initiateLLMCallRecord(callId, callType, finalModel ?? '', originalPromptString);
 
   if (!finalOptions?.skipMoxusFeedback && !stream) {
-    const moxusFeedbackContent = formatPrompt(loadedPrompts.utils.moxus_feedback_system_message, {
-      moxus_llm_calls_memory_yaml: moxusService.getLLMCallsMemoryJSON()
-    });
     const feedbackMessage: Message = {
       role: 'system',
-      content: moxusFeedbackContent
+      content: getMoxusFeedbackSystemMessage(callType)
     };
     
     if (messages.length > 0 && messages[0].role === 'system') {
@@ -247,9 +255,11 @@ export const getResponse = async (
     }
   }
 
-  // Ensure the last message is from the user for APIs that use the messages array directly
-  // This applies to openai, openrouter, and deepseek. KoboldCPP transforms the array to a string prompt.
-  if (apiType === 'openai' || apiType === 'openrouter' || apiType === 'deepseek') {
+  const provider = llmProviderRegistry.get(apiType);
+
+  // Ensure the last message is from the user for APIs that use the messages array directly.
+  // Providers that flatten the array to a string prompt (KoboldCPP) don't need it.
+  if (provider?.capabilities.chatMessages) {
     let lastUserMessageIndex = -1;
     for (let i = messages.length - 1; i >= 0; i--) {
       if (messages[i].role === 'user') {
@@ -270,264 +280,162 @@ export const getResponse = async (
     }
   }
 
-  let lastError;
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+  const baseRequestContext: Omit<LLMProviderRequestContext, 'model'> = {
+    messages,
+    grammar,
+    chatTemplate: taskChatTemplate,
+    stream,
+    responseFormat,
+    options: finalOptions,
+    includeReasoning
+  };
+
+  // One request to one model. Failures are returned with their classification; aborts are thrown.
+  const sendAttempt = async (attemptModel: string | undefined): Promise<
+    | { ok: true; streamResponse?: Response; content?: string; usage?: LLMUsage | null }
+    | { ok: false; message: string; classification: LLMErrorClassification; status?: number }
+  > => {
+    await usageLimitService.throttle(signal);
+    if (!provider) {
+      return { ok: false, message: `Unknown API type: ${apiType}`, classification: { kind: 'unknown', retryable: false, fallback: false } };
+    }
+
+    const requestContext: LLMProviderRequestContext = { ...baseRequestContext, model: attemptModel };
+    let request: LLMProviderRequest;
     try {
-      let response;
-      if (apiType === 'openai') {
-        const openaiModel = finalModel ?? import.meta.env.VITE_OAI_MODEL;
-        if (!openaiModel) {
-          throw new Error('OpenAI model not specified via argument or VITE_OAI_MODEL');
-        }
-        
-        const payload: any = {
-          model: openaiModel,
-          messages: messages,
-          stream: stream,
-          temperature: finalOptions?.temperature ?? 0.2,
-          frequency_penalty: finalOptions?.frequency_penalty ?? 0,
-        };
-
-        if (finalOptions?.max_tokens !== undefined) payload.max_tokens = finalOptions.max_tokens;
-        if (finalOptions?.top_p !== undefined) payload.top_p = finalOptions.top_p;
-        if (finalOptions?.presence_penalty !== undefined) payload.presence_penalty = finalOptions.presence_penalty;
-        if (responseFormat) payload.response_format = responseFormat;
-
-        response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${import.meta.env.VITE_OAI_KEY}`
-          },
-          body: JSON.stringify(payload)
-        });
-      } else if (apiType === 'openrouter') {
-        const openrouterModel = finalModel || import.meta.env.VITE_OPENROUTER_MODEL || 'anthropic/claude-3-opus-20240229';
-        const openrouterProvider = import.meta.env.VITE_OPENROUTER_PROVIDER;
-
-        const payload: any = {
-          model: openrouterModel,
-          messages: messages.map(msg => ({
-            role: msg.role,
-            content: [{
-              type: "text",
-              text: msg.content
-            }]
-          })),
-          provider: {
-            order: openrouterProvider ? [openrouterProvider] : undefined,
-            allow_fallbacks: true
-          },
-          temperature: finalOptions?.temperature ?? 0.6,
-          top_p: finalOptions?.top_p ?? 1,
-          top_k: 20,
-          min_p: 0,
-          enable_thinking: includeReasoning,
-          include_reasoning: true,
-          presence_penalty: finalOptions?.presence_penalty ?? 0.1,
-          reasoning: {
-            effort: "low"
-          },
-          stream: stream,
-        };
-
-        if (finalOptions?.max_tokens !== undefined) payload.max_tokens = finalOptions.max_tokens;
-        if (finalOptions?.frequency_penalty !== undefined) payload.frequency_penalty = finalOptions.frequency_penalty;
-        if (responseFormat) payload.response_format = responseFormat;
-
-        response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${import.meta.env.VITE_OPENROUTER_KEY}`,
-            'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : '',
-            'X-Title': 'Game Shaper AI'
-          },
-          body: JSON.stringify(payload)
-        });
-      } else if (apiType === 'koboldcpp') {
-        const prompt = messages.map(message => `${message.role}: ${message.content}`).join('\n');
-        const requestBody: any = {
-          max_context_length: 4096,
-          max_length: finalOptions?.max_tokens ?? 768,
-          prompt: prompt,
-          quiet: false,
-          rep_pen: finalOptions?.frequency_penalty ?? 1.0,
-          rep_pen_range: 256,
-          rep_pen_slope: 1.0,
-          temperature: finalOptions?.temperature ?? 0.2,
-          tfs: 1,
-          top_a: 0,
-          top_k: 80,
-          top_p: finalOptions?.top_p ?? 0.9,
-          typical: 1,
-          password: "nodegame",
-          grammar,
-          stream: stream
-        };
-
-        if (finalOptions?.presence_penalty !== undefined) {
-          requestBody.rep_pen = finalOptions.presence_penalty;
-        }
+      request = provider.buildRequest(requestContext);
+    } catch (error) {
+      return { ok: false, message: getErrorMessage(error), classification: { kind: 'unknown', retryable: false, fallback: false } };
+    }
+    llmUsageService.beginCall(callId, {
+      callType,
+      model: request.body?.model || attemptModel || apiType,
+      promptText: messages.map(message => message.content).join('\n')
+    });
 
-        response = await fetch(import.meta.env.VITE_KOBOLDCPP_API_URL + '/api/v1/generate', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `nodegame`
-          },
-          body: JSON.stringify(requestBody)
-        });
-      } else if (apiType === 'deepseek') {
-        let deepseekModel: string;
-        if (finalModel === 'reasoning') {
-          deepseekModel = import.meta.env.VITE_DEEPSEEK_REASONING_MODEL || 'deepseek-reasoner';
-        } else if (finalModel) {
-          deepseekModel = finalModel;
-        } else {
-          deepseekModel = import.meta.env.VITE_DEEPSEEK_MODEL || 'deepseek-chat';
-        }
+    let response: Response;
+    try {
+      // Aborting the signal also errors a returned stream, so readers of streamResponse stop too
+      response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        signal
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return { ok: false, message: `Request failed: ${getErrorMessage(error)}`, classification: classifyTransportError('request') };
+    }
 
-        const deepSeekPayload: any = {
-          model: deepseekModel,
-          messages: messages,
-          stream: stream,
-          temperature: finalOptions?.temperature ?? 0.2,
-          frequency_penalty: finalOptions?.frequency_penalty ?? 0,
-        };
-
-        if (finalOptions?.max_tokens !== undefined) deepSeekPayload.max_tokens = finalOptions.max_tokens;
-        if (finalOptions?.top_p !== undefined) deepSeekPayload.top_p = finalOptions.top_p;
-        if (finalOptions?.presence_penalty !== undefined) deepSeekPayload.presence_penalty = finalOptions.presence_penalty;
-
-        if (responseFormat) {
-          if (!(deepseekModel === 'deepseek-reasoner' && responseFormat.type === 'json_object')) {
-            deepSeekPayload.response_format = responseFormat;
-          }
-        }
+    if (!response.ok) {
+      const errorBody = await response.text();
+      return {
+        ok: false,
+        status: response.status,
+        message: `API request failed with status ${response.status}: ${response.statusText}. Body: ${errorBody}`,
+        classification: classifyHttpError(response.status, errorBody, response.headers.get('Retry-After'))
+      };
+    }
 
-        response = await fetch('https://api.deepseek.com/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${import.meta.env.VITE_DEEPSEEK_KEY}`
-          },
-          body: JSON.stringify(deepSeekPayload)
-        });
-      } else {
-        throw new Error('Unknown API type');
-      }
+    if (stream) {
+      // The reader of streamResponse completes the usage record with llmUsageService.completeCall
+      bindStreamProvider(response, provider);
+      return { ok: true, streamResponse: response };
+    }
 
-      if (!response.ok) {
-        const errorBody = await response.text();
-        const errorMessage = `API request failed with status ${response.status}: ${response.statusText}. Body: ${errorBody}`;
-        console.error(`[LLMCore] getResponse attempt ${attempt}/${maxRetries} failed: ${errorMessage}`);
-        moxusService.failLLMCallRecord(callId, `API Error after ${maxRetries} attempts: ${response.status} ${response.statusText}. Prompt: ${originalPromptString}. Body: ${errorBody}`);
-        lastError = new Error(errorMessage);
-        if (attempt < maxRetries) {
-          await new Promise(resolve => setTimeout(resolve, retryDelay * attempt));
-          continue;
-        }
-        throw lastError;
+    try {
+      const data = await response.json();
+      const content = provider.parseResponse(data, requestContext);
+      // Safeguard for registered providers that do not honor the string contract
+      if (content === undefined) {
+        throw new Error(`LLM content extraction failed unexpectedly for ${apiType} after API-specific parsing. Raw Data: ${JSON.stringify(data)}`);
       }
+      return { ok: true, content, usage: provider.parseUsage?.(data) };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return { ok: false, message: getErrorMessage(error), classification: classifyTransportError('response') };
+    }
+  };
 
-      if (stream) {
-        // moxusService.finalizeLLMCallRecord(callId, "Stream initiated successfully"); // Removed to prevent premature feedback
-        return { 
-          streamResponse: response, 
-          callId: callId 
-        };
-      } else {
-        const data = await response.json();
-        let extractedContent;
-
-        if (apiType === 'openai') {
-          if (!data.choices?.[0]?.message?.content) {
-            throw new Error('Invalid OpenAI response structure');
-          }
-          extractedContent = data.choices[0].message.content;
-        } else if (apiType === 'openrouter') {
-          if (!data.choices?.[0]?.message?.content) {
-            throw new Error('Invalid OpenRouter response structure');
-          }
-          const content = data.choices[0].message.content;
-          if (responseFormat?.type === 'json_object') {
-            const cleanContent = content.replace(/```json\n|\n```/g, '').trim();
-            extractedContent = cleanContent;
-          } else {
-            // Only process for reasoning if not a json_object type, as per original logic structure
-            try {
-              const parsedContent = safeJsonParse(content);
-              if (!includeReasoning && parsedContent.reasoning !== undefined) {
-                delete parsedContent.reasoning;
-                extractedContent = JSON.stringify(parsedContent);
-              } else {
-                extractedContent = content;
-              }
-            } catch (e) {
-              extractedContent = content;
-            }
-          }
-        } else if (apiType === 'koboldcpp') {
-          if (data && data.results && data.results.length > 0 && typeof data.results[0].text === 'string') {
-            extractedContent = data.results[0].text;
-          } else {
-            throw new Error(`Invalid KoboldCPP response structure or empty content. Full response: ${JSON.stringify(data)}`);
-          }
-        } else if (apiType === 'deepseek') {
-          if (!data.choices?.[0]?.message?.content) {
-            throw new Error('Invalid DeepSeek response structure');
-          }
-          extractedContent = data.choices[0].message.content;
-          // Check if the original request intended a JSON object and the API is deepseek
-          if (responseFormat?.type === 'json_object') {
-            // Strip markdown ```json and ``` if present
-            if (extractedContent.startsWith("```json\n")) {
-              extractedContent = extractedContent.substring(7);
-            }
-            if (extractedContent.endsWith("\n```")) {
-              extractedContent = extractedContent.substring(0, extractedContent.length - 4);
-            } else if (extractedContent.endsWith("```")) { // Handle cases where there's no newline before the final backticks
-              extractedContent = extractedContent.substring(0, extractedContent.length - 3);
-            }
-            extractedContent = extractedContent.trim(); // Clean up any leading/trailing whitespace just in case
-          }
-        }
+  // Spending limits are checked once per call; blocked calls fail without being retried
+  let releaseSlot: () => void;
+  try {
+    releaseSlot = await usageLimitService.acquire(callType, signal);
+  } catch (error) {
+    if (isAbortError(error)) {
+      moxusService.cancelLLMCallRecord(callId);
+    } else {
+      console.warn(`[LLMCore] getResponse blocked for call ${callId} (${callType}): ${getErrorMessage(error)}`);
+      moxusService.failLLMCallRecord(callId, getErrorMessage(error));
+    }
+    throw error;
+  }
+
+  // A returned stream keeps the slot until its reader is done with it
+  let slotHeldByStream = false;
+
+  // The task's model first, then its fallback models, each with its own retries
+  const modelChain = [finalModel, ...taskFallbackModels.filter(fallbackModel => fallbackModel && fallbackModel !== finalModel)];
 
-        if (extractedContent === undefined) {
-          const safeguardError = new Error(`LLM content extraction failed unexpectedly for ${apiType} after API-specific parsing. Raw Data: ${JSON.stringify(data)}`);
-          console.error(`[LLMCore] getResponse safeguard attempt ${attempt}/${maxRetries}: ${safeguardError.message}`);
-          lastError = safeguardError;
-          if (attempt < maxRetries) {
-            await new Promise(resolve => setTimeout(resolve, retryDelay * attempt));
-            continue;
+  try {
+    let lastFailure: { message: string; classification: LLMErrorClassification; status?: number } | undefined;
+    let attemptCount = 0;
+    for (let modelIndex = 0; modelIndex < modelChain.length; modelIndex++) {
+      const attemptModel = modelChain[modelIndex];
+      for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        attemptCount++;
+        const outcome = await sendAttempt(attemptModel);
+
+        if (outcome.ok) {
+          if (outcome.streamResponse) {
+            slotHeldByStream = true;
+            return { 
+              streamResponse: onStreamEnd(outcome.streamResponse, releaseSlot, signal), 
+              callId: callId 
+            };
           }
-          moxusService.failLLMCallRecord(callId, `Safeguard triggered after ${maxRetries} attempts for ${apiType}. Prompt: ${originalPromptString}. Data: ${JSON.stringify(data)}`);
-          throw lastError;
+          const extractedContent = outcome.content as string;
+          const usage = llmUsageService.completeCall(callId, extractedContent, outcome.usage);
+          moxusService.finalizeLLMCallRecord(callId, extractedContent, usage ?? undefined);
+          return { 
+            llmResult: extractedContent, 
+            callId: callId 
+          };
         }
 
-        moxusService.finalizeLLMCallRecord(callId, extractedContent);
-        return { 
-          llmResult: extractedContent, 
-          callId: callId 
-        };
-      }
-    } catch (error) {
-      lastError = error;
-      console.warn(`Attempt ${attempt} failed:`, error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      moxusService.failLLMCallRecord(callId, errorMessage);
-
-      if (error instanceof TypeError && error.message.includes('NetworkError')) {
-        if (attempt < maxRetries) {
-          await new Promise(resolve => setTimeout(resolve, retryDelay));
-          continue;
+        lastFailure = outcome;
+        const { classification } = outcome;
+        console.warn(`[LLMCore] getResponse ${callType} attempt ${attempt}/${maxRetries} with model ${attemptModel || '(provider default)'} failed (${classification.kind}): ${outcome.message}`);
+        moxusService.recordLLMCallAttempt(callId, { model: attemptModel || '', errorKind: classification.kind, status: outcome.status, error: outcome.message });
+        if (!classification.retryable || attempt === maxRetries) break;
+
+        const delay = classification.retryAfterMs ?? usageLimitService.getBackoffDelay(attempt, retryDelay);
+        if (classification.kind === 'rate_limit' || classification.retryAfterMs !== undefined) {
+          // The backend asked to slow down: every pending call waits, not just this one
+          usageLimitService.reportRateLimited(delay);
+        } else {
+          await usageLimitService.wait(delay, signal);
         }
       }
-      throw error;
+
+      if (!lastFailure?.classification.fallback) break;
+      if (modelIndex < modelChain.length - 1) {
+        console.warn(`[LLMCore] getResponse ${callType}: falling back to model ${modelChain[modelIndex + 1]}`);
+      }
     }
+
+    const failure = lastFailure!;
+    moxusService.failLLMCallRecord(callId, `API Error after ${attemptCount} attempt(s), last one ${failure.classification.kind}: ${failure.message}. Prompt: ${originalPromptString}`);
+    throw createLLMRequestError(failure.message, failure.classification, failure.status);
+  } catch (error) {
+    if (isAbortError(error)) {
+      console.log(`[LLMCore] getResponse cancelled for call ${callId} (${callType})`);
+      moxusService.cancelLLMCallRecord(callId);
+    }
+    throw error;
+  } finally {
+    if (!slotHeldByStream) releaseSlot();
   }
-  throw lastError;
 };
 
 export const getMoxusFeedback = async (promptContent: string, originalCallType: string = 'unknown'): Promise<string> => {
@@ -564,9 +472,13 @@ export const getMoxusFeedback = async (promptContent: string, originalCallType:
     if (typeof response === 'string') {
       return response;
     } else {
-      return response.llmResult;
+      return response.llmResult ?? '';
     }
   } catch (error) {
+    // Skipped by a usage limit: the Moxus task is dropped rather than fed an error text
+    if (isUsageLimitError(error)) {
+      throw error;
+    }
     console.error('Error getting Moxus feedback:', error);
     return 'Error getting Moxus feedback';
   }
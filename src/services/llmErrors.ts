@@ -0,0 +1,77 @@
+export type LLMErrorKind =
+  | 'rate_limit'          // 429
+  | 'auth'                // 401, 403: wrong or missing key
+  | 'context_overflow'    // Prompt longer than the model's context window
+  | 'server'              // 408, 5xx, overloaded backends
+  | 'bad_request'         // Other 4xx: unknown model, unsupported option...
+  | 'parse'               // Answer without the expected structure
+  | 'network'             // No answer at all
+  | 'unknown';
+
+export interface LLMErrorClassification {
+  kind: LLMErrorKind;
+  retryable: boolean;     // The same request to the same model may succeed later
+  fallback: boolean;      // Another model may succeed where this one failed
+  retryAfterMs?: number;  // Delay the server asked for
+}
+
+// Longest Retry-After honored; longer waits fail over to the next model instead of stalling play
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+const CONTEXT_OVERFLOW_PATTERN = /context[_ ]length|context window|maximum context|too many tokens|prompt is too long|input is too long|reduce the length|exceeds the (?:maximum|model)/i;
+
+/**
+ * Parses a Retry-After header, given in seconds or as an HTTP date.
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid.
+ */
+export const parseRetryAfter = (header: string | null | undefined, now: number = Date.now()): number | undefined => {
+  if (!header) return undefined;
+  const trimmed = header.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Classifies a failed HTTP answer of an LLM backend.
+ */
+export const classifyHttpError = (status: number, body: string, retryAfterHeader?: string | null): LLMErrorClassification => {
+  const retryAfterMs = parseRetryAfter(retryAfterHeader);
+  // A server asking for a long pause is treated as down for now
+  const honoredRetryAfter = retryAfterMs !== undefined && retryAfterMs <= MAX_RETRY_AFTER_MS ? retryAfterMs : undefined;
+  const tooLongToWait = retryAfterMs !== undefined && honoredRetryAfter === undefined;
+
+  if (status === 429) {
+    return { kind: 'rate_limit', retryable: !tooLongToWait, fallback: true, retryAfterMs: honoredRetryAfter };
+  }
+  if (status === 401 || status === 403) {
+    return { kind: 'auth', retryable: false, fallback: false };
+  }
+  if (CONTEXT_OVERFLOW_PATTERN.test(body) && (status === 400 || status === 413 || status === 422)) {
+    return { kind: 'context_overflow', retryable: false, fallback: true };
+  }
+  if (status === 408 || status >= 500) {
+    return { kind: 'server', retryable: !tooLongToWait, fallback: true, retryAfterMs: honoredRetryAfter };
+  }
+  if (status >= 400) {
+    return { kind: 'bad_request', retryable: false, fallback: true };
+  }
+  return { kind: 'unknown', retryable: false, fallback: false };
+};
+
+/**
+ * Classifies an error thrown while sending a request (no answer reached us) or while reading the
+ * answer (it did not have the expected structure).
+ */
+export const classifyTransportError = (phase: 'request' | 'response'): LLMErrorClassification =>
+  phase === 'request'
+    ? { kind: 'network', retryable: true, fallback: true }
+    : { kind: 'parse', retryable: true, fallback: true };
+
+/**
+ * Error thrown by getResponse once every attempt has failed, carrying the classification of the last one.
+ */
+export const createLLMRequestError = (message: string, classification: LLMErrorClassification, status?: number): Error =>
+  Object.assign(new Error(message), { name: 'LLMRequestError', kind: classification.kind, status });
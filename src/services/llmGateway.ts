@@ -0,0 +1,35 @@
+// Hosted APIs the local gateway (server/brave-proxy.js) can forward to, with the key it holds
+export type GatewayUpstream = 'openai' | 'openrouter' | 'deepseek' | 'anthropic' | 'openai-compatible' | 'novelai';
+
+export interface ApiEndpoint {
+  url: string;
+  headers: Record<string, string>;    // Auth headers to send; empty through the gateway
+}
+
+/**
+ * Base URL of the local gateway (VITE_LLM_GATEWAY_URL), or undefined when hosted APIs are called
+ * directly from the browser.
+ */
+export const getGatewayUrl = (): string | undefined => {
+  const gatewayUrl = import.meta.env.VITE_LLM_GATEWAY_URL;
+  return gatewayUrl ? gatewayUrl.replace(/\/+$/, '') : undefined;
+};
+
+/**
+ * Where to send a request to a hosted API. With a gateway, the request goes to
+ * `<gateway>/api/gateway/<upstream><path>` and the gateway adds the key, so no key is needed in
+ * the bundle. Without one, it goes to the API with the auth headers built from VITE_* keys.
+ * @param directHeaders Only called when the API is reached directly.
+ */
+export const resolveApiEndpoint = (
+  upstream: GatewayUpstream,
+  directBaseUrl: string,
+  path: string,
+  directHeaders: () => Record<string, string>
+): ApiEndpoint => {
+  const gatewayUrl = getGatewayUrl();
+  if (gatewayUrl) {
+    return { url: `${gatewayUrl}/api/gateway/${upstream}${path}`, headers: {} };
+  }
+  return { url: `${directBaseUrl.replace(/\/+$/, '')}${path}`, headers: directHeaders() };
+};
@@ -0,0 +1,105 @@
+import { Message } from '../context/ChatContext';
+import { builtInLLMProviders } from './llmProviders';
+
+export interface LLMRequestOptions {
+  temperature?: number;
+  frequency_penalty?: number;
+  max_tokens?: number;
+  top_p?: number;
+  presence_penalty?: number;
+  stop?: string[];                    // Extra stop sequences, for providers that take them
+}
+
+// Everything getResponse knows about a call, after task config overrides are applied
+export interface LLMProviderRequestContext {
+  messages: Message[];
+  model?: string;                     // Model from the task config or the caller; providers fall back to their env default
+  grammar?: String;
+  chatTemplate?: string;              // Chat template of the task, for providers that send a text prompt
+  stream: boolean;
+  responseFormat?: { type: string };
+  options: LLMRequestOptions;
+  includeReasoning: boolean;          // VITE_LLM_INCLUDE_REASONING
+}
+
+export interface LLMProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: any;                          // Serialized with JSON.stringify by getResponse
+}
+
+// Token counts reported by the backend for one call
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMStreamChunk {
+  content: string;
+  reasoning?: string;
+  usage?: Partial<LLMUsage>;          // Counts sent with the chunk; some providers split them across events
+  done: boolean;                      // True once the provider signals the end of the stream
+}
+
+export interface LLMProviderCapabilities {
+  chatMessages: boolean;              // Takes a messages array whose last message must come from the user
+  jsonMode: boolean;                  // Honors response_format json_object
+  reasoning: boolean;                 // Can return reasoning alongside the content
+  grammar: boolean;                   // Honors GBNF grammar constraints
+  streaming: boolean;
+}
+
+export interface LLMProvider {
+  id: string;                         // Value of VITE_LLM_API, or of a provider in the model settings, selecting this provider
+  name: string;
+  capabilities: LLMProviderCapabilities;
+  buildRequest: (context: LLMProviderRequestContext) => LLMProviderRequest;
+  /**
+   * Extracts the text content from a non-streamed response body.
+   * Throws if the response does not have the expected structure.
+   */
+  parseResponse: (data: any, context: LLMProviderRequestContext) => string;
+  /**
+   * Parses one line of a streamed response. Returns null for lines that carry nothing (comments, keep-alives, events).
+   */
+  parseStreamChunk: (line: string) => LLMStreamChunk | null;
+  /**
+   * Token counts of a non-streamed response body, or null if the backend did not report them.
+   */
+  parseUsage?: (data: any) => LLMUsage | null;
+  /**
+   * Models the backend offers, for providers that can list them.
+   */
+  listModels?: () => Promise<string[]>;
+}
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Registers a provider under its id, replacing any provider already registered with that id.
+ */
+const register = (provider: LLMProvider): void => {
+  if (providers.has(provider.id)) {
+    console.warn(`[llmProviderRegistry] Replacing LLM provider "${provider.id}"`);
+  }
+  providers.set(provider.id, provider);
+};
+
+const unregister = (id: string): boolean => providers.delete(id);
+
+const get = (id: string | undefined): LLMProvider | undefined => id ? providers.get(id) : undefined;
+
+const list = (): LLMProvider[] => Array.from(providers.values());
+
+// The provider selected by VITE_LLM_API, if it is registered
+const getActive = (): LLMProvider | undefined => get(import.meta.env.VITE_LLM_API);
+
+builtInLLMProviders.forEach(register);
+
+export const llmProviderRegistry = {
+  register,
+  unregister,
+  get,
+  list,
+  getActive
+};
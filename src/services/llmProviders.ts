@@ -0,0 +1,588 @@
+import type { LLMProvider, LLMProviderRequestContext, LLMStreamChunk, LLMUsage } from './llmProviderRegistry';
+import { Message } from '../context/ChatContext';
+import { safeJsonParse } from '../utils/jsonUtils';
+import { resolveApiEndpoint, getGatewayUrl } from './llmGateway';
+import { chatTemplateService } from './chatTemplateService';
+
+/**
+ * Removes a ```json ... ``` markdown fence some models wrap around JSON output.
+ */
+export const stripJsonCodeFence = (content: string): string => {
+  let cleaned = content;
+  if (cleaned.startsWith("```json\n")) {
+    cleaned = cleaned.substring(7);
+  }
+  if (cleaned.endsWith("\n```")) {
+    cleaned = cleaned.substring(0, cleaned.length - 4);
+  } else if (cleaned.endsWith("```")) { // Handle cases where there's no newline before the final backticks
+    cleaned = cleaned.substring(0, cleaned.length - 3);
+  }
+  return cleaned.trim();
+};
+
+/**
+ * Token counts of an OpenAI-style `usage` object, sent with non-streamed responses and with the last
+ * stream chunk when `stream_options.include_usage` is set.
+ */
+export const parseChatCompletionUsage = (data: any): LLMUsage | null => {
+  const usage = data?.usage;
+  if (!usage || typeof usage.prompt_tokens !== 'number') return null;
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens ?? 0 };
+};
+
+/**
+ * Parses a "data: {...}" server-sent event line of an OpenAI-style chat completion stream.
+ */
+export const parseChatCompletionStreamLine = (line: string): LLMStreamChunk | null => {
+  if (!line.startsWith('data: ')) return null;
+  const data = line.slice(6).trim();
+  if (data === '[DONE]') return { content: '', done: true };
+  try {
+    const parsed = JSON.parse(data);
+    const delta = parsed.choices?.[0]?.delta || {};
+    const chunk: LLMStreamChunk = {
+      content: delta.content || '',
+      reasoning: delta.reasoning || delta.reasoning_content || undefined,
+      done: false
+    };
+    const usage = parseChatCompletionUsage(parsed);
+    if (usage) chunk.usage = usage;
+    return chunk;
+  } catch (e) {
+    console.error('Error parsing stream chunk:', e);
+    return null;
+  }
+};
+
+/**
+ * Payload of an OpenAI-style /chat/completions request, sending only the options that are set
+ * beyond the temperature and frequency penalty defaults.
+ */
+const buildChatCompletionPayload = ({ messages, stream, responseFormat, options }: LLMProviderRequestContext, model: string) => {
+  const payload: any = {
+    model: model,
+    messages: messages,
+    stream: stream,
+    temperature: options.temperature ?? 0.2,
+    frequency_penalty: options.frequency_penalty ?? 0,
+  };
+
+  if (options.max_tokens !== undefined) payload.max_tokens = options.max_tokens;
+  if (options.top_p !== undefined) payload.top_p = options.top_p;
+  if (options.presence_penalty !== undefined) payload.presence_penalty = options.presence_penalty;
+  if (responseFormat) payload.response_format = responseFormat;
+  return payload;
+};
+
+const splitList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+const getChatCompletionContent = (data: any, providerName: string): string => {
+  if (!data.choices?.[0]?.message?.content) {
+    throw new Error(`Invalid ${providerName} response structure`);
+  }
+  return data.choices[0].message.content;
+};
+
+const openaiProvider: LLMProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  capabilities: { chatMessages: true, jsonMode: true, reasoning: false, grammar: false, streaming: true },
+  buildRequest: (context) => {
+    const openaiModel = context.model ?? import.meta.env.VITE_OAI_MODEL;
+    if (!openaiModel) {
+      throw new Error('OpenAI model not specified via argument or VITE_OAI_MODEL');
+    }
+
+    const payload = buildChatCompletionPayload(context, openaiModel);
+    if (context.stream) payload.stream_options = { include_usage: true };
+
+    const endpoint = resolveApiEndpoint('openai', 'https://api.openai.com', '/v1/chat/completions', () => ({
+      'Authorization': `Bearer ${import.meta.env.VITE_OAI_KEY}`
+    }));
+    return {
+      url: endpoint.url,
+      headers: {
+        'Content-Type': 'application/json',
+        ...endpoint.headers
+      },
+      body: payload
+    };
+  },
+  parseResponse: (data) => getChatCompletionContent(data, 'OpenAI'),
+  parseStreamChunk: parseChatCompletionStreamLine,
+  parseUsage: parseChatCompletionUsage
+};
+
+const openrouterProvider: LLMProvider = {
+  id: 'openrouter',
+  name: 'OpenRouter',
+  capabilities: { chatMessages: true, jsonMode: true, reasoning: true, grammar: false, streaming: true },
+  buildRequest: ({ messages, model, stream, responseFormat, options, includeReasoning }) => {
+    const openrouterModel = model || import.meta.env.VITE_OPENROUTER_MODEL || 'anthropic/claude-3-opus-20240229';
+    const openrouterProvider = import.meta.env.VITE_OPENROUTER_PROVIDER;
+
+    const payload: any = {
+      model: openrouterModel,
+      messages: messages.map(msg => ({
+        role: msg.role,
+        content: [{
+          type: "text",
+          text: msg.content
+        }]
+      })),
+      provider: {
+        order: openrouterProvider ? [openrouterProvider] : undefined,
+        allow_fallbacks: true
+      },
+      temperature: options.temperature ?? 0.6,
+      top_p: options.top_p ?? 1,
+      top_k: 20,
+      min_p: 0,
+      enable_thinking: includeReasoning,
+      include_reasoning: true,
+      presence_penalty: options.presence_penalty ?? 0.1,
+      reasoning: {
+        effort: "low"
+      },
+      usage: {
+        include: true
+      },
+      stream: stream,
+    };
+
+    if (options.max_tokens !== undefined) payload.max_tokens = options.max_tokens;
+    if (options.frequency_penalty !== undefined) payload.frequency_penalty = options.frequency_penalty;
+    if (responseFormat) payload.response_format = responseFormat;
+
+    const endpoint = resolveApiEndpoint('openrouter', 'https://openrouter.ai/api', '/v1/chat/completions', () => ({
+      'Authorization': `Bearer ${import.meta.env.VITE_OPENROUTER_KEY}`
+    }));
+    return {
+      url: endpoint.url,
+      headers: {
+        'Content-Type': 'application/json',
+        ...endpoint.headers,
+        'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : '',
+        'X-Title': 'Game Shaper AI'
+      },
+      body: payload
+    };
+  },
+  parseResponse: (data, { responseFormat, includeReasoning }) => {
+    const content = getChatCompletionContent(data, 'OpenRouter');
+    if (responseFormat?.type === 'json_object') {
+      return content.replace(/```json\n|\n```/g, '').trim();
+    }
+    // Only process for reasoning if not a json_object type
+    try {
+      const parsedContent = safeJsonParse(content);
+      if (!includeReasoning && parsedContent.reasoning !== undefined) {
+        delete parsedContent.reasoning;
+        return JSON.stringify(parsedContent);
+      }
+    } catch (e) {
+      // Plain text content
+    }
+    return content;
+  },
+  parseStreamChunk: parseChatCompletionStreamLine,
+  parseUsage: parseChatCompletionUsage
+};
+
+const koboldcppProvider: LLMProvider = {
+  id: 'koboldcpp',
+  name: 'KoboldCPP',
+  capabilities: { chatMessages: false, jsonMode: false, reasoning: false, grammar: true, streaming: true },
+  buildRequest: ({ messages, model, grammar, chatTemplate, stream, options }) => {
+    // The model name only selects the chat template: KoboldCPP serves the model it was started with
+    const { prompt, stop } = chatTemplateService.applyTemplate(messages, chatTemplateService.resolveTemplateName(chatTemplate, model));
+    const stopSequences = Array.from(new Set([...stop, ...(options.stop || [])]));
+    const requestBody: any = {
+      max_context_length: Number(import.meta.env.VITE_KOBOLDCPP_MAX_CONTEXT) || 4096,
+      max_length: options.max_tokens ?? 768,
+      prompt: prompt,
+      quiet: false,
+      rep_pen: options.frequency_penalty ?? 1.0,
+      rep_pen_range: 256,
+      rep_pen_slope: 1.0,
+      temperature: options.temperature ?? 0.2,
+      tfs: 1,
+      top_a: 0,
+      top_k: 80,
+      top_p: options.top_p ?? 0.9,
+      typical: 1,
+      password: import.meta.env.VITE_KOBOLDCPP_PASSWORD || "nodegame",
+      grammar,
+      stream: stream
+    };
+
+    if (stopSequences.length > 0) {
+      requestBody.stop_sequence = stopSequences;
+      requestBody.trim_stop = true;
+    }
+
+    if (options.presence_penalty !== undefined) {
+      requestBody.rep_pen = options.presence_penalty;
+    }
+
+    return {
+      url: import.meta.env.VITE_KOBOLDCPP_API_URL + '/api/v1/generate',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': import.meta.env.VITE_KOBOLDCPP_PASSWORD || 'nodegame'
+      },
+      body: requestBody
+    };
+  },
+  parseResponse: (data) => {
+    if (data && data.results && data.results.length > 0 && typeof data.results[0].text === 'string') {
+      return data.results[0].text;
+    }
+    throw new Error(`Invalid KoboldCPP response structure or empty content. Full response: ${JSON.stringify(data)}`);
+  },
+  // KoboldCPP streams "event: message" / "data: {"token": "..."}" pairs
+  parseStreamChunk: (line) => {
+    if (!line.startsWith('data: ')) return null;
+    try {
+      const parsed = JSON.parse(line.slice(6));
+      return { content: parsed.token || '', done: parsed.finish_reason !== undefined && parsed.finish_reason !== null };
+    } catch (e) {
+      console.error('Error parsing stream chunk:', e);
+      return null;
+    }
+  }
+};
+
+const deepseekProvider: LLMProvider = {
+  id: 'deepseek',
+  name: 'DeepSeek',
+  capabilities: { chatMessages: true, jsonMode: true, reasoning: true, grammar: false, streaming: true },
+  buildRequest: ({ messages, model, stream, responseFormat, options }) => {
+    let deepseekModel: string;
+    if (model === 'reasoning') {
+      deepseekModel = import.meta.env.VITE_DEEPSEEK_REASONING_MODEL || 'deepseek-reasoner';
+    } else if (model) {
+      deepseekModel = model;
+    } else {
+      deepseekModel = import.meta.env.VITE_DEEPSEEK_MODEL || 'deepseek-chat';
+    }
+
+    const deepSeekPayload: any = {
+      model: deepseekModel,
+      messages: messages,
+      stream: stream,
+      temperature: options.temperature ?? 0.2,
+      frequency_penalty: options.frequency_penalty ?? 0,
+    };
+
+    if (options.max_tokens !== undefined) deepSeekPayload.max_tokens = options.max_tokens;
+    if (options.top_p !== undefined) deepSeekPayload.top_p = options.top_p;
+    if (options.presence_penalty !== undefined) deepSeekPayload.presence_penalty = options.presence_penalty;
+    if (stream) deepSeekPayload.stream_options = { include_usage: true };
+
+    // deepseek-reasoner rejects json_object
+    if (responseFormat && !(deepseekModel === 'deepseek-reasoner' && responseFormat.type === 'json_object')) {
+      deepSeekPayload.response_format = responseFormat;
+    }
+
+    const endpoint = resolveApiEndpoint('deepseek', 'https://api.deepseek.com', '/chat/completions', () => ({
+      'Authorization': `Bearer ${import.meta.env.VITE_DEEPSEEK_KEY}`
+    }));
+    return {
+      url: endpoint.url,
+      headers: {
+        'Content-Type': 'application/json',
+        ...endpoint.headers
+      },
+      body: deepSeekPayload
+    };
+  },
+  parseResponse: (data, { responseFormat }) => {
+    const content = getChatCompletionContent(data, 'DeepSeek');
+    return responseFormat?.type === 'json_object' ? stripJsonCodeFence(content) : content;
+  },
+  parseStreamChunk: parseChatCompletionStreamLine,
+  parseUsage: parseChatCompletionUsage
+};
+
+// Base URL and headers of the configured OpenAI-compatible server. A server set in
+// VITE_OPENAI_COMPATIBLE_BASE_URL is called directly; without one, the gateway's endpoint is used.
+const getOpenAICompatibleEndpoint = (): { baseUrl: string; headers: Record<string, string> } => {
+  const baseUrl = import.meta.env.VITE_OPENAI_COMPATIBLE_BASE_URL;
+  const gatewayUrl = getGatewayUrl();
+  if (!baseUrl && gatewayUrl) {
+    return { baseUrl: `${gatewayUrl}/api/gateway/openai-compatible`, headers: { 'Content-Type': 'application/json' } };
+  }
+  if (!baseUrl) {
+    throw new Error('OpenAI-compatible endpoint not configured: set VITE_OPENAI_COMPATIBLE_BASE_URL, or VITE_LLM_GATEWAY_URL and OPENAI_COMPATIBLE_BASE_URL on the gateway');
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const apiKey = import.meta.env.VITE_OPENAI_COMPATIBLE_KEY;
+  if (apiKey) {
+    const authHeader = import.meta.env.VITE_OPENAI_COMPATIBLE_AUTH_HEADER || 'Authorization';
+    headers[authHeader] = authHeader.toLowerCase() === 'authorization' ? `Bearer ${apiKey}` : apiKey;
+  }
+  return { baseUrl: trimTrailingSlash(baseUrl), headers };
+};
+
+// Any server exposing /chat/completions (LM Studio, llama.cpp server, vLLM, LocalAI, Ollama's /v1...)
+const openaiCompatibleProvider: LLMProvider = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible endpoint',
+  capabilities: { chatMessages: true, jsonMode: true, reasoning: true, grammar: false, streaming: true },
+  buildRequest: (context) => {
+    const { baseUrl, headers } = getOpenAICompatibleEndpoint();
+    const model = context.model || import.meta.env.VITE_OPENAI_COMPATIBLE_MODEL || splitList(import.meta.env.VITE_OPENAI_COMPATIBLE_MODELS)[0];
+    if (!model) {
+      throw new Error('OpenAI-compatible model not specified via argument, VITE_OPENAI_COMPATIBLE_MODEL or VITE_OPENAI_COMPATIBLE_MODELS');
+    }
+
+    const payload = buildChatCompletionPayload(context, model);
+    // Many local servers reject response_format; it can be turned off and the prompts still ask for JSON
+    if (import.meta.env.VITE_OPENAI_COMPATIBLE_JSON_MODE === 'false') {
+      delete payload.response_format;
+    }
+
+    return {
+      url: `${baseUrl}/chat/completions`,
+      headers,
+      body: payload
+    };
+  },
+  parseResponse: (data, { responseFormat }) => {
+    const content = getChatCompletionContent(data, 'OpenAI-compatible');
+    return responseFormat?.type === 'json_object' ? stripJsonCodeFence(content) : content;
+  },
+  parseStreamChunk: parseChatCompletionStreamLine,
+  parseUsage: parseChatCompletionUsage,
+  listModels: async () => {
+    const configuredModels = splitList(import.meta.env.VITE_OPENAI_COMPATIBLE_MODELS);
+    if (configuredModels.length > 0) return configuredModels;
+
+    const { baseUrl, headers } = getOpenAICompatibleEndpoint();
+    const response = await fetch(`${baseUrl}/models`, { headers });
+    if (!response.ok) {
+      throw new Error(`Could not list models: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    return (data.data || []).map((model: any) => model.id).filter(Boolean);
+  }
+};
+
+// Ollama reports counts on the final object of a response, streamed or not
+const parseOllamaUsage = (data: any): LLMUsage | null => {
+  if (typeof data?.prompt_eval_count !== 'number' && typeof data?.eval_count !== 'number') return null;
+  return { promptTokens: data.prompt_eval_count ?? 0, completionTokens: data.eval_count ?? 0 };
+};
+
+const getOllamaBaseUrl = () => trimTrailingSlash(import.meta.env.VITE_OLLAMA_BASE_URL || 'http://localhost:11434');
+
+// Native Ollama /api/chat, streaming newline-delimited JSON objects
+const ollamaProvider: LLMProvider = {
+  id: 'ollama',
+  name: 'Ollama',
+  capabilities: { chatMessages: true, jsonMode: true, reasoning: false, grammar: false, streaming: true },
+  buildRequest: ({ messages, model, stream, responseFormat, options }) => {
+    const ollamaModel = model || import.meta.env.VITE_OLLAMA_MODEL;
+    if (!ollamaModel) {
+      throw new Error('Ollama model not specified via argument or VITE_OLLAMA_MODEL');
+    }
+
+    const ollamaOptions: any = {
+      temperature: options.temperature ?? 0.2
+    };
+    if (options.max_tokens !== undefined) ollamaOptions.num_predict = options.max_tokens;
+    if (options.top_p !== undefined) ollamaOptions.top_p = options.top_p;
+    if (options.frequency_penalty !== undefined) ollamaOptions.frequency_penalty = options.frequency_penalty;
+    if (options.presence_penalty !== undefined) ollamaOptions.presence_penalty = options.presence_penalty;
+    if (import.meta.env.VITE_OLLAMA_NUM_CTX) ollamaOptions.num_ctx = Number(import.meta.env.VITE_OLLAMA_NUM_CTX);
+
+    const payload: any = {
+      model: ollamaModel,
+      messages: messages.map(message => ({ role: message.role, content: message.content })),
+      stream: stream,
+      options: ollamaOptions
+    };
+    if (responseFormat?.type === 'json_object') payload.format = 'json';
+
+    return {
+      url: `${getOllamaBaseUrl()}/api/chat`,
+      headers: { 'Content-Type': 'application/json' },
+      body: payload
+    };
+  },
+  parseResponse: (data) => {
+    if (typeof data?.message?.content !== 'string') {
+      throw new Error(`Invalid Ollama response structure. Full response: ${JSON.stringify(data)}`);
+    }
+    return data.message.content;
+  },
+  parseUsage: parseOllamaUsage,
+  parseStreamChunk: (line) => {
+    if (!line.trim()) return null;
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed.error) {
+        console.error('Ollama stream error:', parsed.error);
+        return { content: '', done: true };
+      }
+      const chunk: LLMStreamChunk = {
+        content: parsed.message?.content || '',
+        reasoning: parsed.message?.thinking || undefined,
+        done: parsed.done === true
+      };
+      const usage = parseOllamaUsage(parsed);
+      if (usage) chunk.usage = usage;
+      return chunk;
+    } catch (e) {
+      console.error('Error parsing stream chunk:', e);
+      return null;
+    }
+  },
+  listModels: async () => {
+    const response = await fetch(`${getOllamaBaseUrl()}/api/tags`);
+    if (!response.ok) {
+      throw new Error(`Could not list Ollama models: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    return (data.models || []).map((model: any) => model.name).filter(Boolean);
+  }
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Prefilled assistant turn used to force a JSON object answer, since the Messages API has no JSON mode
+const ANTHROPIC_JSON_PREFILL = '{';
+
+/**
+ * Converts chat messages to the Messages API shape: system messages are moved to the separate
+ * system prompt, every non-assistant role becomes "user", consecutive turns of the same role are
+ * merged and the conversation starts with a user turn.
+ */
+export const toAnthropicMessages = (messages: Message[]): { system: string; messages: { role: 'user' | 'assistant'; content: string }[] } => {
+  const systemParts: string[] = [];
+  const turns: { role: 'user' | 'assistant'; content: string }[] = [];
+  messages.forEach(message => {
+    if (message.role === 'system') {
+      systemParts.push(message.content);
+      return;
+    }
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role, content: message.content });
+    }
+  });
+  if (turns.length === 0 || turns[0].role !== 'user') {
+    turns.unshift({ role: 'user', content: 'Please process the instructions and generate a response.' });
+  }
+  return { system: systemParts.join('\n\n'), messages: turns };
+};
+
+const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  capabilities: { chatMessages: true, jsonMode: true, reasoning: true, grammar: false, streaming: true },
+  buildRequest: ({ messages, model, stream, responseFormat, options }) => {
+    const anthropicModel = model || import.meta.env.VITE_ANTHROPIC_MODEL;
+    if (!anthropicModel) {
+      throw new Error('Anthropic model not specified via argument or VITE_ANTHROPIC_MODEL');
+    }
+
+    const converted = toAnthropicMessages(messages);
+    if (responseFormat?.type === 'json_object') {
+      converted.messages.push({ role: 'assistant', content: ANTHROPIC_JSON_PREFILL });
+    }
+
+    // max_tokens is mandatory for the Messages API
+    const payload: any = {
+      model: anthropicModel,
+      messages: converted.messages,
+      max_tokens: options.max_tokens ?? (Number(import.meta.env.VITE_ANTHROPIC_MAX_TOKENS) || 4096),
+      temperature: options.temperature ?? 0.2,
+      stream: stream
+    };
+    if (converted.system) payload.system = converted.system;
+    if (options.top_p !== undefined) payload.top_p = options.top_p;
+
+    const endpoint = resolveApiEndpoint('anthropic', import.meta.env.VITE_ANTHROPIC_BASE_URL || 'https://api.anthropic.com', '/v1/messages', () => ({
+      'x-api-key': import.meta.env.VITE_ANTHROPIC_KEY || '',
+      'anthropic-dangerous-direct-browser-access': 'true'
+    }));
+    return {
+      url: endpoint.url,
+      headers: {
+        'Content-Type': 'application/json',
+        ...endpoint.headers,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: payload
+    };
+  },
+  parseResponse: (data, { responseFormat }) => {
+    if (!Array.isArray(data?.content)) {
+      throw new Error(`Invalid Anthropic response structure. Full response: ${JSON.stringify(data)}`);
+    }
+    const text = data.content
+      .filter((block: any) => block.type === 'text' && typeof block.text === 'string')
+      .map((block: any) => block.text)
+      .join('');
+    if (responseFormat?.type === 'json_object') {
+      return stripJsonCodeFence(ANTHROPIC_JSON_PREFILL + text);
+    }
+    if (!text) {
+      throw new Error(`Anthropic response has no text content. Full response: ${JSON.stringify(data)}`);
+    }
+    return text;
+  },
+  parseUsage: (data) => {
+    if (typeof data?.usage?.input_tokens !== 'number') return null;
+    return { promptTokens: data.usage.input_tokens, completionTokens: data.usage.output_tokens ?? 0 };
+  },
+  // Server-sent events: "event: <type>" lines are skipped, the type is repeated in each data payload
+  parseStreamChunk: (line) => {
+    if (!line.startsWith('data: ')) return null;
+    try {
+      const event = JSON.parse(line.slice(6));
+      switch (event.type) {
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') return { content: event.delta.text || '', done: false };
+          if (event.delta?.type === 'thinking_delta') return { content: '', reasoning: event.delta.thinking || '', done: false };
+          return null;
+        // Input tokens come with message_start, the output total with the final message_delta
+        case 'message_start':
+          if (typeof event.message?.usage?.input_tokens !== 'number') return null;
+          return { content: '', usage: { promptTokens: event.message.usage.input_tokens }, done: false };
+        case 'message_delta':
+          if (typeof event.usage?.output_tokens !== 'number') return null;
+          return { content: '', usage: { completionTokens: event.usage.output_tokens }, done: false };
+        case 'message_stop':
+          return { content: '', done: true };
+        case 'error':
+          console.error('Anthropic stream error:', event.error);
+          return { content: '', done: true };
+        default:
+          return null;
+      }
+    } catch (e) {
+      console.error('Error parsing stream chunk:', e);
+      return null;
+    }
+  }
+};
+
+export const builtInLLMProviders: LLMProvider[] = [
+  openaiProvider,
+  openrouterProvider,
+  koboldcppProvider,
+  deepseekProvider,
+  openaiCompatibleProvider,
+  ollamaProvider,
+  anthropicProvider
+];
@@ -0,0 +1,142 @@
+import { llmProviderRegistry, LLMProvider, LLMStreamChunk, LLMUsage } from './llmProviderRegistry';
+
+export interface LLMStreamText {
+  text: string;       // Concatenated content tokens
+  reasoning: string;  // Concatenated reasoning deltas, empty if the provider sent none
+  usage?: LLMUsage;   // Token counts, if the provider reported any during the stream
+}
+
+// Provider of each stream returned by getResponse, which may differ from VITE_LLM_API per task
+const streamProviders = new WeakMap<Response, LLMProvider>();
+
+export const bindStreamProvider = (response: Response, provider: LLMProvider): void => {
+  streamProviders.set(response, provider);
+};
+
+/**
+ * Wraps a streamed response so that `onEnd` runs once, when its body is read to the end, fails,
+ * is cancelled by its reader or the signal aborts. getResponse holds its request slot until then.
+ * The provider bound to the response stays bound to the wrapper.
+ */
+export const onStreamEnd = (response: Response, onEnd: () => void, signal?: AbortSignal): Response => {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    onEnd();
+    return response;
+  }
+  let ended = false;
+  const end = () => {
+    if (ended) return;
+    ended = true;
+    signal?.removeEventListener('abort', end);
+    onEnd();
+  };
+  signal?.addEventListener('abort', end, { once: true });
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          end();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        end();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      end();
+      return reader.cancel(reason);
+    }
+  });
+  const wrapped = new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  const provider = streamProviders.get(response);
+  if (provider) streamProviders.set(wrapped, provider);
+  return wrapped;
+};
+
+/**
+ * Reads a streamed LLM response and yields its parsed chunks, whatever the provider's wire format
+ * (OpenAI-style SSE with `[DONE]`, Anthropic events, KoboldCPP tokens, Ollama JSON lines).
+ * Lines split across network chunks are buffered until complete, and the stream is released
+ * as soon as the provider signals the end.
+ * @param response The `streamResponse` returned by getResponse.
+ * @param provider The provider that produced the stream; defaults to the one getResponse used for it,
+ * else the active one (VITE_LLM_API).
+ */
+export async function* parseLLMStream(
+  response: Response,
+  provider: LLMProvider | undefined = streamProviders.get(response) ?? llmProviderRegistry.getActive()
+): AsyncGenerator<LLMStreamChunk> {
+  if (!provider) {
+    throw new Error(`Cannot parse stream: no LLM provider registered for "${import.meta.env.VITE_LLM_API}"`);
+  }
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No reader available for LLM stream');
+  }
+
+  const decoder = new TextDecoder();
+  let pendingLine = '';
+  let finished = false;
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      // At the end of the stream, flush the last line even without a trailing newline
+      const lines = done
+        ? [pendingLine + decoder.decode()]
+        : (pendingLine + decoder.decode(value, { stream: true })).split('\n');
+      pendingLine = done ? '' : lines.pop() || '';
+
+      for (const line of lines) {
+        const chunk = provider.parseStreamChunk(line.replace(/\r$/, ''));
+        if (!chunk) continue;
+        if (chunk.content || chunk.reasoning || chunk.usage) {
+          yield chunk;
+        }
+        if (chunk.done) {
+          finished = true;
+          break;
+        }
+      }
+      if (done) break;
+    }
+  } finally {
+    if (finished) {
+      reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Reads a whole streamed LLM response, calling `onToken` with each content token as it arrives.
+ * Usage counts split across chunks are merged, the latest value of each count winning.
+ */
+export async function readLLMStreamText(
+  response: Response,
+  onToken?: (token: string) => void,
+  provider?: LLMProvider
+): Promise<LLMStreamText> {
+  const result: LLMStreamText = { text: '', reasoning: '' };
+  for await (const chunk of parseLLMStream(response, provider)) {
+    if (chunk.reasoning) {
+      result.reasoning += chunk.reasoning;
+    }
+    if (chunk.content) {
+      result.text += chunk.content;
+      onToken?.(chunk.content);
+    }
+    if (chunk.usage) {
+      result.usage = {
+        promptTokens: chunk.usage.promptTokens ?? result.usage?.promptTokens ?? 0,
+        completionTokens: chunk.usage.completionTokens ?? result.usage?.completionTokens ?? 0
+      };
+    }
+  }
+  return result;
+}
@@ -0,0 +1,232 @@
+import modelPricesConfig from '../config/modelPrices.yaml';
+import type { LLMUsage } from './llmProviderRegistry';
+import { estimateTokens } from '../utils/contextBudget';
+import { safeLocalStorageSetItem } from '../utils/localStorageUtils';
+
+const USAGE_STORAGE_KEY = 'llmUsageRecords';
+const MAX_STORED_RECORDS = 2000;
+const MAX_PENDING_CALLS = 100;
+const TURN_LABEL_LENGTH = 60;
+
+export interface ModelPrice {
+  model: string;       // Prefix of the model names the price applies to
+  input: number;       // USD per million prompt tokens
+  output: number;      // USD per million completion tokens
+}
+
+// Token counts and cost of one finished call
+export interface LLMCallUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean;         // Counted from the text because the provider reported nothing
+  cost: number | null;        // USD; null when the model has no price
+}
+
+export interface LLMUsageRecord extends LLMCallUsage {
+  callId: string;
+  callType: string;
+  sessionId: string;
+  turnId: string | null;      // Game turn the call belongs to, null before the first turn of the session
+  turnLabel?: string;         // Start of the player input of that turn
+  timestamp: number;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;               // Sum of the priced calls
+  unpricedCalls: number;
+  estimatedCalls: number;
+}
+
+export interface LLMUsageGroup {
+  key: string;
+  label: string;
+  totals: LLMUsageTotals;
+}
+
+interface PendingCall {
+  callType: string;
+  model: string;
+  promptText: string;
+}
+
+type UsageListener = (records: LLMUsageRecord[]) => void;
+const listeners: UsageListener[] = [];
+
+const prices: ModelPrice[] = ((modelPricesConfig?.modelPrices || []) as ModelPrice[])
+  .filter(price => typeof price?.model === 'string' && price.model.trim())
+  .map(price => ({ model: price.model.trim().toLowerCase(), input: Number(price.input) || 0, output: Number(price.output) || 0 }));
+
+const sessionId = `session-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+let currentTurn: { id: string; label: string } | null = null;
+const pendingCalls = new Map<string, PendingCall>();
+let cachedRecords: LLMUsageRecord[] | null = null;
+
+const loadRecords = (): LLMUsageRecord[] => {
+  if (cachedRecords) return cachedRecords;
+  try {
+    const raw = localStorage.getItem(USAGE_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    cachedRecords = Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('[llmUsageService] Error reading usage records, starting empty:', error);
+    cachedRecords = [];
+  }
+  return cachedRecords;
+};
+
+const saveRecords = (records: LLMUsageRecord[]) => {
+  cachedRecords = records;
+  if (!safeLocalStorageSetItem(USAGE_STORAGE_KEY, JSON.stringify(records))) {
+    console.error('[llmUsageService] Could not store the usage records');
+  }
+  listeners.forEach(listener => listener(records));
+};
+
+/**
+ * Returns the price of a model, matching the longest price entry prefix of its name.
+ * Provider prefixes ("openai/gpt-4o") are ignored.
+ */
+const getPrice = (model: string | undefined): ModelPrice | null => {
+  const name = (model || '').trim().toLowerCase().split('/').pop() || '';
+  if (!name) return null;
+  return prices
+    .filter(price => name.startsWith(price.model))
+    .reduce<ModelPrice | null>((best, price) => (!best || price.model.length > best.model.length ? price : best), null);
+};
+
+/**
+ * Cost in USD of a call, or null when the model has no price.
+ */
+const computeCost = (model: string | undefined, promptTokens: number, completionTokens: number): number | null => {
+  const price = getPrice(model);
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1000000;
+};
+
+/**
+ * Starts a game turn: calls completed from now on are attributed to it.
+ * @returns The id of the new turn.
+ */
+const startTurn = (label: string): string => {
+  const trimmed = label.trim();
+  currentTurn = {
+    id: `turn-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+    label: trimmed.length > TURN_LABEL_LENGTH ? `${trimmed.substring(0, TURN_LABEL_LENGTH)}…` : trimmed
+  };
+  return currentTurn.id;
+};
+
+/**
+ * Remembers what was sent for a call, so its tokens can be estimated if the provider reports none.
+ */
+const beginCall = (callId: string, call: PendingCall): void => {
+  pendingCalls.set(callId, call);
+  if (pendingCalls.size > MAX_PENDING_CALLS) {
+    // Calls that failed are never completed; drop the oldest ones
+    const oldest = pendingCalls.keys().next().value;
+    if (oldest !== undefined) pendingCalls.delete(oldest);
+  }
+};
+
+/**
+ * Records the usage of a finished (or stopped) call started with beginCall.
+ * Reported counts are used when present, otherwise both counts are estimated from the texts.
+ * @returns The usage of the call, or null if the call was never started or already completed.
+ */
+const completeCall = (callId: string, responseText: string, reportedUsage?: LLMUsage | null): LLMCallUsage | null => {
+  const pending = pendingCalls.get(callId);
+  if (!pending) return null;
+  pendingCalls.delete(callId);
+
+  const estimated = !reportedUsage;
+  const promptTokens = reportedUsage ? reportedUsage.promptTokens : estimateTokens(pending.promptText);
+  const completionTokens = reportedUsage ? reportedUsage.completionTokens : estimateTokens(responseText);
+  const usage: LLMCallUsage = {
+    model: pending.model,
+    promptTokens,
+    completionTokens,
+    estimated,
+    cost: computeCost(pending.model, promptTokens, completionTokens)
+  };
+
+  const record: LLMUsageRecord = {
+    ...usage,
+    callId,
+    callType: pending.callType,
+    sessionId,
+    turnId: currentTurn?.id ?? null,
+    turnLabel: currentTurn?.label,
+    timestamp: Date.now()
+  };
+  const records = [...loadRecords(), record];
+  saveRecords(records.length > MAX_STORED_RECORDS ? records.slice(records.length - MAX_STORED_RECORDS) : records);
+  return usage;
+};
+
+const getRecords = (): LLMUsageRecord[] => loadRecords();
+
+const getSessionRecords = (): LLMUsageRecord[] => loadRecords().filter(record => record.sessionId === sessionId);
+
+const summarize = (records: LLMUsageRecord[]): LLMUsageTotals => records.reduce<LLMUsageTotals>((totals, record) => ({
+  calls: totals.calls + 1,
+  promptTokens: totals.promptTokens + record.promptTokens,
+  completionTokens: totals.completionTokens + record.completionTokens,
+  cost: totals.cost + (record.cost ?? 0),
+  unpricedCalls: totals.unpricedCalls + (record.cost === null ? 1 : 0),
+  estimatedCalls: totals.estimatedCalls + (record.estimated ? 1 : 0)
+}), { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedCalls: 0, estimatedCalls: 0 });
+
+/**
+ * Groups records by call type, model or game turn. Turns keep their chronological order,
+ * the other groupings are sorted by cost, then tokens, descending.
+ */
+const groupBy = (records: LLMUsageRecord[], by: 'callType' | 'model' | 'turn'): LLMUsageGroup[] => {
+  const groups = new Map<string, { label: string; records: LLMUsageRecord[] }>();
+  records.forEach(record => {
+    const key = by === 'turn' ? record.turnId ?? 'no-turn' : record[by] || 'unknown';
+    const label = by === 'turn' ? record.turnLabel || (record.turnId ? 'Turn' : 'Before the first turn') : key;
+    if (!groups.has(key)) groups.set(key, { label, records: [] });
+    groups.get(key)!.records.push(record);
+  });
+  const result = Array.from(groups.entries()).map(([key, group]) => ({ key, label: group.label, totals: summarize(group.records) }));
+  if (by === 'turn') return result;
+  return result.sort((a, b) =>
+    b.totals.cost - a.totals.cost ||
+    (b.totals.promptTokens + b.totals.completionTokens) - (a.totals.promptTokens + a.totals.completionTokens));
+};
+
+const clear = (): void => {
+  localStorage.removeItem(USAGE_STORAGE_KEY);
+  cachedRecords = [];
+  listeners.forEach(listener => listener([]));
+};
+
+const subscribe = (listener: UsageListener) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+export const llmUsageService = {
+  getPrice,
+  computeCost,
+  startTurn,
+  getCurrentTurnId: () => currentTurn?.id ?? null,
+  getSessionId: () => sessionId,
+  beginCall,
+  completeCall,
+  getRecords,
+  getSessionRecords,
+  summarize,
+  groupBy,
+  clear,
+  subscribe
+};
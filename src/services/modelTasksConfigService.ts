@@ -1,27 +1,143 @@
+import { dump, load } from 'js-yaml';
+import { safeLocalStorageSetItem } from '../utils/localStorageUtils';
+
 export interface ModelTaskConfig {
   promptName: string;
+  provider?: string;         // Id of a registered LLM provider, replacing VITE_LLM_API for this task
   model?: string;
   temperature?: number;
   frequency_penalty?: number;
   max_tokens?: number;
   top_p?: number;
   presence_penalty?: number;
+  context_budget?: number;   // Estimated prompt tokens allowed before nodes and history are trimmed
+  fallback_models?: string[];  // Tried in order when the model fails in a way another model may not
+  chat_template?: string;    // Name in src/config/chatTemplates.yaml, for completion backends (KoboldCPP)
+  stop?: string[];           // Stop sequences added to the chat template's
 }
 
-interface ModelTasksConfigData {
+export interface ModelTasksConfigData {
+  provider?: string;         // Default provider of every task, replacing VITE_LLM_API
   modelsTasks: ModelTaskConfig[];
 }
 
+// Edited in the Models settings panel; replaces src/config/modelsTasks.yaml while stored
+const RUNTIME_CONFIG_STORAGE_KEY = 'modelTasksConfig';
+
+const NUMERIC_FIELDS = ['temperature', 'frequency_penalty', 'max_tokens', 'top_p', 'presence_penalty', 'context_budget'] as const;
+
+// Call types passed to getResponse, offered as suggestions by the settings panel
+export const KNOWN_PROMPT_NAMES = [
+  'chat_text_generation',
+  'action_generation',
+  'node_relevance_check',
+  'node_edition_json',
+  'node_edition_json_repair',
+  'node_sort_by_relevance',
+  'refocus_story_generation',
+  'generate_nodes_from_prompt',
+  'image_prompt_generation',
+  'node_generation',
+  'single_node_regeneration',
+  'advanced_node_planning',
+  'advanced_node_content_generation',
+  'advanced_node_validation',
+  'moxus_feedback_on_chat_text_generation',
+  'moxus_feedback_on_node_edition_json',
+  'moxus_feedback_on_manual_node_edit',
+  'moxus_feedback_on_assistant_feedback',
+  'INTERNAL_MEMORY_UPDATE_FOR_synthesizeGeneralMemory',
+  'INTERNAL_FINAL_REPORT_GENERATION_STEP'
+];
+
 let configCache: ModelTasksConfigData | null = null;
 
+const optionalString = (value: unknown, path: string): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new Error(`${path} must be a string`);
+  return value.trim() || undefined;
+};
+
+/**
+ * Checks a config read from YAML or storage and drops empty values and unknown keys.
+ * Throws an error naming the first invalid field.
+ */
+export const sanitizeModelTasksConfig = (raw: unknown): ModelTasksConfigData => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('The config must be a mapping with a modelsTasks list');
+  }
+  const { provider, modelsTasks = [] } = raw as { provider?: unknown; modelsTasks?: unknown };
+  if (!Array.isArray(modelsTasks)) {
+    throw new Error('modelsTasks must be a list');
+  }
+
+  const seen = new Set<string>();
+  const tasks = modelsTasks.map((entry: unknown, index: number): ModelTaskConfig => {
+    const path = `modelsTasks[${index}]`;
+    if (typeof entry !== 'object' || entry === null) throw new Error(`${path} must be a mapping`);
+    const task = entry as Record<string, unknown>;
+    const promptName = optionalString(task.promptName, `${path}.promptName`);
+    if (!promptName) throw new Error(`${path}.promptName is required`);
+    if (seen.has(promptName)) throw new Error(`${path}.promptName "${promptName}" is listed twice`);
+    seen.add(promptName);
+
+    const config: ModelTaskConfig = { promptName };
+    const taskProvider = optionalString(task.provider, `${path}.provider`);
+    if (taskProvider) config.provider = taskProvider;
+    const model = optionalString(task.model, `${path}.model`);
+    if (model) config.model = model;
+    const chatTemplate = optionalString(task.chat_template, `${path}.chat_template`);
+    if (chatTemplate) config.chat_template = chatTemplate;
+    NUMERIC_FIELDS.forEach(field => {
+      const value = task[field];
+      if (value === undefined || value === null || value === '') return;
+      if (typeof value !== 'number' || !isFinite(value)) throw new Error(`${path}.${field} must be a number`);
+      config[field] = value;
+    });
+    if (task.fallback_models !== undefined && task.fallback_models !== null) {
+      if (!Array.isArray(task.fallback_models) || task.fallback_models.some(fallbackModel => typeof fallbackModel !== 'string')) {
+        throw new Error(`${path}.fallback_models must be a list of model names`);
+      }
+      const fallbackModels = (task.fallback_models as string[]).map(fallbackModel => fallbackModel.trim()).filter(Boolean);
+      if (fallbackModels.length > 0) config.fallback_models = fallbackModels;
+    }
+    if (task.stop !== undefined && task.stop !== null) {
+      // Stop sequences are kept as written: whitespace and newlines are meaningful
+      if (!Array.isArray(task.stop) || task.stop.some(sequence => typeof sequence !== 'string')) {
+        throw new Error(`${path}.stop must be a list of strings`);
+      }
+      const stop = (task.stop as string[]).filter(sequence => sequence !== '');
+      if (stop.length > 0) config.stop = stop;
+    }
+    return config;
+  });
+
+  const defaultProvider = optionalString(provider, 'provider');
+  return defaultProvider ? { provider: defaultProvider, modelsTasks: tasks } : { modelsTasks: tasks };
+};
+
+const loadDefaultConfig = async (): Promise<ModelTasksConfigData> => {
+  try {
+    return (await import('../config/modelsTasks.yaml')).default as ModelTasksConfigData;
+  } catch (error) {
+    console.warn('[ModelTasksConfigService] Failed to load modelsTasks.yaml, using defaults:', error);
+    return { modelsTasks: [] };
+  }
+};
+
+const loadRuntimeConfig = (): ModelTasksConfigData | null => {
+  try {
+    const raw = localStorage.getItem(RUNTIME_CONFIG_STORAGE_KEY);
+    return raw ? sanitizeModelTasksConfig(JSON.parse(raw)) : null;
+  } catch (error) {
+    console.error('[ModelTasksConfigService] Error reading the stored model config, using modelsTasks.yaml:', error);
+    return null;
+  }
+};
+
 const loadConfig = async (): Promise<ModelTasksConfigData> => {
   if (!configCache) {
-    try {
-      configCache = (await import('../config/modelsTasks.yaml')).default as ModelTasksConfigData;
-    } catch (error) {
-      console.warn('[ModelTasksConfigService] Failed to load modelsTasks.yaml, using defaults:', error);
-      configCache = { modelsTasks: [] };
-    }
+    configCache = loadRuntimeConfig() || await loadDefaultConfig();
   }
   return configCache;
 };
@@ -32,6 +148,21 @@ export const getTaskConfig = async (promptName: string): Promise<ModelTaskConfig
   return taskConfig || null;
 };
 
+/**
+ * Provider id configured for the task, or as the default of every task.
+ * @returns undefined when getResponse should use VITE_LLM_API.
+ */
+export const getProviderOverride = async (promptName: string): Promise<string | undefined> => {
+  const config = await loadConfig();
+  return (await getTaskConfig(promptName))?.provider || config.provider;
+};
+
+// Chat template configured for the task, for providers that send a text prompt
+export const getChatTemplateOverride = async (promptName: string): Promise<string | undefined> => {
+  const config = await getTaskConfig(promptName);
+  return config?.chat_template;
+};
+
 export const getModelOverride = async (promptName: string): Promise<string | undefined> => {
   const config = await getTaskConfig(promptName);
   return config?.model;
@@ -43,6 +174,7 @@ export const getLLMOptions = async (promptName: string): Promise<{
   max_tokens?: number;
   top_p?: number;
   presence_penalty?: number;
+  stop?: string[];
 }> => {
   const config = await getTaskConfig(promptName);
   if (!config) return {};
@@ -53,10 +185,58 @@ export const getLLMOptions = async (promptName: string): Promise<{
   if (config.max_tokens !== undefined) options.max_tokens = config.max_tokens;
   if (config.top_p !== undefined) options.top_p = config.top_p;
   if (config.presence_penalty !== undefined) options.presence_penalty = config.presence_penalty;
+  if (config.stop !== undefined) options.stop = config.stop;
   
   return options;
 };
 
+export const getContextBudget = async (promptName: string): Promise<number | undefined> => {
+  const config = await getTaskConfig(promptName);
+  return config?.context_budget;
+};
+
+export const getFallbackModels = async (promptName: string): Promise<string[]> => {
+  const config = await getTaskConfig(promptName);
+  return Array.isArray(config?.fallback_models) ? config!.fallback_models.filter(model => typeof model === 'string' && model.trim()) : [];
+};
+
 export const invalidateConfigCache = (): void => {
   configCache = null;
-}; 
\ No newline at end of file
+};
+
+// The config in effect: the stored runtime config if any, else src/config/modelsTasks.yaml
+export const getModelTasksConfig = async (): Promise<ModelTasksConfigData> => loadConfig();
+
+export const getDefaultModelTasksConfig = async (): Promise<ModelTasksConfigData> => loadDefaultConfig();
+
+export const hasRuntimeConfig = (): boolean => localStorage.getItem(RUNTIME_CONFIG_STORAGE_KEY) !== null;
+
+/**
+ * Stores a config replacing modelsTasks.yaml and applies it to the next LLM calls.
+ * Throws if the config is invalid.
+ * @returns False if the config could not be stored.
+ */
+export const saveRuntimeConfig = (config: ModelTasksConfigData): boolean => {
+  const sanitized = sanitizeModelTasksConfig(config);
+  if (!safeLocalStorageSetItem(RUNTIME_CONFIG_STORAGE_KEY, JSON.stringify(sanitized))) {
+    console.error('[ModelTasksConfigService] Could not store the model config');
+    return false;
+  }
+  invalidateConfigCache();
+  return true;
+};
+
+// Goes back to src/config/modelsTasks.yaml
+export const resetRuntimeConfig = (): void => {
+  localStorage.removeItem(RUNTIME_CONFIG_STORAGE_KEY);
+  invalidateConfigCache();
+};
+
+export const modelTasksConfigToYaml = (config: ModelTasksConfigData): string =>
+  dump(sanitizeModelTasksConfig(config), { lineWidth: -1 });
+
+/**
+ * Parses a config exported with modelTasksConfigToYaml, or written like modelsTasks.yaml.
+ * Throws on invalid YAML or fields.
+ */
+export const parseModelTasksConfigYaml = (text: string): ModelTasksConfigData => sanitizeModelTasksConfig(load(text));
@@ -0,0 +1,16 @@
+/**
+ * GBNF grammar (llama.cpp / KoboldCPP) constraining a node edition answer to a JSON object whose
+ * keys are among "n_nodes" (array of objects), "u_nodes" (object) and "d_nodes" (array of node IDs).
+ * Node contents are free-form JSON: validateNodeEdition checks them once parsed.
+ * Providers without grammar support ignore it.
+ */
+export const NODE_EDITION_JSON_GRAMMAR = String.raw`root ::= "{" ws ( section ( "," ws section )* )? "}" ws
+section ::= ( "\"n_nodes\"" ws ":" ws object-array | "\"u_nodes\"" ws ":" ws object | "\"d_nodes\"" ws ":" ws string-array ) ws
+object-array ::= "[" ws ( object ( "," ws object )* )? "]" ws
+string-array ::= "[" ws ( string ( "," ws string )* )? "]" ws
+value ::= object | array | string | number | ( "true" | "false" | "null" ) ws
+object ::= "{" ws ( string ":" ws value ( "," ws string ":" ws value )* )? "}" ws
+array ::= "[" ws ( value ( "," ws value )* )? "]" ws
+string ::= "\"" ( [^"\\\x7F\x00-\x1F] | "\\" ( ["\\/bfnrt] | "u" [0-9a-fA-F] [0-9a-fA-F] [0-9a-fA-F] [0-9a-fA-F] ) )* "\"" ws
+number ::= "-"? ( [0-9] | [1-9] [0-9]* ) ( "." [0-9]+ )? ( [eE] [-+]? [0-9]+ )? ws
+ws ::= ( [ \t\n] ws )?`;
@@ -4,11 +4,28 @@ import {
   getResponse, 
   formatPrompt, 
   loadedPrompts, 
-  getLastFiveInteractions 
+  getLastFiveInteractions,
+  getMoxusFeedbackSystemMessage,
+  isAbortError
 } from './llmCore';
 import { moxusService } from '../services/MoxusService';
 import { LLMNodeEditionResponse } from '../models/nodeOperations';
 import { safeJsonParse, parseNodeOperationJson } from '../utils/jsonUtils';
+import { formatLinksForPrompt } from '../utils/linkUtils';
+import { formatAttributesForPrompt } from '../utils/attributeUtils';
+import { nodeTypeRegistry } from './nodeTypeRegistry';
+import { readLLMStreamText } from './llmStreamParser';
+import { llmUsageService } from './llmUsageService';
+import { getContextBudget } from './modelTasksConfigService';
+import { NODE_EDITION_JSON_GRAMMAR } from './nodeEditionGrammar';
+import { fitContextToBudget, mentionPriority, compactText, ContextBudgetInput, BudgetedContext } from '../utils/contextBudget';
+import {
+  validateNodeEdition,
+  getValidationErrors,
+  formatValidationIssuesForLLM,
+  NodeEditionIssue,
+  NodeEditionValidationReport
+} from '../utils/nodeEditionValidator';
 
 // Helper function to map message roles to readable labels for prompts
 const mapRoleForPrompts = (role: string): string => {
@@ -20,6 +37,46 @@ const mapRoleForPrompts = (role: string): string => {
   return role; // fallback for any other roles
 };
 
+const formatMessageForPrompt = (message: Message): string => `${mapRoleForPrompts(message.role)}: ${message.content}\n`;
+
+// Fits the nodes and history sections of a prompt into the task's context_budget from modelsTasks.yaml.
+// fixedReplacements are the other prompt sections, which are never trimmed, as is the Moxus system
+// message getResponse adds to calls that are not streamed.
+const buildBudgetedContext = async <T>(
+  callType: string,
+  template: string,
+  fixedReplacements: Record<string, string | undefined>,
+  input: Omit<ContextBudgetInput<T>, 'budget' | 'fixedText'>,
+  { streamed = false }: { streamed?: boolean } = {}
+): Promise<BudgetedContext> => {
+  const budget = await getContextBudget(callType);
+  const moxusFeedback = budget && !streamed ? getMoxusFeedbackSystemMessage(callType) : '';
+  const fixedText = template + Object.values(fixedReplacements).join('') + moxusFeedback;
+  const context = fitContextToBudget({ ...input, budget, fixedText });
+  if (context.report) {
+    console.log(`[NodeInteractionService] ${callType}: prompt trimmed to its context budget.`, context.report);
+  }
+  return context;
+};
+
+// Moxus report of the chat, for the {#if last_moxus_report} sections of the prompts
+const getMoxusReportContent = (message: Message): string => message.content.replace('**Moxus Report:**', '').trim();
+
+// Relevance tiers: nodes picked by getRelevantNodes and types always in prompts are described in full,
+// the others by name and type only. Without relevance results every node is described in full.
+const isDetailedNode = (node: Node, detailedNodeIds?: String[]): boolean =>
+  !detailedNodeIds || nodeTypeRegistry.isAlwaysInPrompts(node.type) || detailedNodeIds.includes(node.id);
+
+// Context budget priority: types always in prompts, relevant nodes, nodes named in the text, then the rest
+const relevancePriority = (text: string, detailedNodeIds?: String[]) => {
+  const byMention = mentionPriority(text, []);
+  return (node: Node): number => {
+    if (nodeTypeRegistry.isAlwaysInPrompts(node.type)) return 0;
+    if (detailedNodeIds?.includes(node.id)) return 1;
+    return 1 + byMention(node);
+  };
+};
+
 // Helper function to manage try/catch for JSON parsing and logging
 async function processJsonResponse<T>(
   serviceName: string, 
@@ -46,19 +103,18 @@ async function processJsonResponse<T>(
   }
 }
 
-export const getRelevantNodes = async(userInput: string, chatHistory: Message[], nodes: Node[]): Promise<string[]> => {
+export const getRelevantNodes = async(userInput: string, chatHistory: Message[], nodes: Node[], signal?: AbortSignal): Promise<string[]> => {
   console.log('LLM Call (NodeInteractionService): Getting relevant nodes');
-  const stringHistory = chatHistory.reduce((acc, message) => {
-    if(message.role === "user" || message.role === "assistant" || message.role === "userMandatoryInstructions") {
-      return acc + `${mapRoleForPrompts(message.role)}: ${message.content}\n`;
-    }
-    return acc;
-  }, "");
-
-  const nodesDescription = nodes.reduce((acc, node) => {
-    if (node.type === "image_generation" || node.type === "assistant") return acc;
-    return acc + `\n    ---\n    id: ${node.id}\n    name: ${node.name}\n    type: ${node.type}\n    `;
-  }, "");
+  const history = chatHistory.filter(message => message.role === "user" || message.role === "assistant" || message.role === "userMandatoryInstructions");
+  const promptNodes = nodes.filter(node => !nodeTypeRegistry.isHiddenFromPrompts(node.type));
+
+  const { nodesDescription, stringHistory } = await buildBudgetedContext('node_relevance_check', loadedPrompts.node_operations.get_relevant_nodes, {}, {
+    nodes: promptNodes,
+    priority: relevancePriority(userInput + history.map(message => message.content).join('\n')),
+    formatNode: (node) => `\n    ---\n    id: ${node.id}\n    name: ${node.name}\n    type: ${node.type}\n    `,
+    history,
+    formatMessage: formatMessageForPrompt
+  });
 
   const prompt = formatPrompt(loadedPrompts.node_operations.get_relevant_nodes, {
     nodes_description: nodesDescription,
@@ -68,7 +124,7 @@ export const getRelevantNodes = async(userInput: string, chatHistory: Message[],
   const messages: Message[] = [{ role: 'system', content: prompt }];
   let responsePayload: { llmResult: string, callId: string };
   try {
-    responsePayload = await getResponse(messages, "gpt-3.5-turbo", undefined, false, { type: 'json_object' }, undefined, 'node_relevance_check') as { llmResult: string, callId: string };
+    responsePayload = await getResponse(messages, "gpt-3.5-turbo", undefined, false, { type: 'json_object' }, { signal }, 'node_relevance_check') as { llmResult: string, callId: string };
   } catch (error) {
     console.error('[NodeInteractionService] getRelevantNodes: getResponse failed.', error);
     throw error; 
@@ -76,95 +132,103 @@ export const getRelevantNodes = async(userInput: string, chatHistory: Message[],
   return processJsonResponse('NodeInteractionService', 'getRelevantNodes', responsePayload, (jsonString) => safeJsonParse(jsonString).relevantNodes);
 };
 
-export const generateChatText = async(userInput: string, chatHistory: Message[], nodes: Node[], _detailledNodeIds: String[], responseLength: 'short' | '1 paragraph' | '3 paragraphs' | 'lengthy' | 'full page' = '3 paragraphs'): Promise<{ streamResponse: Response, callId: string }> => {
+export const generateChatText = async(userInput: string, chatHistory: Message[], nodes: Node[], detailledNodeIds: String[], responseLength: 'short' | '1 paragraph' | '3 paragraphs' | 'lengthy' | 'full page' = '3 paragraphs', signal?: AbortSignal): Promise<{ streamResponse: Response, callId: string }> => {
   console.log('LLM Call (NodeInteractionService): Generating chat text');
   
   const lastFiveInteractions = getLastFiveInteractions(chatHistory);
   const lastMoxusReportMessage = [...chatHistory].reverse().find(message => message.role === "moxus");
   
-  const stringHistory = lastFiveInteractions.reduce((acc, message) => {
-    return acc + `${mapRoleForPrompts(message.role)}: ${message.content}\n`;
-  }, "");
-  
-  const maxIncludedNodes = parseInt(import.meta.env.VITE_MAX_INCLUDED_NODES || '15', 10);
+  const promptNodes = nodes.filter(node => !nodeTypeRegistry.isHiddenFromPrompts(node.type));
   
-  const nodesDescription = nodes.reduce((acc, node) => {
-    if (node.type === "image_generation" || node.type === "assistant") return acc;
-    return acc + `\n        id: ${node.id}\n        name: ${node.name}\n        longDescription: ${node.longDescription}\n        type: ${node.type}\n        `;
-  }, "");
+  const formatChatTextNode = (node: Node, compact: boolean) => {
+    if (!isDetailedNode(node, detailledNodeIds)) {
+      return `\n        id: ${node.id}\n        name: ${node.name}\n        type: ${node.type}\n        `;
+    }
+    if (compact) {
+      return `\n        id: ${node.id}\n        name: ${node.name}\n        longDescription (abridged): ${compactText(node.longDescription)}\n        type: ${node.type}\n        `;
+    }
+    const links = formatLinksForPrompt(node, nodes);
+    const attributes = formatAttributesForPrompt(node.attributes);
+    return `\n        id: ${node.id}\n        name: ${node.name}\n        longDescription: ${node.longDescription}\n        type: ${node.type}\n        ${attributes ? `attributes: ${attributes}\n        ` : ''}${links ? `links: ${links}\n        ` : ''}`;
+  };
 
-  const lastMoxusReportSection = lastMoxusReportMessage ? `
-  ### Latest Moxus Analysis (CRITICAL - MUST FOLLOW):
-  Note: This is feedback from the World Design & Interactivity Watcher, an AI that monitors 
-  the story and provides VITAL guidance to maintain consistency and quality in the game world.
-  ALL INSTRUCTIONS AND OBSERVATIONS FROM MOXUS IN THIS SECTION ARE MANDATORY.
-  
-  ${lastMoxusReportMessage.content.replace('**Moxus Report:**', '').trim()}
-  ` : '';
+  const lastMoxusReport = lastMoxusReportMessage ? getMoxusReportContent(lastMoxusReportMessage) : '';
 
   // Get Moxus guidance for narrative generation
   const moxusGuidance = await moxusService.getChatTextGuidance(`User input: ${userInput}`);
-  const moxusGuidanceSection = moxusGuidance ? `
-  ### Moxus Creative Guidance (APPLY THESE INSIGHTS):
-  The following guidance comes from Moxus's evolved understanding of effective storytelling:
-  
-  ${moxusGuidance}
-  ` : '';
 
   // Get response length instruction from prompts
   const responseLengthInstruction = loadedPrompts.utils?.responseLength?.[responseLength] || loadedPrompts.utils?.responseLength?.['3 paragraphs'] || 'Generate a chapter (3 paragraphs) making the story progress over one action.';
 
+  const { nodesDescription, stringHistory } = await buildBudgetedContext('chat_text_generation', loadedPrompts.node_operations.generate_chat_text, {
+    last_moxus_report: lastMoxusReport,
+    moxus_guidance: moxusGuidance,
+    user_input: userInput,
+    response_length_instruction: responseLengthInstruction
+  }, {
+    nodes: promptNodes,
+    priority: relevancePriority(userInput + lastFiveInteractions.map(message => message.content).join('\n'), detailledNodeIds),
+    formatNode: formatChatTextNode,
+    history: lastFiveInteractions,
+    formatMessage: formatMessageForPrompt
+  }, { streamed: true });
+
   const chatTextPrompt = formatPrompt(loadedPrompts.node_operations.generate_chat_text, {
     nodes_description: nodesDescription,
     string_history: stringHistory,
-    last_moxus_report_section: lastMoxusReportSection + moxusGuidanceSection,
+    last_moxus_report: lastMoxusReport,
+    moxus_guidance: moxusGuidance,
     user_input: userInput,
     response_length_instruction: responseLengthInstruction
   });
 
   const chatTextMessages: Message[] = [{ role: 'system', content: chatTextPrompt }];
-  const result = await getResponse(chatTextMessages, undefined, undefined, true, undefined, undefined, 'chat_text_generation');
+  const result = await getResponse(chatTextMessages, undefined, undefined, true, undefined, { signal }, 'chat_text_generation');
   return result as { streamResponse: Response, callId: string };
 };
 
-export const generateActions = async(chatText: string | Message[], nodes: Node[], userInput: string): Promise<string[]> => {
+export const generateActions = async(chatText: string | Message[], nodes: Node[], userInput: string, detailledNodeIds?: String[], signal?: AbortSignal): Promise<string[]> => {
   console.log('LLM Call (NodeInteractionService): Generating actions');
-  const nodesDescription = nodes.reduce((acc, node) => {
-    if (node.type === "image_generation" || node.type === "assistant") return acc;
-    return acc + `\n      id: ${node.id}\n      name: ${node.name}\n      longDescription: ${node.longDescription}\n      type: ${node.type}\n      `;
-  }, "");
+  const promptNodes = nodes.filter(node => !nodeTypeRegistry.isHiddenFromPrompts(node.type));
 
-  let formattedChatText = "";
+  // A chat text string is the latest narrative and is never trimmed; a message array is history
+  let history: Message[] = [];
   let lastMoxusReportContent: Message | undefined = undefined;
   
   if (Array.isArray(chatText)) {
     lastMoxusReportContent = [...chatText].reverse().find(message => message.role === "moxus");
-    const lastFive = getLastFiveInteractions(chatText as Message[]); 
-    formattedChatText = lastFive.reduce((acc: string, message: Message) => acc + `${mapRoleForPrompts(message.role)}: ${message.content}\n`, "");
-  } else {
-    formattedChatText = chatText;
+    history = getLastFiveInteractions(chatText as Message[]); 
   }
+  const latestChatText = Array.isArray(chatText) ? '' : chatText;
 
-  const lastMoxusReportSection = lastMoxusReportContent ? `
-  ## Latest Moxus Analysis (CRITICAL - MUST FOLLOW):
-  Note: This is feedback from the World Design & Interactivity Watcher, an AI that monitors 
-  the story and provides VITAL guidance to maintain consistency and quality in the game world.
-  ALL INSTRUCTIONS AND OBSERVATIONS FROM MOXUS IN THIS SECTION ARE MANDATORY.
-  
-  ${lastMoxusReportContent.content.replace('**Moxus Report:**', '').trim()}
-  ` : '';
+  const lastMoxusReport = lastMoxusReportContent ? getMoxusReportContent(lastMoxusReportContent) : '';
+
+  const { nodesDescription, stringHistory } = await buildBudgetedContext('action_generation', loadedPrompts.node_operations.generate_actions, {
+    formatted_chat_text: latestChatText,
+    last_moxus_report: lastMoxusReport,
+    user_input: userInput
+  }, {
+    nodes: promptNodes,
+    priority: relevancePriority(userInput + latestChatText + history.map(message => message.content).join('\n'), detailledNodeIds),
+    formatNode: (node, compact) => isDetailedNode(node, detailledNodeIds)
+      ? `\n      id: ${node.id}\n      name: ${node.name}\n      longDescription${compact ? ' (abridged)' : ''}: ${compact ? compactText(node.longDescription) : node.longDescription}\n      type: ${node.type}\n      `
+      : `\n      id: ${node.id}\n      name: ${node.name}\n      type: ${node.type}\n      `,
+    history,
+    formatMessage: formatMessageForPrompt
+  });
+  const formattedChatText = Array.isArray(chatText) ? stringHistory : latestChatText;
 
   const actionsPrompt = formatPrompt(loadedPrompts.node_operations.generate_actions, {
     nodes_description: nodesDescription,
     formatted_chat_text: formattedChatText,
-    last_moxus_report_section: lastMoxusReportSection,
+    last_moxus_report: lastMoxusReport,
     user_input: userInput
   });
 
   const actionsMessages: Message[] = [{ role: 'system', content: actionsPrompt }];
   let responsePayload: { llmResult: string, callId: string };
   try {
-    responsePayload = await getResponse(actionsMessages, undefined, undefined, false, { type: 'json_object' }, undefined, 'action_generation') as { llmResult: string, callId: string };
+    responsePayload = await getResponse(actionsMessages, undefined, undefined, false, { type: 'json_object' }, { signal }, 'action_generation') as { llmResult: string, callId: string };
   } catch (error) {
     console.error('[NodeInteractionService] generateActions: getResponse failed.', error);
     throw error;
@@ -172,7 +236,7 @@ export const generateActions = async(chatText: string | Message[], nodes: Node[]
   return processJsonResponse('NodeInteractionService', 'generateActions', responsePayload, (jsonString) => safeJsonParse(jsonString).actions);
 };
 
-export const generateNodeEdition = async(chatText: string | Message[], actions: string[], nodes: Node[], userInput: string, isUserInteraction: boolean = false): Promise<LLMNodeEditionResponse> => {
+export const generateNodeEdition = async(chatText: string | Message[], actions: string[], nodes: Node[], userInput: string, isUserInteraction: boolean = false, detailledNodeIds?: String[], signal?: AbortSignal): Promise<LLMNodeEditionResponse> => {
   console.log('LLM Call (NodeInteractionService): Generating node edition (JSON structure)');
   
   const sortedNodes = [...nodes].sort((a, b) => {
@@ -181,48 +245,58 @@ export const generateNodeEdition = async(chatText: string | Message[], actions:
     return 0;
   });
 
-  const nodesDescription = sortedNodes.reduce((acc, node) => {
-    if (node.type === "image_generation" || node.type === "system" || node.type === "Game Rule" || node.type === "Game Rules" || node.type === "assistant") return acc; 
-    return acc + `\n      id: ${node.id}\n      name: ${node.name}\n      longDescription: ${node.longDescription}\n      type: ${node.type}\n      `;
-  }, "");
+  const editableNodes = sortedNodes.filter(node => nodeTypeRegistry.isEditableByLLM(node.type));
+
+  const formatNodeEditionNode = (node: Node, compact: boolean) => {
+    if (!isDetailedNode(node, detailledNodeIds)) {
+      return `\n      id: ${node.id}\n      name: ${node.name}\n      type: ${node.type}\n      `;
+    }
+    if (compact) {
+      return `\n      id: ${node.id}\n      name: ${node.name}\n      longDescription (abridged, do not rewrite it from this excerpt): ${compactText(node.longDescription)}\n      type: ${node.type}\n      `;
+    }
+    const links = formatLinksForPrompt(node, nodes);
+    const attributes = formatAttributesForPrompt(node.attributes);
+    return `\n      id: ${node.id}\n      name: ${node.name}\n      longDescription: ${node.longDescription}\n      type: ${node.type}\n      ${attributes ? `attributes: ${attributes}\n      ` : ''}${links ? `links: ${links}\n      ` : ''}`;
+  };
 
-  let formattedChatHistory = "";
+  let history: Message[] = [];
   let lastMoxusReportContent: Message | undefined = undefined;
   
   if (Array.isArray(chatText)) {
     lastMoxusReportContent = [...chatText].reverse().find(message => message.role === "moxus");
-    const lastFive = getLastFiveInteractions(chatText as Message[]); 
-    formattedChatHistory = lastFive.reduce((acc: string, message: Message) => acc + `${mapRoleForPrompts(message.role)}: ${message.content}\n`, "");
-  } else {
-    formattedChatHistory = chatText;
+    history = getLastFiveInteractions(chatText as Message[]); 
   }
+  const latestChatText = Array.isArray(chatText) ? '' : chatText;
 
-  const lastMoxusReportSection = lastMoxusReportContent ? `
-  ## Latest Moxus Analysis (CRITICAL - MUST FOLLOW):
-  Note: This is feedback from the World Design & Interactivity Watcher, an AI that monitors 
-  the story and provides VITAL guidance to maintain consistency and quality in the game world.
-  ALL INSTRUCTIONS AND OBSERVATIONS FROM MOXUS IN THIS SECTION ARE MANDATORY.
-  
-  ${lastMoxusReportContent.content.replace('**Moxus Report:**', '').trim()}
-  ` : '';
+  const lastMoxusReport = lastMoxusReportContent ? getMoxusReportContent(lastMoxusReportContent) : '';
   
   // Get Moxus guidance for world-building
   const moxusGuidance = await moxusService.getNodeEditionGuidance(`User input: ${userInput}`);
-  const moxusGuidanceSection = moxusGuidance ? `
-  ## Moxus World-Building Guidance (APPLY THESE INSIGHTS):
-  The following guidance comes from Moxus's evolved understanding of effective world-building:
-  
-  ${moxusGuidance}
-  ` : '';
   
   // const thinkMode = isUserInteraction ? '/no_think' : '/think';
   const thinkMode = '';
 
+  const { nodesDescription, stringHistory } = await buildBudgetedContext('node_edition_json', loadedPrompts.node_operations.generate_node_edition, {
+    formatted_chat_history: latestChatText,
+    last_moxus_report: lastMoxusReport,
+    moxus_guidance: moxusGuidance,
+    actions_list: actions.join('\n'),
+    user_input: userInput
+  }, {
+    nodes: editableNodes,
+    priority: relevancePriority(userInput + latestChatText + history.map(message => message.content).join('\n'), detailledNodeIds),
+    formatNode: formatNodeEditionNode,
+    history,
+    formatMessage: formatMessageForPrompt
+  });
+  const formattedChatHistory = Array.isArray(chatText) ? stringHistory : latestChatText;
+
   const nodeEditionPrompt = formatPrompt(loadedPrompts.node_operations.generate_node_edition, {
     think_mode: thinkMode,
     nodes_description: nodesDescription,
     formatted_chat_history: formattedChatHistory,
-    last_moxus_report_section: lastMoxusReportSection + moxusGuidanceSection,
+    last_moxus_report: lastMoxusReport,
+    moxus_guidance: moxusGuidance,
     actions_list: actions.join('\n'),
     user_input: userInput
   });
@@ -230,54 +304,106 @@ export const generateNodeEdition = async(chatText: string | Message[], actions:
   const messages: Message[] = [{ role: 'system', content: nodeEditionPrompt }];
   let responsePayload: { llmResult: string, callId: string };
   try {
-    responsePayload = await getResponse(messages, undefined, undefined, false, { type: 'json_object' }, undefined, 'node_edition_json') as { llmResult: string, callId: string };
+    responsePayload = await getResponse(messages, undefined, NODE_EDITION_JSON_GRAMMAR, false, { type: 'json_object' }, { signal }, 'node_edition_json') as { llmResult: string, callId: string };
   } catch (error) {
     console.error('[NodeInteractionService] generateNodeEdition (JSON): getResponse failed.', error);
     throw error;
   }
   
-  return processJsonResponse(
+  const nodeEdition = await processJsonResponse(
     'NodeInteractionService', 
     'generateNodeEdition (JSON)', 
     responsePayload, 
-    (jsonString) => {
-      // More comprehensive JSON cleaning
-      let cleanedJsonString = jsonString.trim();
-      
-      // Remove various markdown patterns
-      cleanedJsonString = cleanedJsonString
-        .replace(/^```json\s*\n?/i, '')
-        .replace(/^```\s*json\s*\n?/i, '')
-        .replace(/^```\s*\n?/, '')
-        .replace(/\n?```\s*$/g, '')
-        .replace(/```\s*$/g, '')
-        .trim();
-      
-      const parsedFromJson = safeJsonParse(cleanedJsonString);
-
-      if (parsedFromJson && typeof parsedFromJson === 'object') {
-        const response: LLMNodeEditionResponse = {
-            callId: responsePayload.callId,
-            n_nodes: parsedFromJson.n_nodes || undefined,
-            u_nodes: parsedFromJson.u_nodes || undefined,
-            d_nodes: parsedFromJson.d_nodes || undefined,
-        };
-        if (response.n_nodes !== undefined && !Array.isArray(response.n_nodes)) throw new Error("Invalid 'n_nodes' field: not an array.");
-        if (response.u_nodes !== undefined && typeof response.u_nodes !== 'object') throw new Error("Invalid 'u_nodes' field: not an object.");
-        if (response.d_nodes !== undefined && !Array.isArray(response.d_nodes)) throw new Error("Invalid 'd_nodes' field: not an array.");
-        return response;
-      } else {
-        throw new Error('Parsed JSON is not a valid object for node edition.');
-      }
-    },
+    (jsonString) => parseNodeEditionJson(jsonString, responsePayload.callId),
     true
   );
+
+  let report = validateNodeEdition(nodeEdition, nodes);
+  if (!report.valid) {
+    console.warn('[NodeInteractionService] generateNodeEdition: validation failed, asking the LLM for a repair.', report.issues);
+    const repairedReport = await repairNodeEdition(nodeEditionPrompt, responsePayload.llmResult, report.issues, nodes, signal);
+    if (repairedReport && getValidationErrors(repairedReport.issues).length < getValidationErrors(report.issues).length) {
+      report = repairedReport;
+    }
+  }
+
+  return report.issues.length > 0
+    ? { ...report.sanitizedEdition, validationIssues: report.issues }
+    : report.sanitizedEdition;
 };
 
-export const generateNodesFromPrompt = async (userPrompt: string, nodes: Node[], moxusMemoryInput?: { general?: string; chatText?: string; nodeEdition?: string; }, moxusPersonality?: string): Promise<any> => {
+const parseNodeEditionJson = (jsonString: string, callId: string): LLMNodeEditionResponse => {
+  // More comprehensive JSON cleaning
+  let cleanedJsonString = jsonString.trim();
+  
+  // Remove various markdown patterns
+  cleanedJsonString = cleanedJsonString
+    .replace(/^```json\s*\n?/i, '')
+    .replace(/^```\s*json\s*\n?/i, '')
+    .replace(/^```\s*\n?/, '')
+    .replace(/\n?```\s*$/g, '')
+    .replace(/```\s*$/g, '')
+    .trim();
+  
+  const parsedFromJson = safeJsonParse(cleanedJsonString);
+
+  if (parsedFromJson && typeof parsedFromJson === 'object') {
+    const response: LLMNodeEditionResponse = {
+        callId,
+        n_nodes: parsedFromJson.n_nodes || undefined,
+        u_nodes: parsedFromJson.u_nodes || undefined,
+        d_nodes: parsedFromJson.d_nodes || undefined,
+    };
+    if (response.n_nodes !== undefined && !Array.isArray(response.n_nodes)) throw new Error("Invalid 'n_nodes' field: not an array.");
+    if (response.u_nodes !== undefined && typeof response.u_nodes !== 'object') throw new Error("Invalid 'u_nodes' field: not an object.");
+    if (response.d_nodes !== undefined && !Array.isArray(response.d_nodes)) throw new Error("Invalid 'd_nodes' field: not an array.");
+    return response;
+  } else {
+    throw new Error('Parsed JSON is not a valid object for node edition.');
+  }
+};
+
+// One repair round-trip: the LLM sees its own answer and the validation errors. Returns null if the repair itself fails.
+// The messages are rebuilt from the prompt: getResponse inserts the Moxus system message into the ones it is given.
+const repairNodeEdition = async (
+  nodeEditionPrompt: string,
+  originalResult: string,
+  issues: NodeEditionIssue[],
+  nodes: Node[],
+  signal?: AbortSignal
+): Promise<NodeEditionValidationReport | null> => {
+  const repairPrompt = formatPrompt(loadedPrompts.node_operations.repair_node_edition, {
+    validation_errors: formatValidationIssuesForLLM(issues)
+  });
+  const repairMessages: Message[] = [
+    { role: 'system', content: nodeEditionPrompt },
+    { role: 'assistant', content: originalResult },
+    { role: 'user', content: repairPrompt }
+  ];
+
+  try {
+    const repairPayload = await getResponse(repairMessages, undefined, NODE_EDITION_JSON_GRAMMAR, false, { type: 'json_object' }, { signal }, 'node_edition_json_repair') as { llmResult: string, callId: string };
+    const repairedEdition = await processJsonResponse(
+      'NodeInteractionService',
+      'repairNodeEdition (JSON)',
+      repairPayload,
+      (jsonString) => parseNodeEditionJson(jsonString, repairPayload.callId),
+      true
+    );
+    return validateNodeEdition(repairedEdition, nodes);
+  } catch (error) {
+    // A cancelled generation must not fall back to applying the unrepaired edition
+    if (isAbortError(error)) throw error;
+    console.warn('[NodeInteractionService] repairNodeEdition failed, keeping the original node edition.', error);
+    return null;
+  }
+};
+
+export const generateNodesFromPrompt = async (userPrompt: string, nodes: Node[], moxusMemoryInput?: { general?: string; chatText?: string; nodeEdition?: string; }, moxusPersonality?: string, signal?: AbortSignal): Promise<any> => {
   console.log('LLM Call (NodeInteractionService): Generating nodes from prompt');
+  // Game rules stay in the description so new nodes follow them; system nodes are never generated from
   const nodesDescription = nodes.reduce((acc, node) => {
-    if (node.type === "system" || node.type === "image_generation" || node.type === "assistant") return acc;
+    if (node.type === 'system' || nodeTypeRegistry.isHiddenFromPrompts(node.type)) return acc;
     return acc + `\n    id: ${node.id}\n    name: ${node.name}\n    longDescription: ${node.longDescription}\n    type: ${node.type}\n    `;
   }, "");
 
@@ -307,7 +433,7 @@ export const generateNodesFromPrompt = async (userPrompt: string, nodes: Node[],
       undefined,
       false,
       { type: 'json_object' },
-      undefined,
+      { signal },
       'generate_nodes_from_prompt'
     ) as { llmResult: string, callId: string };
   } catch (error) {
@@ -385,7 +511,7 @@ export const generateNodesFromPrompt = async (userPrompt: string, nodes: Node[],
   );
 };
 
-export const sortNodesByRelevance = async (nodes: Node[], chatHistory: Message[]): Promise<string[]> => {
+export const sortNodesByRelevance = async (nodes: Node[], chatHistory: Message[], signal?: AbortSignal): Promise<string[]> => {
   console.log('LLM Call (NodeInteractionService): Sorting nodes by relevance');
   
   const lastFiveInteractions = getLastFiveInteractions(chatHistory);
@@ -396,29 +522,22 @@ export const sortNodesByRelevance = async (nodes: Node[], chatHistory: Message[]
   }, "");
 
   const nodesDescription = nodes.reduce((acc, node) => {
-    if (node.type === "image_generation" || node.type === "assistant") return acc;
+    if (nodeTypeRegistry.isHiddenFromPrompts(node.type)) return acc;
     return acc + `\n      id: ${node.id}\n      name: ${node.name}\n      longDescription: ${node.longDescription}\n      type: ${node.type}\n      `;
   }, "");
 
-  const lastMoxusReportSection = lastMoxusReportMessage ? `
-  ## Latest Moxus Analysis (CRITICAL - MUST FOLLOW):
-  Note: This is feedback from the World Design & Interactivity Watcher, an AI that monitors 
-  the story and provides VITAL guidance to maintain consistency and quality in the game world.
-  ALL INSTRUCTIONS AND OBSERVATIONS FROM MOXUS IN THIS SECTION ARE MANDATORY.
-  
-  ${lastMoxusReportMessage.content.replace('**Moxus Report:**', '').trim()}
-  ` : '';
+  const lastMoxusReport = lastMoxusReportMessage ? getMoxusReportContent(lastMoxusReportMessage) : '';
 
   const prompt = formatPrompt(loadedPrompts.node_operations.sort_nodes_by_relevance, {
     string_history: stringHistory,
-    last_moxus_report_section: lastMoxusReportSection,
+    last_moxus_report: lastMoxusReport,
     nodes_description: nodesDescription
   });
 
   const messages: Message[] = [{ role: 'system', content: prompt }];
   let responsePayload: { llmResult: string, callId: string };
   try {
-    responsePayload = await getResponse(messages, undefined, undefined, false, { type: 'json_object' }, undefined, 'node_sort_by_relevance') as { llmResult: string, callId: string };
+    responsePayload = await getResponse(messages, undefined, undefined, false, { type: 'json_object' }, { signal }, 'node_sort_by_relevance') as { llmResult: string, callId: string };
   } catch (error) {
     console.error('[NodeInteractionService] sortNodesByRelevance: getResponse failed.', error);
     throw error;
@@ -426,19 +545,18 @@ export const sortNodesByRelevance = async (nodes: Node[], chatHistory: Message[]
   return processJsonResponse('NodeInteractionService', 'sortNodesByRelevance', responsePayload, (jsonString) => safeJsonParse(jsonString).sortedIds);
 };
 
-export const refocusStory = async (chatHistory: Message[], nodes: Node[]): Promise<{llmResult: string, callId: string}> => {
+export const refocusStory = async (chatHistory: Message[], nodes: Node[], signal?: AbortSignal): Promise<{llmResult: string, callId: string}> => {
   console.log('LLM Call (NodeInteractionService): Refocusing story');
-  const pastChatHistory = chatHistory.reduce((acc, message) => {
-    if (message.role === "user" || message.role === "assistant") {
-      return acc + `${mapRoleForPrompts(message.role)}: ${message.content}\n`;
-    }
-    return acc;
-  }, "");
-
-  const nodesDescription = nodes.reduce((acc, node) => {
-    if (node.type === "image_generation" || node.type === "assistant") return acc;
-    return acc + `\n    ---\n    id: ${node.id}\n    name: ${node.name}\n    longDescription: ${node.longDescription}\n    type: ${node.type}\n    `;
-  }, "");
+  const history = chatHistory.filter(message => message.role === "user" || message.role === "assistant");
+  const promptNodes = nodes.filter(node => !nodeTypeRegistry.isHiddenFromPrompts(node.type));
+
+  const { nodesDescription, stringHistory: pastChatHistory } = await buildBudgetedContext('refocus_story_generation', loadedPrompts.node_operations.refocus_story, {}, {
+    nodes: promptNodes,
+    priority: relevancePriority(history.slice(-10).map(message => message.content).join('\n')),
+    formatNode: (node, compact) => `\n    ---\n    id: ${node.id}\n    name: ${node.name}\n    longDescription${compact ? ' (abridged)' : ''}: ${compact ? compactText(node.longDescription) : node.longDescription}\n    type: ${node.type}\n    `,
+    history,
+    formatMessage: formatMessageForPrompt
+  });
 
   const prompt = formatPrompt(loadedPrompts.node_operations.refocus_story, {
     past_chat_history: pastChatHistory,
@@ -446,36 +564,32 @@ export const refocusStory = async (chatHistory: Message[], nodes: Node[]): Promi
   });
 
   const messages: Message[] = [{ role: 'system', content: prompt }];
-  const responsePayload = await getResponse(messages, undefined, undefined, false, undefined, undefined, 'refocus_story_generation') as { llmResult: string, callId: string };
+  const responsePayload = await getResponse(messages, undefined, undefined, false, undefined, { signal }, 'refocus_story_generation') as { llmResult: string, callId: string };
   
   moxusService.finalizeLLMCallRecord(responsePayload.callId, "Refocus story text generated successfully.");
   console.log(`[NodeInteractionService] refocusStory successful for callId: ${responsePayload.callId}`);
   return responsePayload; 
 };
 
-export const generateUserInputResponse = async(userInput: string, chatHistory: Message[], nodes: Node[], detailledNodeIds: String[]) => {
+export const generateUserInputResponse = async(userInput: string, chatHistory: Message[], nodes: Node[], detailledNodeIds: String[], signal?: AbortSignal) => {
   console.log('LLM Call (NodeInteractionService): Generating full user input response');
   
-  const chatTextResult = await generateChatText(userInput, chatHistory, nodes, detailledNodeIds);
+  const chatTextResult = await generateChatText(userInput, chatHistory, nodes, detailledNodeIds, undefined, signal);
   const chatTextStreamResponse = chatTextResult.streamResponse;
   const chatTextCallId = chatTextResult.callId;
 
   let accumulatedChatText = "";
   if (chatTextStreamResponse && chatTextStreamResponse.body) {
-    const reader = chatTextStreamResponse.body.getReader();
-    const decoder = new TextDecoder();
-    while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        accumulatedChatText += decoder.decode(value, { stream: true });
-    }
+    const streamText = await readLLMStreamText(chatTextStreamResponse);
+    accumulatedChatText = streamText.text;
+    llmUsageService.completeCall(chatTextCallId, accumulatedChatText, streamText.usage);
   } else {
     accumulatedChatText = chatTextStreamResponse as any; 
   }
   
   const [actions, nodeEdition] = await Promise.all([
-    generateActions(accumulatedChatText, nodes, userInput),
-    generateNodeEdition(accumulatedChatText, [], nodes, userInput, true) 
+    generateActions(accumulatedChatText, nodes, userInput, detailledNodeIds, signal),
+    generateNodeEdition(accumulatedChatText, [], nodes, userInput, true, detailledNodeIds, signal)
   ]);
   
   return {
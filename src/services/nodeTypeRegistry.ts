@@ -0,0 +1,194 @@
+import { Node } from '../models/Node';
+import { ATTRIBUTE_FIELD_PREFIX } from '../utils/attributeUtils';
+import { safeLocalStorageSetItem } from '../utils/localStorageUtils';
+
+const REGISTRY_STORAGE_KEY = 'nodeTypeRegistry';
+
+export type NodeTypeBadgeShape = 'circle' | 'square' | 'ring';
+
+export interface NodeTypeDefinition {
+  type: string;                 // Matched case-insensitively against Node.type
+  color: string;                // Hex color for badges, borders and the graph view
+  badgeShape: NodeTypeBadgeShape;
+  layout: 'grid' | 'list';      // Card style in the node grid
+  requiredFields: string[];     // Node fields ("longDescription", "image") or "attributes.<key>" a node of this type should have
+  descriptionTemplate: string;  // Default longDescription for new nodes of this type
+  deletable: boolean;           // False: node editions cannot delete it and the UI hides the delete button
+  generatesImages: boolean;     // False: image updates are never queued
+  hiddenFromPrompts: boolean;   // True: never described to the LLM
+  editableByLLM: boolean;       // False: left out of the node edition prompt so the LLM does not change it
+  alwaysInPrompts: boolean;     // True: described in full in every prompt, whatever the node relevance check picked
+}
+
+// Used for any type missing from the registry
+export const DEFAULT_NODE_TYPE_DEFINITION: Omit<NodeTypeDefinition, 'type'> = {
+  color: '#6b7280',
+  badgeShape: 'circle',
+  layout: 'list',
+  requiredFields: [],
+  descriptionTemplate: '',
+  deletable: true,
+  generatesImages: true,
+  hiddenFromPrompts: false,
+  editableByLLM: true,
+  alwaysInPrompts: false
+};
+
+const engineType = (type: string, hiddenFromPrompts: boolean): NodeTypeDefinition => ({
+  ...DEFAULT_NODE_TYPE_DEFINITION,
+  type,
+  color: '#d1d5db',
+  deletable: false,
+  generatesImages: false,
+  hiddenFromPrompts,
+  editableByLLM: false,
+  alwaysInPrompts: !hiddenFromPrompts
+});
+
+const storyType = (type: string, color: string, overrides: Partial<NodeTypeDefinition> = {}): NodeTypeDefinition => ({
+  ...DEFAULT_NODE_TYPE_DEFINITION,
+  type,
+  color,
+  ...overrides
+});
+
+export const DEFAULT_NODE_TYPES: NodeTypeDefinition[] = [
+  storyType('character', '#22c55e', {
+    badgeShape: 'square',
+    layout: 'grid',
+    requiredFields: ['longDescription'],
+    descriptionTemplate: 'Appearance:\n\nPersonality:\n\nBackground:\n'
+  }),
+  storyType('location', '#10b981', {
+    layout: 'grid',
+    requiredFields: ['longDescription'],
+    descriptionTemplate: 'Description:\n\nNotable features:\n'
+  }),
+  storyType('event', '#14b8a6', { badgeShape: 'ring' }),
+  storyType('item', '#06b6d4'),
+  storyType('object', '#06b6d4'),
+  storyType('mechanic', '#0ea5e9'),
+  storyType('concept', '#0ea5e9'),
+  storyType('library', '#3b82f6'),
+  storyType('Game Rule', '#6b7280', { generatesImages: false, editableByLLM: false, alwaysInPrompts: true }),
+  storyType('Game Rules', '#6b7280', { generatesImages: false, editableByLLM: false, alwaysInPrompts: true }),
+  engineType('system', false),
+  engineType('assistant', true),
+  engineType('image_generation', true),
+  engineType('image_generation_prompt', true),
+  engineType('image_generation_prompt_negative', true)
+];
+
+type NodeTypeListener = (definitions: NodeTypeDefinition[]) => void;
+const listeners: NodeTypeListener[] = [];
+
+let cachedDefinitions: NodeTypeDefinition[] | null = null;
+let cachedByType: Map<string, NodeTypeDefinition> = new Map();
+
+const normalizeType = (type: string | undefined) => (type || '').trim().toLowerCase();
+
+const sanitizeDefinition = (raw: any): NodeTypeDefinition | null => {
+  if (!raw || typeof raw.type !== 'string' || !raw.type.trim()) return null;
+  // Flags added after a registry was stored fall back to the built-in definition of the same type
+  const builtIn = DEFAULT_NODE_TYPES.find(definition => normalizeType(definition.type) === normalizeType(raw.type));
+  const definition: NodeTypeDefinition = { ...DEFAULT_NODE_TYPE_DEFINITION, ...builtIn, ...raw, type: raw.type.trim() };
+  definition.requiredFields = Array.isArray(raw.requiredFields) ? raw.requiredFields.filter((field: any) => typeof field === 'string' && field.trim()) : [];
+  if (!['circle', 'square', 'ring'].includes(definition.badgeShape)) definition.badgeShape = 'circle';
+  if (definition.layout !== 'grid') definition.layout = 'list';
+  return definition;
+};
+
+const setCache = (definitions: NodeTypeDefinition[]) => {
+  cachedDefinitions = definitions;
+  cachedByType = new Map(definitions.map(definition => [normalizeType(definition.type), definition]));
+};
+
+const getNodeTypes = (): NodeTypeDefinition[] => {
+  if (cachedDefinitions) return cachedDefinitions;
+  let definitions = DEFAULT_NODE_TYPES;
+  try {
+    const raw = localStorage.getItem(REGISTRY_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(parsed)) {
+      definitions = parsed.map(sanitizeDefinition).filter((definition): definition is NodeTypeDefinition => definition !== null);
+    }
+  } catch (error) {
+    console.error('[nodeTypeRegistry] Error reading node type registry, using defaults:', error);
+  }
+  setCache(definitions);
+  return definitions;
+};
+
+/**
+ * Returns the definition of a node type, or the default definition for unregistered types.
+ */
+const getDefinition = (type: string | undefined): NodeTypeDefinition => {
+  getNodeTypes();
+  return cachedByType.get(normalizeType(type)) || { ...DEFAULT_NODE_TYPE_DEFINITION, type: type || '' };
+};
+
+/**
+ * Replaces the registry. Duplicate types (case-insensitive) keep their first definition.
+ * @returns False if the registry could not be stored.
+ */
+const saveNodeTypes = (definitions: NodeTypeDefinition[]): boolean => {
+  const seen = new Set<string>();
+  const sanitized = definitions
+    .map(sanitizeDefinition)
+    .filter((definition): definition is NodeTypeDefinition => {
+      if (!definition || seen.has(normalizeType(definition.type))) return false;
+      seen.add(normalizeType(definition.type));
+      return true;
+    });
+  if (!safeLocalStorageSetItem(REGISTRY_STORAGE_KEY, JSON.stringify(sanitized))) {
+    console.error('[nodeTypeRegistry] Could not store the node type registry');
+    return false;
+  }
+  setCache(sanitized);
+  listeners.forEach(listener => listener(sanitized));
+  return true;
+};
+
+const resetNodeTypes = (): void => {
+  localStorage.removeItem(REGISTRY_STORAGE_KEY);
+  setCache(DEFAULT_NODE_TYPES);
+  listeners.forEach(listener => listener(DEFAULT_NODE_TYPES));
+};
+
+const subscribe = (listener: NodeTypeListener) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+/**
+ * Lists the required fields of the node's type that are empty or missing on the node.
+ */
+const getMissingRequiredFields = (node: Node): string[] => {
+  return getDefinition(node.type).requiredFields.filter(field => {
+    if (field.startsWith(ATTRIBUTE_FIELD_PREFIX)) {
+      return !node.attributes?.[field.substring(ATTRIBUTE_FIELD_PREFIX.length)];
+    }
+    const value = (node as any)[field];
+    return value === undefined || value === null || (typeof value === 'string' && !value.trim());
+  });
+};
+
+export const nodeTypeRegistry = {
+  getNodeTypes,
+  getDefinition,
+  saveNodeTypes,
+  resetNodeTypes,
+  subscribe,
+  getMissingRequiredFields,
+  isDeletable: (type: string | undefined) => getDefinition(type).deletable,
+  generatesImages: (type: string | undefined) => getDefinition(type).generatesImages,
+  isHiddenFromPrompts: (type: string | undefined) => getDefinition(type).hiddenFromPrompts,
+  isEditableByLLM: (type: string | undefined) => getDefinition(type).editableByLLM && !getDefinition(type).hiddenFromPrompts,
+  isAlwaysInPrompts: (type: string | undefined) => getDefinition(type).alwaysInPrompts && !getDefinition(type).hiddenFromPrompts,
+  getColor: (type: string | undefined) => getDefinition(type).color
+};
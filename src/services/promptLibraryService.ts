@@ -0,0 +1,304 @@
+import { loadedPrompts } from './llmCore';
+import { safeLocalStorageSetItem } from '../utils/localStorageUtils';
+import { getTemplatePlaceholders, renderPromptTemplate, isPromptTemplateError, PromptTemplateContext, RenderedPrompt } from '../utils/promptTemplate';
+
+const LIBRARY_STORAGE_KEY = 'promptLibrary';
+const MAX_VERSIONS_PER_PROMPT = 30;
+
+export type PromptOverrideScope = 'library' | 'save';
+
+export interface PromptVersion {
+  id: string;
+  name: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface PromptEntry {
+  path: string;                       // Dotted path in PromptsConfig, e.g. "node_operations.generate_chat_text"
+  group: string;                      // First segment of the path
+  text: string;                       // Text in effect
+  defaultText: string;                // Text of src/prompts-instruct.yaml
+  source: 'default' | PromptOverrideScope;
+}
+
+export interface PromptValidation {
+  errors: string[];                   // Template syntax errors and placeholders nothing replaces
+  warnings: string[];
+}
+
+interface PromptLibraryData {
+  overrides: Record<string, string>;        // Applied to every game
+  saveOverrides: Record<string, string>;    // Applied to the current game only, stored with its saves
+  versions: Record<string, PromptVersion[]>;
+}
+
+/**
+ * Replacements each caller passes to formatPrompt, by prompt path. Prompts missing here are
+ * snippets inserted as-is (wrappers, response lengths, image type additions).
+ * Keep in sync with the formatPrompt calls.
+ */
+export const PROMPT_REPLACEMENTS: Record<string, string[]> = {
+  'node_operations.get_relevant_nodes': ['nodes_description', 'string_history'],
+  'node_operations.generate_chat_text': ['nodes_description', 'string_history', 'last_moxus_report', 'moxus_guidance', 'user_input', 'response_length_instruction'],
+  'node_operations.generate_actions': ['nodes_description', 'formatted_chat_text', 'last_moxus_report', 'user_input'],
+  'node_operations.generate_node_edition': ['think_mode', 'nodes_description', 'formatted_chat_history', 'last_moxus_report', 'moxus_guidance', 'actions_list', 'user_input'],
+  'node_operations.repair_node_edition': ['validation_errors'],
+  'node_operations.generate_nodes_from_prompt': ['user_prompt', 'moxus_context_string', 'nodes_description'],
+  'node_operations.sort_nodes_by_relevance': ['string_history', 'last_moxus_report', 'nodes_description'],
+  'node_operations.refocus_story': ['past_chat_history', 'nodes_description'],
+  'image_generation.base_prompt_with_instructions_node': ['image_generation_nodes_content', 'node_name', 'node_long_description', 'node_type', 'type_specific_prompt_addition', 'all_nodes_context', 'chat_history_context'],
+  'image_generation.base_prompt_default': ['node_name', 'node_long_description', 'node_type', 'type_specific_prompt_addition', 'all_nodes_context', 'chat_history_context'],
+  'twine_import.data_extraction': ['additional_instructions', 'twine_content'],
+  'twine_import.node_generation_new_game': ['additional_instructions', 'extracted_data', 'nodes_description'],
+  'twine_import.node_generation_merge': ['additional_instructions', 'extracted_data', 'nodes_description'],
+  'twine_import.regenerate_single_node': ['node_generation_instructions', 'existing_node_id', 'existing_node_name', 'existing_node_long_description', 'existing_node_type', 'recently_generated_node_details', 'extracted_data', 'nodes_description'],
+  'moxus_prompts.moxus_final_report': ['assistant_nodes_content', 'chat_history_context', 'previous_report_analysis', 'current_general_memory', 'chat_text_analysis', 'node_editions_analysis'],
+  'moxus_prompts.moxus_feedback_on_assistant_feedback': ['assistant_nodes_content', 'current_general_memory', 'user_query', 'assistant_result', 'current_assistant_feedback_memory'],
+  'moxus_prompts.moxus_feedback_on_chat_text_generation': ['assistant_nodes_content', 'current_general_memory', 'recent_chat_history', 'generated_chat_text', 'current_chat_text_memory'],
+  'moxus_prompts.moxus_feedback_on_node_edition_json': ['assistant_nodes_content', 'current_general_memory', 'recent_chat_history', 'node_edition_response', 'all_nodes_context', 'current_node_edition_memory'],
+  'moxus_prompts.moxus_feedback_on_manual_node_edit': ['assistant_nodes_content', 'current_general_memory', 'original_node', 'user_changes', 'edit_context', 'current_manual_edit_memory'],
+  'moxus_prompts.general_memory_update': ['assistant_nodes_content', 'current_general_memory', 'chat_text_analysis', 'node_editions_analysis', 'assistant_feedback_analysis', 'node_edit_analysis', 'recent_llm_feedbacks'],
+  'advanced_nodes_generation.planning': ['nodes_description', 'moxus_context_string', 'user_prompt', 'string_history', 'current_loop'],
+  'advanced_nodes_generation.node_edition': ['all_nodes_context', 'original_node', 'node_operation_type', 'target_node_id', 'searchQuery1', 'searchResults1', 'searchQuery2', 'searchResults2', 'user_query', 'objectives', 'successRules', 'previous_failures', 'string_history'],
+  'advanced_nodes_generation.validation': ['nodes_description', 'edited_nodes', 'successRules', 'string_history'],
+  'utils.moxus_feedback_system_message': ['call_type', 'moxus_specialized_guidance']
+};
+
+const flattenPrompts = (value: unknown, prefix: string, into: Record<string, string>): Record<string, string> => {
+  if (typeof value === 'string') {
+    into[prefix] = value;
+  } else if (value && typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => flattenPrompts(child, prefix ? `${prefix}.${key}` : key, into));
+  }
+  return into;
+};
+
+// Snapshot taken before any override is applied
+const defaultPrompts: Record<string, string> = flattenPrompts(loadedPrompts, '', {});
+
+// Prompt keys never contain dots, so the path splits back into them
+const setPromptText = (path: string, text: string) => {
+  const segments = path.split('.');
+  let parent: any = loadedPrompts;
+  for (const segment of segments.slice(0, -1)) {
+    parent = parent?.[segment];
+  }
+  if (parent && typeof parent === 'object') {
+    parent[segments[segments.length - 1]] = text;
+  }
+};
+
+const readLibrary = (): PromptLibraryData => {
+  const empty: PromptLibraryData = { overrides: {}, saveOverrides: {}, versions: {} };
+  try {
+    const raw = localStorage.getItem(LIBRARY_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === 'object' ? { ...empty, ...parsed } : empty;
+  } catch (error) {
+    console.error('[promptLibraryService] Error reading the prompt library, using the default prompts:', error);
+    return empty;
+  }
+};
+
+let library: PromptLibraryData = readLibrary();
+
+const writeLibrary = (): boolean => {
+  if (!safeLocalStorageSetItem(LIBRARY_STORAGE_KEY, JSON.stringify(library))) {
+    console.error('[promptLibraryService] Could not store the prompt library');
+    return false;
+  }
+  return true;
+};
+
+// Keeps only overrides of known prompts, so a save from another version cannot add keys
+const knownOverrides = (overrides: Record<string, unknown> | null | undefined): Record<string, string> =>
+  Object.fromEntries(Object.entries(overrides || {}).filter(([path, text]) => path in defaultPrompts && typeof text === 'string')) as Record<string, string>;
+
+const getSource = (path: string): PromptEntry['source'] => {
+  if (path in library.saveOverrides) return 'save';
+  if (path in library.overrides) return 'library';
+  return 'default';
+};
+
+const getPrompt = (path: string): string | undefined =>
+  library.saveOverrides[path] ?? library.overrides[path] ?? defaultPrompts[path];
+
+/**
+ * Writes the text in effect of every prompt into loadedPrompts, where callers read it on each call.
+ */
+const applyOverrides = (): void => {
+  Object.keys(defaultPrompts).forEach(path => setPromptText(path, getPrompt(path) as string));
+};
+
+const listPrompts = (): PromptEntry[] =>
+  Object.keys(defaultPrompts).map(path => ({
+    path,
+    group: path.split('.')[0],
+    text: getPrompt(path) as string,
+    defaultText: defaultPrompts[path],
+    source: getSource(path)
+  }));
+
+// Wrappers and utils entries in effect, as formatPrompt expands them
+const getTemplateContext = (): PromptTemplateContext => ({
+  wrappers: loadedPrompts.utils?.wrappers,
+  utils: loadedPrompts.utils as Record<string, unknown> | undefined
+});
+
+// Placeholders, conditions and unknown utils of a text; empty if the text does not parse
+const getReferences = (text: string): Set<string> => {
+  try {
+    const { names, unresolvedUtils } = getTemplatePlaceholders(text, getTemplateContext());
+    return new Set([...names, ...unresolvedUtils]);
+  } catch {
+    return new Set();
+  }
+};
+
+/**
+ * Checks the template syntax of a prompt text, and its placeholders against what its caller passes
+ * to formatPrompt and against the utils entries formatPrompt can insert. Placeholders the default
+ * prompt already has are only warned about.
+ */
+const validatePrompt = (path: string, text: string): PromptValidation => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const replacements = PROMPT_REPLACEMENTS[path];
+  const defaultPlaceholders = getReferences(defaultPrompts[path] || '');
+
+  const report = (placeholder: string, message: string) => {
+    if (defaultPlaceholders.has(placeholder)) {
+      warnings.push(`${message} (also in the default prompt)`);
+    } else {
+      errors.push(message);
+    }
+  };
+
+  let placeholders: ReturnType<typeof getTemplatePlaceholders>;
+  try {
+    placeholders = getTemplatePlaceholders(text, getTemplateContext());
+  } catch (error) {
+    if (!isPromptTemplateError(error)) throw error;
+    return { errors: [(error as Error).message], warnings };
+  }
+
+  if (replacements) {
+    placeholders.names.filter(name => !replacements.includes(name)).forEach(name => {
+      report(name, `{${name}} is not passed by the caller: ${replacements.join(', ')}`);
+    });
+    replacements.filter(name => !placeholders.names.includes(name)).forEach(name => {
+      warnings.push(`{${name}} is passed by the caller but not used`);
+    });
+  }
+  placeholders.unresolvedUtils.forEach(placeholder => {
+    report(placeholder, placeholder.startsWith('utils.wrappers.') ? `{${placeholder}}: no such wrapper` : `{${placeholder}}: no such utils entry`);
+  });
+  return { errors, warnings };
+};
+
+/**
+ * Sample replacements for the caller of a prompt: each key maps to "<key>", or to an empty string
+ * with blank, which renders the {#unless} branches.
+ */
+const getFixtureReplacements = (path: string, blank = false): Record<string, string> =>
+  Object.fromEntries((PROMPT_REPLACEMENTS[path] || []).map(name => [name, blank ? '' : `<${name}>`]));
+
+/**
+ * Renders a prompt text as formatPrompt would, with the fixture replacements of its caller.
+ * Throws a PromptTemplateError if the text does not parse.
+ */
+const renderPreview = (path: string, text = getPrompt(path) || '', blank = false): RenderedPrompt =>
+  renderPromptTemplate(text, getFixtureReplacements(path, blank), getTemplateContext());
+
+export const createPromptValidationError = (path: string, errors: string[]): Error =>
+  Object.assign(new Error(`Prompt ${path} has invalid placeholders: ${errors.join('; ')}`), { name: 'PromptValidationError', errors });
+
+/**
+ * Overrides a prompt for every game, or for the current game only, and applies it to the next
+ * LLM calls. Throws a PromptValidationError if the text has placeholders no caller replaces.
+ * @returns False if the override could not be stored.
+ */
+const savePrompt = (path: string, text: string, scope: PromptOverrideScope): boolean => {
+  if (!(path in defaultPrompts)) {
+    throw new Error(`Unknown prompt: ${path}`);
+  }
+  const { errors } = validatePrompt(path, text);
+  if (errors.length > 0) {
+    throw createPromptValidationError(path, errors);
+  }
+  const target = scope === 'save' ? library.saveOverrides : library.overrides;
+  target[path] = text;
+  // A library override is hidden by an override of the current game; saving it for every game replaces both
+  if (scope === 'library') delete library.saveOverrides[path];
+  applyOverrides();
+  return writeLibrary();
+};
+
+/**
+ * Goes back to the default text of a prompt, dropping its overrides in both scopes.
+ */
+const resetPrompt = (path: string): void => {
+  delete library.overrides[path];
+  delete library.saveOverrides[path];
+  applyOverrides();
+  writeLibrary();
+};
+
+const getSaveOverrides = (): Record<string, string> => ({ ...library.saveOverrides });
+
+/**
+ * Replaces the overrides of the current game, e.g. when a save is loaded.
+ */
+const setSaveOverrides = (overrides: Record<string, string> | null | undefined): void => {
+  library.saveOverrides = knownOverrides(overrides);
+  applyOverrides();
+  writeLibrary();
+};
+
+const listVersions = (path: string): PromptVersion[] => library.versions[path] || [];
+
+/**
+ * Stores a named version of a prompt text. Only the latest versions of each prompt are kept.
+ */
+const saveVersion = (path: string, name: string, text: string): PromptVersion | null => {
+  const version: PromptVersion = {
+    id: `prompt-version-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`,
+    name: name.trim() || new Date().toLocaleString(),
+    text,
+    createdAt: new Date().toISOString()
+  };
+  library.versions[path] = [...listVersions(path), version].slice(-MAX_VERSIONS_PER_PROMPT);
+  return writeLibrary() ? version : null;
+};
+
+const deleteVersion = (path: string, versionId: string): void => {
+  library.versions[path] = listVersions(path).filter(version => version.id !== versionId);
+  writeLibrary();
+};
+
+// Re-reads storage, for tests and for other tabs having changed the library
+const reload = (): void => {
+  library = readLibrary();
+  applyOverrides();
+};
+
+applyOverrides();
+
+export const promptLibraryService = {
+  listPrompts,
+  getPrompt,
+  getDefaultPrompt: (path: string): string | undefined => defaultPrompts[path],
+  getReplacements: (path: string): string[] | undefined => PROMPT_REPLACEMENTS[path],
+  validatePrompt,
+  getFixtureReplacements,
+  renderPreview,
+  savePrompt,
+  resetPrompt,
+  getSaveOverrides,
+  setSaveOverrides,
+  listVersions,
+  saveVersion,
+  deleteVersion,
+  reload
+};
@@ -0,0 +1,147 @@
+import LZString from 'lz-string';
+import { Node } from '../models/Node';
+import { Message } from '../context/ChatContext';
+import { safeLocalStorageSetItem } from '../utils/localStorageUtils';
+
+const SLOT_INDEX_KEY = 'saveSlots';
+const ACTIVE_SLOT_KEY = 'activeSaveSlot';
+const SLOT_DATA_KEY_PREFIX = 'saveSlot_';
+
+export interface SaveSlotData {
+  nodes: Node[];
+  chatHistory: Message[];
+  moxusMemory?: any;
+  promptOverrides?: Record<string, string>;   // Prompts edited for this game only, by prompt path
+}
+
+export interface SaveSlotMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  nodeCount: number;
+  messageCount: number;
+  parentId?: string;          // Slot this branch was forked from
+  forkedAtMessage?: number;   // Index of the last chat message kept when forking
+}
+
+const getSlotDataKey = (slotId: string) => `${SLOT_DATA_KEY_PREFIX}${slotId}`;
+
+const writeIndex = (slots: SaveSlotMeta[]): boolean => {
+  return safeLocalStorageSetItem(SLOT_INDEX_KEY, JSON.stringify(slots));
+};
+
+const listSlots = (): SaveSlotMeta[] => {
+  try {
+    const raw = localStorage.getItem(SLOT_INDEX_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('[saveSlotService] Error reading save slot index:', error);
+    return [];
+  }
+};
+
+const getActiveSlotId = (): string | null => {
+  const activeId = localStorage.getItem(ACTIVE_SLOT_KEY);
+  return activeId && listSlots().some(slot => slot.id === activeId) ? activeId : null;
+};
+
+const setActiveSlotId = (slotId: string | null): void => {
+  if (slotId) {
+    safeLocalStorageSetItem(ACTIVE_SLOT_KEY, slotId);
+  } else {
+    localStorage.removeItem(ACTIVE_SLOT_KEY);
+  }
+};
+
+/**
+ * Writes the data of a slot, creating the slot if the id is unknown.
+ * The transient `updateImage` flag is stripped from nodes, as in the `nodeGraph` save.
+ * @returns The updated slot metadata, or null if the data could not be stored.
+ */
+const saveSlot = (slotId: string, name: string, data: SaveSlotData, fork?: { parentId?: string; forkedAtMessage?: number }): SaveSlotMeta | null => {
+  const now = new Date().toISOString();
+  const slots = listSlots();
+  const existing = slots.find(slot => slot.id === slotId);
+  const payload: SaveSlotData = {
+    nodes: data.nodes.map(({ updateImage, ...rest }) => rest),
+    chatHistory: data.chatHistory,
+    moxusMemory: data.moxusMemory,
+    promptOverrides: data.promptOverrides
+  };
+
+  if (!safeLocalStorageSetItem(getSlotDataKey(slotId), LZString.compress(JSON.stringify(payload)))) {
+    console.error(`[saveSlotService] Could not store data for slot ${slotId}`);
+    return null;
+  }
+
+  const meta: SaveSlotMeta = {
+    ...(existing || { id: slotId, createdAt: now, ...fork }),
+    name,
+    updatedAt: now,
+    nodeCount: payload.nodes.length,
+    messageCount: payload.chatHistory.length
+  };
+  writeIndex(existing ? slots.map(slot => (slot.id === slotId ? meta : slot)) : [...slots, meta]);
+  return meta;
+};
+
+const createSlot = (name: string, data: SaveSlotData, fork?: { parentId?: string; forkedAtMessage?: number }): SaveSlotMeta | null => {
+  const slotId = `slot-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
+  return saveSlot(slotId, name, data, fork);
+};
+
+const loadSlot = (slotId: string): SaveSlotData | null => {
+  try {
+    const compressed = localStorage.getItem(getSlotDataKey(slotId));
+    if (!compressed) return null;
+    const json = LZString.decompress(compressed);
+    return json ? JSON.parse(json) : null;
+  } catch (error) {
+    console.error(`[saveSlotService] Error loading slot ${slotId}:`, error);
+    return null;
+  }
+};
+
+const renameSlot = (slotId: string, name: string): void => {
+  writeIndex(listSlots().map(slot => (slot.id === slotId ? { ...slot, name } : slot)));
+};
+
+/**
+ * Deletes a slot. Branches forked from it keep their data and lose their parent reference.
+ */
+const deleteSlot = (slotId: string): void => {
+  localStorage.removeItem(getSlotDataKey(slotId));
+  writeIndex(listSlots()
+    .filter(slot => slot.id !== slotId)
+    .map(slot => (slot.parentId === slotId ? { ...slot, parentId: undefined } : slot)));
+  if (localStorage.getItem(ACTIVE_SLOT_KEY) === slotId) {
+    setActiveSlotId(null);
+  }
+};
+
+/**
+ * Builds the state of a branch forked at a chat message.
+ * @param chatHistory The full chat history of the current playthrough.
+ * @param messageIndex Index of the last message kept in the branch.
+ * @param stateAtMessage The node graph and Moxus memory at that message.
+ */
+const buildForkData = (chatHistory: Message[], messageIndex: number, stateAtMessage: { nodes: Node[]; moxusMemory?: any }, promptOverrides?: Record<string, string>): SaveSlotData => ({
+  nodes: stateAtMessage.nodes,
+  chatHistory: chatHistory.slice(0, messageIndex + 1),
+  moxusMemory: stateAtMessage.moxusMemory,
+  promptOverrides
+});
+
+export const saveSlotService = {
+  listSlots,
+  getActiveSlotId,
+  setActiveSlotId,
+  saveSlot,
+  createSlot,
+  loadSlot,
+  renameSlot,
+  deleteSlot,
+  buildForkData
+};
@@ -0,0 +1,239 @@
+import usageLimitsConfig from '../config/usageLimits.yaml';
+import { llmUsageService, LLMUsageRecord } from './llmUsageService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_SOFT_LIMIT_RATIO = 0.8;
+
+export interface UsageLimitWindow {
+  maxCost?: number;       // USD
+  maxTokens?: number;     // Prompt and completion tokens
+}
+
+export interface CallTypeUsageLimits {
+  callType: string;
+  session?: UsageLimitWindow;
+  hour?: UsageLimitWindow;
+}
+
+export interface UsageLimits {
+  maxConcurrentRequests?: number;
+  maxRequestsPerMinute?: number;
+  softLimitRatio?: number;            // Share of a hard limit at which optional call types are skipped
+  session?: UsageLimitWindow;
+  hour?: UsageLimitWindow;            // Sliding window over the last hour
+  callTypes?: CallTypeUsageLimits[];
+}
+
+export interface UsageLimitStatus {
+  scope: string;                      // "session", "hour", or "<callType> (session|hour)"
+  metric: 'cost' | 'tokens';
+  used: number;
+  limit: number;
+  ratio: number;                      // used / limit
+}
+
+let limits: UsageLimits = usageLimitsConfig?.usageLimits || {};
+let optionalCallTypes: string[] = usageLimitsConfig?.optionalCallTypes || [];
+
+let activeRequests = 0;
+const slotWaiters: (() => void)[] = [];
+let requestTimes: number[] = [];
+let cooldownUntil = 0;
+
+const createAbortError = (): Error => new DOMException('The LLM call was cancelled.', 'AbortError');
+
+/**
+ * Error thrown by getResponse when a call is blocked by a limit. `degraded` is true when only
+ * optional work is blocked, because a soft limit was reached.
+ */
+export const createUsageLimitError = (message: string, status: UsageLimitStatus, degraded: boolean): Error =>
+  Object.assign(new Error(message), { name: 'UsageLimitError', status, degraded });
+
+export const isUsageLimitError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: string }).name === 'UsageLimitError';
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const onAbort = () => {
+    clearTimeout(timeoutId);
+    reject(createAbortError());
+  };
+  const timeoutId = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const isOptionalCallType = (callType: string): boolean =>
+  optionalCallTypes.some(prefix => callType === prefix || callType.startsWith(prefix));
+
+const windowStatuses = (scope: string, window: UsageLimitWindow | undefined, records: LLMUsageRecord[]): UsageLimitStatus[] => {
+  if (!window) return [];
+  const totals = llmUsageService.summarize(records);
+  const statuses: UsageLimitStatus[] = [];
+  if (window.maxCost && window.maxCost > 0) {
+    statuses.push({ scope, metric: 'cost', used: totals.cost, limit: window.maxCost, ratio: totals.cost / window.maxCost });
+  }
+  if (window.maxTokens && window.maxTokens > 0) {
+    const tokens = totals.promptTokens + totals.completionTokens;
+    statuses.push({ scope, metric: 'tokens', used: tokens, limit: window.maxTokens, ratio: tokens / window.maxTokens });
+  }
+  return statuses;
+};
+
+const getWindowRecords = () => {
+  const since = Date.now() - HOUR_MS;
+  return {
+    sessionRecords: llmUsageService.getSessionRecords(),
+    hourRecords: llmUsageService.getRecords().filter(record => record.timestamp >= since)
+  };
+};
+
+// Usage against the session and hourly limits shared by all call types
+const getGlobalLimitStatuses = (): UsageLimitStatus[] => {
+  const { sessionRecords, hourRecords } = getWindowRecords();
+  return [
+    ...windowStatuses('session', limits.session, sessionRecords),
+    ...windowStatuses('hour', limits.hour, hourRecords)
+  ];
+};
+
+/**
+ * Current usage against every configured spending limit. Without a call type, the limits of all
+ * configured call types are included; with one, only that call type's limits are.
+ */
+const getLimitStatuses = (callType?: string): UsageLimitStatus[] => {
+  const { sessionRecords, hourRecords } = getWindowRecords();
+  const statuses = getGlobalLimitStatuses();
+  (limits.callTypes || [])
+    .filter(callTypeLimits => callType === undefined || callTypeLimits.callType === callType)
+    .forEach(callTypeLimits => {
+      const ofType = (record: LLMUsageRecord) => record.callType === callTypeLimits.callType;
+      statuses.push(
+        ...windowStatuses(`${callTypeLimits.callType} (session)`, callTypeLimits.session, sessionRecords.filter(ofType)),
+        ...windowStatuses(`${callTypeLimits.callType} (hour)`, callTypeLimits.hour, hourRecords.filter(ofType))
+      );
+    });
+  return statuses;
+};
+
+const getSoftLimitRatio = () => limits.softLimitRatio ?? DEFAULT_SOFT_LIMIT_RATIO;
+
+/**
+ * True once the session or hourly usage reaches the soft limit: optional work (Moxus feedback,
+ * node sorting) should not be started.
+ */
+const isOptionalWorkPaused = (): boolean =>
+  getGlobalLimitStatuses().some(status => status.ratio >= getSoftLimitRatio());
+
+const formatStatus = (status: UsageLimitStatus) => status.metric === 'cost'
+  ? `${status.scope} cost limit ($${status.used.toFixed(2)} of $${status.limit})`
+  : `${status.scope} token limit (${status.used} of ${status.limit})`;
+
+/**
+ * Throws a usage limit error if a hard limit applying to the call type is reached, or if the call
+ * type is optional and a soft limit is reached.
+ */
+const checkBudget = (callType: string): void => {
+  const statuses = getLimitStatuses(callType);
+  const reached = statuses.find(status => status.ratio >= 1);
+  if (reached) {
+    throw createUsageLimitError(`LLM usage limit reached: ${formatStatus(reached)}. Raise it in src/config/usageLimits.yaml or wait for the window to pass.`, reached, false);
+  }
+  if (isOptionalCallType(callType)) {
+    const soft = statuses.find(status => status.ratio >= getSoftLimitRatio());
+    if (soft) {
+      throw createUsageLimitError(`Optional LLM call ${callType} skipped: close to the ${formatStatus(soft)}.`, soft, true);
+    }
+  }
+};
+
+/**
+ * Checks the spending limits for a call, then waits for a free request slot.
+ * @returns A function releasing the slot; call it once the request is done.
+ */
+const acquire = async (callType: string, signal?: AbortSignal): Promise<() => void> => {
+  checkBudget(callType);
+  const maxConcurrent = limits.maxConcurrentRequests || 0;
+  while (maxConcurrent > 0 && activeRequests >= maxConcurrent) {
+    await new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(createAbortError());
+      const wake = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        const index = slotWaiters.indexOf(wake);
+        if (index > -1) slotWaiters.splice(index, 1);
+        reject(createAbortError());
+      };
+      slotWaiters.push(wake);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+  activeRequests++;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    activeRequests--;
+    slotWaiters.shift()?.();
+  };
+};
+
+/**
+ * Waits until a request may be sent: after any rate limit cooldown, and within the requests per
+ * minute limit. Called before each attempt, retries included.
+ */
+const throttle = async (signal?: AbortSignal): Promise<void> => {
+  for (;;) {
+    const now = Date.now();
+    if (cooldownUntil > now) {
+      await sleep(cooldownUntil - now, signal);
+      continue;
+    }
+    const maxPerMinute = limits.maxRequestsPerMinute || 0;
+    requestTimes = requestTimes.filter(time => time > now - MINUTE_MS);
+    if (maxPerMinute > 0 && requestTimes.length >= maxPerMinute) {
+      await sleep(requestTimes[0] + MINUTE_MS - now, signal);
+      continue;
+    }
+    if (signal?.aborted) throw createAbortError();
+    requestTimes.push(now);
+    return;
+  }
+};
+
+/**
+ * Delay before retrying a rate limited attempt, doubling with each attempt.
+ */
+const getBackoffDelay = (attempt: number, baseDelay: number): number => baseDelay * 2 ** (attempt - 1);
+
+/**
+ * Holds every request for `delayMs` after the backend answered 429 Too Many Requests.
+ */
+const reportRateLimited = (delayMs: number): void => {
+  cooldownUntil = Math.max(cooldownUntil, Date.now() + delayMs);
+};
+
+export const usageLimitService = {
+  getLimits: (): UsageLimits => limits,
+  // Replaces the limits of src/config/usageLimits.yaml until the page is reloaded
+  setLimits: (newLimits: UsageLimits, newOptionalCallTypes: string[] = optionalCallTypes) => {
+    limits = newLimits;
+    optionalCallTypes = newOptionalCallTypes;
+  },
+  isOptionalCallType,
+  getLimitStatuses,
+  isOptionalWorkPaused,
+  checkBudget,
+  acquire,
+  throttle,
+  getBackoffDelay,
+  reportRateLimited,
+  // Abortable delay, rejecting with an AbortError
+  wait: sleep,
+  getActiveRequests: () => activeRequests
+};
@@ -26,6 +26,18 @@ vi.mock('../utils/textUtils', () => ({
       }
     }
     return result;
+  }),
+  applyTextDiffInstructionsWithReport: vi.fn((originalText: string, diffs: any[]) => {
+    let text = originalText;
+    const edits = diffs.map(diff => {
+      if (diff.prev_txt && diff.next_txt && text.includes(diff.prev_txt)) {
+        text = text.replace(diff.prev_txt, diff.next_txt);
+        return { edit: diff, status: 'exact' };
+      }
+      return { edit: diff, status: 'failed' };
+    });
+    const count = (status: string) => edits.filter(edit => edit.status === status).length;
+    return { text, edits, exact: count('exact'), fuzzy: 0, failed: count('failed') };
   })
 }));
 
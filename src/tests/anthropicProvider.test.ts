@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { llmProviderRegistry } from '../services/llmProviderRegistry';
+import { toAnthropicMessages } from '../services/llmProviders';
+import { getResponse } from '../services/llmCore';
+import { readLLMStreamText } from '../services/llmStreamParser';
+import { makeContext } from './providerContext';
+
+const anthropic = () => llmProviderRegistry.get('anthropic')!;
+
+const sseEvent = (type: string, data: any) => `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+
+// Minimal stand-in for the Messages API: echoes the request and streams two text deltas
+const startMockServer = () => {
+  const requests: { headers: http.IncomingHttpHeaders; body: any }[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      requests.push({ headers: req.headers, body });
+      if (body.stream) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(sseEvent('message_start', { message: { id: 'msg_1' } }));
+        res.write(sseEvent('content_block_start', { index: 0, content_block: { type: 'text', text: '' } }));
+        // Split an event across two writes to exercise partial line handling
+        const delta = sseEvent('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'Once upon' } });
+        res.write(delta.slice(0, 20));
+        res.write(delta.slice(20));
+        res.write(sseEvent('content_block_delta', { index: 0, delta: { type: 'text_delta', text: ' a time' } }));
+        res.write(sseEvent('message_stop', {}));
+        res.end();
+        return;
+      }
+      const isJson = body.messages[body.messages.length - 1]?.content === '{';
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'msg_2',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: isJson ? '"answer": 42}' : 'The tavern is quiet.' }],
+        stop_reason: 'end_turn'
+      }));
+    });
+  });
+  return { server, requests };
+};
+
+describe('Anthropic Provider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should move system messages out and merge roles into alternating turns', () => {
+    const converted = toAnthropicMessages([
+      { role: 'system', content: 'Rules' },
+      { role: 'assistant', content: 'Welcome.' },
+      { role: 'system', content: 'Moxus notes' },
+      { role: 'actions', content: 'Look around' },
+      { role: 'user', content: 'Hello' }
+    ]);
+
+    expect(converted.system).toBe('Rules\n\nMoxus notes');
+    expect(converted.messages.map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(converted.messages[2].content).toBe('Look around\n\nHello');
+  });
+
+  it('should build a Messages API request with a JSON prefill', () => {
+    vi.stubEnv('VITE_ANTHROPIC_KEY', 'sk-test');
+
+    const request = anthropic().buildRequest(makeContext({ model: 'claude-test', responseFormat: { type: 'json_object' }, options: { temperature: 0.4 } }));
+
+    expect(request.url).toBe('https://api.anthropic.com/v1/messages');
+    expect(request.headers).toMatchObject({ 'x-api-key': 'sk-test', 'anthropic-version': '2023-06-01' });
+    expect(request.body).toMatchObject({ model: 'claude-test', system: 'You are a narrator.', temperature: 0.4, max_tokens: 4096 });
+    expect(request.body.messages[request.body.messages.length - 1]).toEqual({ role: 'assistant', content: '{' });
+  });
+
+  it('should restore the prefill when parsing JSON responses', () => {
+    const data = { content: [{ type: 'thinking', thinking: '...' }, { type: 'text', text: '"a": 1}' }] };
+
+    expect(anthropic().parseResponse(data, makeContext({ responseFormat: { type: 'json_object' } }))).toBe('{"a": 1}');
+    expect(anthropic().parseResponse({ content: [{ type: 'text', text: 'Hi' }] }, makeContext())).toBe('Hi');
+    expect(() => anthropic().parseResponse({ type: 'error' }, makeContext())).toThrow('Invalid Anthropic response structure');
+  });
+
+  it('should parse stream events', () => {
+    expect(anthropic().parseStreamChunk('event: content_block_delta')).toBeNull();
+    expect(anthropic().parseStreamChunk('data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}')).toEqual({ content: 'Hi', done: false });
+    expect(anthropic().parseStreamChunk('data: {"type":"ping"}')).toBeNull();
+    expect(anthropic().parseStreamChunk('data: {"type":"message_stop"}')).toEqual({ content: '', done: true });
+  });
+});
+
+describe('Anthropic Provider against a mock server', () => {
+  const { server, requests } = startMockServer();
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const useMockServer = () => {
+    vi.stubEnv('VITE_LLM_API', 'anthropic');
+    vi.stubEnv('VITE_ANTHROPIC_MODEL', 'claude-mock');
+    vi.stubEnv('VITE_ANTHROPIC_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  };
+
+  it('should get a JSON answer through getResponse', async () => {
+    useMockServer();
+
+    const result = await getResponse(
+      [{ role: 'system', content: 'Answer in JSON' }, { role: 'user', content: 'What is the answer?' }],
+      undefined, undefined, false, { type: 'json_object' }, { skipMoxusFeedback: true }, 'anthropic_mock_test'
+    );
+
+    expect(result.llmResult).toBe('{"answer": 42}');
+    expect(requests[requests.length - 1].body).toMatchObject({ model: 'claude-mock', system: 'Answer in JSON' });
+  });
+
+  it('should stream text deltas through getResponse', async () => {
+    useMockServer();
+
+    const result = await getResponse(
+      [{ role: 'user', content: 'Tell me a story' }],
+      undefined, undefined, true, undefined, { skipMoxusFeedback: true }, 'anthropic_mock_test'
+    );
+    const { text } = await readLLMStreamText(result.streamResponse!);
+
+    expect(text).toBe('Once upon a time');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { chatTemplateService } from '../services/chatTemplateService';
+import { Message } from '../context/ChatContext';
+import { llmProviderRegistry } from '../services/llmProviderRegistry';
+import { parseModelTasksConfigYaml, saveRuntimeConfig, resetRuntimeConfig } from '../services/modelTasksConfigService';
+import { promptLibraryService } from '../services/promptLibraryService';
+import { getResponse } from '../services/llmCore';
+import { NODE_EDITION_JSON_GRAMMAR } from '../services/nodeEditionGrammar';
+import basePromptsConfig from '../prompts-base.yaml';
+import { makeContext } from './providerContext';
+
+const messages: Message[] = [
+  { role: 'system', content: 'You are a narrator.' },
+  { role: 'moxus', content: 'Keep it short.' },
+  { role: 'user', content: 'Hello' }
+];
+
+describe('Chat Templates', () => {
+  afterEach(() => {
+    resetRuntimeConfig();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should pick the template of the task, then of the model, then of the prompt mode', () => {
+    expect(chatTemplateService.resolveTemplateName('alpaca', 'Meta-Llama-3-8B-Instruct')).toBe('alpaca');
+    expect(chatTemplateService.resolveTemplateName(undefined, 'Meta-Llama-3-8B-Instruct')).toBe('llama3');
+    expect(chatTemplateService.resolveTemplateName(undefined, 'Hermes-3-Llama-3.1-8B')).toBe('chatml');
+    expect(chatTemplateService.resolveTemplateName('no-such-template', 'qwen2.5-7b')).toBe('chatml');
+    expect(chatTemplateService.resolveTemplateName()).toBe('plain');
+
+    vi.stubEnv('VITE_LLM_MODE', 'base');
+    expect(chatTemplateService.resolveTemplateName()).toBe('completion');
+  });
+
+  it('should render turns with the template and open the answer', () => {
+    expect(chatTemplateService.applyTemplate(messages, 'chatml')).toEqual({
+      prompt: '<|im_start|>system\nYou are a narrator.<|im_end|>\n<|im_start|>user\nKeep it short.<|im_end|>\n<|im_start|>user\nHello<|im_end|>\n<|im_start|>assistant\n',
+      stop: ['<|im_end|>', '<|im_start|>']
+    });
+    expect(chatTemplateService.applyTemplate(messages, 'plain').prompt).toBe('system: You are a narrator.\nmoxus: Keep it short.\nuser: Hello');
+    expect(chatTemplateService.applyTemplate(messages, 'completion').prompt).toBe('You are a narrator.\n\nKeep it short.\n\nHello');
+  });
+
+  it('should send the templated prompt and stop sequences to KoboldCPP', () => {
+    const request = llmProviderRegistry.get('koboldcpp')!.buildRequest(makeContext({
+      messages,
+      model: 'mistral-7b-instruct',
+      options: { stop: ['\nPlayer:', '</s>'] }
+    }));
+
+    expect(request.body.prompt).toBe('[INST] You are a narrator. [/INST][INST] Keep it short. [/INST][INST] Hello [/INST]');
+    expect(request.body).toMatchObject({ stop_sequence: ['</s>', '[INST]', '\nPlayer:'], trim_stop: true });
+  });
+
+  it('should keep the chat template and stop sequences of a task', () => {
+    expect(parseModelTasksConfigYaml('modelsTasks:\n  - promptName: chat_text_generation\n    chat_template: chatml\n    stop: ["\\n\\n\\n", ""]\n'))
+      .toEqual({ modelsTasks: [{ promptName: 'chat_text_generation', chat_template: 'chatml', stop: ['\n\n\n'] }] });
+    expect(() => parseModelTasksConfigYaml('modelsTasks:\n  - promptName: a\n    stop: 3\n')).toThrow('modelsTasks[0].stop must be a list of strings');
+  });
+
+  it('should apply the task template and pass the grammar through getResponse', async () => {
+    vi.stubEnv('VITE_LLM_API', 'koboldcpp');
+    vi.stubEnv('VITE_KOBOLDCPP_API_URL', 'http://localhost:5001');
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ results: [{ text: '{"d_nodes": []}' }] })));
+    vi.stubGlobal('fetch', fetchMock);
+    saveRuntimeConfig({ modelsTasks: [{ promptName: 'template_test_edition', chat_template: 'llama3', stop: ['\n\n\n'] }] });
+
+    const result = await getResponse([{ role: 'user', content: 'Update' }], undefined, NODE_EDITION_JSON_GRAMMAR, false, { type: 'json_object' }, { skipMoxusFeedback: true }, 'template_test_edition');
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(result.llmResult).toBe('{"d_nodes": []}');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:5001/api/v1/generate');
+    expect(body.prompt).toBe('<|start_header_id|>user<|end_header_id|>\n\nUpdate<|eot_id|><|start_header_id|>assistant<|end_header_id|>\n\n');
+    expect(body.stop_sequence).toEqual(['<|eot_id|>', '<|start_header_id|>', '\n\n\n']);
+    expect(body.grammar).toBe(NODE_EDITION_JSON_GRAMMAR);
+  });
+});
+
+describe('Base model prompts', () => {
+  const basePrompts = basePromptsConfig as Record<string, Record<string, string>>;
+
+  it('should only replace prompts the instruct set has, with placeholders their callers pass', () => {
+    const paths = Object.entries(basePrompts).flatMap(([group, prompts]) => Object.keys(prompts).map(key => `${group}.${key}`));
+
+    expect(paths.length).toBeGreaterThan(0);
+    paths.forEach(path => {
+      const [group, key] = path.split('.');
+      expect(promptLibraryService.getDefaultPrompt(path)).toBeDefined();
+      expect(promptLibraryService.validatePrompt(path, basePrompts[group][key]).errors).toEqual([]);
+    });
+  });
+});
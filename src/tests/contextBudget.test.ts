@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, compactText, mentionPriority, fitContextToBudget } from '../utils/contextBudget';
+import { Node } from '../models/Node';
+import { Message } from '../context/ChatContext';
+
+const makeNode = (id: string, name: string, type: string, longDescription: string): Node => ({
+  id,
+  name,
+  type,
+  longDescription,
+  image: ''
+} as Node);
+
+const formatNode = (node: Node, compact: boolean) =>
+  `[${node.id}${compact ? '*' : ''}: ${compact ? compactText(node.longDescription, 40) : node.longDescription}]`;
+
+const longText = (sentence: string, times: number) => Array(times).fill(sentence).join(' ');
+
+describe('Context Budget', () => {
+  const nodes = [
+    makeNode('rules', 'Rules', 'system', 'Keep the story grounded.'),
+    makeNode('tavern', 'Tavern', 'location', longText('The tavern is loud and warm.', 20)),
+    makeNode('goblin', 'Goblin', 'character', longText('The goblin hides behind the bar.', 20)),
+    makeNode('forest', 'Forest', 'location', longText('Old trees whisper in the wind.', 20))
+  ];
+  const history: Message[] = [
+    { role: 'user', content: longText('I walk for a long time.', 10) },
+    { role: 'assistant', content: longText('The road goes on.', 10) },
+    { role: 'user', content: 'I talk to the goblin.' }
+  ];
+
+  it('should estimate tokens from the text length', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('should compact texts at a sentence or word boundary', () => {
+    expect(compactText('Short text.')).toBe('Short text.');
+    expect(compactText('First sentence here. Second sentence is much longer than that.', 36)).toBe('First sentence here.…');
+    expect(compactText('averyveryverylongword and more words', 26)).toBe('averyveryverylongword and…');
+  });
+
+  it('should rank pinned types, then mentioned nodes, then the rest', () => {
+    const priority = mentionPriority('I talk to the goblin.');
+
+    expect(nodes.map(priority)).toEqual([0, 2, 1, 2]);
+  });
+
+  it('should return every section in full without a budget or when it fits', () => {
+    const unbounded = fitContextToBudget({ fixedText: 'prompt', nodes, formatNode, history });
+    const fitting = fitContextToBudget({ budget: 100000, fixedText: 'prompt', nodes, formatNode, history });
+
+    expect(unbounded.report).toBeNull();
+    expect(fitting).toEqual(unbounded);
+    expect(unbounded.nodesDescription).toBe(nodes.map(node => formatNode(node, false)).join(''));
+  });
+
+  it('should drop old history and compact the least relevant nodes to fit the budget', () => {
+    const budget = 400;
+    const result = fitContextToBudget({
+      budget,
+      fixedText: longText('Prompt template.', 20),
+      nodes,
+      formatNode,
+      priority: mentionPriority('I talk to the goblin.'),
+      history
+    });
+
+    expect(result.report).toMatchObject({ budget, nodesDropped: 0 });
+    expect(result.report!.usedTokens).toBeLessThanOrEqual(budget);
+    expect(result.report!.historyDropped + (result.report!.historyTruncated ? 1 : 0)).toBeGreaterThan(0);
+    expect(result.stringHistory.endsWith('user: I talk to the goblin.\n')).toBe(true);
+    // The rules and the mentioned goblin stay in full, the other nodes are abridged, in prompt order
+    expect(result.nodesDescription.indexOf('[rules:')).toBe(0);
+    expect(result.nodesDescription).toContain('[goblin: The goblin');
+    expect(result.nodesDescription).toContain('[tavern*:');
+    expect(result.nodesDescription.indexOf('[tavern*')).toBeLessThan(result.nodesDescription.indexOf('[goblin:'));
+  });
+
+  it('should leave nodes out when even their compact form does not fit', () => {
+    const result = fitContextToBudget({ budget: 30, fixedText: '', nodes, formatNode, priority: mentionPriority(''), history: [] });
+
+    expect(result.report!.nodesDropped).toBeGreaterThan(0);
+    expect(result.report!.usedTokens).toBeLessThanOrEqual(30);
+    expect(result.nodesDescription.startsWith('[rules:')).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { build, loadEnv } from 'vite';
+
+const BUILD_TIMEOUT_MS = 180000;
+
+const buildApp = (outDir: string) => build({
+  configFile: path.resolve(process.cwd(), 'vite.config.ts'),
+  mode: 'production',
+  logLevel: 'silent',
+  build: { target: 'esnext', outDir, emptyOutDir: true }
+});
+
+const readEmittedJs = (outDir: string): string => {
+  const assetsDir = path.join(outDir, 'assets');
+  return fs.readdirSync(assetsDir)
+    .filter(file => file.endsWith('.js'))
+    .map(file => fs.readFileSync(path.join(assetsDir, file), 'utf8'))
+    .join('\n');
+};
+
+// Builds the app for real: Vite compiles VITE_* variables into the bundle by itself, whatever vite.config defines
+describe('Gateway build', () => {
+  let outDir: string;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    if (outDir) fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  const useGatewayWithoutBrowserKeys = () => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gateway-build-'));
+    vi.stubEnv('VITE_LLM_GATEWAY_URL', 'http://localhost:3001');
+    // Keys of a local .env would be bundled too; the environment takes precedence over it
+    Object.keys(loadEnv('production', process.cwd(), 'VITE_'))
+      .filter(name => name.endsWith('_KEY'))
+      .forEach(name => vi.stubEnv(name, ''));
+  };
+
+  it('should refuse to build when an API key is set next to the gateway', async () => {
+    useGatewayWithoutBrowserKeys();
+    vi.stubEnv('VITE_OAI_KEY', 'sk-LEAKCHECK123');
+
+    await expect(buildApp(outDir)).rejects.toThrow('VITE_OAI_KEY');
+    expect(fs.existsSync(path.join(outDir, 'assets'))).toBe(false);
+  }, BUILD_TIMEOUT_MS);
+
+  it('should emit no API key when the keys are given to the gateway', async () => {
+    useGatewayWithoutBrowserKeys();
+    vi.stubEnv('OPENROUTER_API_KEY', 'or-LEAKCHECK456');
+
+    await buildApp(outDir);
+    const emittedJs = readEmittedJs(outDir);
+
+    expect(emittedJs).toContain('http://localhost:3001');
+    expect(emittedJs).not.toContain('LEAKCHECK');
+    expect(emittedJs).not.toMatch(/VITE_\w+_KEY:"[^"]/);
+  }, BUILD_TIMEOUT_MS);
+});
@@ -0,0 +1,51 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import gatewayApp from '../../server/brave-proxy.js';
+
+const listen = (server: http.Server): Promise<string> => new Promise(resolve => {
+  server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+});
+
+const close = (server: http.Server): Promise<void> => new Promise(resolve => server.close(() => resolve()));
+
+describe('Gateway server', () => {
+  let upstream: http.Server;
+  let gateway: http.Server;
+  let gatewayUrl: string;
+
+  beforeEach(async () => {
+    // Stands for a hosted API that is rate limiting
+    upstream = http.createServer((req, res) => {
+      res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '7' });
+      res.end(JSON.stringify({ error: 'Too many requests' }));
+    });
+    vi.stubEnv('OPENAI_COMPATIBLE_BASE_URL', await listen(upstream));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    gateway = http.createServer(gatewayApp);
+    gatewayUrl = await listen(gateway);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await close(gateway);
+    await close(upstream);
+  });
+
+  it('should forward Retry-After and expose it to the page', async () => {
+    const response = await fetch(`${gatewayUrl}/api/gateway/openai-compatible/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'http://localhost:5173' },
+      body: JSON.stringify({ model: 'test-model', messages: [] })
+    });
+    await response.text();
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('7');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('http://localhost:5173');
+    expect(response.headers.get('Access-Control-Expose-Headers')).toBe('Retry-After');
+  });
+});
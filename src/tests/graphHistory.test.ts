@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '../models/Node';
+import { Message } from '../context/ChatContext';
+import { createHistoryEntry, restoreHistoryEntry, pushBounded, HistoryEntry } from '../utils/historyUtils';
+
+const nodes: Node[] = [
+  { id: 'hero', name: 'Hero', longDescription: 'A brave hero', image: '', type: 'character', updateImage: true },
+  { id: 'tavern', name: 'Tavern', longDescription: 'A cozy tavern', image: 'https://example.com/t.png', type: 'location' }
+];
+
+const chatHistory: Message[] = [
+  { role: 'user', content: 'I enter the tavern' },
+  { role: 'assistant', content: 'The fire crackles.' }
+];
+
+describe('Graph History', () => {
+  it('should round-trip nodes and chat through a compressed entry', () => {
+    const entry = createHistoryEntry(nodes, chatHistory, 'LLM node edition', 'nodeEdition-123');
+
+    expect(entry.label).toBe('LLM node edition');
+    expect(entry.callId).toBe('nodeEdition-123');
+    expect(entry.nodeCount).toBe(2);
+
+    const restored = restoreHistoryEntry(entry);
+    expect(restored).not.toBeNull();
+    expect(restored!.chatHistory).toEqual(chatHistory);
+    expect(restored!.nodes[1]).toEqual(nodes[1]);
+  });
+
+  it('should strip the transient updateImage flag from snapshots', () => {
+    const restored = restoreHistoryEntry(createHistoryEntry(nodes, [], 'Add node'));
+    expect(restored!.nodes[0]).not.toHaveProperty('updateImage');
+  });
+
+  it('should return null for corrupted entries', () => {
+    const entry = createHistoryEntry(nodes, chatHistory, 'Delete node');
+    expect(restoreHistoryEntry({ ...entry, compressedNodes: 'garbage' })).toBeNull();
+  });
+
+  it('should drop the oldest entries beyond the limit', () => {
+    let stack: HistoryEntry[] = [];
+    for (let i = 0; i < 5; i++) {
+      stack = pushBounded(stack, createHistoryEntry([], [], `step ${i}`), 3);
+    }
+    expect(stack.map(entry => entry.label)).toEqual(['step 2', 'step 3', 'step 4']);
+  });
+});
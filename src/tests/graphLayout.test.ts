@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '../models/Node';
+import { deriveGraphEdges, computeForceLayout, getTouchedNodeIds } from '../utils/graphLayout';
+
+const makeNode = (id: string, name: string, type: string, longDescription = '', links?: Node['links']): Node => ({
+  id,
+  name,
+  longDescription,
+  image: '',
+  type,
+  links
+});
+
+describe('Graph Layout', () => {
+  describe('deriveGraphEdges', () => {
+    it('should create link edges from node links', () => {
+      const nodes = [
+        makeNode('hero', 'Hero', 'character', '', [{ targetId: 'sword', type: 'owns', label: 'left hand' }]),
+        makeNode('sword', 'Sword', 'item')
+      ];
+
+      expect(deriveGraphEdges(nodes)).toEqual([
+        { sourceId: 'hero', targetId: 'sword', kind: 'link', type: 'owns', label: 'left hand' }
+      ]);
+    });
+
+    it('should create mention edges from names in descriptions', () => {
+      const nodes = [
+        makeNode('hero', 'Aria', 'character', 'Aria drinks at the Old Tavern every night.'),
+        makeNode('tavern', 'Old Tavern', 'location', 'A smoky place.')
+      ];
+
+      expect(deriveGraphEdges(nodes)).toEqual([
+        { sourceId: 'hero', targetId: 'tavern', kind: 'mention' }
+      ]);
+    });
+
+    it('should not duplicate a link with a mention and should ignore dangling links', () => {
+      const nodes = [
+        makeNode('hero', 'Aria', 'character', 'Aria lives in the Old Tavern.', [
+          { targetId: 'tavern', type: 'located_in' },
+          { targetId: 'missing', type: 'owns' }
+        ]),
+        makeNode('tavern', 'Old Tavern', 'location', 'Aria rents a room here.')
+      ];
+
+      const edges = deriveGraphEdges(nodes);
+      expect(edges).toHaveLength(1);
+      expect(edges[0].kind).toBe('link');
+    });
+
+    it('should ignore very short names and partial word matches', () => {
+      const nodes = [
+        makeNode('ox', 'Ox', 'character', ''),
+        makeNode('ring', 'Ring', 'item', ''),
+        makeNode('hero', 'Hero', 'character', 'The box is on a shelf, bringing dust.')
+      ];
+
+      expect(deriveGraphEdges(nodes)).toEqual([]);
+    });
+  });
+
+  describe('computeForceLayout', () => {
+    const nodes = [
+      makeNode('a', 'A node', 'character'),
+      makeNode('b', 'B node', 'character'),
+      makeNode('c', 'C node', 'location'),
+      makeNode('d', 'D node', 'location')
+    ];
+
+    it('should place every node with finite coordinates', () => {
+      const positions = computeForceLayout(nodes, [], { width: 1000, height: 800, iterations: 50 });
+
+      expect(positions.size).toBe(4);
+      positions.forEach(position => {
+        expect(Number.isFinite(position.x)).toBe(true);
+        expect(Number.isFinite(position.y)).toBe(true);
+      });
+    });
+
+    it('should be deterministic', () => {
+      const edges = deriveGraphEdges(nodes);
+      const first = computeForceLayout(nodes, edges, { width: 1000, height: 800, iterations: 50 });
+      const second = computeForceLayout(nodes, edges, { width: 1000, height: 800, iterations: 50 });
+
+      expect(Array.from(first.entries())).toEqual(Array.from(second.entries()));
+    });
+
+    it('should keep nodes of the same type closer together than nodes of other types', () => {
+      const positions = computeForceLayout(nodes, [], { width: 1000, height: 800 });
+      const distance = (a: string, b: string) => {
+        const pa = positions.get(a)!;
+        const pb = positions.get(b)!;
+        return Math.hypot(pa.x - pb.x, pa.y - pb.y);
+      };
+
+      expect(distance('a', 'b')).toBeLessThan(distance('a', 'c'));
+      expect(distance('c', 'd')).toBeLessThan(distance('b', 'd'));
+    });
+  });
+
+  describe('getTouchedNodeIds', () => {
+    it('should collect new and updated node ids', () => {
+      const touched = getTouchedNodeIds({
+        n_nodes: [makeNode('new1', 'New', 'item')],
+        u_nodes: { old1: { img_upd: true } }
+      });
+
+      expect(Array.from(touched).sort()).toEqual(['new1', 'old1']);
+    });
+
+    it('should return an empty set without an edition', () => {
+      expect(getTouchedNodeIds(null).size).toBe(0);
+    });
+  });
+});
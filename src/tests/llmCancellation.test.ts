@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { getResponse, isAbortError } from '../services/llmCore';
+import { readLLMStreamText } from '../services/llmStreamParser';
+import { moxusService } from '../services/MoxusService';
+
+const findCall = (callType: string) => moxusService.getLLMLogEntries().find(call => call.callType === callType);
+
+// Rejects like fetch does once the request's signal is aborted
+const abortableFetch = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+  const abort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+  if (init.signal?.aborted) return abort();
+  init.signal?.addEventListener('abort', abort);
+}));
+
+describe('LLM call cancellation', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    abortableFetch.mockClear();
+  });
+
+  it('should stop a pending call without retrying and mark its record cancelled', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    vi.stubGlobal('fetch', abortableFetch);
+    const controller = new AbortController();
+
+    const pending = getResponse(
+      [{ role: 'user', content: 'Hello' }],
+      'test-model', undefined, false, { type: 'json_object' }, { skipMoxusFeedback: true, signal: controller.signal }, 'cancellation_test_pending'
+    );
+    await vi.waitFor(() => expect(abortableFetch).toHaveBeenCalled());
+    controller.abort();
+
+    const error = await pending.catch(caught => caught);
+    expect(isAbortError(error)).toBe(true);
+    expect(abortableFetch).toHaveBeenCalledTimes(1);
+    expect(findCall('cancellation_test_pending')?.status).toBe('cancelled');
+  });
+
+  it('should not send a request when the signal is already aborted', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    vi.stubGlobal('fetch', abortableFetch);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(getResponse(
+      [{ role: 'user', content: 'Hello' }],
+      'test-model', undefined, false, undefined, { skipMoxusFeedback: true, signal: controller.signal }, 'cancellation_test_aborted'
+    )).rejects.toMatchObject({ name: 'AbortError' });
+    expect(abortableFetch).not.toHaveBeenCalled();
+    expect(findCall('cancellation_test_aborted')?.status).toBe('cancelled');
+  });
+
+  it('should not pass the signal to the provider request body', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ choices: [{ message: { content: 'Hi' } }] })));
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+
+    const result = await getResponse(
+      [{ role: 'user', content: 'Hello' }],
+      'test-model', undefined, false, undefined, { skipMoxusFeedback: true, signal: controller.signal }, 'cancellation_test_completed'
+    );
+
+    expect(result.llmResult).toBe('Hi');
+    expect(fetchMock.mock.calls[0][1].signal).toBe(controller.signal);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).not.toHaveProperty('signal');
+  });
+
+  it('should only cancel running calls', () => {
+    moxusService.initiateLLMCallRecord('cancel-test-done', 'cancellation_test_done', 'test-model', 'prompt');
+    moxusService.finalizeLLMCallRecord('cancel-test-done', 'done');
+
+    moxusService.cancelLLMCallRecord('cancel-test-done');
+
+    expect(findCall('cancellation_test_done')?.status).toBe('completed');
+  });
+});
+
+describe('Streamed LLM call cancellation', () => {
+  // Sends one token, then keeps the stream open until the client goes away
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Once' } }] })}\n\n`);
+    });
+  });
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should stop reading the stream and keep the tokens received so far', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai-compatible');
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    const controller = new AbortController();
+    const tokens: string[] = [];
+
+    const result = await getResponse(
+      [{ role: 'user', content: 'Tell me a story' }],
+      'test-model', undefined, true, undefined, { signal: controller.signal }, 'cancellation_test_stream'
+    );
+    const reading = readLLMStreamText(result.streamResponse!, token => {
+      tokens.push(token);
+      controller.abort();
+    });
+
+    await expect(reading).rejects.toMatchObject({ name: 'AbortError' });
+    expect(tokens).toEqual(['Once']);
+  });
+});
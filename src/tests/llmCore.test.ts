@@ -80,7 +80,8 @@ describe('LLM Core - Interface and YAML Validation', () => {
         'generate_node_edition',
         'generate_nodes_from_prompt',
         'sort_nodes_by_relevance',
-        'refocus_story'
+        'refocus_story',
+        'repair_node_edition'
       ];
 
       expectedNodeOperationPrompts.forEach(promptKey => {
@@ -120,12 +121,13 @@ describe('LLM Core - Interface and YAML Validation', () => {
     it('should validate key placeholders exist in node operation prompts', () => {
       const promptPlaceholderMap = {
         get_relevant_nodes: ['{utils.wrappers.nodes_description}', '{utils.wrappers.string_history}'],
-        generate_chat_text: ['{utils.wrappers.user_input}', '{utils.wrappers.string_history}', '{utils.wrappers.nodes_description}', '{utils.wrappers.last_moxus_report_section}'],
-        generate_actions: ['{utils.wrappers.nodes_description}', '{utils.wrappers.formatted_chat_text}', '{utils.wrappers.user_input}', '{utils.wrappers.last_moxus_report_section}'],
-        generate_node_edition: ['{think_mode}', '{utils.wrappers.nodes_description}', '{utils.wrappers.formatted_chat_history}', '{utils.wrappers.user_input}', '{utils.wrappers.last_moxus_report_section}'],
+        generate_chat_text: ['{utils.wrappers.user_input}', '{utils.wrappers.string_history}', '{utils.wrappers.nodes_description}', '{utils.moxus_report_section}'],
+        generate_actions: ['{utils.wrappers.nodes_description}', '{utils.wrappers.formatted_chat_text}', '{utils.wrappers.user_input}', '{utils.moxus_report_section}'],
+        generate_node_edition: ['{think_mode}', '{utils.wrappers.nodes_description}', '{utils.wrappers.formatted_chat_history}', '{utils.wrappers.user_input}', '{utils.moxus_report_section}'],
         generate_nodes_from_prompt: ['{utils.wrappers.user_prompt}', '{utils.wrappers.nodes_description}', '{utils.wrappers.moxus_context_string}'],
-        sort_nodes_by_relevance: ['{utils.wrappers.string_history}', '{utils.wrappers.nodes_description}', '{utils.wrappers.last_moxus_report_section}'],
-        refocus_story: ['{utils.wrappers.past_chat_history}', '{utils.wrappers.nodes_description}']
+        sort_nodes_by_relevance: ['{utils.wrappers.string_history}', '{utils.wrappers.nodes_description}', '{utils.moxus_report_section}'],
+        refocus_story: ['{utils.wrappers.past_chat_history}', '{utils.wrappers.nodes_description}'],
+        repair_node_edition: ['{utils.wrappers.validation_errors}']
       };
 
       Object.entries(promptPlaceholderMap).forEach(([promptKey, placeholders]) => {
@@ -141,14 +143,14 @@ describe('LLM Core - Interface and YAML Validation', () => {
         moxus_feedback_on_chat_text_generation: [
           '{utils.wrappers.assistant_nodes_content}',
           '{utils.wrappers.current_general_memory}',
-          '{utils.wrappers.string_history}',
+          '{utils.wrappers.recent_chat_history}',
           '{utils.wrappers.generated_chat_text}',
           '{utils.wrappers.current_chat_text_memory}'
         ],
         moxus_feedback_on_node_edition_json: [
           '{utils.wrappers.assistant_nodes_content}',
           '{utils.wrappers.current_general_memory}',
-          '{utils.wrappers.string_history}',
+          '{utils.wrappers.recent_chat_history}',
           '{utils.wrappers.node_edition_response}',
           '{utils.wrappers.all_nodes_context}',
           '{utils.wrappers.current_node_edition_memory}'
@@ -366,7 +368,7 @@ describe('LLM Core - Interface and YAML Validation', () => {
       // This should work (the fix I implemented)
       expect(() => {
         const systemMessage = ActualPromptsYaml.utils.moxus_feedback_system_message;
-        formatPrompt(systemMessage, { moxus_llm_calls_memory_yaml: 'test' });
+        formatPrompt(systemMessage, { call_type: 'test', moxus_specialized_guidance: 'test' });
       }).not.toThrow();
       
       // Node operations should still work
@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { llmProviderRegistry } from '../services/llmProviderRegistry';
+import { resolveApiEndpoint } from '../services/llmGateway';
+import { buildClientEnv, findBundledApiKeys } from '../utils/clientEnv';
+import { makeContext } from './providerContext';
+
+describe('LLM Gateway', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should call hosted APIs directly with their key when no gateway is set', () => {
+    vi.stubEnv('VITE_LLM_GATEWAY_URL', '');
+    vi.stubEnv('VITE_OAI_KEY', 'sk-browser');
+
+    const request = llmProviderRegistry.get('openai')!.buildRequest(makeContext());
+
+    expect(request.url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(request.headers.Authorization).toBe('Bearer sk-browser');
+  });
+
+  it('should send hosted API calls to the gateway without keys', () => {
+    vi.stubEnv('VITE_LLM_GATEWAY_URL', 'http://localhost:3001/');
+    vi.stubEnv('VITE_OAI_KEY', 'sk-browser');
+    vi.stubEnv('VITE_ANTHROPIC_KEY', 'sk-ant-browser');
+
+    const openai = llmProviderRegistry.get('openai')!.buildRequest(makeContext({ stream: true }));
+    const anthropic = llmProviderRegistry.get('anthropic')!.buildRequest(makeContext());
+    const deepseek = llmProviderRegistry.get('deepseek')!.buildRequest(makeContext());
+
+    expect(openai.url).toBe('http://localhost:3001/api/gateway/openai/v1/chat/completions');
+    expect(openai.headers).toEqual({ 'Content-Type': 'application/json' });
+    expect(anthropic.url).toBe('http://localhost:3001/api/gateway/anthropic/v1/messages');
+    expect(anthropic.headers).not.toHaveProperty('x-api-key');
+    expect(anthropic.headers['anthropic-version']).toBeDefined();
+    expect(deepseek.url).toBe('http://localhost:3001/api/gateway/deepseek/chat/completions');
+  });
+
+  it('should keep local servers direct and use the gateway for an unset OpenAI-compatible endpoint', () => {
+    vi.stubEnv('VITE_LLM_GATEWAY_URL', 'http://localhost:3001');
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_BASE_URL', '');
+
+    expect(llmProviderRegistry.get('openai-compatible')!.buildRequest(makeContext()).url).toBe('http://localhost:3001/api/gateway/openai-compatible/chat/completions');
+
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_BASE_URL', 'http://localhost:1234/v1');
+    expect(llmProviderRegistry.get('openai-compatible')!.buildRequest(makeContext()).url).toBe('http://localhost:1234/v1/chat/completions');
+    expect(llmProviderRegistry.get('ollama')!.buildRequest(makeContext()).url).toBe('http://localhost:11434/api/chat');
+  });
+
+  it('should only build direct auth headers when they are sent', () => {
+    const directHeaders = vi.fn(() => ({ Authorization: 'Bearer key' }));
+    vi.stubEnv('VITE_LLM_GATEWAY_URL', 'http://localhost:3001');
+
+    expect(resolveApiEndpoint('novelai', 'https://image.novelai.net', '/ai/generate-image', directHeaders))
+      .toEqual({ url: 'http://localhost:3001/api/gateway/novelai/ai/generate-image', headers: {} });
+    expect(directHeaders).not.toHaveBeenCalled();
+  });
+
+  it('should leave every API key out of the client env and refuse keys next to a gateway', () => {
+    const env = { VITE_LLM_API: 'openai', VITE_OAI_KEY: 'sk-browser', VITE_NAI_KEY: 'nai-browser', VITE_BRAVE_API_KEY: '', VITE_OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:1234/v1' };
+
+    expect(buildClientEnv(env)).toMatchObject({ VITE_OAI_KEY: 'sk-browser' });
+    expect(findBundledApiKeys(env)).toEqual([]);
+
+    const gatewayEnv = { ...env, VITE_LLM_GATEWAY_URL: 'http://localhost:3001' };
+    expect(Object.keys(buildClientEnv(gatewayEnv)).filter(name => name.endsWith('_KEY'))).toEqual([]);
+    expect(buildClientEnv(gatewayEnv)).toMatchObject({ VITE_LLM_API: 'openai', VITE_OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:1234/v1' });
+    expect(findBundledApiKeys({ ...gatewayEnv, OPENAI_API_KEY: 'sk-server' })).toEqual(['VITE_NAI_KEY', 'VITE_OAI_KEY']);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { llmProviderRegistry, LLMProvider } from '../services/llmProviderRegistry';
+import { stripJsonCodeFence } from '../services/llmProviders';
+import { makeContext } from './providerContext';
+
+describe('LLM Provider Registry', () => {
+  afterEach(() => {
+    llmProviderRegistry.unregister('custom');
+  });
+
+  it('should register the built-in providers', () => {
+    expect(llmProviderRegistry.list().map(provider => provider.id)).toEqual(['openai', 'openrouter', 'koboldcpp', 'deepseek', 'openai-compatible', 'ollama', 'anthropic']);
+    expect(llmProviderRegistry.get('koboldcpp')!.capabilities).toMatchObject({ chatMessages: false, grammar: true });
+    expect(llmProviderRegistry.get('unknown')).toBeUndefined();
+    expect(llmProviderRegistry.get(undefined)).toBeUndefined();
+  });
+
+  it('should register custom providers', () => {
+    const custom: LLMProvider = {
+      id: 'custom',
+      name: 'Custom',
+      capabilities: { chatMessages: true, jsonMode: false, reasoning: false, grammar: false, streaming: false },
+      buildRequest: ({ messages }) => ({ url: 'http://localhost/generate', headers: {}, body: { messages } }),
+      parseResponse: (data) => data.text,
+      parseStreamChunk: () => null
+    };
+
+    llmProviderRegistry.register(custom);
+
+    expect(llmProviderRegistry.get('custom')).toBe(custom);
+    expect(llmProviderRegistry.unregister('custom')).toBe(true);
+    expect(llmProviderRegistry.get('custom')).toBeUndefined();
+  });
+});
+
+describe('Built-in LLM Providers', () => {
+  it('should build an OpenAI request with the task options', () => {
+    const request = llmProviderRegistry.get('openai')!.buildRequest(makeContext({
+      options: { temperature: 0.5, max_tokens: 100 },
+      responseFormat: { type: 'json_object' }
+    }));
+
+    expect(request.url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(request.body).toMatchObject({ model: 'test-model', temperature: 0.5, max_tokens: 100, frequency_penalty: 0, response_format: { type: 'json_object' } });
+    expect(request.body).not.toHaveProperty('top_p');
+  });
+
+  it('should wrap OpenRouter message contents in text parts', () => {
+    const request = llmProviderRegistry.get('openrouter')!.buildRequest(makeContext({ stream: true }));
+
+    expect(request.body.messages[1]).toEqual({ role: 'user', content: [{ type: 'text', text: 'Hello' }] });
+    expect(request.body).toMatchObject({ model: 'test-model', stream: true, temperature: 0.6 });
+  });
+
+  it('should flatten messages into a KoboldCPP prompt with the grammar', () => {
+    const request = llmProviderRegistry.get('koboldcpp')!.buildRequest(makeContext({ grammar: 'root ::= "yes"', options: { presence_penalty: 1.2 } }));
+
+    expect(request.body.prompt).toBe('system: You are a narrator.\nuser: Hello');
+    expect(request.body).toMatchObject({ grammar: 'root ::= "yes"', rep_pen: 1.2, max_length: 768 });
+  });
+
+  it('should not send json_object to deepseek-reasoner', () => {
+    const deepseek = llmProviderRegistry.get('deepseek')!;
+
+    expect(deepseek.buildRequest(makeContext({ model: 'deepseek-reasoner', responseFormat: { type: 'json_object' } })).body).not.toHaveProperty('response_format');
+    expect(deepseek.buildRequest(makeContext({ model: 'deepseek-chat', responseFormat: { type: 'json_object' } })).body.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('should extract content and strip JSON fences', () => {
+    const data = { choices: [{ message: { content: '```json\n{"a": 1}\n```' } }] };
+    const jsonContext = makeContext({ responseFormat: { type: 'json_object' } });
+
+    expect(llmProviderRegistry.get('openai')!.parseResponse(data, jsonContext)).toBe('```json\n{"a": 1}\n```');
+    expect(llmProviderRegistry.get('deepseek')!.parseResponse(data, jsonContext)).toBe('{"a": 1}');
+    expect(llmProviderRegistry.get('openrouter')!.parseResponse(data, jsonContext)).toBe('{"a": 1}');
+    expect(llmProviderRegistry.get('koboldcpp')!.parseResponse({ results: [{ text: 'Once upon a time' }] }, makeContext())).toBe('Once upon a time');
+    expect(stripJsonCodeFence('```json\n[1]```')).toBe('[1]');
+  });
+
+  it('should strip reasoning from OpenRouter JSON text when reasoning is disabled', () => {
+    const data = { choices: [{ message: { content: '{"reasoning": "hmm", "answer": 42}' } }] };
+
+    expect(llmProviderRegistry.get('openrouter')!.parseResponse(data, makeContext({ includeReasoning: false }))).toBe('{"answer":42}');
+  });
+
+  it('should throw on unexpected response structures', () => {
+    expect(() => llmProviderRegistry.get('openai')!.parseResponse({ choices: [] }, makeContext())).toThrow('Invalid OpenAI response structure');
+    expect(() => llmProviderRegistry.get('koboldcpp')!.parseResponse({}, makeContext())).toThrow('Invalid KoboldCPP response structure');
+  });
+
+  it('should parse stream lines', () => {
+    const openai = llmProviderRegistry.get('openai')!;
+    const kobold = llmProviderRegistry.get('koboldcpp')!;
+
+    expect(openai.parseStreamChunk('data: {"choices":[{"delta":{"content":"Hi"}}]}')).toEqual({ content: 'Hi', reasoning: undefined, done: false });
+    expect(openai.parseStreamChunk('data: [DONE]')).toEqual({ content: '', done: true });
+    expect(openai.parseStreamChunk(': keep-alive')).toBeNull();
+    expect(kobold.parseStreamChunk('event: message')).toBeNull();
+    expect(kobold.parseStreamChunk('data: {"token": "Hi", "finish_reason": null}')).toEqual({ content: 'Hi', done: false });
+  });
+});
+
+describe('Local LLM Providers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should send OpenAI-compatible requests to the configured base URL and auth header', () => {
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_BASE_URL', 'http://localhost:1234/v1/');
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_KEY', 'secret');
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_AUTH_HEADER', 'X-Api-Key');
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_MODELS', 'llama-3, mistral');
+
+    const request = llmProviderRegistry.get('openai-compatible')!.buildRequest(makeContext({ model: undefined, responseFormat: { type: 'json_object' } }));
+
+    expect(request.url).toBe('http://localhost:1234/v1/chat/completions');
+    expect(request.headers['X-Api-Key']).toBe('secret');
+    expect(request.headers).not.toHaveProperty('Authorization');
+    expect(request.body).toMatchObject({ model: 'llama-3', response_format: { type: 'json_object' } });
+  });
+
+  it('should fail clearly when the OpenAI-compatible endpoint is not configured', () => {
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_BASE_URL', '');
+
+    expect(() => llmProviderRegistry.get('openai-compatible')!.buildRequest(makeContext())).toThrow('VITE_OPENAI_COMPATIBLE_BASE_URL');
+  });
+
+  it('should list OpenAI-compatible models from the configuration or the server', async () => {
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_BASE_URL', 'http://localhost:1234/v1');
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_MODELS', '');
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ data: [{ id: 'qwen' }, { id: 'phi' }] }) });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(llmProviderRegistry.get('openai-compatible')!.listModels!()).resolves.toEqual(['qwen', 'phi']);
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:1234/v1/models', expect.anything());
+
+    vi.stubEnv('VITE_OPENAI_COMPATIBLE_MODELS', 'a,b');
+    await expect(llmProviderRegistry.get('openai-compatible')!.listModels!()).resolves.toEqual(['a', 'b']);
+  });
+
+  it('should build native Ollama chat requests with JSON format and options', () => {
+    vi.stubEnv('VITE_OLLAMA_BASE_URL', 'http://gpu-box:11434');
+
+    const request = llmProviderRegistry.get('ollama')!.buildRequest(makeContext({
+      model: 'qwen3:14b',
+      stream: true,
+      responseFormat: { type: 'json_object' },
+      options: { temperature: 0.7, max_tokens: 500 }
+    }));
+
+    expect(request.url).toBe('http://gpu-box:11434/api/chat');
+    expect(request.body).toEqual({
+      model: 'qwen3:14b',
+      messages: [{ role: 'system', content: 'You are a narrator.' }, { role: 'user', content: 'Hello' }],
+      stream: true,
+      options: { temperature: 0.7, num_predict: 500 },
+      format: 'json'
+    });
+  });
+
+  it('should parse Ollama responses and newline-delimited stream chunks', () => {
+    const ollama = llmProviderRegistry.get('ollama')!;
+
+    expect(ollama.parseResponse({ message: { role: 'assistant', content: 'Hi' }, done: true }, makeContext())).toBe('Hi');
+    expect(() => ollama.parseResponse({ error: 'model not found' }, makeContext())).toThrow('Invalid Ollama response structure');
+    expect(ollama.parseStreamChunk('{"message":{"content":"Hel"},"done":false}')).toEqual({ content: 'Hel', reasoning: undefined, done: false });
+    expect(ollama.parseStreamChunk('{"message":{"content":""},"done":true}')).toMatchObject({ done: true });
+    expect(ollama.parseStreamChunk('')).toBeNull();
+  });
+
+  it('should list Ollama models from the tags endpoint', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => ({ models: [{ name: 'llama3:8b' }] }) }));
+
+    await expect(llmProviderRegistry.get('ollama')!.listModels!()).resolves.toEqual(['llama3:8b']);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { parseRetryAfter, classifyHttpError } from '../services/llmErrors';
+import { getResponse } from '../services/llmCore';
+import { moxusService } from '../services/MoxusService';
+
+vi.mock('../services/modelTasksConfigService', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../services/modelTasksConfigService')>();
+  return {
+    ...original,
+    getFallbackModels: async (promptName: string) => promptName.startsWith('retry_test_fallback') ? ['backup-model'] : []
+  };
+});
+
+const findCall = (callType: string) => moxusService.getLLMLogEntries().find(call => call.callType === callType);
+
+const errorResponse = (status: number, body: string, headers: Record<string, string> = {}) =>
+  new Response(body, { status, statusText: 'Error', headers });
+
+const okResponse = () => new Response(JSON.stringify({ choices: [{ message: { content: 'Hi' } }] }));
+
+const sentModel = (fetchMock: ReturnType<typeof vi.fn>, index: number) => JSON.parse(fetchMock.mock.calls[index][1].body).model;
+
+describe('LLM Error Classification', () => {
+  it('should parse Retry-After in seconds or as a date', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it('should classify HTTP failures', () => {
+    expect(classifyHttpError(400, '{"error":{"code":"context_length_exceeded"}}')).toEqual({ kind: 'context_overflow', retryable: false, fallback: true });
+    expect(classifyHttpError(401, 'Invalid API key')).toEqual({ kind: 'auth', retryable: false, fallback: false });
+    expect(classifyHttpError(404, 'Unknown model')).toEqual({ kind: 'bad_request', retryable: false, fallback: true });
+    expect(classifyHttpError(503, 'Overloaded', '2')).toEqual({ kind: 'server', retryable: true, fallback: true, retryAfterMs: 2000 });
+    expect(classifyHttpError(429, 'Slow down')).toEqual({ kind: 'rate_limit', retryable: true, fallback: true, retryAfterMs: undefined });
+  });
+
+  it('should fail over instead of waiting when Retry-After is too long', () => {
+    expect(classifyHttpError(429, 'Quota exceeded', '3600')).toMatchObject({ kind: 'rate_limit', retryable: false, fallback: true, retryAfterMs: undefined });
+  });
+});
+
+describe('getResponse retry and fallback policy', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  const call = (callType: string) => getResponse(
+    [{ role: 'user', content: 'Hello' }], 'main-model', undefined, false, undefined, { skipMoxusFeedback: true }, callType
+  );
+
+  it('should not retry a bad request', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse(400, 'Unsupported parameter'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const error = await call('retry_test_bad_request').catch(caught => caught);
+
+    expect(error).toMatchObject({ name: 'LLMRequestError', kind: 'bad_request', status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(findCall('retry_test_bad_request')).toMatchObject({ status: 'failed', attempts: [{ model: 'main-model', errorKind: 'bad_request', status: 400 }] });
+  });
+
+  it('should complete a call that succeeds after a retry', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(errorResponse(503, 'Overloaded', { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(okResponse());
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await call('retry_test_server_error');
+
+    expect(result.llmResult).toBe('Hi');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(findCall('retry_test_server_error')).toMatchObject({ status: 'completed', response: 'Hi', attempts: [{ errorKind: 'server' }] });
+  });
+
+  it('should switch to the fallback model when the model cannot serve the request', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(errorResponse(400, 'This model\'s maximum context length is 8192 tokens'))
+      .mockResolvedValueOnce(okResponse());
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await call('retry_test_fallback_overflow');
+
+    expect(result.llmResult).toBe('Hi');
+    expect([sentModel(fetchMock, 0), sentModel(fetchMock, 1)]).toEqual(['main-model', 'backup-model']);
+    expect(findCall('retry_test_fallback_overflow')).toMatchObject({ status: 'completed', modelUsed: 'backup-model' });
+  });
+
+  it('should not fall back on authentication errors', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse(401, 'Invalid API key'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(call('retry_test_fallback_auth')).rejects.toMatchObject({ kind: 'auth' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
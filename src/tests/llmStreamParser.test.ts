@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { llmProviderRegistry } from '../services/llmProviderRegistry';
+import { parseLLMStream, readLLMStreamText } from '../services/llmStreamParser';
+
+// A streamed Response delivering the given pieces as separate network chunks
+const makeStreamResponse = (pieces: string[], onCancel?: () => void): Response => {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new Response(new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < pieces.length) {
+        controller.enqueue(encoder.encode(pieces[index++]));
+      } else {
+        controller.close();
+      }
+    },
+    cancel() {
+      onCancel?.();
+    }
+  }));
+};
+
+const openaiLine = (delta: any) => `data: ${JSON.stringify({ choices: [{ delta }] })}\n\n`;
+
+describe('LLM Stream Parser', () => {
+  const openai = llmProviderRegistry.get('openai')!;
+
+  it('should join OpenAI-style tokens split across chunk boundaries and stop at [DONE]', async () => {
+    const stream = openaiLine({ content: 'Once' }) + openaiLine({ content: ' upon' }) + 'data: [DONE]\n\n' + openaiLine({ content: ' ignored' });
+    const onToken = vi.fn();
+
+    const result = await readLLMStreamText(makeStreamResponse([stream.slice(0, 30), stream.slice(30, 55), stream.slice(55)]), onToken, openai);
+
+    expect(result.text).toBe('Once upon');
+    expect(onToken.mock.calls.map(call => call[0])).toEqual(['Once', ' upon']);
+  });
+
+  it('should keep multi-byte characters split across chunks intact', async () => {
+    const bytes = new TextEncoder().encode(openaiLine({ content: 'café ☕' }));
+    const response = new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 43));
+        controller.enqueue(bytes.slice(43));
+        controller.close();
+      }
+    }));
+
+    expect((await readLLMStreamText(response, undefined, openai)).text).toBe('café ☕');
+  });
+
+  it('should separate reasoning deltas from content tokens', async () => {
+    const response = makeStreamResponse([
+      openaiLine({ reasoning: 'The user wants a story.' }),
+      openaiLine({ reasoning_content: ' Keep it short.' }),
+      openaiLine({ content: 'The end.' }),
+      'data: [DONE]\n'
+    ]);
+
+    const result = await readLLMStreamText(response, undefined, openai);
+
+    expect(result).toEqual({ text: 'The end.', reasoning: 'The user wants a story. Keep it short.' });
+  });
+
+  it('should parse KoboldCPP token events with CRLF line endings', async () => {
+    const response = makeStreamResponse([
+      'event: message\r\ndata: {"token": "Hello", "finish_reason": null}\r\n\r\n',
+      'event: message\r\ndata: {"token": " there", "finish_reason": "stop"}\r\n\r\n'
+    ]);
+
+    expect((await readLLMStreamText(response, undefined, llmProviderRegistry.get('koboldcpp'))).text).toBe('Hello there');
+  });
+
+  it('should flush a last line without a trailing newline', async () => {
+    const response = makeStreamResponse(['{"message":{"content":"Hi"},"done":false}\n{"message":{"content":"!"},"done":true}']);
+
+    expect((await readLLMStreamText(response, undefined, llmProviderRegistry.get('ollama'))).text).toBe('Hi!');
+  });
+
+  it('should cancel the stream once the provider signals the end', async () => {
+    const onCancel = vi.fn();
+    const response = makeStreamResponse(['data: [DONE]\n', openaiLine({ content: 'late' }), openaiLine({ content: 'later' })], onCancel);
+
+    const chunks = [];
+    for await (const chunk of parseLLMStream(response, openai)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([]);
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('should reject streams without a registered provider', async () => {
+    vi.stubEnv('VITE_LLM_API', 'nope');
+
+    await expect(readLLMStreamText(makeStreamResponse([]))).rejects.toThrow('no LLM provider registered for "nope"');
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { llmProviderRegistry } from '../services/llmProviderRegistry';
+import { readLLMStreamText } from '../services/llmStreamParser';
+import { llmUsageService } from '../services/llmUsageService';
+import { getResponse } from '../services/llmCore';
+import { moxusService } from '../services/MoxusService';
+
+const makeStreamResponse = (text: string): Response => new Response(new ReadableStream<Uint8Array>({
+  start(controller) {
+    controller.enqueue(new TextEncoder().encode(text));
+    controller.close();
+  }
+}));
+
+describe('LLM Usage Parsing', () => {
+  it('should read the usage of non-streamed responses', () => {
+    expect(llmProviderRegistry.get('openai')!.parseUsage!({ usage: { prompt_tokens: 120, completion_tokens: 30 } })).toEqual({ promptTokens: 120, completionTokens: 30 });
+    expect(llmProviderRegistry.get('ollama')!.parseUsage!({ prompt_eval_count: 80, eval_count: 12 })).toEqual({ promptTokens: 80, completionTokens: 12 });
+    expect(llmProviderRegistry.get('anthropic')!.parseUsage!({ usage: { input_tokens: 50, output_tokens: 7 } })).toEqual({ promptTokens: 50, completionTokens: 7 });
+    expect(llmProviderRegistry.get('openai')!.parseUsage!({ choices: [] })).toBeNull();
+    expect(llmProviderRegistry.get('koboldcpp')!.parseUsage).toBeUndefined();
+  });
+
+  it('should ask OpenAI for usage in streams', () => {
+    vi.stubEnv('VITE_OAI_KEY', 'sk-test');
+    const request = llmProviderRegistry.get('openai')!.buildRequest({ messages: [{ role: 'user', content: 'Hi' }], model: 'gpt-4o', stream: true, options: {}, includeReasoning: false });
+
+    expect(request.body.stream_options).toEqual({ include_usage: true });
+    vi.unstubAllEnvs();
+  });
+
+  it('should return the usage chunk sent before [DONE] with the stream text', async () => {
+    const stream = `data: ${JSON.stringify({ choices: [{ delta: { content: 'Hello' } }] })}\n\n`
+      + `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 2 } })}\n\n`
+      + 'data: [DONE]\n\n';
+
+    const result = await readLLMStreamText(makeStreamResponse(stream), undefined, llmProviderRegistry.get('openai'));
+
+    expect(result.text).toBe('Hello');
+    expect(result.usage).toEqual({ promptTokens: 10, completionTokens: 2 });
+  });
+
+  it('should merge the Anthropic counts split across stream events', async () => {
+    const event = (data: any) => `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+    const stream = event({ type: 'message_start', message: { usage: { input_tokens: 25, output_tokens: 1 } } })
+      + event({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi' } })
+      + event({ type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 4 } })
+      + event({ type: 'message_stop' });
+
+    const result = await readLLMStreamText(makeStreamResponse(stream), undefined, llmProviderRegistry.get('anthropic'));
+
+    expect(result).toEqual({ text: 'Hi', reasoning: '', usage: { promptTokens: 25, completionTokens: 4 } });
+  });
+});
+
+describe('LLM Usage Service', () => {
+  beforeEach(() => {
+    llmUsageService.clear();
+  });
+
+  it('should match prices by the longest model prefix, ignoring provider prefixes', () => {
+    expect(llmUsageService.getPrice('gpt-4o-mini-2024-07-18')?.model).toBe('gpt-4o-mini');
+    expect(llmUsageService.getPrice('openai/gpt-4o')?.model).toBe('gpt-4o');
+    expect(llmUsageService.getPrice('llama3:8b')).toBeNull();
+    expect(llmUsageService.computeCost('gpt-4o', 1000000, 100000)).toBeCloseTo(3.5);
+    expect(llmUsageService.computeCost('llama3:8b', 1000, 1000)).toBeNull();
+  });
+
+  it('should prefer reported usage and estimate it otherwise', () => {
+    llmUsageService.beginCall('usage-reported', { callType: 'chat_text_generation', model: 'gpt-4o', promptText: 'x'.repeat(400) });
+    llmUsageService.beginCall('usage-estimated', { callType: 'action_generation', model: 'llama3', promptText: 'x'.repeat(400) });
+
+    const reported = llmUsageService.completeCall('usage-reported', 'Hello', { promptTokens: 90, completionTokens: 3 });
+    const estimated = llmUsageService.completeCall('usage-estimated', 'y'.repeat(40));
+
+    expect(reported).toMatchObject({ promptTokens: 90, completionTokens: 3, estimated: false });
+    expect(reported!.cost).toBeCloseTo((90 * 2.5 + 3 * 10) / 1000000);
+    expect(estimated).toEqual({ model: 'llama3', promptTokens: 100, completionTokens: 10, estimated: true, cost: null });
+    expect(llmUsageService.completeCall('usage-estimated', 'again')).toBeNull();
+    expect(JSON.parse(localStorage.getItem('llmUsageRecords')!)).toHaveLength(2);
+  });
+
+  it('should aggregate records per turn, call type and session', () => {
+    const record = (callId: string, callType: string, promptTokens: number) => {
+      llmUsageService.beginCall(callId, { callType, model: 'gpt-4o', promptText: '' });
+      llmUsageService.completeCall(callId, '', { promptTokens, completionTokens: 0 });
+    };
+    llmUsageService.startTurn('I open the door');
+    record('turn-1-chat', 'chat_text_generation', 100);
+    record('turn-1-actions', 'action_generation', 50);
+    llmUsageService.startTurn('I walk in');
+    record('turn-2-chat', 'chat_text_generation', 300);
+
+    const records = llmUsageService.getSessionRecords();
+    const turns = llmUsageService.groupBy(records, 'turn');
+    const callTypes = llmUsageService.groupBy(records, 'callType');
+
+    expect(turns.map(turn => [turn.label, turn.totals.promptTokens])).toEqual([['I open the door', 150], ['I walk in', 300]]);
+    expect(callTypes.map(group => [group.key, group.totals.calls])).toEqual([['chat_text_generation', 2], ['action_generation', 1]]);
+    expect(llmUsageService.summarize(records)).toMatchObject({ calls: 3, promptTokens: 450, unpricedCalls: 0, estimatedCalls: 0 });
+  });
+});
+
+describe('LLM usage through getResponse', () => {
+  beforeEach(() => {
+    llmUsageService.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should record the reported usage on the usage records and the call log', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      model: 'gpt-4o-mini-2024-07-18',
+      choices: [{ message: { content: 'Hi' } }],
+      usage: { prompt_tokens: 42, completion_tokens: 1 }
+    }))));
+
+    const result = await getResponse([{ role: 'user', content: 'Hello' }], 'gpt-4o-mini', undefined, false, undefined, { skipMoxusFeedback: true }, 'usage_test_call');
+
+    const [record] = llmUsageService.getRecords();
+    expect(record).toMatchObject({ callId: result.callId, callType: 'usage_test_call', model: 'gpt-4o-mini', promptTokens: 42, completionTokens: 1, estimated: false });
+    expect(moxusService.getLLMLogEntries().find(call => call.id === result.callId)?.usage).toMatchObject({ promptTokens: 42, completionTokens: 1 });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  getLLMOptions,
+  getModelOverride,
+  getModelTasksConfig,
+  hasRuntimeConfig,
+  saveRuntimeConfig,
+  resetRuntimeConfig,
+  modelTasksConfigToYaml,
+  parseModelTasksConfigYaml
+} from '../services/modelTasksConfigService';
+import { getResponse } from '../services/llmCore';
+import { readLLMStreamText } from '../services/llmStreamParser';
+
+describe('Runtime Model Tasks Config', () => {
+  afterEach(() => {
+    resetRuntimeConfig();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should use modelsTasks.yaml until a runtime config is saved', async () => {
+    expect(hasRuntimeConfig()).toBe(false);
+    expect(await getLLMOptions('node_edition_json')).toMatchObject({ temperature: 0.1 });
+
+    saveRuntimeConfig({ modelsTasks: [{ promptName: 'node_edition_json', model: 'edit-model', temperature: 0.4 }] });
+
+    expect(hasRuntimeConfig()).toBe(true);
+    expect(await getLLMOptions('node_edition_json')).toEqual({ temperature: 0.4 });
+    expect(await getModelOverride('node_edition_json')).toBe('edit-model');
+    expect(await getLLMOptions('chat_text_generation')).toEqual({});
+  });
+
+  it('should go back to modelsTasks.yaml on reset', async () => {
+    saveRuntimeConfig({ modelsTasks: [] });
+    resetRuntimeConfig();
+
+    expect(hasRuntimeConfig()).toBe(false);
+    expect(await getLLMOptions('chat_text_generation')).toMatchObject({ temperature: 1.5 });
+  });
+
+  it('should round-trip a config through YAML', () => {
+    const config = {
+      provider: 'ollama',
+      modelsTasks: [{ promptName: 'chat_text_generation', model: 'llama3', max_tokens: 800, fallback_models: ['mistral'] }]
+    };
+
+    expect(parseModelTasksConfigYaml(modelTasksConfigToYaml(config))).toEqual(config);
+  });
+
+  it('should reject invalid fields with their path', () => {
+    expect(() => parseModelTasksConfigYaml('modelsTasks:\n  - promptName: chat_text_generation\n    temperature: hot\n'))
+      .toThrow('modelsTasks[0].temperature must be a number');
+    expect(() => parseModelTasksConfigYaml('modelsTasks:\n  - model: gpt-4o\n')).toThrow('modelsTasks[0].promptName is required');
+    expect(() => saveRuntimeConfig({ modelsTasks: [{ promptName: 'a' }, { promptName: 'a' }] })).toThrow(/listed twice/);
+    expect(hasRuntimeConfig()).toBe(false);
+  });
+
+  it('should drop empty values and unknown keys', () => {
+    expect(parseModelTasksConfigYaml('modelsTasks:\n  - promptName: action_generation\n    model: ""\n    fallback_models: []\n    seed: 4\n'))
+      .toEqual({ modelsTasks: [{ promptName: 'action_generation' }] });
+  });
+
+  it('should send a task to its configured provider', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ message: { content: 'Hi' } })));
+    vi.stubGlobal('fetch', fetchMock);
+    saveRuntimeConfig({ modelsTasks: [{ promptName: 'config_test_provider', provider: 'ollama', model: 'llama3' }] });
+
+    const result = await getResponse([{ role: 'user', content: 'Hello' }], undefined, undefined, false, undefined, { skipMoxusFeedback: true }, 'config_test_provider');
+
+    expect(result.llmResult).toBe('Hi');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).model).toBe('llama3');
+  });
+
+  it('should parse a stream with the provider that produced it', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    const lines = '{"message":{"content":"Hel"},"done":false}\n{"message":{"content":"lo"},"done":true}\n';
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(lines)));
+    saveRuntimeConfig({ provider: 'ollama', modelsTasks: [{ promptName: 'config_test_stream', model: 'llama3' }] });
+
+    const result = await getResponse([{ role: 'user', content: 'Hello' }], undefined, undefined, true, undefined, { skipMoxusFeedback: true }, 'config_test_stream');
+
+    expect((await readLLMStreamText(result.streamResponse as Response)).text).toBe('Hello');
+    expect((await getModelTasksConfig()).provider).toBe('ollama');
+  });
+});
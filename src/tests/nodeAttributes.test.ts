@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sanitizeAttribute,
+  sanitizeAttributes,
+  applyAttributeOperation,
+  formatAttributesForPrompt,
+  NodeAttributes
+} from '../utils/attributeUtils';
+
+const baseAttributes: NodeAttributes = {
+  hp: { type: 'number', value: 12, min: 0, max: 20 },
+  gold: { type: 'number', value: 5 },
+  mood: { type: 'string', value: 'calm' },
+  inventory: { type: 'list', value: ['rope', 'potion', 'potion'] }
+};
+
+describe('Node Attributes', () => {
+  describe('sanitizeAttribute', () => {
+    it('should infer the type of bare values', () => {
+      expect(sanitizeAttribute(3)).toEqual({ type: 'number', value: 3 });
+      expect(sanitizeAttribute(true)).toEqual({ type: 'boolean', value: true });
+      expect(sanitizeAttribute('brave')).toEqual({ type: 'string', value: 'brave' });
+      expect(sanitizeAttribute(['a', 2])).toEqual({ type: 'list', value: ['a', '2'] });
+    });
+
+    it('should coerce and clamp full definitions', () => {
+      expect(sanitizeAttribute({ type: 'number', value: '25', min: 0, max: 20 })).toEqual({ type: 'number', value: 20, min: 0, max: 20 });
+      expect(sanitizeAttribute({ type: 'boolean', value: 'false' })).toEqual({ type: 'boolean', value: false });
+    });
+
+    it('should reject values that cannot be understood', () => {
+      expect(sanitizeAttribute(null)).toBeNull();
+      expect(sanitizeAttribute({ type: 'number', value: 'many' })).toBeNull();
+      expect(sanitizeAttribute({ foo: 'bar' })).toBeNull();
+    });
+  });
+
+  describe('sanitizeAttributes', () => {
+    it('should drop invalid entries and blank keys', () => {
+      const result = sanitizeAttributes({ hp: 10, '  ': 3, broken: { type: 'number', value: 'x' } });
+      expect(result).toEqual({ hp: { type: 'number', value: 10 } });
+    });
+
+    it('should return an empty map for non-objects', () => {
+      expect(sanitizeAttributes([1, 2])).toEqual({});
+      expect(sanitizeAttributes('hp')).toEqual({});
+    });
+  });
+
+  describe('applyAttributeOperation', () => {
+    it('should increment numbers within bounds', () => {
+      const damaged = applyAttributeOperation(baseAttributes, 'hp', { inc: -15 });
+      expect(damaged.error).toBeUndefined();
+      expect(damaged.attributes.hp.value).toBe(0);
+
+      const healed = applyAttributeOperation(baseAttributes, 'hp', { inc: 30 });
+      expect(healed.attributes.hp.value).toBe(20);
+      expect(baseAttributes.hp.value).toBe(12);
+    });
+
+    it('should create a number attribute when incrementing a missing key', () => {
+      const result = applyAttributeOperation(baseAttributes, 'xp', { inc: 5 });
+      expect(result.attributes.xp).toEqual({ type: 'number', value: 5 });
+    });
+
+    it('should replace values while keeping type and bounds', () => {
+      const result = applyAttributeOperation(baseAttributes, 'hp', { rpl: '50' });
+      expect(result.attributes.hp).toEqual({ type: 'number', value: 20, min: 0, max: 20 });
+    });
+
+    it('should define, redefine and remove attributes with rpl', () => {
+      const defined = applyAttributeOperation(baseAttributes, 'mana', { rpl: { type: 'number', value: 10, min: 0, max: 10 } });
+      expect(defined.attributes.mana).toEqual({ type: 'number', value: 10, min: 0, max: 10 });
+
+      const removed = applyAttributeOperation(baseAttributes, 'mood', { rpl: null });
+      expect(removed.attributes.mood).toBeUndefined();
+    });
+
+    it('should add to and remove single occurrences from lists', () => {
+      const result = applyAttributeOperation(baseAttributes, 'inventory', { add: ['torch'], rmv: ['Potion', 'lantern'] });
+      expect(result.attributes.inventory.value).toEqual(['rope', 'potion', 'torch']);
+    });
+
+    it('should report operations that do not fit the attribute type', () => {
+      const incOnString = applyAttributeOperation(baseAttributes, 'mood', { inc: 1 });
+      expect(incOnString.error).toBeDefined();
+      expect(incOnString.attributes).toBe(baseAttributes);
+
+      const addOnNumber = applyAttributeOperation(baseAttributes, 'gold', { add: ['coin'] });
+      expect(addOnNumber.error).toBeDefined();
+
+      const invalidValue = applyAttributeOperation(baseAttributes, 'gold', { rpl: 'lots' });
+      expect(invalidValue.error).toBeDefined();
+    });
+  });
+
+  describe('formatAttributesForPrompt', () => {
+    it('should format attributes on one line', () => {
+      expect(formatAttributesForPrompt(baseAttributes)).toBe('hp: 12 (0-20), gold: 5, mood: calm, inventory: rope, potion, potion');
+      expect(formatAttributesForPrompt(undefined)).toBe('');
+    });
+  });
+});
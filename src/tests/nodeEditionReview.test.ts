@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '../models/Node';
+import { LLMNodeEditionResponse } from '../models/nodeOperations';
+import { buildReviewItems, buildApprovedNodeEdition, summarizeReview, getReviewKey } from '../utils/nodeEditionReview';
+import { applyNodeUpdates } from '../utils/nodeUpdateUtils';
+
+const nodes: Node[] = [
+  { id: 'hero', name: 'Hero', longDescription: 'The hero is tired.', image: '', type: 'character', attributes: { hp: { type: 'number', value: 10, min: 0 } } },
+  { id: 'tavern', name: 'Tavern', longDescription: 'A cozy tavern.', image: '', type: 'location' }
+];
+
+const nodeEdition: LLMNodeEditionResponse = {
+  callId: 'edition-1',
+  n_nodes: [{ id: 'goblin', name: 'Goblin', longDescription: 'A sneaky goblin.', image: '', type: 'character', updateImage: true }],
+  u_nodes: {
+    hero: {
+      longDescription: { df: [{ prev_txt: 'tired', next_txt: 'wounded' }] },
+      'attributes.hp': { inc: -4 }
+    },
+    ghost: { name: { rpl: 'Ghost' } }
+  },
+  d_nodes: ['tavern']
+};
+
+describe('Node Edition Review', () => {
+  describe('applyNodeUpdates', () => {
+    it('should apply diffs and attribute operations without mutating the node', () => {
+      const result = applyNodeUpdates(nodes[0], nodeEdition.u_nodes!.hero);
+      expect(result.changed).toBe(true);
+      expect(result.node.longDescription).toBe('The hero is wounded.');
+      expect(result.node.attributes!.hp.value).toBe(6);
+      expect(nodes[0].longDescription).toBe('The hero is tired.');
+    });
+
+    it('should report operations that do not fit the field', () => {
+      const result = applyNodeUpdates(nodes[0], { name: { df: [{ prev_txt: 'Hero', next_txt: 'Villain' }] } });
+      expect(result.changed).toBe(false);
+      expect(result.node.name).toBe('Hero');
+      expect(result.warnings).toHaveLength(1);
+    });
+  });
+
+  describe('buildReviewItems', () => {
+    it('should create one item per operation with before/after nodes', () => {
+      const items = buildReviewItems(nodeEdition, nodes);
+
+      expect(items.map(item => item.key)).toEqual(['new:goblin', 'update:hero', 'update:ghost', 'delete:tavern']);
+      const heroItem = items.find(item => item.key === 'update:hero')!;
+      expect(heroItem.before!.longDescription).toBe('The hero is tired.');
+      expect(heroItem.after!.longDescription).toBe('The hero is wounded.');
+      expect(items.find(item => item.key === 'update:ghost')!.warnings[0]).toContain('not found');
+    });
+  });
+
+  describe('buildApprovedNodeEdition', () => {
+    it('should keep everything when nothing was rejected', () => {
+      expect(buildApprovedNodeEdition(nodeEdition, {})).toEqual(nodeEdition);
+    });
+
+    it('should drop rejected entries', () => {
+      const approved = buildApprovedNodeEdition(nodeEdition, {
+        [getReviewKey('new', 'goblin')]: 'reject',
+        [getReviewKey('delete', 'tavern')]: 'reject',
+        [getReviewKey('update', 'ghost')]: 'reject'
+      });
+
+      expect(approved.n_nodes).toBeUndefined();
+      expect(approved.d_nodes).toBeUndefined();
+      expect(Object.keys(approved.u_nodes!)).toEqual(['hero']);
+      expect(approved.callId).toBe('edition-1');
+    });
+
+    it('should turn hand edits into replacements', () => {
+      const approved = buildApprovedNodeEdition(nodeEdition, {}, {
+        [getReviewKey('update', 'hero')]: { longDescription: 'The hero is asleep.' },
+        [getReviewKey('new', 'goblin')]: { name: 'Grumpy Goblin' }
+      });
+
+      expect(approved.u_nodes!.hero.longDescription).toEqual({ rpl: 'The hero is asleep.' });
+      expect(approved.u_nodes!.hero['attributes.hp']).toEqual({ inc: -4 });
+      expect(approved.n_nodes![0].name).toBe('Grumpy Goblin');
+      expect(approved.n_nodes![0].updateImage).toBe(true);
+    });
+  });
+
+  describe('summarizeReview', () => {
+    it('should list rejected and edited entries', () => {
+      const items = buildReviewItems(nodeEdition, nodes);
+      const summary = summarizeReview(items, { 'delete:tavern': 'reject' }, { 'update:hero': { name: 'Hero the Brave' } });
+      expect(summary).toBe('Accepted 3/4 operations. Rejected: delete:tavern. Edited by hand: update:hero.');
+    });
+  });
+});
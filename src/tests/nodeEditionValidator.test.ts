@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '../models/Node';
+import { LLMNodeEditionResponse } from '../models/nodeOperations';
+import {
+  validateNodeEdition,
+  formatValidationIssuesForLLM,
+  formatSkippedOperationsMessage,
+  isProtectedNodeType
+} from '../utils/nodeEditionValidator';
+
+const nodes: Node[] = [
+  { id: 'hero', name: 'Hero', longDescription: 'The hero is tired. The hero is hungry.', image: '', type: 'character' },
+  { id: 'tavern', name: 'Tavern', longDescription: 'A cozy tavern.', image: '', type: 'location' },
+  { id: 'sys', name: 'System', longDescription: 'Rules', image: '', type: 'System' }
+];
+
+describe('Node Edition Validator', () => {
+  it('should accept a valid edition unchanged', () => {
+    const edition: LLMNodeEditionResponse = {
+      callId: 'valid',
+      n_nodes: [{ id: 'goblin', name: 'Goblin', longDescription: 'A goblin.', image: '', type: 'character' }],
+      u_nodes: { hero: { longDescription: { df: [{ prev_txt: 'tired', next_txt: 'rested' }] }, img_upd: true } },
+      d_nodes: ['tavern']
+    };
+
+    const report = validateNodeEdition(edition, nodes);
+
+    expect(report.valid).toBe(true);
+    expect(report.issues).toEqual([]);
+    expect(report.sanitizedEdition).toEqual(edition);
+  });
+
+  it('should reject updates of unknown nodes and of nodes deleted in the same edition', () => {
+    const report = validateNodeEdition({
+      callId: 'unknown',
+      u_nodes: { ghost: { name: { rpl: 'Ghost' } }, tavern: { name: { rpl: 'Inn' } } },
+      d_nodes: ['tavern']
+    }, nodes);
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(issue => [issue.code, issue.nodeId])).toEqual([['unknown_node_id', 'ghost'], ['unknown_node_id', 'tavern']]);
+    expect(report.sanitizedEdition.u_nodes).toEqual({});
+    expect(report.sanitizedEdition.d_nodes).toEqual(['tavern']);
+  });
+
+  it('should only warn about deleting unknown nodes', () => {
+    const report = validateNodeEdition({ callId: 'delete', d_nodes: ['ghost'] }, nodes);
+
+    expect(report.valid).toBe(true);
+    expect(report.issues[0]).toMatchObject({ code: 'unknown_node_id', severity: 'warning', nodeId: 'ghost' });
+    expect(report.sanitizedEdition.d_nodes).toEqual(['ghost']);
+  });
+
+  it('should reject deletions of protected node types case-insensitively', () => {
+    const report = validateNodeEdition({ callId: 'protected', d_nodes: ['sys', 'tavern'] }, nodes);
+
+    expect(isProtectedNodeType('System')).toBe(true);
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({ code: 'protected_node_deletion', severity: 'error', nodeId: 'sys' });
+    expect(report.sanitizedEdition.d_nodes).toEqual(['tavern']);
+  });
+
+  it('should reject new nodes with existing, duplicate or missing ids', () => {
+    const report = validateNodeEdition({
+      callId: 'new',
+      n_nodes: [
+        { id: 'hero', name: 'Hero 2', longDescription: '', image: '', type: 'character' },
+        { id: 'goblin', name: 'Goblin', longDescription: 'A goblin.', image: '', type: 'character' },
+        { id: 'goblin', name: 'Goblin bis', longDescription: '', image: '', type: 'character' },
+        { id: '', name: 'Nameless', longDescription: '', image: '', type: 'character' }
+      ]
+    }, nodes);
+
+    expect(report.issues.map(issue => issue.code)).toEqual(['existing_new_id', 'duplicate_new_id', 'missing_new_node_fields']);
+    expect(report.sanitizedEdition.n_nodes!.map(node => node.name)).toEqual(['Goblin']);
+  });
+
+  it('should warn about new nodes missing a field required by their type', () => {
+    const report = validateNodeEdition({
+      callId: 'required',
+      n_nodes: [{ id: 'goblin', name: 'Goblin', longDescription: ' ', image: '', type: 'Character' }]
+    }, nodes);
+
+    expect(report.valid).toBe(true);
+    expect(report.issues[0]).toMatchObject({ code: 'missing_required_field', severity: 'warning', nodeId: 'goblin' });
+    expect(report.sanitizedEdition.n_nodes).toHaveLength(1);
+  });
+
+  it('should allow reusing the id of a node deleted in the same edition', () => {
+    const report = validateNodeEdition({
+      callId: 'reuse',
+      n_nodes: [{ id: 'tavern', name: 'Ruins', longDescription: '', image: '', type: 'location' }],
+      d_nodes: ['tavern']
+    }, nodes);
+
+    expect(report.valid).toBe(true);
+  });
+
+  it('should drop only the df instructions that do not match, checking them in sequence', () => {
+    const report = validateNodeEdition({
+      callId: 'diff',
+      u_nodes: {
+        hero: {
+          longDescription: {
+            df: [
+              { prev_txt: 'tired', next_txt: 'rested' },
+              { prev_txt: 'tired', next_txt: 'sleepy' },
+              { prev_txt: 'The hero', next_txt: 'Our hero', occ: 2 },
+              { prev_txt: 'The hero', next_txt: 'Our hero', occ: 3 }
+            ]
+          },
+          name: { rpl: 'Sir Hero' }
+        }
+      }
+    }, nodes);
+
+    expect(report.issues.map(issue => [issue.code, issue.field])).toEqual([['diff_mismatch', 'longDescription'], ['diff_mismatch', 'longDescription']]);
+    expect(report.sanitizedEdition.u_nodes!.hero).toEqual({
+      longDescription: {
+        df: [
+          { prev_txt: 'tired', next_txt: 'rested' },
+          { prev_txt: 'The hero', next_txt: 'Our hero', occ: 2 }
+        ]
+      },
+      name: { rpl: 'Sir Hero' }
+    });
+  });
+
+  it('should keep df instructions that only match fuzzily', () => {
+    const report = validateNodeEdition({
+      callId: 'fuzzy',
+      u_nodes: { hero: { longDescription: { df: [{ prev_txt: 'The  hero is\ntired.', next_txt: 'The hero is rested.' }] } } }
+    }, nodes);
+
+    expect(report.valid).toBe(true);
+    expect(report.sanitizedEdition.u_nodes!.hero).toBeDefined();
+  });
+
+  it('should remove a node update whose only diff fails', () => {
+    const report = validateNodeEdition({
+      callId: 'diff-only',
+      u_nodes: { tavern: { longDescription: { df: [{ prev_txt: 'noisy', next_txt: 'quiet' }] } } }
+    }, nodes);
+
+    expect(report.sanitizedEdition.u_nodes).toEqual({});
+  });
+
+  it('should report operations that do not fit the field as warnings', () => {
+    const report = validateNodeEdition({
+      callId: 'invalid',
+      u_nodes: { hero: { name: { df: [{ prev_txt: 'Hero', next_txt: 'Villain' }] } } }
+    }, nodes);
+
+    expect(report.valid).toBe(true);
+    expect(report.issues[0]).toMatchObject({ code: 'invalid_operation', severity: 'warning', nodeId: 'hero' });
+  });
+
+  it('should format errors for the LLM and the chat, ignoring warnings', () => {
+    const report = validateNodeEdition({ callId: 'format', u_nodes: { ghost: { name: { rpl: 'Ghost' } } }, d_nodes: ['nobody'] }, nodes);
+
+    expect(formatValidationIssuesForLLM(report.issues)).toBe('- [unknown_node_id] Cannot update node ghost: it does not exist.');
+    expect(formatSkippedOperationsMessage(report.issues)).toBe('Skipped 1 invalid node operation:\n- Cannot update node ghost: it does not exist.');
+    expect(formatSkippedOperationsMessage([])).toBe('');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { getResponse, loadedPrompts, formatPrompt, getLastFiveInteractions } from '../services/llmCore'; // Path to llmCore
+import { getResponse, loadedPrompts, formatPrompt, getLastFiveInteractions, getMoxusFeedbackSystemMessage } from '../services/llmCore'; // Path to llmCore
+import { getContextBudget } from '../services/modelTasksConfigService';
 import { 
   generateChatText,
   getRelevantNodes,
@@ -20,12 +21,13 @@ vi.mock('../services/llmCore', () => ({
   loadedPrompts: {
     node_operations: {
       get_relevant_nodes: 'Test prompt for get_relevant_nodes: {nodes_description} {string_history}',
-      generate_chat_text: 'Test prompt for generate_chat_text: {user_input} {string_history} {nodes_description} {last_moxus_report_section}',
-      generate_actions: 'Test prompt for generate_actions: {nodes_description} {formatted_chat_text} {last_moxus_report_section} {user_input}',
-      generate_node_edition: 'Test prompt for generate_node_edition: {think_mode} {nodes_description} {formatted_chat_history} {last_moxus_report_section} {actions_list} {user_input}',
+      generate_chat_text: 'Test prompt for generate_chat_text: {user_input} {string_history} {nodes_description} {last_moxus_report} {moxus_guidance}',
+      generate_actions: 'Test prompt for generate_actions: {nodes_description} {formatted_chat_text} {last_moxus_report} {user_input}',
+      generate_node_edition: 'Test prompt for generate_node_edition: {think_mode} {nodes_description} {formatted_chat_history} {last_moxus_report} {moxus_guidance} {actions_list} {user_input}',
       generate_nodes_from_prompt: 'Test prompt for generate_nodes_from_prompt: {user_prompt} {moxus_context_string} {nodes_description}',
-      sort_nodes_by_relevance: 'Test prompt for sort_nodes_by_relevance: {string_history} {last_moxus_report_section} {nodes_description}',
+      sort_nodes_by_relevance: 'Test prompt for sort_nodes_by_relevance: {string_history} {last_moxus_report} {nodes_description}',
       refocus_story: 'Test prompt for refocus_story: {past_chat_history} {nodes_description}',
+      repair_node_edition: 'Test prompt for repair_node_edition: {validation_errors}',
     },
     // moxus_prompts might be needed if MoxusService calls are part of the tested functions directly
     // and not mocked at a higher level. For now, assume direct llmCore.getResponse calls.
@@ -46,6 +48,8 @@ vi.mock('../services/llmCore', () => ({
       message.role === "userMandatoryInstructions"
     );
   }),
+  isAbortError: vi.fn((error: any) => error?.name === 'AbortError'),
+  getMoxusFeedbackSystemMessage: vi.fn(() => ''),
 }));
 
 // Mock MoxusService as it's used for logging within processJsonResponse
@@ -63,6 +67,12 @@ vi.mock('../services/MoxusService', () => ({
   }
 }));
 
+// Context budgets come from modelsTasks.yaml unless a test sets one
+vi.mock('../services/modelTasksConfigService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../services/modelTasksConfigService')>();
+  return { ...actual, getContextBudget: vi.fn(actual.getContextBudget) };
+});
+
 
 describe('Node Interaction LLM Service', () => {
   beforeEach(() => {
@@ -136,7 +146,7 @@ describe('Node Interaction LLM Service', () => {
         undefined,
         false,
         { type: 'json_object' },
-        undefined,
+        { signal: undefined },
         'node_relevance_check'
       );
       // The actual result parsing is already tested, focus here is on prompt generation
@@ -183,24 +193,11 @@ describe('Node Interaction LLM Service', () => {
         `user: ${mockUserInput}\n`;
 
       // mockNodes currently has 3 nodes, one is image_generation (excluded)
-      // Node1: story, Node2: character
+      // Node1 is relevant and described in full, Node2 is listed by name and type only
       const expectedNodesDescription = 
         `\n        id: 1\n        name: Node1\n        longDescription: A descriptive node\n        type: story\n        ` +
-        `\n        id: 2\n        name: Node2\n        longDescription: Another node\n        type: character\n        `;
+        `\n        id: 2\n        name: Node2\n        type: character\n        `;
 
-      const expectedLastMoxusReportSection = `
-  ### Latest Moxus Analysis (CRITICAL - MUST FOLLOW):
-  Note: This is feedback from the World Design & Interactivity Watcher, an AI that monitors 
-  the story and provides VITAL guidance to maintain consistency and quality in the game world.
-  ALL INSTRUCTIONS AND OBSERVATIONS FROM MOXUS IN THIS SECTION ARE MANDATORY.
-  
-  Follow these instructions.
-  
-  ### Moxus Creative Guidance (APPLY THESE INSIGHTS):
-  The following guidance comes from Moxus's evolved understanding of effective storytelling:
-  
-  Mocked narrative guidance
-  `;
 
       await generateChatText(mockUserInput, chatHistoryForTextGen, mockNodes, mockDetailedNodeIds);
 
@@ -210,7 +207,8 @@ describe('Node Interaction LLM Service', () => {
         {
           nodes_description: expectedNodesDescription,
           string_history: expectedStringHistory,
-          last_moxus_report_section: expectedLastMoxusReportSection,
+          last_moxus_report: 'Follow these instructions.',
+          moxus_guidance: 'Mocked narrative guidance',
           user_input: mockUserInput,
           response_length_instruction: "Generate a chapter (3 paragraphs) making the story progress over one action."
         }
@@ -224,7 +222,7 @@ describe('Node Interaction LLM Service', () => {
         undefined,
         true, 
         undefined,
-        undefined,
+        { signal: undefined },
         'chat_text_generation'
       );
     });
@@ -262,14 +260,6 @@ describe('Node Interaction LLM Service', () => {
         `\n      id: 1\n      name: Node1\n      longDescription: A descriptive node\n      type: story\n      ` +
         `\n      id: 2\n      name: Node2\n      longDescription: Another node\n      type: character\n      `; // image_generation node excluded
       
-      const expectedLastMoxusReportSection = `
-  ## Latest Moxus Analysis (CRITICAL - MUST FOLLOW):
-  Note: This is feedback from the World Design & Interactivity Watcher, an AI that monitors 
-  the story and provides VITAL guidance to maintain consistency and quality in the game world.
-  ALL INSTRUCTIONS AND OBSERVATIONS FROM MOXUS IN THIS SECTION ARE MANDATORY.
-  
-  Actions should be limited.
-  `;
 
       await generateActions(historyForActions, mockNodes, mockUserInput);
 
@@ -279,7 +269,7 @@ describe('Node Interaction LLM Service', () => {
         {
           nodes_description: expectedNodesDescription,
           formatted_chat_text: expectedFormattedChatText,
-          last_moxus_report_section: expectedLastMoxusReportSection,
+          last_moxus_report: 'Actions should be limited.',
           user_input: mockUserInput
         }
       );
@@ -308,13 +298,48 @@ describe('Node Interaction LLM Service', () => {
         {
           nodes_description: expectedNodesDescription,
           formatted_chat_text: plainStringChatText, // Directly uses the string
-          last_moxus_report_section: '', // No moxus report if chatText is a string
+          last_moxus_report: '', // No moxus report if chatText is a string
           user_input: mockUserInput
         }
       );
       expect(getResponse).toHaveBeenCalledTimes(1);
     });
 
+    it('should describe only the relevant nodes in full', async () => {
+      (getResponse as ReturnType<typeof vi.fn>).mockResolvedValue({
+        llmResult: JSON.stringify({ actions: ['action5'] }),
+        callId: 'actions-call-id-relevant'
+      });
+
+      await generateActions('Story text.', mockNodes, mockUserInput, ['2']);
+
+      expect(formatPrompt).toHaveBeenCalledWith(
+        (loadedPrompts.node_operations as any).generate_actions,
+        expect.objectContaining({
+          nodes_description:
+            `\n      id: 1\n      name: Node1\n      type: story\n      ` +
+            `\n      id: 2\n      name: Node2\n      longDescription: Another node\n      type: character\n      `
+        })
+      );
+    });
+
+    it('should count the Moxus system message of getResponse in the context budget', async () => {
+      (getResponse as ReturnType<typeof vi.fn>).mockResolvedValue({
+        llmResult: JSON.stringify({ actions: ['action6'] }),
+        callId: 'actions-call-id-budget'
+      });
+      (getContextBudget as ReturnType<typeof vi.fn>).mockResolvedValueOnce(1000);
+      (getMoxusFeedbackSystemMessage as ReturnType<typeof vi.fn>).mockReturnValueOnce('Moxus memory. '.repeat(300));
+
+      await generateActions('Story text.', mockNodes, mockUserInput);
+
+      expect(getMoxusFeedbackSystemMessage).toHaveBeenCalledWith('action_generation');
+      expect(formatPrompt).toHaveBeenCalledWith(
+        (loadedPrompts.node_operations as any).generate_actions,
+        expect.objectContaining({ nodes_description: '' })
+      );
+    });
+
     it('should throw an error if getResponse fails for generateActions', async () => {
       const mockError = new Error('LLM API Error for generateActions');
       (getResponse as ReturnType<typeof vi.fn>).mockRejectedValue(mockError);
@@ -386,19 +411,6 @@ describe('Node Interaction LLM Service', () => {
         `\n      id: 1\n      name: Node1\n      longDescription: A descriptive node\n      type: story\n      ` +
         `\n      id: 2\n      name: Node2\n      longDescription: Another node\n      type: character\n      `;
 
-      const expectedLastMoxusReportSection = `
-  ## Latest Moxus Analysis (CRITICAL - MUST FOLLOW):
-  Note: This is feedback from the World Design & Interactivity Watcher, an AI that monitors 
-  the story and provides VITAL guidance to maintain consistency and quality in the game world.
-  ALL INSTRUCTIONS AND OBSERVATIONS FROM MOXUS IN THIS SECTION ARE MANDATORY.
-  
-  Consider node X.
-  
-  ## Moxus World-Building Guidance (APPLY THESE INSIGHTS):
-  The following guidance comes from Moxus's evolved understanding of effective world-building:
-  
-  Mocked worldbuilding guidance
-  `;
 
       // Assertions for prompt generation (already covered, but good to keep)
       expect(formatPrompt).toHaveBeenCalledTimes(1);
@@ -408,7 +420,8 @@ describe('Node Interaction LLM Service', () => {
           think_mode: "",
           nodes_description: expectedNodesDescription,
           formatted_chat_history: expectedFormattedChatHistory,
-          last_moxus_report_section: expectedLastMoxusReportSection,
+          last_moxus_report: 'Consider node X.',
+          moxus_guidance: 'Mocked worldbuilding guidance',
           actions_list: mockActionsForEdition.join('\n'),
           user_input: mockUserInput
         }
@@ -421,6 +434,68 @@ describe('Node Interaction LLM Service', () => {
       expect(result.u_nodes).toEqual(mockExpectedParsedResponse.u_nodes);
       expect(result.d_nodes).toEqual(mockExpectedParsedResponse.d_nodes);
     });
+
+    it('should send validation errors back to the LLM once and keep the repaired edition', async () => {
+      (getResponse as ReturnType<typeof vi.fn>)
+        .mockImplementationOnce(async (messages: Message[]) => {
+          // Like getResponse, insert the Moxus feedback system message into the messages it is given
+          messages.splice(1, 0, { role: 'system', content: 'Moxus feedback' });
+          return {
+            llmResult: JSON.stringify({ u_nodes: { ghost: { name: { rpl: 'Ghost' } } }, d_nodes: ['4'] }),
+            callId: 'edition-invalid'
+          };
+        })
+        .mockResolvedValueOnce({
+          llmResult: JSON.stringify({ u_nodes: { '1': { name: { rpl: 'Ghost' } } } }),
+          callId: 'edition-repaired'
+        });
+
+      const result = await generateNodeEdition(chatHistoryForEdition, [], nodesForEditionTest, mockUserInput, true);
+
+      expect(getResponse).toHaveBeenCalledTimes(2);
+      const [repairMessages, , , , , , repairCallType] = (getResponse as ReturnType<typeof vi.fn>).mock.calls[1];
+      expect(repairCallType).toBe('node_edition_json_repair');
+      expect(repairMessages).toHaveLength(3);
+      expect(repairMessages[0]).toEqual({ role: 'system', content: (getResponse as ReturnType<typeof vi.fn>).mock.calls[0][0][0].content });
+      expect(repairMessages[1]).toEqual({ role: 'assistant', content: JSON.stringify({ u_nodes: { ghost: { name: { rpl: 'Ghost' } } }, d_nodes: ['4'] }) });
+      expect(repairMessages[2].content).toContain('[unknown_node_id] Cannot update node ghost');
+      expect(repairMessages[2].content).toContain('[protected_node_deletion]');
+      expect(result.callId).toBe('edition-repaired');
+      expect(result.u_nodes).toEqual({ '1': { name: { rpl: 'Ghost' } } });
+      expect(result.validationIssues).toBeUndefined();
+    });
+
+    it('should describe only the relevant nodes in full', async () => {
+      (getResponse as ReturnType<typeof vi.fn>).mockResolvedValue({
+        llmResult: JSON.stringify({ u_nodes: { '1': { name: { rpl: 'Renamed' } } } }),
+        callId: 'edition-relevant'
+      });
+
+      await generateNodeEdition('Story text.', [], mockNodes, mockUserInput, true, ['2']);
+
+      const { nodes_description } = (formatPrompt as ReturnType<typeof vi.fn>).mock.calls[0][1];
+      expect(nodes_description).toContain(`id: 1\n      name: Node1\n      type: story`);
+      expect(nodes_description).toContain('longDescription: Another node');
+      expect(nodes_description).not.toContain('A descriptive node');
+    });
+
+    it('should keep the sanitized original edition when the repair is not better', async () => {
+      (getResponse as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({
+          llmResult: JSON.stringify({ u_nodes: { ghost: { name: { rpl: 'Ghost' } }, '2': { name: { rpl: 'Renamed' } } } }),
+          callId: 'edition-invalid'
+        })
+        .mockResolvedValueOnce({ llmResult: 'not json at all', callId: 'edition-repair-broken' });
+
+      const result = await generateNodeEdition(chatHistoryForEdition, [], nodesForEditionTest, mockUserInput, true);
+
+      expect(getResponse).toHaveBeenCalledTimes(2);
+      expect(result.callId).toBe('edition-invalid');
+      expect(result.u_nodes).toEqual({ '2': { name: { rpl: 'Renamed' } } });
+      expect(result.validationIssues).toEqual([
+        expect.objectContaining({ code: 'unknown_node_id', severity: 'error', nodeId: 'ghost' })
+      ]);
+    });
     
     // it('should use /think for think_mode when isUserInteraction is false', async () => {
     //   // Return proper JSON instead of YAML
@@ -515,6 +590,27 @@ describe('Node Interaction LLM Service', () => {
         );
       });
 
+    it('should describe game rules but not system or assistant nodes', async () => {
+      (getResponse as ReturnType<typeof vi.fn>).mockResolvedValue({
+        llmResult: JSON.stringify({ merge: [], delete: [] }),
+        callId: 'nodes-prompt-call-id-rules'
+      });
+      const nodesWithRules: Node[] = [
+        { id: '5', name: 'GameRuleNode', longDescription: 'rule desc', image: 'rule.png', type: 'Game Rule' },
+        { id: '4', name: 'SystemNode', longDescription: 'system desc', image: 'sys.png', type: 'system' },
+        { id: '6', name: 'AssistantNode', longDescription: 'assistant desc', image: '', type: 'assistant' }
+      ];
+
+      await generateNodesFromPrompt(userPromptForNodeGen, nodesWithRules);
+
+      expect(formatPrompt).toHaveBeenCalledWith(
+        (loadedPrompts.node_operations as any).generate_nodes_from_prompt,
+        expect.objectContaining({
+          nodes_description: `\n    id: 5\n    name: GameRuleNode\n    longDescription: rule desc\n    type: Game Rule\n    `
+        })
+      );
+    });
+
     it('should throw an error if getResponse fails for generateNodesFromPrompt', async () => {
         const mockError = new Error('LLM API Error for generateNodesFromPrompt');
         (getResponse as ReturnType<typeof vi.fn>).mockRejectedValue(mockError);
@@ -546,14 +642,6 @@ describe('Node Interaction LLM Service', () => {
         `\n      id: 1\n      name: Node1\n      longDescription: A descriptive node\n      type: story\n      ` +
         `\n      id: 2\n      name: Node2\n      longDescription: Another node\n      type: character\n      `; // image_generation node (id:3) is filtered out.
       
-      const expectedLastMoxusReportSection = `
-  ## Latest Moxus Analysis (CRITICAL - MUST FOLLOW):
-  Note: This is feedback from the World Design & Interactivity Watcher, an AI that monitors 
-  the story and provides VITAL guidance to maintain consistency and quality in the game world.
-  ALL INSTRUCTIONS AND OBSERVATIONS FROM MOXUS IN THIS SECTION ARE MANDATORY.
-  
-  Node2 is important.
-  `;
 
       await sortNodesByRelevance(mockNodes, historyForSort);
 
@@ -562,7 +650,7 @@ describe('Node Interaction LLM Service', () => {
         (loadedPrompts.node_operations as any).sort_nodes_by_relevance,
         {
           string_history: expectedStringHistory,
-          last_moxus_report_section: expectedLastMoxusReportSection,
+          last_moxus_report: 'Node2 is important.',
           nodes_description: expectedNodesDescription
         }
       );
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '../models/Node';
+import { sanitizeLinks, applyLinkChanges, removeLinksToNodes, formatLinksForPrompt } from '../utils/linkUtils';
+
+const makeNode = (id: string, name: string, links?: Node['links']): Node => ({
+  id,
+  name,
+  longDescription: `${name} description`,
+  image: '',
+  type: 'item',
+  links
+});
+
+describe('Node Links', () => {
+  describe('sanitizeLinks', () => {
+    it('should drop malformed entries and self references', () => {
+      const result = sanitizeLinks([
+        { targetId: 'sword', type: 'owns' },
+        { targetId: '', type: 'owns' },
+        { targetId: 'tavern' },
+        'not-a-link',
+        null,
+        { targetId: 'hero', type: 'knows' }
+      ], 'hero');
+
+      expect(result).toEqual([{ targetId: 'sword', type: 'owns' }]);
+    });
+
+    it('should deduplicate links on target and type, keeping the last label', () => {
+      const result = sanitizeLinks([
+        { targetId: 'sword', type: 'owns', label: 'old' },
+        { targetId: 'sword', type: 'Owns', label: 'left hand' }
+      ]);
+
+      expect(result).toEqual([{ targetId: 'sword', type: 'Owns', label: 'left hand' }]);
+    });
+
+    it('should return an empty array for non-array input', () => {
+      expect(sanitizeLinks(undefined)).toEqual([]);
+      expect(sanitizeLinks({ targetId: 'x', type: 'owns' })).toEqual([]);
+    });
+  });
+
+  describe('applyLinkChanges', () => {
+    it('should add and remove links in one operation', () => {
+      const current = [
+        { targetId: 'tavern', type: 'located_in' },
+        { targetId: 'sword', type: 'owns' }
+      ];
+
+      const result = applyLinkChanges(
+        current,
+        [{ targetId: 'forest', type: 'located_in' }],
+        [{ targetId: 'tavern', type: 'located_in' }],
+        'hero'
+      );
+
+      expect(result).toEqual([
+        { targetId: 'sword', type: 'owns' },
+        { targetId: 'forest', type: 'located_in' }
+      ]);
+    });
+
+    it('should remove every link to a target when no type is given', () => {
+      const current = [
+        { targetId: 'bob', type: 'knows' },
+        { targetId: 'bob', type: 'distrusts' },
+        { targetId: 'sword', type: 'owns' }
+      ];
+
+      expect(applyLinkChanges(current, [], [{ targetId: 'bob' }])).toEqual([{ targetId: 'sword', type: 'owns' }]);
+      expect(applyLinkChanges(current, [], ['bob'])).toEqual([{ targetId: 'sword', type: 'owns' }]);
+    });
+
+    it('should handle nodes without existing links', () => {
+      expect(applyLinkChanges(undefined, [{ targetId: 'sword', type: 'owns' }])).toEqual([{ targetId: 'sword', type: 'owns' }]);
+    });
+  });
+
+  describe('removeLinksToNodes', () => {
+    it('should cascade-clean links pointing to deleted nodes', () => {
+      const hero = makeNode('hero', 'Hero', [
+        { targetId: 'potion', type: 'carries' },
+        { targetId: 'tavern', type: 'located_in' }
+      ]);
+      const tavern = makeNode('tavern', 'Tavern');
+
+      const { nodes, changed } = removeLinksToNodes([hero, tavern], new Set(['potion']));
+
+      expect(changed).toBe(true);
+      expect(nodes[0].links).toEqual([{ targetId: 'tavern', type: 'located_in' }]);
+      expect(nodes[1]).toBe(tavern);
+    });
+
+    it('should report no change when nothing points to deleted nodes', () => {
+      const hero = makeNode('hero', 'Hero', [{ targetId: 'tavern', type: 'located_in' }]);
+
+      const { nodes, changed } = removeLinksToNodes([hero], new Set(['potion']));
+
+      expect(changed).toBe(false);
+      expect(nodes[0]).toBe(hero);
+    });
+  });
+
+  describe('formatLinksForPrompt', () => {
+    it('should resolve target names and include labels', () => {
+      const hero = makeNode('hero', 'Hero', [
+        { targetId: 'sword', type: 'owns', label: 'left hand' },
+        { targetId: 'ghost', type: 'knows' }
+      ]);
+      const sword = makeNode('sword', 'Rusty Sword');
+
+      expect(formatLinksForPrompt(hero, [hero, sword])).toBe(
+        'owns -> Rusty Sword (id: sword) [left hand], knows -> unknown node (id: ghost)'
+      );
+    });
+
+    it('should return an empty string for nodes without links', () => {
+      const sword = makeNode('sword', 'Rusty Sword');
+      expect(formatLinksForPrompt(sword, [sword])).toBe('');
+    });
+  });
+});
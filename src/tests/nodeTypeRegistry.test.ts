@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Node } from '../models/Node';
+import { nodeTypeRegistry, DEFAULT_NODE_TYPES, DEFAULT_NODE_TYPE_DEFINITION, NodeTypeDefinition } from '../services/nodeTypeRegistry';
+
+const makeNode = (type: string, overrides: Partial<Node> = {}): Node => ({
+  id: 'n1',
+  name: 'Node',
+  longDescription: '',
+  image: '',
+  type,
+  ...overrides
+});
+
+describe('Node Type Registry', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    nodeTypeRegistry.resetNodeTypes();
+  });
+
+  it('should keep the previous hard-coded behavior by default', () => {
+    expect(nodeTypeRegistry.isDeletable('System')).toBe(false);
+    expect(nodeTypeRegistry.isDeletable('character')).toBe(true);
+    expect(nodeTypeRegistry.isHiddenFromPrompts('image_generation')).toBe(true);
+    expect(nodeTypeRegistry.isHiddenFromPrompts('system')).toBe(false);
+    expect(nodeTypeRegistry.isEditableByLLM('system')).toBe(false);
+    expect(nodeTypeRegistry.isEditableByLLM('Game Rules')).toBe(false);
+    expect(nodeTypeRegistry.generatesImages('Game Rule')).toBe(false);
+    expect(nodeTypeRegistry.getColor('Character')).toBe('#22c55e');
+    expect(nodeTypeRegistry.getDefinition('location').layout).toBe('grid');
+  });
+
+  it('should keep system and rule nodes in every prompt', () => {
+    expect(nodeTypeRegistry.isAlwaysInPrompts('system')).toBe(true);
+    expect(nodeTypeRegistry.isAlwaysInPrompts('Game Rules')).toBe(true);
+    expect(nodeTypeRegistry.isAlwaysInPrompts('character')).toBe(false);
+    expect(nodeTypeRegistry.isAlwaysInPrompts('image_generation')).toBe(false);
+  });
+
+  it('should take flags missing from a stored registry from the built-in definition', () => {
+    const { alwaysInPrompts, ...storedSystem } = DEFAULT_NODE_TYPES.find(definition => definition.type === 'system')!;
+
+    nodeTypeRegistry.saveNodeTypes([{ ...storedSystem, color: '#123456' }, { type: 'ship' }] as NodeTypeDefinition[]);
+
+    expect(alwaysInPrompts).toBe(true);
+    expect(nodeTypeRegistry.getDefinition('system')).toMatchObject({ color: '#123456', alwaysInPrompts: true });
+    expect(nodeTypeRegistry.getDefinition('ship').alwaysInPrompts).toBe(false);
+  });
+
+  it('should fall back to the default definition for unknown types', () => {
+    const definition = nodeTypeRegistry.getDefinition('spaceship');
+
+    expect(definition).toEqual({ ...DEFAULT_NODE_TYPE_DEFINITION, type: 'spaceship' });
+    expect(nodeTypeRegistry.isDeletable(undefined)).toBe(true);
+  });
+
+  it('should save, persist and notify subscribers', () => {
+    const listener = vi.fn();
+    const unsubscribe = nodeTypeRegistry.subscribe(listener);
+
+    const saved = nodeTypeRegistry.saveNodeTypes([
+      ...DEFAULT_NODE_TYPES,
+      { ...DEFAULT_NODE_TYPE_DEFINITION, type: 'spaceship', color: '#ff0000', deletable: false }
+    ]);
+    unsubscribe();
+
+    expect(saved).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(nodeTypeRegistry.isDeletable('Spaceship')).toBe(false);
+    expect(nodeTypeRegistry.getColor('spaceship')).toBe('#ff0000');
+    expect(JSON.parse(localStorage.getItem('nodeTypeRegistry')!)).toHaveLength(DEFAULT_NODE_TYPES.length + 1);
+  });
+
+  it('should drop duplicate types and sanitize invalid values', () => {
+    nodeTypeRegistry.saveNodeTypes([
+      { ...DEFAULT_NODE_TYPE_DEFINITION, type: ' Ship ', badgeShape: 'hexagon' as any, requiredFields: ['image', ''] },
+      { ...DEFAULT_NODE_TYPE_DEFINITION, type: 'ship', color: '#000000' }
+    ]);
+
+    const types = nodeTypeRegistry.getNodeTypes();
+    expect(types).toHaveLength(1);
+    expect(types[0]).toMatchObject({ type: 'Ship', badgeShape: 'circle', requiredFields: ['image'], color: DEFAULT_NODE_TYPE_DEFINITION.color });
+  });
+
+  it('should list missing required fields, including attributes', () => {
+    nodeTypeRegistry.saveNodeTypes([
+      { ...DEFAULT_NODE_TYPE_DEFINITION, type: 'monster', requiredFields: ['longDescription', 'attributes.hp'] }
+    ]);
+
+    expect(nodeTypeRegistry.getMissingRequiredFields(makeNode('monster', { longDescription: '  ' }))).toEqual(['longDescription', 'attributes.hp']);
+    expect(nodeTypeRegistry.getMissingRequiredFields(makeNode('monster', {
+      longDescription: 'A troll.',
+      attributes: { hp: { type: 'number', value: 10 } }
+    }))).toEqual([]);
+  });
+
+  it('should restore the defaults on reset', () => {
+    nodeTypeRegistry.saveNodeTypes([]);
+    expect(nodeTypeRegistry.isDeletable('system')).toBe(true);
+
+    nodeTypeRegistry.resetNodeTypes();
+
+    expect(nodeTypeRegistry.isDeletable('system')).toBe(false);
+    expect(localStorage.getItem('nodeTypeRegistry')).toBeNull();
+  });
+});
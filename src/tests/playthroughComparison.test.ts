@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '../models/Node';
+import { Message } from '../context/ChatContext';
+import { parsePlaythroughSave, compareNodes, splitChatIntoTurns, alignChatTurns } from '../utils/playthroughComparison';
+
+const makeNode = (id: string, name: string, longDescription: string, extra: Partial<Node> = {}): Node => ({
+  id,
+  name,
+  longDescription,
+  image: '',
+  type: 'character',
+  ...extra
+});
+
+describe('Playthrough Comparison', () => {
+  describe('parsePlaythroughSave', () => {
+    it('should parse an exported save and default missing chat history', () => {
+      const save = parsePlaythroughSave(JSON.stringify({ nodes: [makeNode('a', 'A', 'desc')] }));
+      expect(save.nodes).toHaveLength(1);
+      expect(save.chatHistory).toEqual([]);
+    });
+
+    it('should reject invalid files', () => {
+      expect(() => parsePlaythroughSave('not json')).toThrow('Invalid save file');
+      expect(() => parsePlaythroughSave(JSON.stringify({ chatHistory: [] }))).toThrow('missing "nodes" array');
+    });
+  });
+
+  describe('compareNodes', () => {
+    it('should match by id first, then by name, and list unique nodes', () => {
+      const left = [
+        makeNode('hero', 'Hero', 'A brave hero'),
+        makeNode('inn1', 'The Inn', 'Quiet'),
+        makeNode('cave', 'Cave', 'Dark')
+      ];
+      const right = [
+        makeNode('hero', 'Hero', 'A wounded hero'),
+        makeNode('inn2', 'the inn ', 'Quiet'),
+        makeNode('castle', 'Castle', 'Tall')
+      ];
+
+      const result = compareNodes(left, right);
+
+      expect(result.matched.map(m => [m.left.id, m.right.id, m.matchedBy])).toEqual([
+        ['hero', 'hero', 'id'],
+        ['inn1', 'inn2', 'name']
+      ]);
+      expect(result.matched[0].fieldDiffs).toEqual([{ field: 'longDescription', left: 'A brave hero', right: 'A wounded hero' }]);
+      expect(result.matched[1].fieldDiffs.map(d => d.field)).toEqual(['name']);
+      expect(result.onlyLeft.map(n => n.id)).toEqual(['cave']);
+      expect(result.onlyRight.map(n => n.id)).toEqual(['castle']);
+    });
+
+    it('should diff attributes and compare links by target name', () => {
+      const left = [
+        makeNode('hero', 'Hero', 'x', {
+          attributes: { hp: { type: 'number', value: 10 } },
+          links: [{ targetId: 'sword-a', type: 'owns' }]
+        }),
+        makeNode('sword-a', 'Sword', 'sharp')
+      ];
+      const right = [
+        makeNode('hero', 'Hero', 'x', {
+          attributes: { hp: { type: 'number', value: 4 } },
+          links: [{ targetId: 'sword-b', type: 'owns' }]
+        }),
+        makeNode('sword-b', 'Sword', 'sharp')
+      ];
+
+      const heroMatch = compareNodes(left, right).matched.find(m => m.left.id === 'hero')!;
+
+      expect(heroMatch.fieldDiffs).toEqual([{ field: 'attributes', left: 'hp: 10', right: 'hp: 4' }]);
+    });
+  });
+
+  describe('chat alignment', () => {
+    const leftChat: Message[] = [
+      { role: 'assistant', content: 'Intro' },
+      { role: 'user', content: 'Go north' },
+      { role: 'reasoning', content: 'thinking...' },
+      { role: 'assistant', content: 'You reach a cave.' },
+      { role: 'user', content: 'Enter' },
+      { role: 'assistant', content: 'It is dark.' }
+    ];
+    const rightChat: Message[] = [
+      { role: 'assistant', content: 'Intro' },
+      { role: 'user', content: 'Go north' },
+      { role: 'assistant', content: 'You reach a castle.' }
+    ];
+
+    it('should group messages into turns and skip debug messages', () => {
+      expect(splitChatIntoTurns(leftChat)).toEqual([
+        { responses: ['Intro'] },
+        { userInput: 'Go north', responses: ['You reach a cave.'] },
+        { userInput: 'Enter', responses: ['It is dark.'] }
+      ]);
+    });
+
+    it('should align turns and leave missing turns empty', () => {
+      const pairs = alignChatTurns(leftChat, rightChat);
+      expect(pairs).toHaveLength(3);
+      expect(pairs[1].right?.responses).toEqual(['You reach a castle.']);
+      expect(pairs[2].right).toBeUndefined();
+    });
+  });
+});
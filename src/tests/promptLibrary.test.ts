@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { promptLibraryService } from '../services/promptLibraryService';
+import { loadedPrompts } from '../services/llmCore';
+import { diffLines } from '../utils/lineDiff';
+
+const PATH = 'node_operations.generate_chat_text';
+
+describe('Prompt Library', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    promptLibraryService.reload();
+  });
+
+  it('should apply a saved prompt to the next calls and reset it', () => {
+    const defaultText = promptLibraryService.getDefaultPrompt(PATH)!;
+
+    promptLibraryService.savePrompt(PATH, 'Narrate.\n{utils.wrappers.user_input}', 'library');
+
+    expect(loadedPrompts.node_operations.generate_chat_text).toBe('Narrate.\n{utils.wrappers.user_input}');
+    expect(promptLibraryService.listPrompts().find(prompt => prompt.path === PATH)?.source).toBe('library');
+
+    promptLibraryService.resetPrompt(PATH);
+
+    expect(loadedPrompts.node_operations.generate_chat_text).toBe(defaultText);
+    expect(promptLibraryService.listPrompts().find(prompt => prompt.path === PATH)?.source).toBe('default');
+  });
+
+  it('should restore stored overrides on reload', () => {
+    promptLibraryService.savePrompt(PATH, 'Stored {user_input}', 'library');
+    loadedPrompts.node_operations.generate_chat_text = 'Changed elsewhere';
+    promptLibraryService.reload();
+
+    expect(loadedPrompts.node_operations.generate_chat_text).toBe('Stored {user_input}');
+  });
+
+  it('should reject placeholders the caller does not pass', () => {
+    const validation = promptLibraryService.validatePrompt(PATH, '{utils.wrappers.user_input} {player_mood} {utils.wrappers.nope}');
+
+    expect(validation.errors).toEqual([
+      expect.stringContaining('{player_mood} is not passed by the caller'),
+      '{utils.wrappers.nope}: no such wrapper'
+    ]);
+    expect(validation.warnings).toContain('{nodes_description} is passed by the caller but not used');
+    expect(() => promptLibraryService.savePrompt(PATH, 'Hello {player_mood}', 'library')).toThrow(/player_mood/);
+    expect(promptLibraryService.getPrompt(PATH)).toBe(promptLibraryService.getDefaultPrompt(PATH));
+  });
+
+  it('should accept the default prompt of every caller', () => {
+    promptLibraryService.listPrompts().forEach(prompt => {
+      expect(promptLibraryService.validatePrompt(prompt.path, prompt.defaultText).errors).toEqual([]);
+    });
+  });
+
+  it('should layer overrides of the current game over library overrides', () => {
+    promptLibraryService.savePrompt(PATH, 'Library {user_input}', 'library');
+    promptLibraryService.savePrompt(PATH, 'Game {user_input}', 'save');
+
+    expect(loadedPrompts.node_operations.generate_chat_text).toBe('Game {user_input}');
+    expect(promptLibraryService.getSaveOverrides()).toEqual({ [PATH]: 'Game {user_input}' });
+
+    promptLibraryService.setSaveOverrides(null);
+    expect(loadedPrompts.node_operations.generate_chat_text).toBe('Library {user_input}');
+
+    promptLibraryService.setSaveOverrides({ [PATH]: 'Loaded {user_input}', 'node_operations.removed_prompt': 'x' } as Record<string, string>);
+    expect(promptLibraryService.getSaveOverrides()).toEqual({ [PATH]: 'Loaded {user_input}' });
+    expect(loadedPrompts.node_operations.generate_chat_text).toBe('Loaded {user_input}');
+  });
+
+  it('should keep named versions per prompt', () => {
+    const first = promptLibraryService.saveVersion(PATH, 'terse', 'Be brief. {user_input}')!;
+    promptLibraryService.saveVersion(PATH, '  ', 'Be verbose. {user_input}');
+
+    const versions = promptLibraryService.listVersions(PATH);
+    expect(versions.map(version => version.text)).toEqual(['Be brief. {user_input}', 'Be verbose. {user_input}']);
+    expect(versions[1].name).not.toBe('');
+    expect(promptLibraryService.listVersions('node_operations.refocus_story')).toEqual([]);
+
+    promptLibraryService.deleteVersion(PATH, first.id);
+    expect(promptLibraryService.listVersions(PATH)).toHaveLength(1);
+  });
+});
+
+describe('diffLines', () => {
+  it('should mark removed and added lines around common ones', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+      { type: 'same', line: 'a' },
+      { type: 'removed', line: 'b' },
+      { type: 'added', line: 'x' },
+      { type: 'same', line: 'c' },
+      { type: 'added', line: 'd' }
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { renderPromptTemplate, getTemplatePlaceholders, isPromptTemplateError } from '../utils/promptTemplate';
+import { formatPrompt } from '../services/llmCore';
+import { promptLibraryService, PROMPT_REPLACEMENTS } from '../services/promptLibraryService';
+import instructPromptsConfig from '../prompts-instruct.yaml';
+import basePromptsConfig from '../prompts-base.yaml';
+
+const context = { wrappers: { user_input: 'User Input' }, utils: { note: 'A note for {name}.' } };
+
+describe('Prompt Template Engine', () => {
+  it('should report unresolved placeholders and unused replacements', () => {
+    const rendered = renderPromptTemplate('Hello {name}, {utils.note} {missing}', { name: 'Alice', extra: 'x' }, context);
+
+    expect(rendered.text).toBe('Hello Alice, A note for Alice. ');
+    expect(rendered.unresolved).toEqual(['missing']);
+    expect(rendered.unused).toEqual(['extra']);
+  });
+
+  it('should drop unknown wrappers and utils entries instead of inserting text about them', () => {
+    const rendered = renderPromptTemplate('A{utils.wrappers.nope}B{utils.nothing}C {utils.wrappers.user_input}', { user_input: 'go north' }, context);
+
+    expect(rendered.text).toBe('ABC ## User Input:\n---- Start of user input\ngo north\n---- End of user input');
+    expect(rendered.unresolved).toEqual(['utils.wrappers.nope', 'utils.nothing']);
+  });
+
+  it('should keep conditional sections only when their replacement is not blank', () => {
+    const template = 'Intro\n{#if report}\n## Report\n{report}\n{#else}\nNo report.\n{/if}\n{#unless guidance}\nNo guidance.\n{/unless}\nEnd';
+
+    expect(renderPromptTemplate(template, { report: 'All good', guidance: 'Be brief' }).text).toBe('Intro\n## Report\nAll good\nEnd');
+    expect(renderPromptTemplate(template, { report: '  ', guidance: '' }).text).toBe('Intro\nNo report.\nNo guidance.\nEnd');
+    expect(renderPromptTemplate('a {#if x}[{x}]{/if} b', { x: 'y' }).text).toBe('a [y] b');
+  });
+
+  it('should count names of branches that are not rendered as used', () => {
+    const rendered = renderPromptTemplate('{#if report}{report} and {details}{/if}', { report: '', details: 'd' });
+
+    expect(rendered.text).toBe('');
+    expect(rendered).toMatchObject({ unresolved: [], unused: [] });
+    expect(getTemplatePlaceholders('{#unless a}{b}{/unless}{utils.wrappers.user_input}', context).names).toEqual(['a', 'b', 'user_input']);
+  });
+
+  it('should throw a PromptTemplateError for unbalanced conditionals', () => {
+    ['{#if a}never closed', 'stray {/if}', '{#if a}{/unless}', '{#if a}{#else}{#else}{/if}'].forEach(template => {
+      let caught: unknown;
+      try {
+        renderPromptTemplate(template, { a: 'x' });
+      } catch (error) {
+        caught = error;
+      }
+      expect(isPromptTemplateError(caught)).toBe(true);
+    });
+  });
+
+  it('should leave JSON examples untouched', () => {
+    const template = 'Return { "actions": ["a"] } or {"key": {"nested": 1}}';
+
+    expect(renderPromptTemplate(template, {})).toEqual({ text: template, unresolved: [], unused: [] });
+  });
+
+  it('should throw on mismatches in strict mode only', () => {
+    expect(formatPrompt('Hi {name}', { name: 'Bob', unused: 'x' })).toBe('Hi Bob');
+    expect(() => formatPrompt('Hi {name}', {}, { strict: true })).toThrow('Unresolved: name');
+    expect(() => formatPrompt('Hi {name}', { name: 'Bob', unused: 'x' }, { strict: true })).toThrow('Unused: unused');
+    expect(formatPrompt('Hi {name}', { name: 'Bob' }, { strict: true })).toBe('Hi Bob');
+  });
+});
+
+// Test mode: every prompt with a known caller is rendered against fixture inputs, filled and blank
+describe('Prompt catalog rendering', () => {
+  const promptSets: Record<string, Record<string, Record<string, unknown>>> = {
+    instruct: instructPromptsConfig as Record<string, Record<string, unknown>>,
+    base: basePromptsConfig as Record<string, Record<string, unknown>>
+  };
+
+  Object.entries(promptSets).forEach(([setName, prompts]) => {
+    const paths = Object.keys(PROMPT_REPLACEMENTS).filter(path => {
+      const [group, key] = path.split('.');
+      return typeof prompts[group]?.[key] === 'string';
+    });
+
+    it(`should render every ${setName} prompt with exactly the replacements its caller passes`, () => {
+      expect(paths.length).toBeGreaterThan(0);
+      paths.forEach(path => {
+        const [group, key] = path.split('.');
+        const text = prompts[group][key] as string;
+        [false, true].forEach(blank => {
+          const rendered = promptLibraryService.renderPreview(path, text, blank);
+          expect({ path, unresolved: rendered.unresolved }).toEqual({ path, unresolved: [] });
+          expect({ path, unused: rendered.unused }).toEqual({ path, unused: [] });
+        });
+        expect(promptLibraryService.renderPreview(path, text).text).not.toMatch(/\{(#|\/)?(if|unless|else)\b/);
+      });
+    });
+  });
+
+  it('should only show the Moxus sections when there is a report or guidance', () => {
+    const path = 'node_operations.generate_node_edition';
+
+    expect(promptLibraryService.renderPreview(path).text).toContain('<last_moxus_report>');
+    expect(promptLibraryService.renderPreview(path).text).toContain('## Moxus World-Building Guidance');
+    expect(promptLibraryService.renderPreview(path, undefined, true).text).not.toContain('Moxus World-Building Guidance');
+    expect(promptLibraryService.renderPreview(path, undefined, true).text).not.toContain('Latest Moxus Analysis');
+  });
+
+  it('should reject template syntax errors when saving a prompt', () => {
+    const path = 'node_operations.generate_actions';
+    const text = `${promptLibraryService.getDefaultPrompt(path)}\n{#if last_moxus_report}`;
+
+    expect(promptLibraryService.validatePrompt(path, text).errors).toEqual(['{#if last_moxus_report} is never closed']);
+  });
+});
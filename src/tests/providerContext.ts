@@ -0,0 +1,11 @@
+import { LLMProviderRequestContext } from '../services/llmProviderRegistry';
+
+// Request context of an LLM provider call, as getResponse builds it, for provider tests
+export const makeContext = (overrides: Partial<LLMProviderRequestContext> = {}): LLMProviderRequestContext => ({
+  messages: [{ role: 'system', content: 'You are a narrator.' }, { role: 'user', content: 'Hello' }],
+  model: 'test-model',
+  stream: false,
+  options: {},
+  includeReasoning: true,
+  ...overrides
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Node } from '../models/Node';
+import { Message } from '../context/ChatContext';
+import { saveSlotService } from '../services/saveSlotService';
+import { createHistoryEntry, findSnapshotAtChatLength } from '../utils/historyUtils';
+
+const makeNode = (id: string, description: string): Node => ({
+  id,
+  name: id,
+  longDescription: description,
+  image: '',
+  type: 'character'
+});
+
+const chatHistory: Message[] = [
+  { role: 'user', content: 'Hello' },
+  { role: 'assistant', content: 'Welcome, traveler.' },
+  { role: 'user', content: 'I draw my sword' },
+  { role: 'assistant', content: 'The goblin flees.' }
+];
+
+describe('Save Slots', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should create, list and load a slot without the updateImage flag', () => {
+    const slot = saveSlotService.createSlot('Campaign', {
+      nodes: [{ ...makeNode('hero', 'A hero'), updateImage: true }],
+      chatHistory,
+      moxusMemory: { GeneralMemory: 'notes' }
+    });
+
+    expect(slot).not.toBeNull();
+    expect(saveSlotService.listSlots()).toHaveLength(1);
+    expect(slot!.messageCount).toBe(4);
+
+    const data = saveSlotService.loadSlot(slot!.id);
+    expect(data!.nodes[0]).not.toHaveProperty('updateImage');
+    expect(data!.chatHistory).toEqual(chatHistory);
+    expect(data!.moxusMemory).toEqual({ GeneralMemory: 'notes' });
+  });
+
+  it('should overwrite an existing slot and keep its fork metadata', () => {
+    const parent = saveSlotService.createSlot('Main', { nodes: [], chatHistory });
+    const branch = saveSlotService.createSlot('Branch', { nodes: [], chatHistory: chatHistory.slice(0, 2) }, { parentId: parent!.id, forkedAtMessage: 1 });
+
+    const updated = saveSlotService.saveSlot(branch!.id, 'Branch', { nodes: [makeNode('hero', 'A hero')], chatHistory });
+
+    expect(updated!.parentId).toBe(parent!.id);
+    expect(updated!.forkedAtMessage).toBe(1);
+    expect(updated!.nodeCount).toBe(1);
+    expect(saveSlotService.listSlots()).toHaveLength(2);
+  });
+
+  it('should rename and delete slots, detaching child branches', () => {
+    const parent = saveSlotService.createSlot('Main', { nodes: [], chatHistory });
+    const branch = saveSlotService.createSlot('Branch', { nodes: [], chatHistory }, { parentId: parent!.id, forkedAtMessage: 2 });
+    saveSlotService.setActiveSlotId(parent!.id);
+
+    saveSlotService.renameSlot(branch!.id, 'Goblin route');
+    saveSlotService.deleteSlot(parent!.id);
+
+    const slots = saveSlotService.listSlots();
+    expect(slots).toHaveLength(1);
+    expect(slots[0].name).toBe('Goblin route');
+    expect(slots[0].parentId).toBeUndefined();
+    expect(saveSlotService.loadSlot(parent!.id)).toBeNull();
+    expect(saveSlotService.getActiveSlotId()).toBeNull();
+  });
+
+  it('should fork with the chat truncated at the message and the graph and Moxus memory of that time', () => {
+    const history = [
+      createHistoryEntry([makeNode('hero', 'v1')], chatHistory.slice(0, 2), 'LLM node edition', 'edition-1', { GeneralMemory: 'm1' }),
+      createHistoryEntry([makeNode('hero', 'v2')], chatHistory.slice(0, 4), 'LLM node edition', 'edition-2', { GeneralMemory: 'm2' })
+    ];
+
+    const stateAtMessage = findSnapshotAtChatLength(history, chatHistory, 2);
+    const fork = saveSlotService.buildForkData(chatHistory, 1, stateAtMessage!);
+
+    expect(fork.chatHistory).toHaveLength(2);
+    expect(fork.nodes[0].longDescription).toBe('v2');
+    expect(fork.moxusMemory).toEqual({ GeneralMemory: 'm2' });
+  });
+
+  it('should not find the state at a message when no later snapshot exists', () => {
+    const history = [createHistoryEntry([makeNode('hero', 'v1')], chatHistory.slice(0, 2), 'Add node', undefined, {})];
+
+    expect(findSnapshotAtChatLength(history, chatHistory, 3)).toBeNull();
+  });
+
+  it('should not find the state at a message when earlier snapshots were dropped or reloaded away', () => {
+    const history = [createHistoryEntry([makeNode('hero', 'v2')], chatHistory.slice(0, 4), 'LLM node edition', 'edition-2', {})];
+
+    expect(findSnapshotAtChatLength(history, chatHistory, 2)).toBeNull();
+    expect(findSnapshotAtChatLength([], chatHistory, 2)).toBeNull();
+  });
+
+  it('should not find the state at a message from snapshots of another chat', () => {
+    const otherChat: Message[] = [chatHistory[0], { role: 'assistant', content: 'A dragon lands.' }, ...chatHistory.slice(2)];
+    const history = [
+      createHistoryEntry([makeNode('hero', 'v1')], chatHistory.slice(0, 1), 'Add node', undefined, {}),
+      createHistoryEntry([makeNode('hero', 'v2')], otherChat, 'Load slot Other', undefined, {})
+    ];
+
+    expect(findSnapshotAtChatLength(history, chatHistory, 2)).toBeNull();
+    expect(findSnapshotAtChatLength(history, otherChat, 2)!.nodes[0].longDescription).toBe('v2');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { applyTextDiffInstructions } from '../utils/textUtils';
+import { applyTextDiffInstructions, applyTextDiffInstructionsWithReport, textSimilarity } from '../utils/textUtils';
 import { TextDiffInstruction } from '../models/nodeOperations';
 
 describe('Text Diff Instructions Validation', () => {
@@ -247,6 +247,93 @@ Neon is a curious apprentice postman eager to learn on his routes but struggles
     });
   });
 
+  describe('Fuzzy matching', () => {
+    it('should report exact matches', () => {
+      const result = applyTextDiffInstructionsWithReport(sampleCharacterDescription, [
+        { prev_txt: "Class: Postman", next_txt: "Class: Courier" }
+      ]);
+
+      expect(result.exact).toBe(1);
+      expect(result.edits[0]).toMatchObject({ status: 'exact', similarity: 1, matchedText: "Class: Postman" });
+      expect(result.text).toContain("Class: Courier");
+    });
+
+    it('should match despite whitespace differences', () => {
+      const result = applyTextDiffInstructionsWithReport(sampleCharacterDescription, [
+        { prev_txt: "Name: Neon Age: 26", next_txt: "Name: Neon\n    Age: 27" }
+      ]);
+
+      expect(result.fuzzy).toBe(1);
+      expect(result.edits[0].matchedText).toBe("Name: Neon\n    Age: 26");
+      expect(result.text).toContain("Name: Neon\n    Age: 27\n    Class: Postman");
+    });
+
+    it('should match despite curly quotes and dashes', () => {
+      const text = `She said "don't go" - then left.`;
+      const result = applyTextDiffInstructionsWithReport(text, [
+        { prev_txt: "said “don’t go” — then", next_txt: "whispered \"stay\" and then" }
+      ]);
+
+      expect(result.fuzzy).toBe(1);
+      expect(result.text).toBe(`She whispered "stay" and then left.`);
+    });
+
+    it('should match the most similar span when punctuation or wording drifts slightly', () => {
+      const result = applyTextDiffInstructionsWithReport(sampleCharacterDescription, [
+        { prev_txt: "His postal uniform changes colour based on message urgency", next_txt: "His postal uniform is always grey" }
+      ]);
+
+      expect(result.fuzzy).toBe(1);
+      expect(result.edits[0].similarity).toBeGreaterThan(0.85);
+      expect(result.edits[0].similarity).toBeLessThan(1);
+      expect(result.edits[0].matchedText).toBe("His postal uniform changes color based on message urgency.");
+      expect(result.text).toContain("His postal uniform is always grey He carries");
+    });
+
+    it('should fail when the best span is below the threshold', () => {
+      const result = applyTextDiffInstructionsWithReport(sampleCharacterDescription, [
+        { prev_txt: "His postal uniform glows red when the message is urgent", next_txt: "replacement" }
+      ]);
+
+      expect(result.failed).toBe(1);
+      expect(result.edits[0].status).toBe('failed');
+      expect(result.text).toBe(sampleCharacterDescription);
+    });
+
+    it('should accept a custom threshold', () => {
+      const instructions = [{ prev_txt: "His postal uniform changes colour depending on urgency", next_txt: "replacement" }];
+
+      expect(applyTextDiffInstructionsWithReport(sampleCharacterDescription, instructions).failed).toBe(1);
+      expect(applyTextDiffInstructionsWithReport(sampleCharacterDescription, instructions, { threshold: 0.6 }).fuzzy).toBe(1);
+    });
+
+    it('should not fuzzy-match short fragments or later occurrences', () => {
+      const result = applyTextDiffInstructionsWithReport(sampleCharacterDescription, [
+        { prev_txt: "Neom", next_txt: "Neo" },
+        { prev_txt: "Neon wears a linen white tunic", next_txt: "Neon wears armor", occ: 2 }
+      ]);
+
+      expect(result.failed).toBe(2);
+      expect(result.text).toBe(sampleCharacterDescription);
+    });
+
+    it('should count each outcome across several edits', () => {
+      const result = applyTextDiffInstructionsWithReport(sampleCharacterDescription, [
+        { prev_txt: "Strength: 2/10", next_txt: "Strength: 3/10" },
+        { prev_txt: "Willpower:  5/10", next_txt: "Willpower: 6/10" },
+        { prev_txt: "Charisma: 9/10", next_txt: "Charisma: 1/10" }
+      ]);
+
+      expect([result.exact, result.fuzzy, result.failed]).toEqual([1, 1, 1]);
+      expect(result.edits.map(edit => edit.status)).toEqual(['exact', 'fuzzy', 'failed']);
+    });
+
+    it('should compute similarity from edit distance', () => {
+      expect(textSimilarity('colour', 'color')).toBeCloseTo(5 / 6);
+      expect(textSimilarity('', '')).toBe(1);
+    });
+  });
+
   describe('Performance and robustness', () => {
     it('should handle large text efficiently', () => {
       const largeText = sampleCharacterDescription.repeat(100);
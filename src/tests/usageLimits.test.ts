@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { usageLimitService, isUsageLimitError } from '../services/usageLimitService';
+import { llmUsageService } from '../services/llmUsageService';
+import { getResponse, getMoxusFeedback, isAbortError } from '../services/llmCore';
+import { moxusService } from '../services/MoxusService';
+import { readLLMStreamText } from '../services/llmStreamParser';
+
+const originalLimits = usageLimitService.getLimits();
+const originalOptionalCallTypes = ['moxus_', 'INTERNAL_', 'node_sort_by_relevance'];
+
+// Records a finished call of `tokens` prompt tokens in the current session
+const recordUsage = (callType: string, tokens: number) => {
+  const callId = `limit-test-${Math.random()}`;
+  llmUsageService.beginCall(callId, { callType, model: 'local-model', promptText: '' });
+  llmUsageService.completeCall(callId, '', { promptTokens: tokens, completionTokens: 0 });
+};
+
+// SSE response whose body the test writes to and closes
+const controlledStreamResponse = () => {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({ start(streamController) { controller = streamController; } });
+  const send = (line: string) => controller.enqueue(new TextEncoder().encode(`${line}\n`));
+  return { response: new Response(body), send, close: () => controller.close() };
+};
+
+const okResponse = () => new Response(JSON.stringify({ choices: [{ message: { content: 'Hi' } }] }));
+
+describe('Usage Limits', () => {
+  beforeEach(() => {
+    llmUsageService.clear();
+  });
+
+  afterEach(() => {
+    usageLimitService.setLimits(originalLimits, originalOptionalCallTypes);
+  });
+
+  it('should block calls once a hard limit is reached', () => {
+    usageLimitService.setLimits({ session: { maxTokens: 1000 } });
+    recordUsage('chat_text_generation', 600);
+    expect(() => usageLimitService.checkBudget('chat_text_generation')).not.toThrow();
+
+    recordUsage('chat_text_generation', 400);
+    let error: unknown;
+    try {
+      usageLimitService.checkBudget('chat_text_generation');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(isUsageLimitError(error)).toBe(true);
+    expect(error).toMatchObject({ degraded: false, status: { scope: 'session', metric: 'tokens', used: 1000, limit: 1000 } });
+  });
+
+  it('should skip optional work first when a soft limit is reached', () => {
+    usageLimitService.setLimits({ softLimitRatio: 0.5, hour: { maxTokens: 1000 } }, ['moxus_']);
+    recordUsage('chat_text_generation', 600);
+
+    expect(usageLimitService.isOptionalWorkPaused()).toBe(true);
+    expect(() => usageLimitService.checkBudget('chat_text_generation')).not.toThrow();
+    expect(() => usageLimitService.checkBudget('moxus_feedback_on_chat_text_generation')).toThrow(/Optional LLM call/);
+  });
+
+  it('should apply call type limits to that call type only', () => {
+    usageLimitService.setLimits({ callTypes: [{ callType: 'action_generation', session: { maxTokens: 100 } }] });
+    recordUsage('action_generation', 100);
+
+    expect(() => usageLimitService.checkBudget('action_generation')).toThrow(/action_generation \(session\) token limit/);
+    expect(() => usageLimitService.checkBudget('chat_text_generation')).not.toThrow();
+    expect(usageLimitService.getLimitStatuses().map(status => status.scope)).toEqual(['action_generation (session)']);
+  });
+
+  it('should queue calls beyond the concurrency limit until a slot is released', async () => {
+    usageLimitService.setLimits({ maxConcurrentRequests: 1 });
+    const releaseFirst = await usageLimitService.acquire('chat_text_generation');
+    let secondAcquired = false;
+    const second = usageLimitService.acquire('action_generation').then(release => {
+      secondAcquired = true;
+      return release;
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(secondAcquired).toBe(false);
+
+    releaseFirst();
+    (await second)();
+    expect(secondAcquired).toBe(true);
+    expect(usageLimitService.getActiveRequests()).toBe(0);
+  });
+
+  it('should stop waiting for a slot when the call is aborted', async () => {
+    usageLimitService.setLimits({ maxConcurrentRequests: 1 });
+    const release = await usageLimitService.acquire('chat_text_generation');
+    const controller = new AbortController();
+
+    const waiting = usageLimitService.acquire('action_generation', controller.signal);
+    controller.abort();
+
+    expect(isAbortError(await waiting.catch(error => error))).toBe(true);
+    release();
+    expect(usageLimitService.getActiveRequests()).toBe(0);
+  });
+
+  it('should hold requests beyond the per-minute limit', async () => {
+    vi.useFakeTimers();
+    usageLimitService.setLimits({ maxRequestsPerMinute: 1 });
+    await usageLimitService.throttle();
+    let sent = false;
+    const next = usageLimitService.throttle().then(() => { sent = true; });
+
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(sent).toBe(false);
+    await vi.advanceTimersByTimeAsync(30000);
+    await next;
+    expect(sent).toBe(true);
+    vi.useRealTimers();
+  });
+
+  it('should double the backoff delay with each attempt', () => {
+    expect([1, 2, 3].map(attempt => usageLimitService.getBackoffDelay(attempt, 1000))).toEqual([1000, 2000, 4000]);
+  });
+});
+
+describe('Usage limits in getResponse', () => {
+  beforeEach(() => {
+    llmUsageService.clear();
+  });
+
+  afterEach(() => {
+    usageLimitService.setLimits(originalLimits, originalOptionalCallTypes);
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should fail a blocked call without sending it', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    const fetchMock = vi.fn().mockResolvedValue(okResponse());
+    vi.stubGlobal('fetch', fetchMock);
+    usageLimitService.setLimits({ session: { maxTokens: 10 } });
+    recordUsage('chat_text_generation', 10);
+
+    const error = await getResponse([{ role: 'user', content: 'Hello' }], 'test-model', undefined, false, undefined, { skipMoxusFeedback: true }, 'limit_test_blocked')
+      .catch(caught => caught);
+
+    expect(isUsageLimitError(error)).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(moxusService.getLLMLogEntries().find(call => call.callType === 'limit_test_blocked')?.status).toBe('failed');
+  });
+
+  it('should let Moxus feedback calls fail with the limit error instead of an error text', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    usageLimitService.setLimits({ softLimitRatio: 0.5, session: { maxTokens: 10 } });
+    recordUsage('chat_text_generation', 6);
+
+    await expect(getMoxusFeedback('Give feedback', 'moxus_feedback_on_chat_text_generation')).rejects.toMatchObject({ name: 'UsageLimitError', degraded: true });
+  });
+
+  it('should back off after a 429 and retry', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('Slow down', { status: 429, statusText: 'Too Many Requests' }))
+      .mockResolvedValueOnce(okResponse());
+    vi.stubGlobal('fetch', fetchMock);
+    usageLimitService.setLimits({});
+    const startedAt = Date.now();
+
+    const result = await getResponse([{ role: 'user', content: 'Hello' }], 'test-model', undefined, false, undefined, { skipMoxusFeedback: true }, 'limit_test_429');
+
+    expect(result.llmResult).toBe('Hi');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('should hold the request slot of a stream until it is read to the end', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    const stream = controlledStreamResponse();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(stream.response));
+    usageLimitService.setLimits({ maxConcurrentRequests: 1 });
+
+    const result = await getResponse([{ role: 'user', content: 'Hello' }], 'test-model', undefined, true, undefined, { skipMoxusFeedback: true }, 'limit_test_stream');
+    expect(usageLimitService.getActiveRequests()).toBe(1);
+
+    const reading = readLLMStreamText(result.streamResponse as Response);
+    stream.send('data: {"choices":[{"delta":{"content":"Hi"}}]}');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(usageLimitService.getActiveRequests()).toBe(1);
+
+    stream.send('data: [DONE]');
+    stream.close();
+    expect((await reading).text).toBe('Hi');
+    expect(usageLimitService.getActiveRequests()).toBe(0);
+  });
+
+  it('should release the request slot of a stream when the call is aborted', async () => {
+    vi.stubEnv('VITE_LLM_API', 'openai');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(controlledStreamResponse().response));
+    usageLimitService.setLimits({ maxConcurrentRequests: 1 });
+    const controller = new AbortController();
+
+    await getResponse([{ role: 'user', content: 'Hello' }], 'test-model', undefined, true, undefined, { skipMoxusFeedback: true, signal: controller.signal }, 'limit_test_stream_abort');
+    expect(usageLimitService.getActiveRequests()).toBe(1);
+
+    controller.abort();
+    expect(usageLimitService.getActiveRequests()).toBe(0);
+  });
+});
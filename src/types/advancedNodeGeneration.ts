@@ -1,5 +1,7 @@
 // Advanced Node Generation Pipeline Types
 
+import { TextDiffEditResult } from '../utils/textUtils';
+
 export interface PlanningStageOutput {
   targetNodeIds: string[];
   deleteNodeIds: string[];
@@ -43,6 +45,7 @@ export interface PipelineState {
   planningOutput?: PlanningStageOutput;
   searchResults?: SearchResults;
   generatedDiffs?: { [nodeId: string]: any }; // Diff format from node_edition prompt
+  diffResults?: { [nodeId: string]: TextDiffEditResult[] }; // Outcome of each df instruction of the last generation (exact, fuzzy, failed)
   validationResult?: ValidationResult;
   
   // State tracking
@@ -0,0 +1,179 @@
+import { NodeAttribute, NodeAttributeType } from '../models/Node';
+import { FieldUpdateOperation } from '../models/nodeOperations';
+
+export type NodeAttributes = { [key: string]: NodeAttribute };
+
+export const ATTRIBUTE_FIELD_PREFIX = 'attributes.';
+
+const ATTRIBUTE_TYPES: NodeAttributeType[] = ['number', 'string', 'boolean', 'list'];
+
+const inferAttributeType = (value: any): NodeAttributeType | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string') return 'string';
+  if (Array.isArray(value)) return 'list';
+  return null;
+};
+
+const clampNumber = (value: number, min?: number, max?: number): number => {
+  let result = value;
+  if (typeof min === 'number') result = Math.max(min, result);
+  if (typeof max === 'number') result = Math.min(max, result);
+  return result;
+};
+
+/**
+ * Converts a raw value to the given attribute type. Returns undefined when the conversion is not possible.
+ */
+const coerceValue = (value: any, type: NodeAttributeType): NodeAttribute['value'] | undefined => {
+  switch (type) {
+    case 'number': {
+      const num = typeof value === 'number' ? value : parseFloat(value);
+      return Number.isFinite(num) ? num : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      return undefined;
+    case 'string':
+      return value === undefined || value === null ? undefined : String(value);
+    case 'list':
+      if (Array.isArray(value)) return value.filter(v => v !== undefined && v !== null).map(v => String(v));
+      return undefined;
+  }
+};
+
+/**
+ * Validates a single attribute definition, accepting either a full definition
+ * (`{ type, value, min, max }`) or a bare value whose type is inferred.
+ * @returns The clean attribute, or null if it cannot be understood.
+ */
+export function sanitizeAttribute(raw: any): NodeAttribute | null {
+  if (raw === undefined || raw === null) return null;
+
+  const isDefinition = typeof raw === 'object' && !Array.isArray(raw) && 'value' in raw;
+  const rawValue = isDefinition ? raw.value : raw;
+  const type: NodeAttributeType | null = isDefinition && ATTRIBUTE_TYPES.includes(raw.type) ? raw.type : inferAttributeType(rawValue);
+  if (!type) return null;
+
+  const value = coerceValue(rawValue, type);
+  if (value === undefined) return null;
+
+  const attribute: NodeAttribute = { type, value };
+  if (type === 'number' && isDefinition) {
+    if (typeof raw.min === 'number') attribute.min = raw.min;
+    if (typeof raw.max === 'number') attribute.max = raw.max;
+    attribute.value = clampNumber(value as number, attribute.min, attribute.max);
+  }
+  return attribute;
+}
+
+/**
+ * Cleans a full attributes map, dropping entries that are not valid attributes.
+ */
+export function sanitizeAttributes(raw: any): NodeAttributes {
+  const result: NodeAttributes = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return result;
+  for (const key of Object.keys(raw)) {
+    if (!key.trim()) continue;
+    const attribute = sanitizeAttribute(raw[key]);
+    if (attribute) result[key.trim()] = attribute;
+  }
+  return result;
+}
+
+/**
+ * Applies a field operation to one attribute.
+ * - `rpl`: sets the value (keeping the existing type and bounds), or defines the attribute when given `{ type, value }`. `null` removes it.
+ * - `inc`: adds to a number attribute, clamped to min/max.
+ * - `add` / `rmv`: appends to / removes from a list attribute.
+ * @param attributes The node's current attributes (not mutated).
+ * @param key The attribute name.
+ * @param operation The field operation from u_nodes.
+ * @returns The new attributes map, or an error message when the operation does not fit the attribute.
+ */
+export function applyAttributeOperation(attributes: NodeAttributes | undefined, key: string, operation: FieldUpdateOperation): { attributes: NodeAttributes; error?: string } {
+  const current = attributes || {};
+  const existing = current[key];
+  const next: NodeAttributes = { ...current };
+
+  if (operation.rpl !== undefined) {
+    if (operation.rpl === null) {
+      delete next[key];
+      return { attributes: next };
+    }
+    const isDefinition = typeof operation.rpl === 'object' && !Array.isArray(operation.rpl) && 'value' in operation.rpl;
+    if (existing && !isDefinition) {
+      const value = coerceValue(operation.rpl, existing.type);
+      if (value === undefined) {
+        return { attributes: current, error: `Value ${JSON.stringify(operation.rpl)} is not a valid ${existing.type} for attribute '${key}'.` };
+      }
+      next[key] = { ...existing, value: existing.type === 'number' ? clampNumber(value as number, existing.min, existing.max) : value };
+      return { attributes: next };
+    }
+    const attribute = sanitizeAttribute(operation.rpl);
+    if (!attribute) {
+      return { attributes: current, error: `Could not create attribute '${key}' from ${JSON.stringify(operation.rpl)}.` };
+    }
+    next[key] = attribute;
+    return { attributes: next };
+  }
+
+  if (operation.inc !== undefined) {
+    const amount = typeof operation.inc === 'number' ? operation.inc : parseFloat(operation.inc as any);
+    if (!Number.isFinite(amount)) {
+      return { attributes: current, error: `Increment for attribute '${key}' is not a number.` };
+    }
+    if (!existing) {
+      next[key] = { type: 'number', value: amount };
+      return { attributes: next };
+    }
+    if (existing.type !== 'number') {
+      return { attributes: current, error: `Cannot increment attribute '${key}' of type ${existing.type}.` };
+    }
+    next[key] = { ...existing, value: clampNumber((existing.value as number) + amount, existing.min, existing.max) };
+    return { attributes: next };
+  }
+
+  if (operation.add !== undefined || operation.rmv !== undefined) {
+    if (existing && existing.type !== 'list') {
+      return { attributes: current, error: `Cannot add/remove entries on attribute '${key}' of type ${existing.type}.` };
+    }
+    let list = existing ? [...(existing.value as string[])] : [];
+    (Array.isArray(operation.rmv) ? operation.rmv : []).forEach(entry => {
+      // Removes a single occurrence, so stacked items ("potion", "potion") can be consumed one at a time
+      const index = list.findIndex(item => item.toLowerCase() === String(entry).toLowerCase());
+      if (index !== -1) list.splice(index, 1);
+    });
+    list = [...list, ...(Array.isArray(operation.add) ? operation.add.map(entry => String(entry)) : [])];
+    next[key] = { type: 'list', value: list };
+    return { attributes: next };
+  }
+
+  return { attributes: current, error: `No supported operation for attribute '${key}'.` };
+}
+
+/**
+ * Formats an attribute value for display, e.g. "12 (0-20)" or "rope, torch".
+ */
+export function formatAttributeValue(attribute: NodeAttribute): string {
+  if (attribute.type === 'list') {
+    const list = attribute.value as string[];
+    return list.length > 0 ? list.join(', ') : '(empty)';
+  }
+  if (attribute.type === 'number' && (attribute.min !== undefined || attribute.max !== undefined)) {
+    return `${attribute.value} (${attribute.min ?? '-∞'}-${attribute.max ?? '∞'})`;
+  }
+  return String(attribute.value);
+}
+
+/**
+ * Formats all attributes of a node as a single line for prompts, e.g. "hp: 12 (0-20), gold: 5".
+ */
+export function formatAttributesForPrompt(attributes: NodeAttributes | undefined): string {
+  if (!attributes) return '';
+  return Object.entries(attributes)
+    .map(([key, attribute]) => `${key}: ${formatAttributeValue(attribute)}`)
+    .join(', ');
+}
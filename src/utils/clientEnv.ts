@@ -0,0 +1,55 @@
+// Variables of .env compiled into the client bundle as import.meta.env (see vite.config.ts)
+export const CLIENT_ENV_VARIABLES = [
+  'VITE_LLM_API',
+  'VITE_LLM_MODE',
+  'VITE_LLM_GATEWAY_URL',
+  'VITE_IMG_API',
+  'VITE_OAI_KEY',
+  'VITE_OPENROUTER_KEY',
+  'VITE_OAI_IMAGE_MODEL',
+  'VITE_OPENROUTER_IMAGE_MODEL',
+  'VITE_LLM_HOST',
+  'VITE_IMG_HOST',
+  'VITE_BRAVE_API_KEY',
+  'VITE_KOBOLDCPP_API_URL',
+  'VITE_KOBOLDCPP_PASSWORD',
+  'VITE_KOBOLDCPP_MAX_CONTEXT',
+  'VITE_OPENAI_COMPATIBLE_BASE_URL',
+  'VITE_OPENAI_COMPATIBLE_KEY',
+  'VITE_OPENAI_COMPATIBLE_AUTH_HEADER',
+  'VITE_OPENAI_COMPATIBLE_MODEL',
+  'VITE_OPENAI_COMPATIBLE_MODELS',
+  'VITE_OPENAI_COMPATIBLE_JSON_MODE',
+  'VITE_OLLAMA_BASE_URL',
+  'VITE_OLLAMA_MODEL',
+  'VITE_OLLAMA_NUM_CTX',
+  'VITE_ANTHROPIC_KEY',
+  'VITE_ANTHROPIC_MODEL',
+  'VITE_ANTHROPIC_BASE_URL',
+  'VITE_ANTHROPIC_MAX_TOKENS'
+];
+
+const isApiKeyVariable = (name: string): boolean => name.endsWith('_KEY');
+
+/**
+ * Builds the import.meta.env of the client bundle from the build environment. With a gateway
+ * (VITE_LLM_GATEWAY_URL), the gateway holds the keys and every *_KEY variable is left out.
+ */
+export const buildClientEnv = (env: Record<string, string | undefined>): Record<string, string | undefined> => {
+  const useGateway = !!env.VITE_LLM_GATEWAY_URL;
+  return Object.fromEntries(
+    CLIENT_ENV_VARIABLES
+      .filter(name => !(useGateway && isApiKeyVariable(name)))
+      .map(name => [name, env[name]])
+  );
+};
+
+/**
+ * VITE_*_KEY variables set next to a gateway URL. Leaving them out of buildClientEnv is not
+ * enough: a Vite build compiles every VITE_* variable of the environment into the bundle, so
+ * the build refuses to run while any of them is set.
+ */
+export const findBundledApiKeys = (env: Record<string, string | undefined>): string[] =>
+  env.VITE_LLM_GATEWAY_URL
+    ? Object.keys(env).filter(name => name.startsWith('VITE_') && isApiKeyVariable(name) && env[name]).sort()
+    : [];
@@ -0,0 +1,162 @@
+import { Node } from '../models/Node';
+import { Message } from '../context/ChatContext';
+
+// Rough average for English prose across common tokenizers; good enough to keep prompts under a budget
+const CHARS_PER_TOKEN = 4;
+
+// Share of the free budget history may claim when history and nodes don't both fit
+const HISTORY_SHARE = 0.35;
+
+export interface ContextBudgetReport {
+  budget: number;
+  fixedTokens: number;          // Prompt template and every section that is never trimmed
+  usedTokens: number;
+  nodesFull: number;
+  nodesCompacted: number;
+  nodesDropped: number;
+  historyDropped: number;       // Messages left out, oldest first
+  historyTruncated: boolean;    // The oldest message kept was cut to fit
+}
+
+export interface BudgetedContext {
+  nodesDescription: string;
+  stringHistory: string;
+  report: ContextBudgetReport | null;  // null when no budget applies and nothing was trimmed
+}
+
+export interface ContextBudgetInput<T> {
+  budget?: number;
+  fixedText: string;
+  nodes: T[];                                            // In prompt order, which trimming preserves
+  formatNode: (node: T, compact: boolean) => string;
+  priority?: (node: T) => number;                        // Lower is more relevant; trimming starts with the highest
+  history?: Message[];                                   // Oldest first
+  formatMessage?: (message: Message) => string;
+}
+
+/**
+ * Estimates the number of tokens in a text without a tokenizer.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Shortens a text to its first sentences within maxChars, marking the cut with an ellipsis.
+ */
+export const compactText = (text: string, maxChars: number = 200): string => {
+  const trimmed = (text || '').trim();
+  if (trimmed.length <= maxChars) return trimmed;
+  const slice = trimmed.slice(0, maxChars);
+  const sentenceEnd = Math.max(slice.lastIndexOf('. '), slice.lastIndexOf('! '), slice.lastIndexOf('? '));
+  const cut = sentenceEnd > maxChars / 2 ? slice.slice(0, sentenceEnd + 1) : slice.replace(/\s+\S*$/, '');
+  return `${cut}…`;
+};
+
+/**
+ * Node priority for fitContextToBudget: nodes of `pinnedTypes` first, then nodes whose name appears
+ * in the text, then the rest.
+ */
+export const mentionPriority = (text: string, pinnedTypes: string[] = ['system']) => {
+  const lowerText = text.toLowerCase();
+  return (node: Node): number => {
+    if (pinnedTypes.includes(node.type)) return 0;
+    if (node.name && lowerText.includes(node.name.toLowerCase())) return 1;
+    return 2;
+  };
+};
+
+const fitHistory = (messages: string[], budget: number) => {
+  const kept: string[] = [];
+  let used = 0;
+  let truncated = false;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(messages[i]);
+    if (used + tokens <= budget) {
+      kept.unshift(messages[i]);
+      used += tokens;
+      continue;
+    }
+    // Keep the end of the message that doesn't fit, so the latest exchange is never lost entirely
+    const remainingChars = (budget - used) * CHARS_PER_TOKEN;
+    if (remainingChars > 40) {
+      kept.unshift(`…${messages[i].slice(-remainingChars + 1)}`);
+      used = budget;
+      truncated = true;
+    }
+    break;
+  }
+  return { text: kept.join(''), used, dropped: messages.length - kept.length, truncated };
+};
+
+/**
+ * Builds the nodes and history sections of a prompt within a token budget.
+ * Without a budget, or when everything fits, the sections are returned in full. Otherwise the oldest
+ * history is dropped first (history may keep at least its share of the free budget), then the
+ * least relevant nodes are reduced to their compact form and finally left out.
+ */
+export const fitContextToBudget = <T>({ budget, fixedText, nodes, formatNode, priority = () => 0, history = [], formatMessage = message => `${message.role}: ${message.content}\n` }: ContextBudgetInput<T>): BudgetedContext => {
+  const fullNodes = nodes.map(node => formatNode(node, false));
+  const historyLines = history.map(formatMessage);
+  const fullNodesText = fullNodes.join('');
+  const fullHistoryText = historyLines.join('');
+
+  if (!budget || budget <= 0) {
+    return { nodesDescription: fullNodesText, stringHistory: fullHistoryText, report: null };
+  }
+
+  const fixedTokens = estimateTokens(fixedText);
+  const available = Math.max(0, budget - fixedTokens);
+  const nodesTokens = estimateTokens(fullNodesText);
+  const historyTokens = estimateTokens(fullHistoryText);
+
+  if (nodesTokens + historyTokens <= available) {
+    return { nodesDescription: fullNodesText, stringHistory: fullHistoryText, report: null };
+  }
+
+  const historyBudget = Math.max(Math.floor(available * HISTORY_SHARE), available - nodesTokens);
+  const fittedHistory = fitHistory(historyLines, Math.min(historyBudget, available));
+
+  let nodesBudget = available - fittedHistory.used;
+  let compactMode = false;
+  let nodesFull = 0;
+  let nodesCompacted = 0;
+  let nodesDropped = 0;
+  const keptNodes: (string | null)[] = nodes.map(() => null);
+  const byRelevance = nodes
+    .map((node, index) => ({ node, index, priority: priority(node) }))
+    .sort((a, b) => a.priority - b.priority || a.index - b.index);
+  byRelevance.forEach(({ node, index }) => {
+    if (!compactMode) {
+      const tokens = estimateTokens(fullNodes[index]);
+      if (tokens <= nodesBudget) {
+        keptNodes[index] = fullNodes[index];
+        nodesBudget -= tokens;
+        nodesFull++;
+        return;
+      }
+      // Once a node no longer fits in full, every less relevant node is compacted
+      compactMode = true;
+    }
+    const compact = formatNode(node, true);
+    const tokens = estimateTokens(compact);
+    if (tokens <= nodesBudget) {
+      keptNodes[index] = compact;
+      nodesBudget -= tokens;
+      nodesCompacted++;
+    } else {
+      nodesDropped++;
+    }
+  });
+
+  const nodesDescription = keptNodes.filter((text): text is string => text !== null).join('');
+  const report: ContextBudgetReport = {
+    budget,
+    fixedTokens,
+    usedTokens: fixedTokens + fittedHistory.used + estimateTokens(nodesDescription),
+    nodesFull,
+    nodesCompacted,
+    nodesDropped,
+    historyDropped: fittedHistory.dropped,
+    historyTruncated: fittedHistory.truncated
+  };
+  return { nodesDescription, stringHistory: fittedHistory.text, report };
+};
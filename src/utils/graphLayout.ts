@@ -0,0 +1,193 @@
+import { Node } from '../models/Node';
+
+export interface GraphEdge {
+  sourceId: string;
+  targetId: string;
+  kind: 'link' | 'mention';
+  type?: string;  // Link type, only for 'link' edges
+  label?: string;
+}
+
+export interface GraphPosition {
+  x: number;
+  y: number;
+}
+
+export interface GraphLayoutOptions {
+  width: number;
+  height: number;
+  iterations?: number;
+}
+
+// Node names shorter than this are too likely to match unrelated words
+const MIN_MENTION_NAME_LENGTH = 3;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the edges of the graph view.
+ * Explicit node links are used first; when two nodes are not linked, a mention of a node's name
+ * inside another node's longDescription creates a weaker 'mention' edge.
+ * @param nodes The nodes to connect.
+ * @returns The list of edges. A pair of nodes never gets both a link and a mention edge.
+ */
+export function deriveGraphEdges(nodes: Node[]): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const connectedPairs = new Set<string>();
+  const pairKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+
+  nodes.forEach(node => {
+    (node.links || []).forEach(link => {
+      if (!nodeIds.has(link.targetId) || link.targetId === node.id) return;
+      edges.push({ sourceId: node.id, targetId: link.targetId, kind: 'link', type: link.type, label: link.label });
+      connectedPairs.add(pairKey(node.id, link.targetId));
+    });
+  });
+
+  const namePatterns = nodes
+    .filter(n => typeof n.name === 'string' && n.name.trim().length >= MIN_MENTION_NAME_LENGTH)
+    .map(n => ({ id: n.id, pattern: new RegExp(`\\b${escapeRegExp(n.name.trim())}\\b`, 'i') }));
+
+  nodes.forEach(node => {
+    if (!node.longDescription) return;
+    namePatterns.forEach(({ id, pattern }) => {
+      if (id === node.id || connectedPairs.has(pairKey(node.id, id))) return;
+      if (pattern.test(node.longDescription)) {
+        edges.push({ sourceId: node.id, targetId: id, kind: 'mention' });
+        connectedPairs.add(pairKey(node.id, id));
+      }
+    });
+  });
+
+  return edges;
+}
+
+/**
+ * Computes the center of each node type cluster, spread on a circle around the canvas center.
+ * @param types The distinct node types.
+ * @param options Canvas size.
+ * @returns A map from lower-cased type to cluster center.
+ */
+export function computeTypeCenters(types: string[], options: GraphLayoutOptions): Map<string, GraphPosition> {
+  const centers = new Map<string, GraphPosition>();
+  const cx = options.width / 2;
+  const cy = options.height / 2;
+  const radius = types.length > 1 ? Math.min(options.width, options.height) * 0.32 : 0;
+
+  types.forEach((type, index) => {
+    const angle = (2 * Math.PI * index) / types.length;
+    centers.set(type.toLowerCase(), { x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+  });
+  return centers;
+}
+
+/**
+ * Runs a deterministic force-directed layout: nodes repel each other, edges act as springs
+ * and every node is pulled toward the center of its type cluster.
+ * @param nodes The nodes to place.
+ * @param edges The edges between them.
+ * @param options Canvas size and number of simulation steps.
+ * @returns A map from node id to position.
+ */
+export function computeForceLayout(nodes: Node[], edges: GraphEdge[], options: GraphLayoutOptions): Map<string, GraphPosition> {
+  const iterations = options.iterations ?? 250;
+  const types = Array.from(new Set(nodes.map(n => (n.type || 'unknown').toLowerCase())));
+  const typeCenters = computeTypeCenters(types, options);
+  const idealEdgeLength = 90;
+  const repulsion = 6000;
+  const clusterPull = 0.02;
+
+  // Seed positions around the type centers (golden angle spiral, so the result is stable between renders)
+  const positions = new Map<string, GraphPosition>();
+  const typeCounters = new Map<string, number>();
+  nodes.forEach(node => {
+    const typeKey = (node.type || 'unknown').toLowerCase();
+    const center = typeCenters.get(typeKey)!;
+    const count = typeCounters.get(typeKey) || 0;
+    typeCounters.set(typeKey, count + 1);
+    const angle = count * 2.399963;
+    const distance = 20 * Math.sqrt(count + 1);
+    positions.set(node.id, { x: center.x + distance * Math.cos(angle), y: center.y + distance * Math.sin(angle) });
+  });
+
+  const edgeList = edges.filter(e => positions.has(e.sourceId) && positions.has(e.targetId));
+
+  for (let step = 0; step < iterations; step++) {
+    const temperature = 1 - step / iterations;
+    const forces = new Map<string, GraphPosition>();
+    nodes.forEach(n => forces.set(n.id, { x: 0, y: 0 }));
+
+    // Repulsion between every pair of nodes
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = positions.get(nodes[i].id)!;
+        const b = positions.get(nodes[j].id)!;
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        let distanceSq = dx * dx + dy * dy;
+        if (distanceSq < 0.01) {
+          dx = (i - j) * 0.1;
+          dy = 0.1;
+          distanceSq = dx * dx + dy * dy;
+        }
+        const distance = Math.sqrt(distanceSq);
+        const force = repulsion / distanceSq;
+        const fa = forces.get(nodes[i].id)!;
+        const fb = forces.get(nodes[j].id)!;
+        fa.x += (dx / distance) * force;
+        fa.y += (dy / distance) * force;
+        fb.x -= (dx / distance) * force;
+        fb.y -= (dy / distance) * force;
+      }
+    }
+
+    // Springs along edges (mentions are weaker than explicit links)
+    edgeList.forEach(edge => {
+      const a = positions.get(edge.sourceId)!;
+      const b = positions.get(edge.targetId)!;
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      const strength = edge.kind === 'link' ? 0.05 : 0.02;
+      const force = (distance - idealEdgeLength) * strength;
+      const fa = forces.get(edge.sourceId)!;
+      const fb = forces.get(edge.targetId)!;
+      fa.x += (dx / distance) * force;
+      fa.y += (dy / distance) * force;
+      fb.x -= (dx / distance) * force;
+      fb.y -= (dy / distance) * force;
+    });
+
+    // Pull toward the type cluster and apply, with a cooling step limit
+    const maxStep = 30 * temperature + 1;
+    nodes.forEach(node => {
+      const position = positions.get(node.id)!;
+      const force = forces.get(node.id)!;
+      const center = typeCenters.get((node.type || 'unknown').toLowerCase())!;
+      force.x += (center.x - position.x) * clusterPull;
+      force.y += (center.y - position.y) * clusterPull;
+      const magnitude = Math.sqrt(force.x * force.x + force.y * force.y);
+      if (magnitude > 0) {
+        const stepSize = Math.min(magnitude, maxStep);
+        position.x += (force.x / magnitude) * stepSize;
+        position.y += (force.y / magnitude) * stepSize;
+      }
+    });
+  }
+
+  return positions;
+}
+
+/**
+ * Collects the ids of nodes created or updated by a node edition, for highlighting.
+ * @param nodeEdition The last applied node edition (n_nodes / u_nodes).
+ * @returns The set of touched node ids.
+ */
+export function getTouchedNodeIds(nodeEdition: { n_nodes?: Node[]; u_nodes?: { [nodeId: string]: unknown } } | null | undefined): Set<string> {
+  const touched = new Set<string>();
+  if (!nodeEdition) return touched;
+  (nodeEdition.n_nodes || []).forEach(node => node?.id && touched.add(node.id));
+  Object.keys(nodeEdition.u_nodes || {}).forEach(nodeId => touched.add(nodeId));
+  return touched;
+}
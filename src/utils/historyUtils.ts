@@ -0,0 +1,96 @@
+import LZString from 'lz-string';
+import { Node } from '../models/Node';
+import { Message } from '../context/ChatContext';
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+export interface HistoryEntry {
+  id: string;
+  label: string;          // What produced this step ("LLM node edition", "Delete node"...)
+  callId?: string;        // LLM call (or synthetic call) id when the step came from a node edition
+  timestamp: string;
+  nodeCount: number;
+  messageCount: number;
+  compressedNodes: string; // LZString-compressed JSON, same format as the `nodeGraph` save
+  compressedChat: string;  // LZString-compressed JSON of the chat history
+  compressedMoxusMemory?: string; // LZString-compressed JSON of the Moxus memory, when it was captured
+}
+
+/**
+ * Captures a compressed snapshot of the node graph, chat history and, when given, Moxus memory.
+ * The transient `updateImage` flag is stripped, as in the `nodeGraph` save.
+ * @param nodes The node graph to snapshot.
+ * @param chatHistory The chat history to snapshot.
+ * @param label Human-readable description of the mutation about to happen.
+ * @param callId Optional id of the LLM call that produced the mutation.
+ * @param moxusMemory Optional Moxus memory to snapshot, used when forking a playthrough.
+ */
+export function createHistoryEntry(nodes: Node[], chatHistory: Message[], label: string, callId?: string, moxusMemory?: any): HistoryEntry {
+  const nodesToSave = nodes.map(({ updateImage, ...rest }) => rest);
+  return {
+    id: `hist-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`,
+    label,
+    callId,
+    timestamp: new Date().toISOString(),
+    nodeCount: nodes.length,
+    messageCount: chatHistory.length,
+    compressedNodes: LZString.compress(JSON.stringify(nodesToSave)),
+    compressedChat: LZString.compress(JSON.stringify(chatHistory)),
+    compressedMoxusMemory: moxusMemory === undefined ? undefined : LZString.compress(JSON.stringify(moxusMemory))
+  };
+}
+
+/**
+ * Decompresses a history entry back into nodes, chat history and Moxus memory.
+ * @returns The snapshot, or null if the entry is corrupted.
+ */
+export function restoreHistoryEntry(entry: HistoryEntry): { nodes: Node[]; chatHistory: Message[]; moxusMemory?: any } | null {
+  try {
+    const nodesJson = LZString.decompress(entry.compressedNodes);
+    const chatJson = LZString.decompress(entry.compressedChat);
+    if (!nodesJson || !chatJson) return null;
+    const moxusJson = entry.compressedMoxusMemory ? LZString.decompress(entry.compressedMoxusMemory) : null;
+    if (entry.compressedMoxusMemory && !moxusJson) return null;
+    return {
+      nodes: JSON.parse(nodesJson),
+      chatHistory: JSON.parse(chatJson),
+      moxusMemory: moxusJson ? JSON.parse(moxusJson) : undefined
+    };
+  } catch (error) {
+    console.error(`Error restoring history entry ${entry.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Appends an entry to a stack, dropping the oldest entries beyond the limit.
+ */
+export function pushBounded(stack: HistoryEntry[], entry: HistoryEntry, limit: number = MAX_HISTORY_ENTRIES): HistoryEntry[] {
+  const next = [...stack, entry];
+  return next.length > limit ? next.slice(next.length - limit) : next;
+}
+
+/**
+ * Finds the node graph and Moxus memory as they were once the chat had a given length, using
+ * the snapshots recorded afterwards: the first snapshot taken when the chat was longer holds
+ * the state produced by every mutation made up to that point.
+ * That holds only when the snapshot before it still is in the stack (older ones are dropped
+ * past the limit and none survive a reload), was taken at or before that point, and the
+ * snapshot shares the kept messages of the current chat (a loaded slot or an undo starts
+ * another story).
+ * @param entries The undo stack, oldest first.
+ * @param chatHistory The current chat history.
+ * @param chatLength Number of chat messages kept.
+ * @returns The snapshot, or null if the state at that point is unknown.
+ */
+export function findSnapshotAtChatLength(entries: HistoryEntry[], chatHistory: Message[], chatLength: number): { nodes: Node[]; moxusMemory?: any } | null {
+  const index = entries.findIndex(candidate => candidate.messageCount > chatLength);
+  if (index < 1) return null;
+  const entry = entries[index];
+  if (entry.compressedMoxusMemory === undefined) return null;
+  const snapshot = restoreHistoryEntry(entry);
+  if (!snapshot) return null;
+  const keptMessages = (messages: Message[]) => JSON.stringify(messages.slice(0, chatLength).map(({ role, content }) => [role, content]));
+  if (keptMessages(snapshot.chatHistory) !== keptMessages(chatHistory)) return null;
+  return { nodes: snapshot.nodes, moxusMemory: snapshot.moxusMemory };
+}
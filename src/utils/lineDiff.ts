@@ -0,0 +1,45 @@
+export interface LineDiffPart {
+  type: 'same' | 'added' | 'removed';
+  line: string;
+}
+
+/**
+ * Line-by-line diff of two texts, from the longest common subsequence of their lines.
+ * Removed lines come before the lines added in their place.
+ * @param before The original text.
+ * @param after The updated text.
+ */
+export function diffLines(before: string, after: string): LineDiffPart[] {
+  const beforeLines = before.split('\n');
+  const afterLines = after.split('\n');
+  const rows = beforeLines.length;
+  const columns = afterLines.length;
+
+  // common[i][j]: length of the common subsequence of beforeLines[i..] and afterLines[j..]
+  const common: number[][] = Array.from({ length: rows + 1 }, () => new Array(columns + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      common[i][j] = beforeLines[i] === afterLines[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const parts: LineDiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < columns) {
+    if (beforeLines[i] === afterLines[j]) {
+      parts.push({ type: 'same', line: beforeLines[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      parts.push({ type: 'removed', line: beforeLines[i++] });
+    } else {
+      parts.push({ type: 'added', line: afterLines[j++] });
+    }
+  }
+  while (i < rows) parts.push({ type: 'removed', line: beforeLines[i++] });
+  while (j < columns) parts.push({ type: 'added', line: afterLines[j++] });
+  return parts;
+}
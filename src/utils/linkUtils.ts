@@ -0,0 +1,90 @@
+import { Node, NodeLink } from '../models/Node';
+
+const isSameLink = (a: Partial<NodeLink>, b: Partial<NodeLink>): boolean => {
+  if (a.targetId !== b.targetId) return false;
+  // A removal entry without a type matches every link to the target
+  if (!a.type || !b.type) return true;
+  return a.type.toLowerCase() === b.type.toLowerCase();
+};
+
+/**
+ * Drops malformed entries and duplicates from a list of links coming from the LLM or an import.
+ * @param links The raw links value (anything the LLM produced).
+ * @param ownerId Optional id of the node holding the links, self-references are removed.
+ * @returns A clean array of NodeLink objects.
+ */
+export function sanitizeLinks(links: any, ownerId?: string): NodeLink[] {
+  if (!Array.isArray(links)) return [];
+
+  const result: NodeLink[] = [];
+  for (const link of links) {
+    if (!link || typeof link !== 'object') continue;
+    if (typeof link.targetId !== 'string' || !link.targetId) continue;
+    if (typeof link.type !== 'string' || !link.type.trim()) continue;
+    if (ownerId && link.targetId === ownerId) continue;
+
+    const cleanLink: NodeLink = { targetId: link.targetId, type: link.type.trim() };
+    if (typeof link.label === 'string' && link.label.trim()) {
+      cleanLink.label = link.label.trim();
+    }
+
+    const existingIndex = result.findIndex(l => l.targetId === cleanLink.targetId && l.type.toLowerCase() === cleanLink.type.toLowerCase());
+    if (existingIndex !== -1) {
+      result[existingIndex] = cleanLink; // Last definition wins (keeps the most recent label)
+    } else {
+      result.push(cleanLink);
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies add/remove instructions to a node's links.
+ * @param currentLinks The node's current links (may be undefined).
+ * @param toAdd Links to add. An existing link with the same target and type gets its label updated.
+ * @param toRemove Links to remove, matched on targetId and, when provided, type.
+ * @param ownerId Id of the node holding the links.
+ * @returns The new links array.
+ */
+export function applyLinkChanges(currentLinks: NodeLink[] | undefined, toAdd: any[] = [], toRemove: any[] = [], ownerId?: string): NodeLink[] {
+  const removals = (Array.isArray(toRemove) ? toRemove : [])
+    .map(entry => typeof entry === 'string' ? { targetId: entry } : entry)
+    .filter(entry => entry && typeof entry.targetId === 'string');
+
+  const kept = (currentLinks || []).filter(link => !removals.some(removal => isSameLink(removal, link)));
+  return sanitizeLinks([...kept, ...(Array.isArray(toAdd) ? toAdd : [])], ownerId);
+}
+
+/**
+ * Removes every link pointing to one of the given node ids (cascade cleanup after deletions).
+ * Nodes that are not affected are returned as-is so reference equality is preserved.
+ * @param nodes The nodes to clean.
+ * @param deletedIds Ids of nodes that no longer exist.
+ * @returns The cleaned nodes and whether anything changed.
+ */
+export function removeLinksToNodes(nodes: Node[], deletedIds: Set<string>): { nodes: Node[]; changed: boolean } {
+  let changed = false;
+  const cleanedNodes = nodes.map(node => {
+    if (!node.links || node.links.length === 0) return node;
+    const remainingLinks = node.links.filter(link => !deletedIds.has(link.targetId));
+    if (remainingLinks.length === node.links.length) return node;
+    changed = true;
+    return { ...node, links: remainingLinks };
+  });
+  return { nodes: cleanedNodes, changed };
+}
+
+/**
+ * Formats a node's outgoing links for inclusion in prompts, e.g. "owns -> Rusty Sword (id: x1) [left hand]".
+ * @param node The node whose links are described.
+ * @param nodes All nodes, used to resolve target names.
+ * @returns A comma separated description, or an empty string when the node has no links.
+ */
+export function formatLinksForPrompt(node: Node, nodes: Node[]): string {
+  if (!node.links || node.links.length === 0) return '';
+  return node.links.map(link => {
+    const target = nodes.find(n => n.id === link.targetId);
+    const targetName = target ? target.name : 'unknown node';
+    return `${link.type} -> ${targetName} (id: ${link.targetId})${link.label ? ` [${link.label}]` : ''}`;
+  }).join(', ');
+}
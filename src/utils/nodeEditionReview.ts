@@ -0,0 +1,106 @@
+import { Node } from '../models/Node';
+import { LLMNodeEditionResponse, NodeSpecificUpdates } from '../models/nodeOperations';
+import { applyNodeUpdates } from './nodeUpdateUtils';
+
+export type ReviewItemKind = 'new' | 'update' | 'delete';
+export type ReviewDecision = 'accept' | 'reject';
+
+export interface ReviewItem {
+  key: string;             // Stable key: "<kind>:<nodeId>"
+  kind: ReviewItemKind;
+  nodeId: string;
+  before?: Node;           // Current node (update/delete)
+  after?: Node;            // Node once the operation lands (new/update)
+  warnings: string[];      // Problems found while previewing (unknown id, failed diff...)
+}
+
+// Fields the player can edit by hand in the review
+export type EditableNodeFields = Pick<Node, 'name' | 'type' | 'longDescription'>;
+
+const EDITABLE_FIELDS: (keyof EditableNodeFields)[] = ['name', 'type', 'longDescription'];
+
+export const getReviewKey = (kind: ReviewItemKind, nodeId: string) => `${kind}:${nodeId}`;
+
+/**
+ * Previews every operation of a node edition against the current nodes, one review item per operation.
+ */
+export function buildReviewItems(nodeEdition: LLMNodeEditionResponse, nodes: Node[]): ReviewItem[] {
+  const items: ReviewItem[] = [];
+
+  (nodeEdition.n_nodes || []).forEach(newNode => {
+    const warnings = nodes.some(n => n.id === newNode.id) ? [`A node with id ${newNode.id} already exists; it will be skipped.`] : [];
+    items.push({ key: getReviewKey('new', newNode.id), kind: 'new', nodeId: newNode.id, after: newNode, warnings });
+  });
+
+  Object.entries(nodeEdition.u_nodes || {}).forEach(([nodeId, updates]) => {
+    const before = nodes.find(n => n.id === nodeId);
+    if (!before) {
+      items.push({ key: getReviewKey('update', nodeId), kind: 'update', nodeId, warnings: [`Node ${nodeId} not found; the update will be skipped.`] });
+      return;
+    }
+    const result = applyNodeUpdates(before, updates);
+    items.push({ key: getReviewKey('update', nodeId), kind: 'update', nodeId, before, after: result.node, warnings: [...result.errors, ...result.warnings] });
+  });
+
+  (nodeEdition.d_nodes || []).forEach(nodeId => {
+    const before = nodes.find(n => n.id === nodeId);
+    const warnings = before ? [] : [`Node ${nodeId} not found.`];
+    items.push({ key: getReviewKey('delete', nodeId), kind: 'delete', nodeId, before, warnings });
+  });
+
+  return items;
+}
+
+/**
+ * Builds the node edition that will actually be applied, keeping only accepted entries.
+ * Entries without a decision are accepted. Hand edits replace the edited fields with `rpl`
+ * (on top of the original operations for updates, or directly on the node for new nodes).
+ * @param nodeEdition The edition proposed by the LLM.
+ * @param decisions Decision per review key.
+ * @param edits Hand-edited fields per review key.
+ */
+export function buildApprovedNodeEdition(
+  nodeEdition: LLMNodeEditionResponse,
+  decisions: { [key: string]: ReviewDecision },
+  edits: { [key: string]: Partial<EditableNodeFields> } = {}
+): LLMNodeEditionResponse {
+  const isAccepted = (key: string) => decisions[key] !== 'reject';
+  const approved: LLMNodeEditionResponse = { callId: nodeEdition.callId };
+
+  const newNodes = (nodeEdition.n_nodes || [])
+    .filter(node => isAccepted(getReviewKey('new', node.id)))
+    .map(node => ({ ...node, ...edits[getReviewKey('new', node.id)] }));
+  if (newNodes.length > 0) approved.n_nodes = newNodes;
+
+  const updates: { [nodeId: string]: NodeSpecificUpdates } = {};
+  Object.entries(nodeEdition.u_nodes || {}).forEach(([nodeId, nodeUpdates]) => {
+    const key = getReviewKey('update', nodeId);
+    if (!isAccepted(key)) return;
+    const merged: NodeSpecificUpdates = { ...nodeUpdates };
+    const edit = edits[key] || {};
+    EDITABLE_FIELDS.forEach(field => {
+      if (edit[field] !== undefined) {
+        merged[field] = { rpl: edit[field] };
+      }
+    });
+    updates[nodeId] = merged;
+  });
+  if (Object.keys(updates).length > 0) approved.u_nodes = updates;
+
+  const deletions = (nodeEdition.d_nodes || []).filter(nodeId => isAccepted(getReviewKey('delete', nodeId)));
+  if (deletions.length > 0) approved.d_nodes = deletions;
+
+  return approved;
+}
+
+/**
+ * Short summary of what the player changed during review, for logs and Moxus.
+ */
+export function summarizeReview(items: ReviewItem[], decisions: { [key: string]: ReviewDecision }, edits: { [key: string]: Partial<EditableNodeFields> }): string {
+  const rejected = items.filter(item => decisions[item.key] === 'reject').map(item => item.key);
+  const edited = items.filter(item => decisions[item.key] !== 'reject' && edits[item.key] && Object.keys(edits[item.key]).length > 0).map(item => item.key);
+  const acceptedCount = items.length - rejected.length;
+  return `Accepted ${acceptedCount}/${items.length} operations.` +
+    (rejected.length > 0 ? ` Rejected: ${rejected.join(', ')}.` : '') +
+    (edited.length > 0 ? ` Edited by hand: ${edited.join(', ')}.` : '');
+}
@@ -0,0 +1,187 @@
+import { Node } from '../models/Node';
+import { FieldUpdateOperation, LLMNodeEditionResponse, NodeSpecificUpdates, TextDiffInstruction } from '../models/nodeOperations';
+import { applyTextDiffInstructionsWithReport } from './textUtils';
+import { applyNodeUpdates } from './nodeUpdateUtils';
+import { nodeTypeRegistry } from '../services/nodeTypeRegistry';
+
+export type NodeEditionIssueCode =
+  | 'unknown_node_id'          // u_nodes/d_nodes target a node that does not exist
+  | 'duplicate_new_id'         // Two n_nodes share the same id
+  | 'existing_new_id'          // An n_nodes id is already used by an existing node
+  | 'missing_new_node_fields'  // An n_nodes entry has no id or no name
+  | 'protected_node_deletion'  // d_nodes targets a node of a non-deletable type
+  | 'diff_mismatch'            // A df instruction's prev_txt is not found in the text, even fuzzily
+  | 'invalid_operation'        // An operation that does not fit the field (skipped by updateGraph)
+  | 'missing_required_field';  // An n_nodes entry lacks a field its node type requires
+
+export type NodeEditionIssueSeverity = 'error' | 'warning';
+
+export interface NodeEditionIssue {
+  code: NodeEditionIssueCode;
+  severity: NodeEditionIssueSeverity; // 'error': the operation is dropped, 'warning': kept but has no or partial effect
+  nodeId: string;
+  field?: string;
+  message: string;
+}
+
+export interface NodeEditionValidationReport {
+  valid: boolean;                          // True when there is no error-level issue
+  issues: NodeEditionIssue[];
+  sanitizedEdition: LLMNodeEditionResponse; // The edition without the operations that failed validation
+}
+
+// Node types the LLM is never allowed to delete, as set in the node type registry
+export const isProtectedNodeType = (type: string | undefined) => !nodeTypeRegistry.isDeletable(type);
+
+/**
+ * Keeps the df instructions that match the text (exactly or fuzzily), applying them one after the other
+ * so later instructions are checked against the edited text.
+ */
+const validateDiffInstructions = (
+  text: string,
+  instructions: TextDiffInstruction[],
+  nodeId: string,
+  field: string,
+  issues: NodeEditionIssue[]
+): TextDiffInstruction[] => {
+  let workingText = text;
+  return instructions.filter(instruction => {
+    const occ = instruction.occ ?? 1;
+    const result = applyTextDiffInstructionsWithReport(workingText, [instruction]);
+    if (result.failed > 0) {
+      issues.push({
+        code: 'diff_mismatch',
+        severity: 'error',
+        nodeId,
+        field,
+        message: `Node ${nodeId}: could not find occurrence ${occ} of "${instruction.prev_txt}" in ${field}.`
+      });
+      return false;
+    }
+    workingText = result.text;
+    return true;
+  });
+};
+
+/**
+ * Checks a node edition against the current nodes and reports every problem found.
+ * Error-level operations are removed from `sanitizedEdition`; warnings are kept as-is
+ * since updateGraph already treats them as no-ops.
+ * @param nodeEdition The edition returned by the LLM.
+ * @param nodes The current nodes the edition will be applied to.
+ */
+export function validateNodeEdition(nodeEdition: LLMNodeEditionResponse, nodes: Node[]): NodeEditionValidationReport {
+  const issues: NodeEditionIssue[] = [];
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const sanitizedEdition: LLMNodeEditionResponse = { callId: nodeEdition.callId };
+
+  // 1. Deletions, processed first by updateGraph
+  const deletedIds = new Set<string>();
+  if (nodeEdition.d_nodes) {
+    sanitizedEdition.d_nodes = nodeEdition.d_nodes.filter(nodeId => {
+      const node = nodesById.get(nodeId);
+      if (!node) {
+        issues.push({ code: 'unknown_node_id', severity: 'warning', nodeId, message: `Cannot delete node ${nodeId}: it does not exist.` });
+        return true;
+      }
+      if (isProtectedNodeType(node.type)) {
+        issues.push({ code: 'protected_node_deletion', severity: 'error', nodeId, message: `Cannot delete node ${nodeId} (${node.name}): nodes of type "${node.type}" are protected.` });
+        return false;
+      }
+      deletedIds.add(nodeId);
+      return true;
+    });
+  }
+
+  // 2. Updates
+  if (nodeEdition.u_nodes) {
+    const updates: { [nodeId: string]: NodeSpecificUpdates } = {};
+    Object.entries(nodeEdition.u_nodes).forEach(([nodeId, nodeUpdates]) => {
+      const node = nodesById.get(nodeId);
+      if (!node || deletedIds.has(nodeId)) {
+        issues.push({
+          code: 'unknown_node_id',
+          severity: 'error',
+          nodeId,
+          message: node ? `Cannot update node ${nodeId}: it is deleted in the same edition.` : `Cannot update node ${nodeId}: it does not exist.`
+        });
+        return;
+      }
+
+      const sanitizedUpdates: NodeSpecificUpdates = {};
+      Object.entries(nodeUpdates || {}).forEach(([field, operation]) => {
+        const fieldUpdate = operation as FieldUpdateOperation;
+        if (field === 'longDescription' && fieldUpdate && typeof fieldUpdate === 'object' && fieldUpdate.rpl === undefined && Array.isArray(fieldUpdate.df)) {
+          const validInstructions = validateDiffInstructions(node.longDescription || '', fieldUpdate.df, nodeId, field, issues);
+          if (validInstructions.length > 0) {
+            sanitizedUpdates[field] = { ...fieldUpdate, df: validInstructions };
+          }
+          return;
+        }
+        sanitizedUpdates[field] = operation;
+      });
+
+      applyNodeUpdates(node, sanitizedUpdates).warnings.forEach(warning => {
+        issues.push({ code: 'invalid_operation', severity: 'warning', nodeId, message: warning });
+      });
+
+      if (Object.keys(sanitizedUpdates).length > 0) {
+        updates[nodeId] = sanitizedUpdates;
+      }
+    });
+    sanitizedEdition.u_nodes = updates;
+  }
+
+  // 3. New nodes
+  if (nodeEdition.n_nodes) {
+    const newIds = new Set<string>();
+    sanitizedEdition.n_nodes = nodeEdition.n_nodes.filter(newNode => {
+      const nodeId = newNode?.id ? String(newNode.id) : '';
+      if (!nodeId || !newNode.name) {
+        issues.push({ code: 'missing_new_node_fields', severity: 'error', nodeId, message: `New node ${nodeId || '(no id)'} is missing its ${nodeId ? 'name' : 'id'}.` });
+        return false;
+      }
+      if (nodesById.has(nodeId) && !deletedIds.has(nodeId)) {
+        issues.push({ code: 'existing_new_id', severity: 'error', nodeId, message: `Cannot create node ${nodeId} (${newNode.name}): an existing node already uses this id.` });
+        return false;
+      }
+      if (newIds.has(nodeId)) {
+        issues.push({ code: 'duplicate_new_id', severity: 'error', nodeId, message: `Cannot create node ${nodeId} (${newNode.name}): another new node uses the same id.` });
+        return false;
+      }
+      newIds.add(nodeId);
+      const missingFields = nodeTypeRegistry.getMissingRequiredFields(newNode);
+      if (missingFields.length > 0) {
+        issues.push({ code: 'missing_required_field', severity: 'warning', nodeId, message: `New node ${nodeId} (${newNode.name}) of type "${newNode.type}" is missing: ${missingFields.join(', ')}.` });
+      }
+      return true;
+    });
+  }
+
+  return {
+    valid: !issues.some(issue => issue.severity === 'error'),
+    issues,
+    sanitizedEdition
+  };
+}
+
+export const getValidationErrors = (issues: NodeEditionIssue[]) => issues.filter(issue => issue.severity === 'error');
+
+/**
+ * Formats the error-level issues as a bullet list for the repair prompt.
+ */
+export function formatValidationIssuesForLLM(issues: NodeEditionIssue[]): string {
+  return getValidationErrors(issues)
+    .map(issue => `- [${issue.code}] ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Short chat message listing the operations that were skipped, or an empty string if none were.
+ */
+export function formatSkippedOperationsMessage(issues: NodeEditionIssue[]): string {
+  const errors = getValidationErrors(issues);
+  if (errors.length === 0) return '';
+  return `Skipped ${errors.length} invalid node operation${errors.length === 1 ? '' : 's'}:\n` +
+    errors.map(issue => `- ${issue.message}`).join('\n');
+}
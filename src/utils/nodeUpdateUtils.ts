@@ -0,0 +1,91 @@
+import { Node } from '../models/Node';
+import { FieldUpdateOperation, NodeSpecificUpdates } from '../models/nodeOperations';
+import { applyTextDiffInstructionsWithReport, TextDiffEditResult } from './textUtils';
+import { sanitizeLinks, applyLinkChanges } from './linkUtils';
+import { sanitizeAttributes, applyAttributeOperation, ATTRIBUTE_FIELD_PREFIX } from './attributeUtils';
+
+export interface NodeUpdateResult {
+  node: Node;
+  changed: boolean;
+  errors: string[];   // Text diffs that could not be applied
+  warnings: string[]; // Operations skipped because they do not fit the field
+  diffResults: TextDiffEditResult[]; // Outcome of each df instruction (exact, fuzzy or failed)
+}
+
+/**
+ * Applies the u_nodes entry of one node without side effects.
+ * Used by updateGraph and by previews that need the resulting node before it lands.
+ * @param originalNode The node to update (not mutated).
+ * @param updatesForNode The field operations for this node.
+ */
+export function applyNodeUpdates(originalNode: Node, updatesForNode: NodeSpecificUpdates): NodeUpdateResult {
+  const nodeId = originalNode.id;
+  const modifiedNode: Node = { ...originalNode };
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const diffResults: TextDiffEditResult[] = [];
+  let changed = false;
+
+  for (const fieldName in updatesForNode) {
+    if (fieldName === 'img_upd') continue;
+
+    const fieldUpdate = updatesForNode[fieldName] as FieldUpdateOperation;
+    if (!fieldUpdate || typeof fieldUpdate !== 'object') continue;
+
+    if (fieldName === 'attributes') {
+      if (fieldUpdate.rpl !== undefined) {
+        modifiedNode.attributes = sanitizeAttributes(fieldUpdate.rpl);
+        changed = true;
+      } else {
+        warnings.push(`Only 'rpl' is supported on the full attributes map of node ${nodeId}. Use 'attributes.<key>' for single attributes.`);
+      }
+    } else if (fieldName.startsWith(ATTRIBUTE_FIELD_PREFIX)) {
+      const attributeKey = fieldName.substring(ATTRIBUTE_FIELD_PREFIX.length);
+      const result = applyAttributeOperation(modifiedNode.attributes, attributeKey, fieldUpdate);
+      if (result.error) {
+        warnings.push(`Node ${nodeId}: ${result.error}`);
+      } else {
+        modifiedNode.attributes = result.attributes;
+        changed = true;
+      }
+    } else if (fieldName === 'links') {
+      if (fieldUpdate.rpl !== undefined) {
+        modifiedNode.links = sanitizeLinks(fieldUpdate.rpl, nodeId);
+      } else {
+        modifiedNode.links = applyLinkChanges(modifiedNode.links, fieldUpdate.add, fieldUpdate.rmv, nodeId);
+      }
+      changed = true;
+    } else if (fieldUpdate.rpl !== undefined) {
+      (modifiedNode as any)[fieldName] = fieldUpdate.rpl;
+      changed = true;
+    } else if (fieldUpdate.df && fieldName === 'longDescription') {
+      const currentText = (originalNode as any)[fieldName];
+      if (typeof currentText === 'string') {
+        try {
+          const diffResult = applyTextDiffInstructionsWithReport(currentText, fieldUpdate.df);
+          diffResults.push(...diffResult.edits);
+          diffResult.edits.filter(edit => edit.status === 'failed').forEach(edit => {
+            errors.push(`Could not apply text diff to node ${nodeId}, field ${fieldName}: "${edit.edit.prev_txt}" not found.`);
+          });
+          if (diffResult.text !== currentText) {
+            (modifiedNode as any)[fieldName] = diffResult.text;
+            changed = true;
+          }
+        } catch (e) {
+          errors.push(`Error applying text diff to node ${nodeId}, field ${fieldName}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      } else {
+        warnings.push(`Field ${fieldName} on node ${nodeId} is not a string, cannot apply diff.`);
+      }
+    } else if (fieldUpdate.df) {
+      warnings.push(`'diff' operation attempted on non-string or unsupported field '${fieldName}' for node ${nodeId}.`);
+    }
+  }
+
+  if (updatesForNode.img_upd === true) {
+    modifiedNode.updateImage = true;
+    changed = true;
+  }
+
+  return { node: modifiedNode, changed, errors, warnings, diffResults };
+}
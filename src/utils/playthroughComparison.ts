@@ -0,0 +1,155 @@
+import { Node } from '../models/Node';
+import { Message } from '../context/ChatContext';
+import { formatAttributesForPrompt } from './attributeUtils';
+import { formatLinksForPrompt } from './linkUtils';
+
+export interface PlaythroughSave {
+  nodes: Node[];
+  chatHistory: Message[];
+  moxusMemory?: any;
+}
+
+export interface NodeFieldDiff {
+  field: string;
+  left: string;
+  right: string;
+}
+
+export interface NodeMatch {
+  left: Node;
+  right: Node;
+  matchedBy: 'id' | 'name';
+  fieldDiffs: NodeFieldDiff[];
+}
+
+export interface NodeComparison {
+  matched: NodeMatch[];
+  onlyLeft: Node[];
+  onlyRight: Node[];
+}
+
+export interface ChatTurn {
+  userInput?: string;     // Undefined for the introduction before the first user message
+  responses: string[];    // Assistant messages of the turn
+}
+
+export interface ChatTurnPair {
+  index: number;
+  left?: ChatTurn;
+  right?: ChatTurn;
+}
+
+const COMPARED_TEXT_FIELDS: (keyof Node)[] = ['name', 'type', 'longDescription'];
+
+/**
+ * Parses an exported save (the format written by "Export save").
+ * @throws Error if the JSON is invalid or has no nodes array.
+ */
+export function parsePlaythroughSave(json: string): PlaythroughSave {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid save file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || !Array.isArray(parsed.nodes)) {
+    throw new Error('Invalid save file: missing "nodes" array.');
+  }
+  return {
+    nodes: parsed.nodes,
+    chatHistory: Array.isArray(parsed.chatHistory) ? parsed.chatHistory : [],
+    moxusMemory: parsed.moxusMemory
+  };
+}
+
+const normalizeName = (name: string | undefined) => (name || '').trim().toLowerCase();
+
+const getFieldDiffs = (left: Node, right: Node, leftNodes: Node[], rightNodes: Node[]): NodeFieldDiff[] => {
+  const diffs: NodeFieldDiff[] = [];
+  COMPARED_TEXT_FIELDS.forEach(field => {
+    const leftValue = String(left[field] ?? '');
+    const rightValue = String(right[field] ?? '');
+    if (leftValue !== rightValue) {
+      diffs.push({ field, left: leftValue, right: rightValue });
+    }
+  });
+
+  const leftAttributes = formatAttributesForPrompt(left.attributes);
+  const rightAttributes = formatAttributesForPrompt(right.attributes);
+  if (leftAttributes !== rightAttributes) {
+    diffs.push({ field: 'attributes', left: leftAttributes, right: rightAttributes });
+  }
+
+  // Links are compared by target name so branches with different generated ids still line up
+  const leftLinks = formatLinksForPrompt(left, leftNodes).replace(/ \(id: [^)]*\)/g, '');
+  const rightLinks = formatLinksForPrompt(right, rightNodes).replace(/ \(id: [^)]*\)/g, '');
+  if (leftLinks !== rightLinks) {
+    diffs.push({ field: 'links', left: leftLinks, right: rightLinks });
+  }
+  return diffs;
+};
+
+/**
+ * Matches the nodes of two playthroughs, first by id, then by case-insensitive name.
+ * @returns Matched pairs with their field-level differences, and the nodes found on one side only.
+ */
+export function compareNodes(leftNodes: Node[], rightNodes: Node[]): NodeComparison {
+  const matched: NodeMatch[] = [];
+  const unmatchedRight = new Map(rightNodes.map(node => [node.id, node]));
+  const leftWithoutId: Node[] = [];
+
+  leftNodes.forEach(left => {
+    const right = unmatchedRight.get(left.id);
+    if (right) {
+      unmatchedRight.delete(left.id);
+      matched.push({ left, right, matchedBy: 'id', fieldDiffs: getFieldDiffs(left, right, leftNodes, rightNodes) });
+    } else {
+      leftWithoutId.push(left);
+    }
+  });
+
+  const onlyLeft: Node[] = [];
+  leftWithoutId.forEach(left => {
+    const right = Array.from(unmatchedRight.values()).find(candidate => normalizeName(candidate.name) === normalizeName(left.name));
+    if (right && normalizeName(left.name)) {
+      unmatchedRight.delete(right.id);
+      matched.push({ left, right, matchedBy: 'name', fieldDiffs: getFieldDiffs(left, right, leftNodes, rightNodes) });
+    } else {
+      onlyLeft.push(left);
+    }
+  });
+
+  return { matched, onlyLeft, onlyRight: Array.from(unmatchedRight.values()) };
+}
+
+/**
+ * Groups a chat history into turns: each user message with the assistant messages that follow it.
+ * Debug messages (reasoning, nodeEdition, moxus...) are ignored.
+ */
+export function splitChatIntoTurns(chatHistory: Message[]): ChatTurn[] {
+  const turns: ChatTurn[] = [];
+  chatHistory.forEach(message => {
+    if (message.role === 'user') {
+      turns.push({ userInput: message.content, responses: [] });
+    } else if (message.role === 'assistant') {
+      if (turns.length === 0) {
+        turns.push({ responses: [] });
+      }
+      turns[turns.length - 1].responses.push(message.content);
+    }
+  });
+  return turns;
+}
+
+/**
+ * Aligns two chat histories turn by turn. The shorter side has empty slots at the end.
+ */
+export function alignChatTurns(leftHistory: Message[], rightHistory: Message[]): ChatTurnPair[] {
+  const leftTurns = splitChatIntoTurns(leftHistory);
+  const rightTurns = splitChatIntoTurns(rightHistory);
+  const pairs: ChatTurnPair[] = [];
+  for (let index = 0; index < Math.max(leftTurns.length, rightTurns.length); index++) {
+    pairs.push({ index, left: leftTurns[index], right: rightTurns[index] });
+  }
+  return pairs;
+}
@@ -0,0 +1,157 @@
+export interface PromptTemplateContext {
+  wrappers?: Record<string, string>;  // utils.wrappers of the prompts: content placeholder -> section title
+  utils?: Record<string, unknown>;    // utils of the prompts, inserted by {utils.<name>}
+}
+
+export interface PromptTemplateReport {
+  unresolved: string[];               // Placeholders, wrappers, utils entries and conditions nothing provides
+  unused: string[];                   // Replacement keys the template never references
+}
+
+export interface RenderedPrompt extends PromptTemplateReport {
+  text: string;
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'placeholder'; name: string }
+  | { kind: 'if'; name: string; negated: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+// {name}, {utils.x}, {#if name}, {#unless name}, {#else}, {/if}, {/unless}. JSON examples ({ "key": ... }) do not match.
+const TAG_PATTERN = /\{(?:#(if|unless)\s+([A-Za-z_]\w*)|(#else)|\/(if|unless)|([A-Za-z_][\w.]*))\}/g;
+
+/**
+ * Error thrown for a malformed template, or by strict rendering when the report is not clean.
+ */
+export const createPromptTemplateError = (message: string, report?: PromptTemplateReport): Error =>
+  Object.assign(new Error(message), { name: 'PromptTemplateError', ...report });
+
+export const isPromptTemplateError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: string }).name === 'PromptTemplateError';
+
+/**
+ * Inserts utils entries and expands {utils.wrappers.<name>} into a titled section around {<name>}.
+ * Unknown entries are removed and reported.
+ */
+const expandUtils = (template: string, context: PromptTemplateContext, unresolved: Set<string>): string =>
+  template.replace(/\{utils\.([\w.]+)\}/g, (placeholder, path: string) => {
+    if (path.startsWith('wrappers.')) {
+      const contentName = path.substring('wrappers.'.length);
+      const title = context.wrappers?.[contentName];
+      if (typeof title !== 'string') {
+        unresolved.add(`utils.${path}`);
+        return '';
+      }
+      return `## ${title}:\n---- Start of ${title.toLowerCase()}\n{${contentName}}\n---- End of ${title.toLowerCase()}`;
+    }
+    const value = context.utils?.[path];
+    if (typeof value !== 'string') {
+      unresolved.add(`utils.${path}`);
+      return '';
+    }
+    return value;
+  });
+
+// A conditional tag alone on its line takes the line with it, so sections leave no blank lines
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{(?:#(?:if|unless)\s+[A-Za-z_]\w*|#else|\/(?:if|unless))\})[ \t]*\r?\n/gm;
+
+const parseTemplate = (source: string): TemplateNode[] => {
+  const template = source.replace(STANDALONE_TAG_PATTERN, '$1');
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last, with the branch tags are currently added to
+  const stack: { node: Extract<TemplateNode, { kind: 'if' }>; keyword: string; inElse: boolean }[] = [];
+  const current = () => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    return block.inElse ? block.node.otherwise : block.node.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of Array.from(template.matchAll(TAG_PATTERN))) {
+    const [tag, openKeyword, condition, elseTag, closeKeyword, name] = match;
+    const index = match.index as number;
+    if (index > lastIndex) current().push({ kind: 'text', text: template.substring(lastIndex, index) });
+    lastIndex = index + tag.length;
+
+    if (openKeyword) {
+      const node: TemplateNode = { kind: 'if', name: condition, negated: openKeyword === 'unless', then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, keyword: openKeyword, inElse: false });
+    } else if (elseTag) {
+      const block = stack[stack.length - 1];
+      if (!block || block.inElse) throw createPromptTemplateError(`Unexpected {#else} at character ${index}`);
+      block.inElse = true;
+    } else if (closeKeyword) {
+      const block = stack.pop();
+      if (!block || block.keyword !== closeKeyword) throw createPromptTemplateError(`Unexpected {/${closeKeyword}} at character ${index}`);
+    } else {
+      current().push({ kind: 'placeholder', name });
+    }
+  }
+  if (stack.length > 0) {
+    throw createPromptTemplateError(`{#${stack[stack.length - 1].keyword} ${stack[stack.length - 1].node.name}} is never closed`);
+  }
+  if (lastIndex < template.length) current().push({ kind: 'text', text: template.substring(lastIndex) });
+  return root;
+};
+
+// Names referenced anywhere in the template, including branches that are not rendered
+const collectNames = (nodes: TemplateNode[], into: Set<string>): Set<string> => {
+  nodes.forEach(node => {
+    if (node.kind === 'placeholder') into.add(node.name);
+    if (node.kind === 'if') {
+      into.add(node.name);
+      collectNames(node.then, into);
+      collectNames(node.otherwise, into);
+    }
+  });
+  return into;
+};
+
+const isPresent = (value: string | undefined): boolean => value !== undefined && value.trim() !== '';
+
+const renderNodes = (nodes: TemplateNode[], replacements: Record<string, string | undefined>): string =>
+  nodes.map(node => {
+    if (node.kind === 'text') return node.text;
+    if (node.kind === 'placeholder') return replacements[node.name] === undefined ? '' : String(replacements[node.name]);
+    const present = isPresent(replacements[node.name] === undefined ? undefined : String(replacements[node.name]));
+    return renderNodes(present !== node.negated ? node.then : node.otherwise, replacements);
+  }).join('');
+
+/**
+ * Renders a prompt template. Placeholders are {name}; {utils.wrappers.name} wraps {name} in a
+ * titled section; {utils.entry} inserts a utils entry. {#if name}...{#else}...{/if} keeps its first
+ * branch when the replacement is non-blank, {#unless name}...{/unless} when it is blank; a
+ * conditional tag alone on its line renders no line.
+ * Unresolved placeholders render as nothing; the report lists them, and the replacement keys the
+ * template never references, whatever branch is rendered.
+ * Throws a PromptTemplateError for unbalanced conditionals.
+ */
+export const renderPromptTemplate = (
+  template: string,
+  replacements: Record<string, string | undefined>,
+  context: PromptTemplateContext = {}
+): RenderedPrompt => {
+  const unresolved = new Set<string>();
+  const nodes = parseTemplate(expandUtils(template, context, unresolved));
+  const referenced = collectNames(nodes, new Set<string>());
+
+  referenced.forEach(name => {
+    if (!Object.prototype.hasOwnProperty.call(replacements, name)) unresolved.add(name);
+  });
+  return {
+    text: renderNodes(nodes, replacements),
+    unresolved: Array.from(unresolved),
+    unused: Object.keys(replacements).filter(key => !referenced.has(key))
+  };
+};
+
+/**
+ * Placeholders and condition names of a template, after expanding utils entries and wrappers.
+ * Throws a PromptTemplateError for unbalanced conditionals.
+ */
+export const getTemplatePlaceholders = (template: string, context: PromptTemplateContext = {}): { names: string[]; unresolvedUtils: string[] } => {
+  const unresolvedUtils = new Set<string>();
+  const names = collectNames(parseTemplate(expandUtils(template, context, unresolvedUtils)), new Set<string>());
+  return { names: Array.from(names), unresolvedUtils: Array.from(unresolvedUtils) };
+};
@@ -1,53 +1,269 @@
 import { TextDiffInstruction } from '../models/nodeOperations'; // Assuming TextDiffInstruction is in nodeOperations
 
+export type TextDiffMatchType = 'exact' | 'fuzzy' | 'failed';
+
+export interface TextDiffEditResult {
+  edit: TextDiffInstruction;
+  status: TextDiffMatchType;
+  similarity?: number;   // 1 for exact and normalized matches, the best score for similarity matches
+  matchedText?: string;  // The span of the text that was replaced (differs from prev_txt on fuzzy matches)
+}
+
+export interface TextDiffApplicationResult {
+  text: string;
+  edits: TextDiffEditResult[];
+  exact: number;
+  fuzzy: number;
+  failed: number;
+}
+
+export interface TextDiffOptions {
+  threshold?: number; // Minimum similarity (0-1) for a similarity-based match
+}
+
+// Minimum similarity for the best-span match; below this the edit fails
+export const FUZZY_MATCH_THRESHOLD = 0.85;
+
+// Shorter fragments are too ambiguous to match by similarity (e.g. "Neon" vs "Neo")
+const MIN_SIMILARITY_MATCH_LENGTH = 12;
+
+// Only the best candidates by word overlap get the (more expensive) edit distance check
+const MAX_SIMILARITY_CANDIDATES = 20;
+
+const CHARACTER_REPLACEMENTS: { [char: string]: string } = {
+  '‘': "'", '’': "'", '‚': "'", '‛': "'", '′': "'", '`': "'",
+  '“': '"', '”': '"', '„': '"', '‟': '"', '″': '"',
+  '–': '-', '—': '-', '−': '-',
+  '…': '...'
+};
+
+interface NormalizedText {
+  text: string;
+  starts: number[]; // Index in the source text of each normalized character
+  ends: number[];   // Index just after the source character(s) each normalized character comes from
+}
+
 /**
- * Applies a series of text diff instructions to a given string.
+ * Collapses whitespace runs to a single space and unifies quotes, dashes and ellipses,
+ * keeping a map back to the source positions.
+ */
+const normalizeWithMap = (source: string): NormalizedText => {
+  let text = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+  while (index < source.length) {
+    if (/\s/.test(source[index])) {
+      const start = index;
+      while (index < source.length && /\s/.test(source[index])) index++;
+      text += ' ';
+      starts.push(start);
+      ends.push(index);
+      continue;
+    }
+    const replacement = CHARACTER_REPLACEMENTS[source[index]] ?? source[index];
+    for (let i = 0; i < replacement.length; i++) {
+      text += replacement[i];
+      starts.push(index);
+      ends.push(index + 1);
+    }
+    index++;
+  }
+  return { text, starts, ends };
+};
+
+const findOccurrence = (text: string, fragment: string, occ: number): number => {
+  let index = -1;
+  let searchFrom = 0;
+  for (let count = 0; count < occ; count++) {
+    index = text.indexOf(fragment, searchFrom);
+    if (index === -1) return -1;
+    searchFrom = index + fragment.length;
+  }
+  return index;
+};
+
+const levenshteinDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity between two strings, from 0 (nothing in common) to 1 (identical), based on edit distance.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshteinDistance(a, b) / maxLength;
+}
+
+const toWordKey = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Finds the span of `normalizedText` most similar to `normalizedFragment`, over windows of whole words
+ * of roughly the fragment's length. Returns null if no window reaches the threshold.
+ */
+const findSimilarSpan = (
+  normalizedText: string,
+  normalizedFragment: string,
+  threshold: number
+): { start: number; end: number; similarity: number } | null => {
+  const words = Array.from(normalizedText.matchAll(/\S+/g)).map(match => ({ start: match.index!, end: match.index! + match[0].length, key: toWordKey(match[0]) }));
+  const fragmentKeys = normalizedFragment.split(/\s+/).filter(Boolean).map(toWordKey);
+  if (words.length === 0 || fragmentKeys.length < 2) return null;
+
+  const fragmentBag = new Map<string, number>();
+  fragmentKeys.forEach(key => fragmentBag.set(key, (fragmentBag.get(key) || 0) + 1));
+  const slack = Math.max(1, Math.ceil(fragmentKeys.length * 0.25));
+
+  const candidates: { start: number; end: number; overlap: number }[] = [];
+  for (let first = 0; first < words.length; first++) {
+    for (let length = Math.max(1, fragmentKeys.length - slack); length <= fragmentKeys.length + slack && first + length <= words.length; length++) {
+      const remaining = new Map(fragmentBag);
+      let shared = 0;
+      for (let i = first; i < first + length; i++) {
+        const count = remaining.get(words[i].key) || 0;
+        if (count > 0) {
+          shared++;
+          remaining.set(words[i].key, count - 1);
+        }
+      }
+      const overlap = shared / Math.max(length, fragmentKeys.length);
+      if (overlap >= 0.5) {
+        candidates.push({ start: words[first].start, end: words[first + length - 1].end, overlap });
+      }
+    }
+  }
+
+  const fragment = normalizedFragment.trim().toLowerCase();
+  let best: { start: number; end: number; similarity: number } | null = null;
+  const topCandidates = candidates
+    .sort((a, b) => b.overlap - a.overlap || a.start - b.start)
+    .slice(0, MAX_SIMILARITY_CANDIDATES);
+  for (const candidate of topCandidates) {
+    const similarity = textSimilarity(normalizedText.substring(candidate.start, candidate.end).toLowerCase(), fragment);
+    if (!best || similarity > best.similarity || (similarity === best.similarity && candidate.start < best.start)) {
+      best = { start: candidate.start, end: candidate.end, similarity };
+    }
+  }
+
+  return best && best.similarity >= threshold ? best : null;
+};
+
+/**
+ * Locates `prev_txt` in the text: exact match first, then after whitespace/quote normalization,
+ * then (for the first occurrence only) the most similar span above the threshold.
+ */
+const locateEdit = (
+  text: string,
+  prevText: string,
+  occ: number,
+  threshold: number
+): { start: number; end: number; status: 'exact' | 'fuzzy'; similarity: number } | null => {
+  const exactIndex = findOccurrence(text, prevText, occ);
+  if (exactIndex !== -1) {
+    return { start: exactIndex, end: exactIndex + prevText.length, status: 'exact', similarity: 1 };
+  }
+
+  const normalizedText = normalizeWithMap(text);
+  const normalizedFragment = normalizeWithMap(prevText).text;
+  if (!normalizedFragment.trim()) return null;
+
+  const normalizedIndex = findOccurrence(normalizedText.text, normalizedFragment, occ);
+  if (normalizedIndex !== -1) {
+    return {
+      start: normalizedText.starts[normalizedIndex],
+      end: normalizedText.ends[normalizedIndex + normalizedFragment.length - 1],
+      status: 'fuzzy',
+      similarity: 1
+    };
+  }
+
+  if (occ !== 1 || normalizedFragment.trim().length < MIN_SIMILARITY_MATCH_LENGTH) return null;
+
+  const span = findSimilarSpan(normalizedText.text, normalizedFragment, threshold);
+  if (!span) return null;
+  return {
+    start: normalizedText.starts[span.start],
+    end: normalizedText.ends[span.end - 1],
+    status: 'fuzzy',
+    similarity: span.similarity
+  };
+};
+
+/**
+ * Applies a series of text diff instructions and reports, for each one, whether it matched
+ * exactly, fuzzily (after normalization or by similarity), or failed and was skipped.
  * @param currentText The original string.
- * @param edits An array of TextDiffInstruction objects.
- * @returns The modified string.
+ * @param edits An array of TextDiffInstruction objects, applied in order.
+ * @param options Optional similarity threshold.
  */
-export function applyTextDiffInstructions(currentText: string, edits: TextDiffInstruction[]): string {
-  let newText = currentText;
+export function applyTextDiffInstructionsWithReport(
+  currentText: string,
+  edits: TextDiffInstruction[],
+  options: TextDiffOptions = {}
+): TextDiffApplicationResult {
+  const threshold = options.threshold ?? FUZZY_MATCH_THRESHOLD;
+  const result: TextDiffApplicationResult = { text: currentText, edits: [], exact: 0, fuzzy: 0, failed: 0 };
   if (!edits || edits.length === 0) {
-    return newText;
+    return result;
   }
 
   for (const edit of edits) {
-    let { prev_txt, next_txt, occ = 1 } = edit;
-    next_txt = next_txt ?? ""; // Treat null/undefined newContent as deletion intent
+    const { prev_txt, occ = 1 } = edit;
+    const next_txt = edit.next_txt ?? ""; // Treat null/undefined newContent as deletion intent
 
     if (!prev_txt) {
-      // If prev_txt is empty, this implies an append. 
-      // More complex insertion (e.g., at a specific index or relative to an anchor without removal) 
-      // would require a more detailed TextDiffInstruction structure.
-      // For now, an empty prev_txt with a non-empty next_txt means append.
+      // An empty prev_txt means append; more complex insertions would need a richer TextDiffInstruction.
       if (next_txt) { // Only append if there's something to append
-        newText += next_txt;
-        console.log(`applyTextDiff: Appended content. New length: ${newText.length}`);
+        result.text += next_txt;
+        console.log(`applyTextDiff: Appended content. New length: ${result.text.length}`);
       }
+      result.edits.push({ edit, status: 'exact', similarity: 1 });
+      result.exact++;
       continue;
     }
 
-    let startIndex = -1;
-    let currentOccurrence = 0;
-    let searchFromIndex = 0;
-    while (currentOccurrence < occ && searchFromIndex < newText.length) {
-      startIndex = newText.indexOf(prev_txt, searchFromIndex);
-      if (startIndex === -1) break; 
-      currentOccurrence++;
-      if (currentOccurrence === occ) break; 
-      searchFromIndex = startIndex + prev_txt.length; 
+    const match = locateEdit(result.text, prev_txt, occ, threshold);
+    if (!match) {
+      console.warn(`applyTextDiff: Could not find occurrence ${occ} of '${prev_txt.substring(0,50)}...'. Edit skipped:`, edit);
+      result.edits.push({ edit, status: 'failed' });
+      result.failed++;
+      continue;
     }
 
-    if (startIndex !== -1 && currentOccurrence === occ) {
-      newText = 
-        newText.substring(0, startIndex) + 
-        next_txt + 
-        newText.substring(startIndex + prev_txt.length);
+    const matchedText = result.text.substring(match.start, match.end);
+    result.text = result.text.substring(0, match.start) + next_txt + result.text.substring(match.end);
+    result.edits.push({ edit, status: match.status, similarity: match.similarity, matchedText });
+    if (match.status === 'exact') {
+      result.exact++;
       console.log(`applyTextDiff: Applied edit: replaced '${prev_txt.substring(0, 50)}...' with '${next_txt.substring(0,50)}...' (occurrence ${occ})`);
     } else {
-      console.warn(`applyTextDiff: Could not find occurrence ${occ} of '${prev_txt.substring(0,50)}...'. Edit skipped:`, edit);
+      result.fuzzy++;
+      console.log(`applyTextDiff: Applied fuzzy edit (similarity ${match.similarity.toFixed(2)}): replaced '${matchedText.substring(0, 50)}...' for '${prev_txt.substring(0, 50)}...'`);
     }
   }
-  return newText;
-} 
\ No newline at end of file
+  return result;
+}
+
+/**
+ * Applies a series of text diff instructions to a given string.
+ * See applyTextDiffInstructionsWithReport for the matching rules and per-edit results.
+ * @param currentText The original string.
+ * @param edits An array of TextDiffInstruction objects.
+ * @returns The modified string.
+ */
+export function applyTextDiffInstructions(currentText: string, edits: TextDiffInstruction[]): string {
+  return applyTextDiffInstructionsWithReport(currentText, edits).text;
+}
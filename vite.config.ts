@@ -2,10 +2,19 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import yaml from '@rollup/plugin-yaml';
+import { buildClientEnv, findBundledApiKeys } from './src/utils/clientEnv';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, command }) => {
   const env = loadEnv(mode, process.cwd(), '');
-  
+  const bundledKeys = findBundledApiKeys(env);
+  if (bundledKeys.length > 0) {
+    const message = `VITE_LLM_GATEWAY_URL is set but so is ${bundledKeys.join(', ')}: Vite would compile them into the bundle. Remove them from .env and the environment, the gateway reads its own keys.`;
+    if (command === 'build') {
+      throw new Error(message);
+    }
+    console.warn(`[vite] ${message}`);
+  }
+
   return {
     plugins: [
       react({
@@ -14,17 +23,7 @@ export default defineConfig(({ mode }) => {
       yaml()
     ],
     define: {
-      'import.meta.env': {
-        VITE_LLM_API: env.VITE_LLM_API,
-        VITE_IMG_API: env.VITE_IMG_API,
-        VITE_OAI_KEY: env.VITE_OAI_KEY,
-        VITE_OPENROUTER_KEY: env.VITE_OPENROUTER_KEY,
-        VITE_OAI_IMAGE_MODEL: env.VITE_OAI_IMAGE_MODEL,
-        VITE_OPENROUTER_IMAGE_MODEL: env.VITE_OPENROUTER_IMAGE_MODEL,
-        VITE_LLM_HOST: env.VITE_LLM_HOST,
-        VITE_IMG_HOST: env.VITE_IMG_HOST,
-        VITE_BRAVE_API_KEY: env.VITE_BRAVE_API_KEY
-      }
+      'import.meta.env': buildClientEnv(env)
     },
     server: {
       proxy: {